@@ -0,0 +1,6 @@
+#!/usr/bin/env ts-node
+import { DeclareChecker } from '@ornorm/aspectT';
+
+const exitCode: number = DeclareChecker.main(process.argv.slice(2));
+
+process.exit(exitCode);
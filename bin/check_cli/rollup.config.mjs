@@ -0,0 +1,28 @@
+import typescript from 'rollup-plugin-typescript2';
+import { terser } from 'rollup-plugin-terser';
+import nodeResolve from '@rollup/plugin-node-resolve';
+import commonjs from '@rollup/plugin-commonjs';
+
+export default {
+  input: 'bin/check_cli/index.ts',
+  output: {
+    file: 'dist/check_cli/index.js',
+    format: 'cjs',
+    sourcemap: true
+  },
+  plugins: [
+    nodeResolve(),
+    commonjs(),
+    typescript({
+      tsconfig: 'bin/check_cli/tsconfig.json'
+    }),
+    terser()
+  ],
+  external: [
+    'inquirer',
+    'reflect-metadata',
+    'shelljs',
+    'ts-morph',
+    '@ornorm/aspectT'
+  ]
+};
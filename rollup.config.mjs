@@ -10,6 +10,7 @@ export default {
   },
   external: [
     'ts-morph',
+    'typescript',
     'fs',
     'path',
     'triple-beam',
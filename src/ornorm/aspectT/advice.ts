@@ -5,6 +5,7 @@ import {
     MethodDeclarationStructure,
     SourceFile
 } from 'ts-morph';
+import {Formal, PointcutParser} from './parser';
 
 /*
 Advice Declarations
@@ -59,10 +60,12 @@ const sourceFile: SourceFile = project.createSourceFile('advice.ts', '', { overw
  * Creates an advice method.
  * @param name - The name of the advice.
  * @param type - The type of the advice (before, after, around).
- * @param formals - The formal parameters of the advice.
+ * @param formals - The formal parameters of the advice, e.g. `int i, Object o`,
+ * each one a parameter of the method bound by name by `args`, `this` or `target`.
  * @param pointcut - The pointcut expression.
  * @param body - The body of the advice.
  * @returns The created advice method.
+ * @throws PointcutSyntaxError if the pointcut expression or the formals are not valid.
  */
 export function createAdvice(
     name: string,
@@ -71,15 +74,16 @@ export function createAdvice(
     pointcut: string,
     body: string
 ): MethodDeclarationStructure {
+    PointcutParser.parse(pointcut);
     return {
         name: name,
-        parameters: formals ? formals.split(',').map(param => ({ name: param.trim() })) : [],
+        parameters: PointcutParser.parseFormals(formals).map((formal: Formal) => ({ name: formal.name })),
         statements: [body],
         returnType: type === 'around' ? 'any' : 'void',
         decorators: [
             {
                 name: 'Advice',
-                arguments: [`${type}(${formals}) : ${pointcut}`],
+                arguments: [JSON.stringify(`${type}(${formals}) : ${pointcut}`)],
                 kind: StructureKind.Decorator
             }
         ],
@@ -6,8 +6,13 @@ import {
     MethodDeclarationStructure,
     ConstructorDeclarationStructure,
     PropertyDeclarationStructure,
-    Scope, ExpressionWithTypeArguments
+    Scope, ExpressionWithTypeArguments,
+    CodeBlockWriter,
+    WriterFunction
 } from 'ts-morph';
+import {PointcutParser} from './parser';
+import {Annotations} from './types';
+import {InterTypes} from './weaver';
 
 /*
 Aspects
@@ -278,17 +283,32 @@ export type MethodForm<T = any, R = any> = (value: T) => R;
 export type PropertyForm<T = any> = T;
 
 /**
- * Type alias for an array of member declarations.
- * Represents an array that can contain method, constructor, or property declarations.
+ * Type alias for an `inter-type` member declaration.
+ * Represents a method, constructor, or property declaration owned by the
+ * `onType` type, e.g. `Foo.m(int)`, `Point.new(..)` or `Point.x = foo()`.
+ * A private scope makes the member only visible in the declaring aspect.
  * @see MethodDeclarationStructure
  * @see ConstructorDeclarationStructure
  * @see PropertyDeclarationStructure
  */
-export type MemberDeclarationsArray =
-    Array<MethodDeclarationStructure | ConstructorDeclarationStructure | PropertyDeclarationStructure>;
+export type InterTypeMemberStructure =
+    (MethodDeclarationStructure | ConstructorDeclarationStructure | PropertyDeclarationStructure) & {
+        /**
+         * The name of the target type.
+         */
+        onType: string;
+    };
 
 /**
- * Declares that the `superclass` of a given class is another `class`.
+ * Type alias for an array of member declarations.
+ * Represents an array that can contain method, constructor, or property declarations.
+ * @see InterTypeMemberStructure
+ */
+export type MemberDeclarationsArray = Array<InterTypeMemberStructure>;
+
+/**
+ * Declares that the `superclass` of a given class is another `class`,
+ * read back by the weaver from the `@DeclareParents` decorator.
  *
  * @param aspectClass - The `aspect` class.
  * @param className - The name of the `class` whose `superclass` is
@@ -298,6 +318,7 @@ export type MemberDeclarationsArray =
  * @example
  * declareParentsExtends(aspectClass, 'C', 'D');
  * @throws ReferenceError if the class or superclass is not found.
+ * @throws TypeError if the inheritance is not legal.
  * @see ClassDeclaration
  */
 export function declareParentsExtends(
@@ -305,24 +326,22 @@ export function declareParentsExtends(
     className: string,
     superClassName: string
 ): void {
-    // Add method to aspect class
-    aspectClass.addMethod({
-        name: 'declareParentsExtends',
-        statements: [
-            // Check if the superclass extends the original superclass of the class
-            `if (!isLegalInheritance('${className}', '${superClassName}')) {`,
-            `    throw new TypeError('Inheritance is not legal: ${className} cannot extend ${superClassName}');`,
-            `}`,
-            // Log the declaration that class className extends superClassName
-            `console.log('declare parents : ${className} extends ${superClassName};');`
-        ],
-        returnType: 'void',
-        kind: StructureKind.Method,
+    if (!isLegalInheritance(aspectClass, className, superClassName)) {
+        throw new TypeError(`IllegalArgumentException ${className} cannot extend ${superClassName}`);
+    }
+    aspectClass.addDecorator({
+        name: 'DeclareParents',
+        arguments: [JSON.stringify(`${className} extends ${superClassName}`)],
+        kind: StructureKind.Decorator,
     });
 }
 
 /**
- * Checks if the inheritance is legal according to `AspectJ` specifications.
+ * Checks if the inheritance is legal according to `AspectJ` specifications:
+ * the new `superclass` must be the original `superclass` of the `class` or
+ * one of its subclasses, and must not be the `class` or one of its
+ * subclasses. The classes are looked up in the source file of the
+ * `aspect`, then in its project.
  *
  * @param aspectClass - The `aspect` class.
  * @param className - The name of the `class`.
@@ -334,25 +353,32 @@ export function declareParentsExtends(
 export function isLegalInheritance(
     aspectClass: ClassDeclaration, className: string, superClassName: string
 ): boolean {
-    // Find class declarations within the provided aspect class
-    let classDeclaration: ClassDeclaration | undefined =
-        aspectClass.getSourceFile().getClass(className);
-    let superClassDeclaration: ClassDeclaration | undefined =
-        aspectClass.getSourceFile().getClass(superClassName);
+    const findClass: (name: string) => ClassDeclaration | undefined = (name: string): ClassDeclaration | undefined =>
+        aspectClass.getSourceFile().getClass(name) || aspectClass.getProject().getSourceFiles()
+            .map((sourceFile: SourceFile) => sourceFile.getClass(name))
+            .find((declaration: ClassDeclaration | undefined) => declaration !== undefined);
+    const classDeclaration: ClassDeclaration | undefined = findClass(className);
+    const superClassDeclaration: ClassDeclaration | undefined = findClass(superClassName);
     if (!classDeclaration || !superClassDeclaration) {
         throw new ReferenceError(`Class ${className} or Superclass ${superClassName} not found.`);
     }
-    // Get super class of both className and superClassName
-    const classSuperClass: string | undefined =
-        classDeclaration.getExtends()?.getType().getText();
-    const superClassSuperClass: string | undefined =
-        superClassDeclaration.getExtends()?.getType().getText();
+    // The superclass and its own superclasses
+    const superClasses: Array<ClassDeclaration> = [];
+    for (let base: ClassDeclaration | undefined = superClassDeclaration; base; base = base.getBaseClass()) {
+        if (base === classDeclaration) {
+            return false;
+        }
+        superClasses.push(base);
+    }
     // Check if superClassName extends the original superclass of className
-    return classSuperClass === superClassSuperClass;
+    const classSuperClass: ClassDeclaration | undefined = classDeclaration.getBaseClass();
+    return !classSuperClass || superClasses.includes(classSuperClass);
 }
 
 /**
- * Declares that a given `class` implements one or more interfaces.
+ * Declares that a given `class` implements one or more interfaces, read
+ * back by the weaver from the `@DeclareParents` decorator. The members of
+ * the classes among the interfaces are mixed in.
  *
  * @param aspectClass - The `aspect` class.
  * @param className - The name of the `class.
@@ -360,23 +386,16 @@ export function isLegalInheritance(
  *
  * @example
  * declareParentsImplements(aspectClass, 'C', ['I', 'J']);
+ * @throws PointcutSyntaxError if the type pattern is not valid.
  * @see ClassDeclaration
  */
 export function declareParentsImplements(
     aspectClass: ClassDeclaration, className: string, interfaces: Array<string>): void {
-    // Add method to aspect class
-    aspectClass.addMethod({
-        name: 'declareParentsImplements',
-        statements: [
-            // Check if the class implements the interfaces
-            `if (!areInterfacesImplemented(this.constructor, '${className}', ${JSON.stringify(interfaces)})) {`,
-            `    throw new Error('Implementation is not legal: ${className} cannot implement ${interfaces.join(', ')}');`,
-            `}`,
-            // Log the declaration that class className implements interfaces
-            `console.log('declare parents : ${className} implements ${interfaces.join(', ')};');`
-        ],
-        returnType: 'void',
-        kind: StructureKind.Method,
+    PointcutParser.parseTypePattern(className);
+    aspectClass.addDecorator({
+        name: 'DeclareParents',
+        arguments: [JSON.stringify(`${className} implements ${interfaces.join(', ')}`)],
+        kind: StructureKind.Decorator,
     });
 }
 
@@ -410,7 +429,8 @@ export function areInterfacesImplemented(
 }
 
 /**
- * Declares a compiler `warning` for a specified `pointcut`.
+ * Declares a compiler `warning` for a specified `pointcut`, reported by
+ * the `DeclareChecker` from the `@DeclareWarning` decorator.
  *
  * @param aspectClass - The `aspect` class.
  * @param pointcut - The `pointcut` at which the `warning` should be
@@ -419,25 +439,22 @@ export function areInterfacesImplemented(
  *
  * @example
  * declareWarning(aspectClass, 'set(* Point.*) && !within(Point)', 'bad set');
+ * @throws PointcutSyntaxError if the pointcut is not valid.
  */
 export function declareWarning(
     aspectClass: ClassDeclaration, pointcut: string, message: string
 ): void {
-    aspectClass.addMethod({
-        name: 'declareWarning',
-        statements: [
-            'const e = new Error();',
-            `const currentLine = e.stack.split('\\n')[2].split(':')[1];`,
-            `const currentColumn = e.stack.split('\\n')[2].split(':')[2];`,
-            `console.warn('${pointcut} : "${message}" at line ' + currentLine + ', column ' + currentColumn);`
-        ],
-        returnType: 'void',
-        kind: StructureKind.Method,
+    PointcutParser.parse(pointcut);
+    aspectClass.addDecorator({
+        name: 'DeclareWarning',
+        arguments: [JSON.stringify(pointcut), JSON.stringify(message)],
+        kind: StructureKind.Decorator,
     });
 }
 
 /**
- * Declares a compiler `error` for a specified `pointcut`.
+ * Declares a compiler `error` for a specified `pointcut`, reported by the
+ * `DeclareChecker` from the `@DeclareError` decorator.
  *
  * @param aspectClass - The `aspect` class.
  * @param pointcut - The `pointcut` at which the error should be issued.
@@ -445,122 +462,145 @@ export function declareWarning(
  *
  * @example
  * declareError(aspectClass, 'call(Singleton.new(..))', 'bad construction');
+ * @throws PointcutSyntaxError if the pointcut is not valid.
  */
 export function declareError(
     aspectClass: ClassDeclaration, pointcut: string, message: string): void {
-    aspectClass.addMethod({
-        name: 'declareError',
-        statements: [`throw new SyntaxError('${pointcut} : "${message}" );`],
-        returnType: 'void',
-        kind: StructureKind.Method,
+    PointcutParser.parse(pointcut);
+    aspectClass.addDecorator({
+        name: 'DeclareError',
+        arguments: [JSON.stringify(pointcut), JSON.stringify(message)],
+        kind: StructureKind.Decorator,
     });
 }
 
 /**
  * Declares that any exceptions of a specified type thrown from a pointcut
- * should be wrapped in a soft exception.
+ * should be wrapped in a `SoftException`, read back by the weaver from
+ * the `@DeclareSoft` decorator.
  *
  * @param exceptionType - The type of exception.
  * @param pointcut - The pointcut at which the exception should be wrapped.
  *
  * @example
  * declareSoft(aspectClass, 'IOException', 'execution(Foo.new(..))');
+ * @throws PointcutSyntaxError if the type or the pointcut is not valid.
  */
 export function declareSoft(aspectClass: ClassDeclaration, exceptionType: string, pointcut: string): void {
-    aspectClass.addMethod({
-        name: 'declareSoft',
-        statements: [`console.log('declare soft : ${exceptionType} : ${pointcut};');`],
-        returnType: 'void',
-        kind: StructureKind.Method,
+    PointcutParser.parseTypePattern(exceptionType);
+    PointcutParser.parse(pointcut);
+    aspectClass.addDecorator({
+        name: 'DeclareSoft',
+        arguments: [JSON.stringify(exceptionType), JSON.stringify(pointcut)],
+        kind: StructureKind.Decorator,
     });
 }
 
 /**
- * Declares the precedence of aspects at each join point.
+ * Declares the precedence of aspects at each join point, read back by
+ * the weaver from the `@DeclarePrecedence` decorator.
  *
  * @param aspects - The list of aspects in order of precedence.
  *
  * @example
  * declarePrecedence(['Security', 'Logging', '*']);
+ * @throws PointcutSyntaxError if a type pattern is not valid.
  */
 export function declarePrecedence(aspectClass: ClassDeclaration, aspects: string[]): void {
-    aspectClass.addMethod({
-        name: 'declarePrecedence',
-        statements: [`console.log('declare precedence : ${aspects.join(', ')};');`],
-        returnType: 'void',
-        kind: StructureKind.Method,
+    PointcutParser.parseTypePatternList(aspects.join(', '));
+    aspectClass.addDecorator({
+        name: 'DeclarePrecedence',
+        arguments: [JSON.stringify(aspects.join(', '))],
+        kind: StructureKind.Decorator,
     });
 }
 
 /**
- * Declares an annotation on a specified type.
+ * Declares an annotation on the types matching a specified pattern, read
+ * back by the weaver from the `@DeclareTypeAnnotation` decorator.
  *
  * @param type - The type to be annotated.
  * @param annotation - The annotation to be declared.
  *
  * @example
  * declareTypeAnnotation('C', '@SomeAnnotation');
+ * @throws PointcutSyntaxError if the type pattern is not valid.
+ * @throws TypeError if the annotation is not valid.
  */
 export function declareTypeAnnotation(aspectClass: ClassDeclaration, type: string, annotation: string): void {
-    aspectClass.addMethod({
-        name: 'declareTypeAnnotation',
-        statements: [`console.log('declare @type: ${type} : ${annotation};');`],
-        returnType: 'void',
-        kind: StructureKind.Method,
+    PointcutParser.parseTypePattern(type);
+    Annotations.parse(annotation);
+    aspectClass.addDecorator({
+        name: 'DeclareTypeAnnotation',
+        arguments: [JSON.stringify(type), JSON.stringify(annotation)],
+        kind: StructureKind.Decorator,
     });
 }
 
 /**
- * Declares an annotation on all methods matching a specified pattern.
+ * Declares an annotation on all methods matching a specified pattern, read
+ * back by the weaver from the `@DeclareMethodAnnotation` decorator.
  *
  * @param methodPattern - The method pattern to be annotated.
  * @param annotation - The annotation to be declared.
  *
  * @example
  * declareMethodAnnotation('* C.foo*(..)', '@SomeAnnotation');
+ * @throws PointcutSyntaxError if the method pattern is not valid.
+ * @throws TypeError if the annotation is not valid.
  */
 export function declareMethodAnnotation(aspectClass: ClassDeclaration, methodPattern: string, annotation: string): void {
-    aspectClass.addMethod({
-        name: 'declareMethodAnnotation',
-        statements: [`console.log('declare @method: ${methodPattern} : ${annotation};');`],
-        returnType: 'void',
-        kind: StructureKind.Method,
+    PointcutParser.parseMethodPattern(methodPattern);
+    Annotations.parse(annotation);
+    aspectClass.addDecorator({
+        name: 'DeclareMethodAnnotation',
+        arguments: [JSON.stringify(methodPattern), JSON.stringify(annotation)],
+        kind: StructureKind.Decorator,
     });
 }
 
 /**
- * Declares an annotation on all constructors matching a specified pattern.
+ * Declares an annotation on all constructors matching a specified pattern,
+ * read back by the weaver from the `@DeclareConstructorAnnotation`
+ * decorator.
  *
  * @param constructorPattern - The constructor pattern to be annotated.
  * @param annotation - The annotation to be declared.
  *
  * @example
  * declareConstructorAnnotation('C.new(..)', '@SomeAnnotation');
+ * @throws PointcutSyntaxError if the constructor pattern is not valid.
+ * @throws TypeError if the annotation is not valid.
  */
 export function declareConstructorAnnotation(aspectClass: ClassDeclaration, constructorPattern: string, annotation: string): void {
-    aspectClass.addMethod({
-        name: 'declareConstructorAnnotation',
-        statements: [`console.log('declare @constructor: ${constructorPattern} : ${annotation};');`],
-        returnType: 'void',
-        kind: StructureKind.Method,
+    PointcutParser.parseConstructorPattern(constructorPattern);
+    Annotations.parse(annotation);
+    aspectClass.addDecorator({
+        name: 'DeclareConstructorAnnotation',
+        arguments: [JSON.stringify(constructorPattern), JSON.stringify(annotation)],
+        kind: StructureKind.Decorator,
     });
 }
 
 /**
- * Declares an annotation on all fields matching a specified pattern.
+ * Declares an annotation on all fields matching a specified pattern, read
+ * back by the weaver from the `@DeclareFieldAnnotation` decorator.
  *
  * @param fieldPattern - The field pattern to be annotated.
  * @param annotation - The annotation to be declared.
  *
  * @example
  * declareFieldAnnotation('* C.*', '@SomeAnnotation');
+ * @throws PointcutSyntaxError if the field pattern is not valid.
+ * @throws TypeError if the annotation is not valid.
  */
 export function declareFieldAnnotation(aspectClass: ClassDeclaration, fieldPattern: string, annotation: string): void {
-    aspectClass.addMethod({
-        name: 'declareFieldAnnotation',
-        statements: [`console.log('declare @field: ${fieldPattern} : ${annotation};');`],
-        returnType: 'void',
-        kind: StructureKind.Method,
+    PointcutParser.parseFieldPattern(fieldPattern);
+    Annotations.parse(annotation);
+    aspectClass.addDecorator({
+        name: 'DeclareFieldAnnotation',
+        arguments: [JSON.stringify(fieldPattern), JSON.stringify(annotation)],
+        kind: StructureKind.Decorator,
     });
 }
 
@@ -570,30 +610,63 @@ const project: Project = new Project();
 const sourceFile: SourceFile = project.createSourceFile('Aspects.ts', '', { overwrite: true });
 
 /**
- * Validates and adds general `inter-type` forms to the aspect class.
+ * Validates and adds general `inter-type` forms to the aspect class, read
+ * back by the weaver from the `@InterType` decorator. Each member becomes
+ * an aspect method named after its target type, e.g. `Foo$m`, whose
+ * `this` is the target instance, or the target class for static members:
+ * a method or a constructor keeps its body, a property returns its
+ * initializer.
  * @param aspectClass - The aspect class to which the `inter-type`
  * forms are added.
  * @param members - The array of member declarations (methods,
  * constructors, and fields) to add to the aspect.
+ * @throws TypeError if a member is not valid.
  * @see MemberDeclarationsArray
  */
 export function addInterTypeMember(aspectClass: ClassDeclaration, members: MemberDeclarationsArray): void {
     for (const member of members) {
+        const modifiers: Array<string> = [];
+        if (member.scope === Scope.Private) {
+            modifiers.push('private');
+        }
+        if (member.kind !== StructureKind.Constructor && member.isStatic) {
+            modifiers.push('static');
+        }
+        if (member.kind === StructureKind.Method && member.isAbstract) {
+            modifiers.push('abstract');
+        }
+        const name: string = member.kind === StructureKind.Constructor ? 'new' : member.name;
+        const declaration: string = `${modifiers.map((modifier: string) => `${modifier} `).join('')}` +
+            `${member.onType}.${name}${member.kind === StructureKind.Property ? '' : '(..)'}`;
+        InterTypes.parse(declaration);
+        const structure: MethodDeclarationStructure = {
+            name: `${member.onType}$${name}`,
+            parameters: [{ name: 'this', type: modifiers.includes('static') ? `typeof ${member.onType}` : member.onType }],
+            decorators: [{ name: 'InterType', arguments: [JSON.stringify(declaration)], kind: StructureKind.Decorator }],
+            kind: StructureKind.Method,
+        };
         if (member.kind === StructureKind.Method) {
-            if (typeof member.returnType === 'string' && member.returnType !== 'void' && (member.parameters?.length || 0) > 0) {
-                aspectClass.addMethod(member as MethodDeclarationStructure);
-            } else if (typeof member.returnType === 'string' && member.isAbstract) {
-                aspectClass.addMethod(member as MethodDeclarationStructure);
-            }
+            structure.typeParameters = member.typeParameters;
+            structure.parameters!.push(...(member.parameters || []));
+            structure.returnType = member.returnType;
+            structure.isAsync = member.isAsync;
+            structure.statements = member.isAbstract ?
+                [`throw new TypeError('AbstractMethodError ${member.onType}.${name}');`] : member.statements;
         } else if (member.kind === StructureKind.Constructor) {
-            if ((member.parameters?.length || 0) > 0) {
-                aspectClass.addConstructor(member as ConstructorDeclarationStructure);
-            }
-        } else if (member.kind === StructureKind.Property) {
-            if (typeof member.initializer === 'string' || typeof member.type === 'string') {
-                aspectClass.addProperty(member as PropertyDeclarationStructure);
-            }
+            structure.parameters!.push(...(member.parameters || []));
+            structure.returnType = 'void';
+            structure.statements = member.statements;
+        } else {
+            const initializer: string | WriterFunction | undefined = member.initializer;
+            structure.returnType = member.type;
+            structure.statements = typeof initializer === 'function' ?
+                (writer: CodeBlockWriter) => {
+                    writer.write('return ');
+                    initializer(writer);
+                    writer.write(';');
+                } : [`return ${initializer || 'undefined'};`];
         }
+        aspectClass.addMethod(structure);
     }
 }
 
@@ -601,8 +674,9 @@ export function addInterTypeMember(aspectClass: ClassDeclaration, members: Membe
  * Creates an aspect class with the specified properties and `inter-type`
  * member declarations.
  * @param name - The name of the aspect class.
- * @param isPrivileged - Indicates if the aspect is privileged (can access
- * private fields and methods).
+ * @param isPrivileged - Indicates if the aspect is privileged, decorated
+ * with `@Privileged` it can access the `private` and `#private` members of
+ * the advised types.
  * @param extendsClass - The class that this aspect extends (if any).
  * @param implementsInterfaces - The interfaces that this aspect
  * implements (if any).
@@ -610,10 +684,14 @@ export function addInterTypeMember(aspectClass: ClassDeclaration, members: Membe
  * @param members - The array of member declarations (methods,
  * constructors, and fields) to add to the aspect.
  * @returns The created aspect class.
+ * @throws PointcutSyntaxError if the PerClause is not valid.
  * @see ClassDeclaration
  * @see MemberDeclarationsArray
  */
 export function createAspectClass(name: string, isPrivileged: boolean, extendsClass?: string, implementsInterfaces?: Array<string>, perClause?: string, members?: MemberDeclarationsArray): ClassDeclaration {
+    if (perClause) {
+        PointcutParser.parsePerClause(perClause);
+    }
     const aspectClass: ClassDeclaration = sourceFile.addClass({
         name: name,
         isAbstract: false,
@@ -624,14 +702,13 @@ export function createAspectClass(name: string, isPrivileged: boolean, extendsCl
     });
 
     if (isPrivileged) {
-        aspectClass.addProperty({ name: 'privateField', type: 'string', scope: Scope.Private });
-        aspectClass.addMethod({ name: 'privateMethod', statements: [`console.log('Private method executed');`], scope: Scope.Private });
+        aspectClass.addDecorator({ name: 'Privileged', arguments: [], kind: StructureKind.Decorator });
     }
 
     aspectClass.addMethod({ name: 'advice', statements: [`console.log('Advice executed');`], returnType: 'void' });
 
     if (perClause) {
-        aspectClass.addDecorator({ name: 'PerClause', arguments: [perClause], kind: StructureKind.Decorator });
+        aspectClass.addDecorator({ name: 'PerClause', arguments: [JSON.stringify(perClause)], kind: StructureKind.Decorator });
     }
 
     if (members) {
@@ -658,9 +735,9 @@ declareConstructorAnnotation(exampleClass, 'C.new(..)', '@SomeAnnotation');
 declareFieldAnnotation(exampleClass, '* C.*', '@SomeAnnotation');
 
 const members: MemberDeclarationsArray = [
-    { kind: StructureKind.Method, name: 'exampleMethod', returnType: 'void', parameters: [] },
-    { kind: StructureKind.Constructor, parameters: [] },
-    { kind: StructureKind.Property, name: 'exampleProperty', type: 'string', initializer: `'example'` }
+    { kind: StructureKind.Method, onType: 'Foo', name: 'm', returnType: 'number', parameters: [{ name: 'i', type: 'number' }], statements: ['return i;'] },
+    { kind: StructureKind.Constructor, onType: 'Point', parameters: [{ name: 'x', type: 'number' }], statements: ['this.x = x;'] },
+    { kind: StructureKind.Property, onType: 'Point', name: 'x', type: 'number', initializer: 'foo()', scope: Scope.Private }
 ];
 addInterTypeMember(exampleClass, members);
 
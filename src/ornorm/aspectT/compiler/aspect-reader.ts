@@ -0,0 +1,217 @@
+import {
+    ClassDeclaration,
+    Decorator,
+    MethodDeclaration,
+    Node,
+    ParameterDeclaration
+} from 'ts-morph';
+import {
+    AdviceDescriptor,
+    AnnotationDescriptor,
+    AspectDefinition,
+    AspectRegistry,
+    InterTypeDescriptor,
+    PointcutDescriptor
+} from '@ornorm/aspectT';
+import {DescriptorType} from '../term/describe-type';
+
+const FORMAL_TYPE: RegExp = /^[A-Za-z_$][\w$.]*(\[\])*$/;
+
+const ANNOTATION_KINDS: Map<string, AnnotationDescriptor['kind']> = new Map<string, AnnotationDescriptor['kind']>([
+    ['DeclareTypeAnnotation', 'type'],
+    ['DeclareMethodAnnotation', 'method'],
+    ['DeclareConstructorAnnotation', 'constructor'],
+    ['DeclareFieldAnnotation', 'field']
+]);
+
+const ADVICE_KINDS: Map<string, 'before' | 'after' | 'around'> = new Map<string, 'before' | 'after' | 'around'>([
+    ['Before', 'before'],
+    ['After', 'after'],
+    ['Around', 'around']
+]);
+
+const DECLARE_KINDS: Map<string, 'error' | 'warning'> = new Map<string, 'error' | 'warning'>([
+    ['DeclareError', 'error'],
+    ['DeclareWarning', 'warning']
+]);
+
+/**
+ * A `declare error` or `declare warning` of an aspect, checked at compile
+ * time.
+ */
+export interface DeclareDescriptor {
+    /**
+     * The diagnostic category.
+     */
+    kind: 'error' | 'warning';
+    /**
+     * The pointcut of the reported join points.
+     */
+    pointcut: string;
+    /**
+     * The diagnostic message.
+     */
+    message: string;
+}
+
+/**
+ * The definition of an aspect read from a class of a project.
+ *
+ * @see AspectDefinition
+ */
+export interface SourceAspect extends AspectDefinition {
+    /**
+     * The aspect class.
+     */
+    declaration: ClassDeclaration;
+    /**
+     * A list of {@link DeclareDescriptor}.
+     */
+    declares: Array<DeclareDescriptor>;
+}
+
+/**
+ * Read the aspects declared with the `@Aspect`, `@Advice`, `@Before`,
+ * `@After`, `@Around`, `@Pointcut`, `@InterType`, `@PerClause`,
+ * `@DeclarePrecedence`, `@DeclareSoft`, `@DeclareParents`,
+ * `@DeclareTypeAnnotation`, `@DeclareMethodAnnotation`,
+ * `@DeclareConstructorAnnotation`, `@DeclareFieldAnnotation`,
+ * `@DeclareError`, `@DeclareWarning` and `@Privileged` decorators emitted by
+ * `createAspectClass`, `createAdvice`, `createPointcut`,
+ * `addInterTypeMember` and the `declare` functions, or written by hand,
+ * see {@link AspectRegistry}. The argument of `@Aspect` is the
+ * instantiation model, as the one of `@PerClause`.
+ */
+export class AspectReader {
+    /**
+     * Return true when a class is an aspect.
+     *
+     * @param classDeclaration - The {@link ClassDeclaration}.
+     * @returns True when decorated with `@Aspect`
+     */
+    public static isAspect(classDeclaration: ClassDeclaration): boolean {
+        return classDeclaration.getDecorator('Aspect') !== undefined;
+    }
+
+    /**
+     * Read an aspect class. An abstract class is an abstract aspect, an
+     * aspect class extending an aspect class extends its aspect. A
+     * pointcut without expression, or declared on an abstract method, is
+     * abstract.
+     *
+     * @param classDeclaration - The {@link ClassDeclaration} of the aspect.
+     * @returns The {@link SourceAspect}
+     * @throws TypeError when a decorator argument is not a string literal.
+     */
+    public static read(classDeclaration: ClassDeclaration): SourceAspect {
+        const advices: Array<AdviceDescriptor> = [];
+        const pointcuts: Array<PointcutDescriptor> = [];
+        const interTypes: Array<InterTypeDescriptor> = [];
+        classDeclaration.getMethods().forEach((method: MethodDeclaration) => {
+            const advice: Decorator | undefined = method.getDecorator('Advice');
+            if (advice) {
+                advices.push({name: method.getName(), advice: AspectReader.getArgument(advice)});
+            }
+            ADVICE_KINDS.forEach((kind: 'before' | 'after' | 'around', name: string) => {
+                const shorthand: Decorator | undefined = method.getDecorator(name);
+                if (shorthand) {
+                    advices.push({name: method.getName(), advice: AspectRegistry.toAdvice(
+                        kind,
+                        AspectReader.getArgument(shorthand),
+                        shorthand.getArguments().length > 1 ? AspectReader.getArgument(shorthand, 1) : ''
+                    )});
+                }
+            });
+            const pointcut: Decorator | undefined = method.getDecorator('Pointcut');
+            if (pointcut) {
+                const descriptor: PointcutDescriptor = {
+                    name: method.getName(),
+                    formals: method.getParameters().map(AspectReader.getFormal.bind(AspectReader)).join(', '),
+                    pointcut: pointcut.getArguments().length > 0 ? AspectReader.getArgument(pointcut) : ''
+                };
+                if (method.isAbstract() || !descriptor.pointcut) {
+                    descriptor.isAbstract = true;
+                }
+                pointcuts.push(descriptor);
+            }
+            const interType: Decorator | undefined = method.getDecorator('InterType');
+            if (interType) {
+                interTypes.push({name: method.getName(), declaration: AspectReader.getArgument(interType)});
+            }
+        });
+        const aspect: Decorator | undefined = classDeclaration.getDecorator('Aspect');
+        const perClause: Decorator | undefined = classDeclaration.getDecorator('PerClause') ||
+            (aspect && aspect.getArguments().length > 0 ? aspect : undefined);
+        const superClass: ClassDeclaration | undefined = classDeclaration.getBaseClass();
+        return {
+            name: classDeclaration.getName() || '',
+            declaration: classDeclaration,
+            ...classDeclaration.isAbstract() ? {isAbstract: true} : {},
+            ...classDeclaration.getDecorator('Privileged') ? {isPrivileged: true} : {},
+            ...superClass && AspectReader.isAspect(superClass) ? {superAspect: AspectReader.read(superClass)} : {},
+            advices,
+            pointcuts,
+            perClause: perClause ? AspectReader.getArgument(perClause) : undefined,
+            precedence: classDeclaration.getDecorators()
+                .filter((decorator: Decorator) => decorator.getName() === 'DeclarePrecedence')
+                .map((decorator: Decorator) => AspectReader.getArgument(decorator)),
+            softs: classDeclaration.getDecorators()
+                .filter((decorator: Decorator) => decorator.getName() === 'DeclareSoft')
+                .map((decorator: Decorator) => ({
+                    type: AspectReader.getArgument(decorator),
+                    pointcut: AspectReader.getArgument(decorator, 1)
+                })),
+            parents: classDeclaration.getDecorators()
+                .filter((decorator: Decorator) => decorator.getName() === 'DeclareParents')
+                .map((decorator: Decorator) => AspectReader.getArgument(decorator)),
+            interTypes,
+            annotations: classDeclaration.getDecorators()
+                .filter((decorator: Decorator) => ANNOTATION_KINDS.has(decorator.getName()))
+                .map((decorator: Decorator) => ({
+                    kind: ANNOTATION_KINDS.get(decorator.getName())!,
+                    pattern: AspectReader.getArgument(decorator),
+                    annotation: AspectReader.getArgument(decorator, 1)
+                })),
+            declares: classDeclaration.getDecorators()
+                .filter((decorator: Decorator) => DECLARE_KINDS.has(decorator.getName()))
+                .map((decorator: Decorator) => ({
+                    kind: DECLARE_KINDS.get(decorator.getName())!,
+                    pointcut: AspectReader.getArgument(decorator),
+                    message: AspectReader.getArgument(decorator, 1)
+                }))
+        };
+    }
+
+    /**
+     * Return a string literal argument of a decorator.
+     *
+     * @param decorator - The {@link Decorator}.
+     * @param index - The argument position.
+     * @returns The argument value
+     * @throws TypeError when the argument is not a string literal.
+     */
+    private static getArgument(decorator: Decorator, index: number = 0): string {
+        const argument: Node | undefined = decorator.getArguments()[index];
+        if (Node.isStringLiteral(argument) || Node.isNoSubstitutionTemplateLiteral(argument)) {
+            return argument.getLiteralValue();
+        }
+        throw new TypeError(
+            `IllegalArgumentException @${decorator.getName()} expects a string literal at ` +
+            `${decorator.getSourceFile().getFilePath()}:${decorator.getStartLineNumber()}`
+        );
+    }
+
+    /**
+     * Return the formal of a pointcut parameter, `Object` stands for the
+     * types without a pattern equivalent, e.g. unions.
+     *
+     * @param parameter - The {@link ParameterDeclaration}.
+     * @returns The formal, e.g. `number i`
+     */
+    private static getFormal(parameter: ParameterDeclaration): string {
+        const type: string = DescriptorType.getTypeName(parameter.getType());
+        return `${FORMAL_TYPE.test(type) ? type : 'Object'} ${parameter.getName()}`;
+    }
+}
+
+export default AspectReader;
@@ -0,0 +1,898 @@
+import ts from 'typescript';
+import {ClassDeclaration, ParameterDeclaration, Project, SourceFile} from 'ts-morph';
+import {AspectCompiler, Debug, WeavingInfo} from '@ornorm/aspectT';
+import {SourceAspect} from './aspect-reader';
+import {
+    AspectImport,
+    DeclaredAnnotation,
+    DeclaredParents,
+    DEFAULT_RUNTIME_MODULE,
+    GENERATED_PREFIX,
+    PrivilegedAccess,
+    PrivilegedShim,
+    WeavingPass,
+    WovenInterType,
+    WovenField,
+    WovenHandler,
+    WovenInitialization,
+    WovenMethod
+} from './weaving-pass';
+
+const IDENTIFIER: RegExp = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Weave aspects while the TypeScript compiler emits JavaScript, the
+ * sources of the project are left untouched.
+ *
+ * The woven output is the one of {@link WeavingPass}, built on the AST of
+ * the compiler so the checker still drives import elision and decorator
+ * metadata. The runtime and the aspects are imported through namespace
+ * imports to stay valid once converted to CommonJS.
+ *
+ * With rollup-plugin-typescript2:
+ * ```js
+ * typescript({transformers: [() => AspectTransformer.create()]})
+ * ```
+ */
+export class AspectTransformer {
+    private readonly mPass: WeavingPass;
+    private readonly mRuntimeModule: string;
+
+    /**
+     * Create a transformer.
+     *
+     * @param pass - The {@link WeavingPass} analysing the project.
+     * @param runtimeModule - The module woven sources import the runtime
+     * from.
+     */
+    constructor(pass: WeavingPass, runtimeModule: string = DEFAULT_RUNTIME_MODULE) {
+        this.mPass = pass;
+        this.mRuntimeModule = runtimeModule;
+    }
+
+    /**
+     * The {@link WeavingPass} analysing the project.
+     */
+    public get pass(): WeavingPass {
+        return this.mPass;
+    }
+
+    /**
+     * The transformers to hand to `Program.emit`, `transpileModule` or a
+     * build plugin.
+     */
+    public get transformers(): ts.CustomTransformers {
+        return {
+            before: [
+                (context: ts.TransformationContext) =>
+                    (sourceFile: ts.SourceFile): ts.SourceFile => this.transform(context, sourceFile)
+            ]
+        };
+    }
+
+    /**
+     * Create the transformers of a project.
+     *
+     * @param weaving - The {@link WeavingInfo}, the `weaving` section of
+     * `config/aspect.json` by default.
+     * @returns The transformers, empty when weaving is disabled
+     * @throws PointcutSyntaxError when an advice or a pointcut is not valid.
+     */
+    public static create(weaving: WeavingInfo = Debug.env.weaving): ts.CustomTransformers {
+        if (!weaving || !weaving.enabled) {
+            return {};
+        }
+        const project: Project = new Project({tsConfigFilePath: weaving.tsConfigFilePath});
+        const runtimeModule: string = weaving.runtimeModule || DEFAULT_RUNTIME_MODULE;
+        return new AspectTransformer(new WeavingPass(project, runtimeModule), runtimeModule).transformers;
+    }
+
+    /**
+     * Compile a project like `tsc` does, weaving its aspects.
+     *
+     * @param weaving - The {@link WeavingInfo}, the `weaving` section of
+     * `config/aspect.json` by default.
+     * @returns The {@link ts.EmitResult}
+     * @throws SyntaxError when the `tsconfig.json` is not valid.
+     * @throws PointcutSyntaxError when an advice or a pointcut is not valid.
+     */
+    public static emit(weaving: WeavingInfo = Debug.env.weaving): ts.EmitResult {
+        const config: ts.ParsedCommandLine | undefined = ts.getParsedCommandLineOfConfigFile(
+            weaving.tsConfigFilePath, {}, {
+                ...ts.sys,
+                onUnRecoverableConfigFileDiagnostic: (diagnostic: ts.Diagnostic): void => {
+                    throw new SyntaxError(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+                }
+            }
+        );
+        const program: ts.Program = ts.createProgram({
+            rootNames: config!.fileNames,
+            options: config!.options,
+            projectReferences: config!.projectReferences
+        });
+        return program.emit(undefined, undefined, undefined, false, AspectTransformer.create(weaving));
+    }
+
+    /**
+     * Weave a source file being emitted.
+     *
+     * @param context - The {@link ts.TransformationContext}.
+     * @param sourceFile - The {@link ts.SourceFile}.
+     * @returns The woven source file
+     * @throws ReferenceError when a declared superclass is not found.
+     * @throws TypeError when an aspect class or a declared parent is not
+     * exported, an inheritance is not legal or an inter-type member is
+     * already declared.
+     */
+    public transform(context: ts.TransformationContext, sourceFile: ts.SourceFile): ts.SourceFile {
+        const source: SourceFile | undefined = this.mPass.project.getSourceFile(sourceFile.fileName);
+        if (!source) {
+            return sourceFile;
+        }
+        if (source.getFullText() !== sourceFile.text) {
+            source.replaceWithText(sourceFile.text);
+        }
+        const parents: Map<string, DeclaredParents> = new Map<string, DeclaredParents>(
+            this.mPass.getDeclaredParents(source).map((declared: DeclaredParents) => [
+                declared.declaration.getName()!, declared
+            ])
+        );
+        const interTypes: Array<WovenInterType> = this.mPass.getInterTypes(source);
+        const annotations: Array<DeclaredAnnotation> = this.mPass.getDeclaredAnnotations(source);
+        const methods: Array<WovenMethod> = this.mPass.getWovenMethods(source);
+        const fields: Array<WovenField> = this.mPass.getWovenFields(source);
+        const handlers: Array<WovenHandler> = this.mPass.getWovenHandlers(source);
+        const initializations: Array<WovenInitialization> = this.mPass.getWovenInitializations(source);
+        const shims: Array<PrivilegedShim> = this.mPass.getPrivilegedShims(source);
+        const accesses: Map<string, PrivilegedAccess> = new Map<string, PrivilegedAccess>(
+            this.mPass.getPrivilegedAccesses(source).map((access: PrivilegedAccess) => [
+                `${access.node.getStart()}:${access.node.getEnd()}`, access
+            ])
+        );
+        if (methods.length === 0 && fields.length === 0 && handlers.length === 0 && initializations.length === 0 &&
+            parents.size === 0 && interTypes.length === 0 && annotations.length === 0 &&
+            shims.length === 0 && accesses.size === 0) {
+            return sourceFile;
+        }
+        const {factory}: ts.TransformationContext = context;
+        const runtime: ts.Identifier = factory.createIdentifier(`${GENERATED_PREFIX}runtime`);
+        const aspectsName: ts.Identifier = factory.createIdentifier(`${GENERATED_PREFIX}aspects`);
+        const createConstructorChain: (initialization: WovenInitialization) => ts.Expression = (
+            initialization: WovenInitialization
+        ): ts.Expression => factory.createCallExpression(
+            factory.createPropertyAccessExpression(factory.createPropertyAccessExpression(runtime, 'ConstructorChain'), 'lazy'),
+            undefined,
+            [
+                factory.createIdentifier(initialization.className),
+                factory.createStringLiteral(initialization.className),
+                AspectTransformer.toExpression(factory, initialization.descriptor),
+                aspectsName,
+                AspectTransformer.toExpression(factory, initialization.sourceLocation)
+            ]
+        );
+        const imports: Array<ts.Statement> = [AspectTransformer.createImport(factory, runtime, this.mRuntimeModule)];
+        const getType: (declaration: ClassDeclaration) => ts.Expression = (declaration: ClassDeclaration): ts.Expression => {
+            const typeImport: AspectImport | undefined = WeavingPass.getTypeImport(source, declaration);
+            if (!typeImport) {
+                return factory.createIdentifier(declaration.getName()!);
+            }
+            const namespace: ts.Identifier = factory.createIdentifier(`${GENERATED_PREFIX}type${imports.length}`);
+            imports.push(AspectTransformer.createImport(factory, namespace, typeImport.moduleSpecifier));
+            return factory.createPropertyAccessExpression(
+                namespace, typeImport.isDefault ? 'default' : declaration.getName()!
+            );
+        };
+        const aspectTypes: Map<SourceAspect, ts.Expression> = new Map<SourceAspect, ts.Expression>();
+        const getAspectType: (aspect: SourceAspect) => ts.Expression = (aspect: SourceAspect): ts.Expression => {
+            if (!aspectTypes.has(aspect)) {
+                const aspectImport: AspectImport | undefined = WeavingPass.getAspectImport(source, aspect);
+                let type: ts.Expression = factory.createIdentifier(aspect.name);
+                if (aspectImport) {
+                    const index: number = this.mPass.aspects.indexOf(aspect);
+                    const namespace: ts.Identifier = factory.createIdentifier(`${GENERATED_PREFIX}aspect${index}`);
+                    imports.push(AspectTransformer.createImport(factory, namespace, aspectImport.moduleSpecifier));
+                    type = factory.createPropertyAccessExpression(
+                        namespace, aspectImport.isDefault ? 'default' : aspect.name
+                    );
+                }
+                aspectTypes.set(aspect, type);
+            }
+            return aspectTypes.get(aspect)!;
+        };
+        const implementations: Array<ts.Statement> = [];
+        const woven: Map<string, WovenMethod> = new Map<string, WovenMethod>(methods.map((method: WovenMethod) => [
+            AspectTransformer.getKey(method.className, method.descriptor.isStatic, method.descriptor.name), method
+        ]));
+        const handled: Map<string, WovenHandler> = new Map<string, WovenHandler>(handlers.map((handler: WovenHandler) => [
+            `${handler.statement.getStart()}:${handler.statement.getEnd()}`, handler
+        ]));
+        const getHandler: (node: ts.Node | undefined) => WovenHandler | undefined =
+            (node: ts.Node | undefined): WovenHandler | undefined =>
+                node && handled.get(`${node.getStart(sourceFile)}:${node.getEnd()}`);
+        const visitHandlers: (node: ts.Node) => ts.Node = (node: ts.Node): ts.Node => {
+            const visited: ts.Node = ts.visitEachChild(node, visitHandlers, context);
+            if (ts.isCatchClause(node)) {
+                const handler: WovenHandler | undefined = getHandler(node.block);
+                const clause: ts.CatchClause = visited as ts.CatchClause;
+                return handler ? factory.updateCatchClause(
+                    clause,
+                    clause.variableDeclaration || factory.createVariableDeclaration(handler.shadow.name),
+                    AspectTransformer.addHandler(factory, clause.block, handler) as ts.Block
+                ) : clause;
+            }
+            if (ts.isIfStatement(node)) {
+                const thenHandler: WovenHandler | undefined = getHandler(node.thenStatement);
+                const elseHandler: WovenHandler | undefined = getHandler(node.elseStatement);
+                const statement: ts.IfStatement = visited as ts.IfStatement;
+                return factory.updateIfStatement(
+                    statement,
+                    statement.expression,
+                    thenHandler ?
+                        AspectTransformer.addHandler(factory, statement.thenStatement, thenHandler) : statement.thenStatement,
+                    elseHandler ?
+                        AspectTransformer.addHandler(factory, statement.elseStatement!, elseHandler) : statement.elseStatement
+                );
+            }
+            return visited;
+        };
+        const visitMember: (node: ts.Node, className: string) => ts.Node = (node: ts.Node, className: string): ts.Node => {
+            if (!ts.isMethodDeclaration(node) && !ts.isConstructorDeclaration(node) || !node.body) {
+                return node;
+            }
+            const member: ts.Node = handlers.length > 0 ? ts.visitEachChild(node, visitHandlers, context) : node;
+            if (!ts.isMethodDeclaration(node)) {
+                return member;
+            }
+            const isStatic: boolean = (node.modifiers || [])
+                .some((modifier: ts.ModifierLike) => modifier.kind === ts.SyntaxKind.StaticKeyword);
+            const method: WovenMethod | undefined = woven.get(
+                AspectTransformer.getKey(className, isStatic, node.name.getText(sourceFile))
+            );
+            return method ? AspectTransformer.rewriteMethod(factory, member as ts.MethodDeclaration, method) : member;
+        };
+        const accessTypes: Map<ClassDeclaration, ts.Expression> = new Map<ClassDeclaration, ts.Expression>();
+        const visitAccesses: (node: ts.Node) => ts.Node = (node: ts.Node): ts.Node => {
+            const access: PrivilegedAccess | undefined = ts.isPropertyAccessExpression(node) ?
+                accesses.get(`${node.getStart(sourceFile)}:${node.getEnd()}`) : undefined;
+            const visited: ts.Node = ts.visitEachChild(node, visitAccesses, context);
+            if (access && !accessTypes.has(access.declaration)) {
+                accessTypes.set(access.declaration, getType(access.declaration));
+            }
+            return access ? factory.createPropertyAccessExpression(factory.createCallExpression(
+                factory.createPropertyAccessExpression(accessTypes.get(access.declaration)!, access.shimName),
+                undefined,
+                [(visited as ts.PropertyAccessExpression).expression]
+            ), 'value') : visited;
+        };
+        const accessed: ts.SourceFile = accesses.size > 0 ?
+            ts.visitEachChild(sourceFile, visitAccesses, context) : sourceFile;
+        const wovenSourceFile: ts.SourceFile = ts.visitEachChild(accessed, (node: ts.Node): ts.VisitResult<ts.Node> => {
+            if (ts.isClassDeclaration(node) && node.name) {
+                const className: string = node.name.text;
+                let classNode: ts.ClassDeclaration = ts.visitEachChild(
+                    node, (member: ts.Node) => visitMember(member, className), context
+                );
+                interTypes
+                    .filter((interType: WovenInterType) => interType.declaration.getName() === className)
+                    .forEach((interType: WovenInterType) => {
+                        classNode = AspectTransformer.addInterType(factory, classNode, interType, getAspectType(interType.aspect));
+                    });
+                shims
+                    .filter((shim: PrivilegedShim) => shim.declaration.getName() === className)
+                    .forEach((shim: PrivilegedShim) => {
+                        classNode = AspectTransformer.addPrivilegedShim(factory, classNode, shim);
+                    });
+                const declared: DeclaredParents | undefined = parents.get(className);
+                if (declared && declared.interfaces.length > 0) {
+                    implementations.push(factory.createExpressionStatement(factory.createCallExpression(
+                        factory.createPropertyAccessExpression(
+                            factory.createPropertyAccessExpression(runtime, 'DeclareParents'), 'implement'
+                        ),
+                        undefined,
+                        [
+                            factory.createIdentifier(className),
+                            AspectTransformer.toExpression(factory, declared.interfaces),
+                            factory.createArrayLiteralExpression(declared.mixins.map(getType))
+                        ]
+                    )));
+                }
+                if (declared && declared.superClass) {
+                    classNode = AspectTransformer.setExtends(factory, classNode, getType(declared.superClass));
+                }
+                const initialization: WovenInitialization | undefined = initializations
+                    .find((woven: WovenInitialization) => woven.className === className);
+                if (!initialization) {
+                    return classNode;
+                }
+                classNode = AspectTransformer.addInitialization(
+                    factory, classNode, initialization, createConstructorChain(initialization)
+                );
+                if (!initialization.kinds.includes('static-initialization')) {
+                    return classNode;
+                }
+                return [
+                    factory.createVariableStatement(undefined, factory.createVariableDeclarationList([
+                        factory.createVariableDeclaration(`${GENERATED_PREFIX}${className}$staticinitialization`)
+                    ], ts.NodeFlags.Let)),
+                    classNode
+                ];
+            }
+            return node;
+        }, context);
+        annotations.forEach(({declaration, isStatic, member, annotation}: DeclaredAnnotation) => {
+            const type: ts.Expression = factory.createIdentifier(declaration.getName()!);
+            implementations.push(factory.createExpressionStatement(factory.createCallExpression(
+                factory.createPropertyAccessExpression(
+                    factory.createPropertyAccessExpression(runtime, 'Annotations'), 'annotate'
+                ),
+                undefined,
+                [
+                    isStatic ? type : factory.createPropertyAccessExpression(type, 'prototype'),
+                    AspectTransformer.toExpression(factory, annotation),
+                    ...(member ? [factory.createStringLiteral(member)] : [])
+                ]
+            )));
+        });
+        if (methods.length === 0 && fields.length === 0 && handlers.length === 0 && initializations.length === 0) {
+            return factory.updateSourceFile(wovenSourceFile, [
+                ...imports,
+                ...wovenSourceFile.statements,
+                ...implementations
+            ]);
+        }
+        const aspects: Array<ts.Expression> = this.mPass.aspects.map((declared: SourceAspect) => {
+            const aspect: SourceAspect = AspectCompiler.inherit(declared);
+            const properties: Array<ts.ObjectLiteralElementLike> = [
+                factory.createPropertyAssignment('name', factory.createStringLiteral(aspect.name)),
+                factory.createPropertyAssignment('type', getAspectType(declared)),
+                factory.createPropertyAssignment('pointcuts', AspectTransformer.toExpression(factory, aspect.pointcuts)),
+                factory.createPropertyAssignment('advices', AspectTransformer.toExpression(factory, aspect.advices))
+            ];
+            if (aspect.perClause) {
+                properties.push(factory.createPropertyAssignment(
+                    'perClause', factory.createStringLiteral(aspect.perClause)
+                ));
+            }
+            if (aspect.precedence && aspect.precedence.length > 0) {
+                properties.push(factory.createPropertyAssignment(
+                    'precedence', AspectTransformer.toExpression(factory, aspect.precedence)
+                ));
+            }
+            if (aspect.softs && aspect.softs.length > 0) {
+                properties.push(factory.createPropertyAssignment(
+                    'softs', AspectTransformer.toExpression(factory, aspect.softs)
+                ));
+            }
+            if (aspect.isAbstract) {
+                properties.push(factory.createPropertyAssignment('isAbstract', factory.createTrue()));
+            }
+            return factory.createObjectLiteralExpression(properties, true);
+        });
+        const chains: Array<ts.Statement> = methods.map((method: WovenMethod) => factory.createVariableStatement(
+            undefined,
+            factory.createVariableDeclarationList([
+                factory.createVariableDeclaration(method.chainName, undefined, undefined, factory.createCallExpression(
+                    factory.createPropertyAccessExpression(
+                        factory.createPropertyAccessExpression(runtime, 'AdviceChain'), 'lazy'
+                    ),
+                    undefined,
+                    [
+                        factory.createIdentifier(method.className),
+                        factory.createStringLiteral(method.className),
+                        AspectTransformer.toExpression(factory, method.descriptor),
+                        aspectsName,
+                        AspectTransformer.toExpression(factory, method.sourceLocation)
+                    ]
+                ))
+            ], ts.NodeFlags.Const)
+        ));
+        const accessors: Array<ts.Statement> = fields.map((field: WovenField) => {
+            const type: ts.Expression = factory.createIdentifier(field.className);
+            const owner: ts.Expression = field.isStatic ? type : factory.createPropertyAccessExpression(type, 'prototype');
+            const objectProperty: (name: string) => ts.Expression = (name: string): ts.Expression =>
+                factory.createPropertyAccessExpression(factory.createIdentifier('Object'), name);
+            const chain: ts.Expression = factory.createCallExpression(
+                factory.createPropertyAccessExpression(factory.createPropertyAccessExpression(runtime, 'FieldChain'), 'lazy'),
+                undefined,
+                [
+                    type,
+                    factory.createStringLiteral(field.className),
+                    AspectTransformer.toExpression(factory, field.descriptor),
+                    AspectTransformer.toExpression(factory, field.isStatic),
+                    aspectsName,
+                    AspectTransformer.toExpression(factory, field.sourceLocation)
+                ]
+            );
+            return factory.createExpressionStatement(factory.createCallExpression(
+                objectProperty('defineProperty'),
+                undefined,
+                [
+                    owner,
+                    factory.createStringLiteral(field.descriptor.name),
+                    factory.createCallExpression(factory.createPropertyAccessExpression(chain, 'intercept'), undefined, [
+                        factory.createCallExpression(objectProperty('getOwnPropertyDescriptor'), undefined, [
+                            owner, factory.createStringLiteral(field.descriptor.name)
+                        ])
+                    ])
+                ]
+            ));
+        });
+        const handlerChains: Array<ts.Statement> = handlers.map((handler: WovenHandler) => factory.createVariableStatement(
+            undefined,
+            factory.createVariableDeclarationList([
+                factory.createVariableDeclaration(handler.chainName, undefined, undefined, factory.createCallExpression(
+                    factory.createPropertyAccessExpression(
+                        factory.createPropertyAccessExpression(runtime, 'HandlerChain'), 'lazy'
+                    ),
+                    undefined,
+                    [
+                        factory.createIdentifier(handler.className),
+                        AspectTransformer.toExpression(factory, handler.shadow),
+                        aspectsName,
+                        AspectTransformer.toExpression(factory, handler.sourceLocation)
+                    ]
+                ))
+            ], ts.NodeFlags.Const)
+        ));
+        const constructorChains: Array<ts.Statement> = initializations
+            .filter(({kinds}: WovenInitialization) => kinds.includes('preinitialization') || kinds.includes('initialization'))
+            .map((initialization: WovenInitialization) => factory.createVariableStatement(
+                undefined,
+                factory.createVariableDeclarationList([
+                    factory.createVariableDeclaration(
+                        initialization.chainName, undefined, undefined, createConstructorChain(initialization)
+                    )
+                ], ts.NodeFlags.Const)
+            ));
+        const aspectsFunction: ts.Statement = factory.createFunctionDeclaration(
+            undefined, undefined, aspectsName, undefined, [], undefined,
+            factory.createBlock([
+                factory.createReturnStatement(factory.createArrayLiteralExpression(aspects, true))
+            ], true)
+        );
+        return factory.updateSourceFile(wovenSourceFile, [
+            ...imports,
+            ...wovenSourceFile.statements,
+            ...implementations,
+            ...chains,
+            ...accessors,
+            ...handlerChains,
+            ...constructorChains,
+            aspectsFunction
+        ]);
+    }
+
+    /**
+     * Run the {@link HandlerChain} of a handler first, see
+     * `WeavingPass.weaveSourceFile`.
+     *
+     * @param factory - The {@link ts.NodeFactory}.
+     * @param statement - The block or the branch of the handler.
+     * @param handler - The {@link WovenHandler}.
+     * @returns The block running the chain first
+     */
+    private static addHandler(factory: ts.NodeFactory, statement: ts.Statement, handler: WovenHandler): ts.Statement {
+        const handle: ts.Statement = factory.createExpressionStatement(factory.createCallExpression(
+            factory.createPropertyAccessExpression(factory.createIdentifier(handler.chainName), 'handle'),
+            undefined,
+            [
+                handler.isStatic ? factory.createIdentifier('undefined') : factory.createThis(),
+                factory.createIdentifier(handler.shadow.name)
+            ]
+        ));
+        return ts.isBlock(statement) ?
+            factory.updateBlock(statement, [handle, ...statement.statements]) : factory.createBlock([handle, statement], true);
+    }
+
+    /**
+     * Run the {@link ConstructorChain} of a class around the `super()` call
+     * of its constructor and around its static initializers, see
+     * `WeavingPass.weaveSourceFile`.
+     *
+     * @param factory - The {@link ts.NodeFactory}.
+     * @param node - The class declaration.
+     * @param initialization - The {@link WovenInitialization}.
+     * @param chain - The expression creating the chain.
+     * @returns The rewritten class declaration
+     */
+    private static addInitialization(
+        factory: ts.NodeFactory,
+        node: ts.ClassDeclaration,
+        initialization: WovenInitialization,
+        chain: ts.Expression
+    ): ts.ClassDeclaration {
+        const {className, kinds, chainName}: WovenInitialization = initialization;
+        const call: (target: ts.Expression, name: string, args: Array<ts.Expression>) => ts.Statement = (
+            target: ts.Expression,
+            name: string,
+            args: Array<ts.Expression>
+        ): ts.Statement => factory.createExpressionStatement(
+            factory.createCallExpression(factory.createPropertyAccessExpression(target, name), undefined, args)
+        );
+        const members: Array<ts.ClassElement> = [...node.members];
+        if (kinds.includes('preinitialization') || kinds.includes('initialization')) {
+            let index: number = members.findIndex((member: ts.ClassElement) =>
+                ts.isConstructorDeclaration(member) && member.body !== undefined
+            );
+            if (index < 0) {
+                const hasSuperClass: boolean = (node.heritageClauses || [])
+                    .some((clause: ts.HeritageClause) => clause.token === ts.SyntaxKind.ExtendsKeyword);
+                const name: ts.Identifier = factory.createIdentifier(`${GENERATED_PREFIX}args`);
+                members.unshift(factory.createConstructorDeclaration(
+                    undefined,
+                    hasSuperClass ? [
+                        factory.createParameterDeclaration(
+                            undefined, factory.createToken(ts.SyntaxKind.DotDotDotToken), name
+                        )
+                    ] : [],
+                    factory.createBlock(hasSuperClass ? [
+                        factory.createExpressionStatement(factory.createCallExpression(
+                            factory.createSuper(), undefined, [factory.createSpreadElement(name)]
+                        ))
+                    ] : [], true)
+                ));
+                index = 0;
+            }
+            const constructor: ts.ConstructorDeclaration = members[index] as ts.ConstructorDeclaration;
+            const args: ts.Expression = factory.createArrayLiteralExpression(constructor.parameters.map(
+                (parameter: ts.ParameterDeclaration, position: number): ts.Expression => {
+                    if (!ts.isIdentifier(parameter.name)) {
+                        return factory.createElementAccessExpression(factory.createIdentifier('arguments'), position);
+                    }
+                    const name: ts.Identifier = factory.createIdentifier(parameter.name.text);
+                    return parameter.dotDotDotToken ? factory.createSpreadElement(name) : name;
+                }
+            ));
+            const statements: Array<ts.Statement> = [...constructor.body!.statements];
+            const superIndex: number = statements.findIndex((statement: ts.Statement) =>
+                ts.isExpressionStatement(statement) && ts.isCallExpression(statement.expression) &&
+                statement.expression.expression.kind === ts.SyntaxKind.SuperKeyword
+            );
+            const head: Array<ts.Statement> = statements.slice(0, superIndex + 1);
+            const rest: Array<ts.Statement> = statements.slice(superIndex + 1);
+            const chainIdentifier: ts.Identifier = factory.createIdentifier(chainName);
+            if (kinds.includes('preinitialization')) {
+                head.splice(Math.max(superIndex, 0), 0, call(chainIdentifier, 'preinitialize', [args]));
+            }
+            if (kinds.includes('initialization')) {
+                const start: ts.Expression = factory.createCallExpression(
+                    factory.createPropertyAccessExpression(chainIdentifier, 'initialize'),
+                    undefined,
+                    [factory.createThis(), args]
+                );
+                if (rest.length === 0) {
+                    rest.push(call(start, 'returned', []));
+                } else {
+                    const name: ts.Identifier = factory.createIdentifier(`${GENERATED_PREFIX}initialization`);
+                    const error: ts.Identifier = factory.createIdentifier(`${GENERATED_PREFIX}error`);
+                    rest.splice(0, rest.length,
+                        factory.createVariableStatement(undefined, factory.createVariableDeclarationList([
+                            factory.createVariableDeclaration(name, undefined, undefined, start)
+                        ], ts.NodeFlags.Const)),
+                        factory.createTryStatement(
+                            factory.createBlock([...rest], true),
+                            factory.createCatchClause(error, factory.createBlock([
+                                factory.createThrowStatement(factory.createCallExpression(
+                                    factory.createPropertyAccessExpression(name, 'threw'), undefined, [error]
+                                ))
+                            ], true)),
+                            factory.createBlock([call(name, 'returned', [])], true)
+                        )
+                    );
+                }
+            }
+            members[index] = factory.updateConstructorDeclaration(
+                constructor, constructor.modifiers, constructor.parameters,
+                factory.updateBlock(constructor.body!, [...head, ...rest])
+            );
+        }
+        if (kinds.includes('static-initialization')) {
+            const name: ts.Identifier = factory.createIdentifier(`${GENERATED_PREFIX}${className}$staticinitialization`);
+            members.unshift(factory.createClassStaticBlockDeclaration(factory.createBlock([
+                factory.createExpressionStatement(factory.createAssignment(name, factory.createCallExpression(
+                    factory.createPropertyAccessExpression(chain, 'staticInitialize'), undefined, []
+                )))
+            ], true)));
+            members.push(factory.createClassStaticBlockDeclaration(factory.createBlock([
+                call(name, 'returned', [])
+            ], true)));
+        }
+        return factory.updateClassDeclaration(
+            node, node.modifiers, node.name, node.typeParameters, node.heritageClauses, members
+        );
+    }
+
+    /**
+     * Create a namespace import.
+     *
+     * @param factory - The {@link ts.NodeFactory}.
+     * @param name - The namespace identifier.
+     * @param moduleSpecifier - The module specifier.
+     * @returns The import declaration
+     */
+    private static createImport(factory: ts.NodeFactory, name: ts.Identifier, moduleSpecifier: string): ts.Statement {
+        return factory.createImportDeclaration(
+            undefined,
+            factory.createImportClause(false, undefined, factory.createNamespaceImport(name)),
+            factory.createStringLiteral(moduleSpecifier)
+        );
+    }
+
+    /**
+     * Return the key of a method.
+     *
+     * @param className - The name of the declaring class.
+     * @param isStatic - True for static.
+     * @param name - The method name.
+     * @returns The key
+     */
+    private static getKey(className: string, isStatic: boolean, name: string): string {
+        return `${className}${isStatic ? '.' : '#'}${name}`;
+    }
+
+    /**
+     * Add an inter-type member to its target class, see
+     * `WeavingPass.weaveSourceFile`.
+     *
+     * @param factory - The {@link ts.NodeFactory}.
+     * @param node - The class declaration.
+     * @param interType - The {@link WovenInterType}.
+     * @param aspectType - The expression of the aspect class.
+     * @returns The rewritten class declaration
+     */
+    private static addInterType(
+        factory: ts.NodeFactory,
+        node: ts.ClassDeclaration,
+        interType: WovenInterType,
+        aspectType: ts.Expression
+    ): ts.ClassDeclaration {
+        const {interType: {kind, isStatic, isAbstract}, method, memberName}: WovenInterType = interType;
+        const parameters: Array<ParameterDeclaration> = method.getParameters()
+            .filter((parameter: ParameterDeclaration) => parameter.getName() !== 'this');
+        const call: (args: Array<ts.Expression>) => ts.Expression = (args: Array<ts.Expression>): ts.Expression =>
+            factory.createCallExpression(
+                factory.createPropertyAccessExpression(factory.createPropertyAccessExpression(
+                    factory.createPropertyAccessExpression(aspectType, 'prototype'), method.getName()
+                ), 'call'),
+                undefined,
+                [factory.createThis(), ...args]
+            );
+        const modifiers: Array<ts.Modifier> | undefined = isStatic ?
+            [factory.createModifier(ts.SyntaxKind.StaticKeyword)] : undefined;
+        const members: Array<ts.ClassElement> = [...node.members];
+        if (kind === 'method' && !isAbstract) {
+            const names: Array<ts.Identifier> = parameters.map((_: ParameterDeclaration, index: number) =>
+                factory.createIdentifier(`${GENERATED_PREFIX}arg${index}`)
+            );
+            members.push(factory.createMethodDeclaration(
+                modifiers, undefined, memberName, undefined, undefined,
+                parameters.map((parameter: ParameterDeclaration, index: number) => factory.createParameterDeclaration(
+                    undefined,
+                    parameter.isRestParameter() ? factory.createToken(ts.SyntaxKind.DotDotDotToken) : undefined,
+                    names[index]
+                )),
+                undefined,
+                factory.createBlock([factory.createReturnStatement(call(names.map((name: ts.Identifier, index: number) =>
+                    parameters[index].isRestParameter() ? factory.createSpreadElement(name) : name
+                )))], true)
+            ));
+        } else if (kind === 'field') {
+            members.push(factory.createPropertyDeclaration(modifiers, memberName, undefined, undefined, call([])));
+        } else if (kind === 'constructor') {
+            const dispatch: ts.Statement = factory.createIfStatement(
+                factory.createStrictEquality(
+                    factory.createPropertyAccessExpression(factory.createIdentifier('arguments'), 'length'),
+                    factory.createNumericLiteral(parameters.length)
+                ),
+                factory.createBlock([
+                    factory.createExpressionStatement(call(parameters.map((_: ParameterDeclaration, index: number) =>
+                        factory.createElementAccessExpression(factory.createIdentifier('arguments'), index)
+                    ))),
+                    factory.createReturnStatement()
+                ], true)
+            );
+            const index: number = members.findIndex((member: ts.ClassElement) =>
+                ts.isConstructorDeclaration(member) && member.body !== undefined
+            );
+            if (index < 0) {
+                members.push(factory.createConstructorDeclaration(undefined, [], factory.createBlock([dispatch], true)));
+            } else {
+                const constructor: ts.ConstructorDeclaration = members[index] as ts.ConstructorDeclaration;
+                const statements: Array<ts.Statement> = [...constructor.body!.statements];
+                const [first]: Array<ts.Statement> = statements;
+                const hasSuper: boolean = first !== undefined && ts.isExpressionStatement(first) &&
+                    ts.isCallExpression(first.expression) && first.expression.expression.kind === ts.SyntaxKind.SuperKeyword;
+                statements.splice(hasSuper ? 1 : 0, 0, dispatch);
+                members[index] = factory.updateConstructorDeclaration(
+                    constructor, constructor.modifiers, constructor.parameters,
+                    factory.updateBlock(constructor.body!, statements)
+                );
+            }
+        }
+        return factory.updateClassDeclaration(
+            node, node.modifiers, node.name, node.typeParameters, node.heritageClauses, members
+        );
+    }
+
+    /**
+     * Add the accessor shim of a private member to its class, see
+     * `WeavingPass.weaveSourceFile`.
+     *
+     * @param factory - The {@link ts.NodeFactory}.
+     * @param node - The class declaration.
+     * @param shim - The {@link PrivilegedShim}.
+     * @returns The rewritten class declaration
+     */
+    private static addPrivilegedShim(
+        factory: ts.NodeFactory,
+        node: ts.ClassDeclaration,
+        shim: PrivilegedShim
+    ): ts.ClassDeclaration {
+        const {name, shimName, isMethod, isReadable, isWritable}: PrivilegedShim = shim;
+        const access: () => ts.Expression = (): ts.Expression => factory.createPropertyAccessExpression(
+            factory.createIdentifier('target'),
+            name.startsWith('#') ? factory.createPrivateIdentifier(name) : factory.createIdentifier(name)
+        );
+        const accessors: Array<ts.ObjectLiteralElementLike> = [];
+        if (isReadable) {
+            accessors.push(factory.createGetAccessorDeclaration(undefined, 'value', [], undefined, factory.createBlock([
+                factory.createReturnStatement(isMethod ? factory.createCallExpression(
+                    factory.createPropertyAccessExpression(access(), 'bind'), undefined, [factory.createIdentifier('target')]
+                ) : access())
+            ], true)));
+        }
+        if (isWritable) {
+            accessors.push(factory.createSetAccessorDeclaration(undefined, 'value', [
+                factory.createParameterDeclaration(undefined, undefined, 'value')
+            ], factory.createBlock([
+                factory.createExpressionStatement(factory.createAssignment(access(), factory.createIdentifier('value')))
+            ], true)));
+        }
+        return factory.updateClassDeclaration(node, node.modifiers, node.name, node.typeParameters, node.heritageClauses, [
+            ...node.members,
+            factory.createMethodDeclaration(
+                [factory.createModifier(ts.SyntaxKind.StaticKeyword)], undefined, shimName, undefined, undefined,
+                [factory.createParameterDeclaration(undefined, undefined, 'target')],
+                undefined,
+                factory.createBlock([
+                    factory.createReturnStatement(factory.createObjectLiteralExpression(accessors, true))
+                ], true)
+            )
+        ]);
+    }
+
+    /**
+     * Replace the superclass of a class, a class getting its first
+     * superclass calls `super()` first in its constructor.
+     *
+     * @param factory - The {@link ts.NodeFactory}.
+     * @param node - The class declaration.
+     * @param superClass - The expression of the new superclass.
+     * @returns The rewritten class declaration
+     */
+    private static setExtends(
+        factory: ts.NodeFactory,
+        node: ts.ClassDeclaration,
+        superClass: ts.Expression
+    ): ts.ClassDeclaration {
+        const clauses: Array<ts.HeritageClause> = [...(node.heritageClauses || [])];
+        const hadSuperClass: boolean = clauses.some((clause: ts.HeritageClause) =>
+            clause.token === ts.SyntaxKind.ExtendsKeyword
+        );
+        const members: Array<ts.ClassElement> = node.members.map((member: ts.ClassElement) => {
+            if (hadSuperClass || !ts.isConstructorDeclaration(member) || !member.body) {
+                return member;
+            }
+            return factory.updateConstructorDeclaration(member, member.modifiers, member.parameters, factory.updateBlock(
+                member.body, [
+                    factory.createExpressionStatement(factory.createCallExpression(factory.createSuper(), undefined, [])),
+                    ...member.body.statements
+                ]
+            ));
+        });
+        return factory.updateClassDeclaration(
+            node, node.modifiers, node.name, node.typeParameters,
+            [
+                factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, [
+                    factory.createExpressionWithTypeArguments(superClass, undefined)
+                ]),
+                ...clauses.filter((clause: ts.HeritageClause) => clause.token !== ts.SyntaxKind.ExtendsKeyword)
+            ],
+            members
+        );
+    }
+
+    /**
+     * Move the body of a method into an arrow function run by its
+     * {@link AdviceChain}.
+     *
+     * @param factory - The {@link ts.NodeFactory}.
+     * @param node - The method declaration.
+     * @param method - The {@link WovenMethod}.
+     * @returns The rewritten method declaration
+     */
+    private static rewriteMethod(
+        factory: ts.NodeFactory,
+        node: ts.MethodDeclaration,
+        method: WovenMethod
+    ): ts.MethodDeclaration {
+        const args: Array<ts.Expression> = [];
+        const parameters: Array<ts.ParameterDeclaration> = node.parameters.map(
+            (parameter: ts.ParameterDeclaration, index: number) => {
+                const isIdentifier: boolean = ts.isIdentifier(parameter.name);
+                const name: ts.Identifier = factory.createIdentifier(
+                    isIdentifier ? (parameter.name as ts.Identifier).text : `${GENERATED_PREFIX}arg${index}`
+                );
+                args.push(parameter.dotDotDotToken ? factory.createSpreadElement(name) : name);
+                return isIdentifier ? parameter : factory.updateParameterDeclaration(
+                    parameter, parameter.modifiers, parameter.dotDotDotToken, name,
+                    parameter.questionToken, parameter.type, parameter.initializer
+                );
+            }
+        );
+        const formals: Array<ts.ParameterDeclaration> = node.parameters.map((parameter: ts.ParameterDeclaration) =>
+            factory.createParameterDeclaration(
+                undefined, parameter.dotDotDotToken, parameter.name,
+                parameter.questionToken, parameter.type, parameter.initializer
+            )
+        );
+        const isAsync: boolean = (node.modifiers || [])
+            .some((modifier: ts.ModifierLike) => modifier.kind === ts.SyntaxKind.AsyncKeyword);
+        const original: ts.ArrowFunction = factory.createArrowFunction(
+            isAsync ? [factory.createModifier(ts.SyntaxKind.AsyncKeyword)] : undefined,
+            undefined,
+            formals,
+            node.type,
+            factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+            node.body!
+        );
+        const body: ts.Block = factory.createBlock([
+            factory.createReturnStatement(factory.createCallExpression(
+                factory.createPropertyAccessExpression(factory.createIdentifier(method.chainName), 'invoke'),
+                undefined,
+                [original, factory.createThis(), factory.createArrayLiteralExpression(args)]
+            ))
+        ], true);
+        return factory.updateMethodDeclaration(
+            node, node.modifiers, node.asteriskToken, node.name, node.questionToken,
+            node.typeParameters, parameters, node.type, body
+        );
+    }
+
+    /**
+     * Create the literal expression of a JSON value.
+     *
+     * @param factory - The {@link ts.NodeFactory}.
+     * @param value - The value, undefined properties are dropped.
+     * @returns The expression
+     */
+    private static toExpression(factory: ts.NodeFactory, value: any): ts.Expression {
+        if (value === null || value === undefined) {
+            return factory.createNull();
+        }
+        if (Array.isArray(value)) {
+            return factory.createArrayLiteralExpression(
+                value.map((item: any) => AspectTransformer.toExpression(factory, item))
+            );
+        }
+        switch (typeof value) {
+            case 'boolean':
+                return value ? factory.createTrue() : factory.createFalse();
+            case 'number':
+                return value < 0 ?
+                    factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, factory.createNumericLiteral(-value)) :
+                    factory.createNumericLiteral(value);
+            case 'string':
+                return factory.createStringLiteral(value);
+            default:
+                return factory.createObjectLiteralExpression(Object.entries(value)
+                    .filter(([, property]: [string, any]) => property !== undefined)
+                    .map(([name, property]: [string, any]) => factory.createPropertyAssignment(
+                        IDENTIFIER.test(name) ? name : factory.createStringLiteral(name),
+                        AspectTransformer.toExpression(factory, property)
+                    )));
+        }
+    }
+}
+
+export default AspectTransformer;
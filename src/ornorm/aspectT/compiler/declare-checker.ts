@@ -0,0 +1,459 @@
+import {
+    ClassDeclaration,
+    Node,
+    Project,
+    PropertyDeclaration,
+    SourceFile,
+    Symbol as MorphSymbol,
+    SyntaxKind
+} from 'ts-morph';
+import {
+    AdviceChain,
+    AspectCompiler,
+    ConstructorDescriptor,
+    Debug,
+    JoinPointKind,
+    MemberDescriptor,
+    ParameterDescriptor,
+    PointcutDefinition,
+    PointcutMatcher,
+    PointcutNode,
+    PointcutParser,
+    Shadow
+} from '@ornorm/aspectT';
+import {DescriptorType} from '../term/describe-type';
+import {AspectReader, DeclareDescriptor, SourceAspect} from './aspect-reader';
+import {PrivilegedAccess, WeavingPass} from './weaving-pass';
+
+const STATIC_DESIGNATORS: Set<string> = new Set<string>([
+    'and', 'or', 'not', 'reference', 'call', 'get', 'set', 'within', 'withincode'
+]);
+
+const COMPOUND_ASSIGNMENTS: Set<SyntaxKind> = new Set<SyntaxKind>([
+    SyntaxKind.PlusEqualsToken,
+    SyntaxKind.MinusEqualsToken,
+    SyntaxKind.AsteriskEqualsToken,
+    SyntaxKind.AsteriskAsteriskEqualsToken,
+    SyntaxKind.SlashEqualsToken,
+    SyntaxKind.PercentEqualsToken,
+    SyntaxKind.LessThanLessThanEqualsToken,
+    SyntaxKind.GreaterThanGreaterThanEqualsToken,
+    SyntaxKind.GreaterThanGreaterThanGreaterThanEqualsToken,
+    SyntaxKind.AmpersandEqualsToken,
+    SyntaxKind.BarEqualsToken,
+    SyntaxKind.CaretEqualsToken,
+    SyntaxKind.AmpersandAmpersandEqualsToken,
+    SyntaxKind.BarBarEqualsToken,
+    SyntaxKind.QuestionQuestionEqualsToken
+]);
+
+/**
+ * A diagnostic reported by a `declare error` or a `declare warning`, or
+ * by the access of an aspect not privileged to a private member.
+ */
+export interface DeclareDiagnostic {
+    /**
+     * The diagnostic category.
+     */
+    category: 'error' | 'warning';
+    /**
+     * The message of the declaration.
+     */
+    message: string;
+    /**
+     * The name of the declaring aspect.
+     */
+    aspect: string;
+    /**
+     * The path of the source file of the join point.
+     */
+    filePath: string;
+    /**
+     * The line number, starting at 1.
+     */
+    line: number;
+    /**
+     * The column number, starting at 1.
+     */
+    column: number;
+}
+
+/**
+ * A `declare error` or `declare warning` bound to the matcher of its
+ * aspect.
+ */
+interface Declaration {
+    aspect: SourceAspect;
+    descriptor: DeclareDescriptor;
+    matcher: PointcutMatcher;
+    pointcut: PointcutNode;
+}
+
+/**
+ * Check the `declare error` and `declare warning` of the aspects of a
+ * ts-morph {@link Project} against its sources.
+ *
+ * The pointcuts are evaluated against the AST, they may only use the
+ * statically determinable designators `call`, `get`, `set`, `within` and
+ * `withincode`. The join points are the method and constructor calls and
+ * the property reads and writes resolved to a class of the project.
+ *
+ * The accesses of the aspects not declared `@Privileged` to the `private`
+ * and `#private` members of other classes are reported as errors.
+ */
+export class DeclareChecker {
+    private readonly mAspects: Array<SourceAspect>;
+    private readonly mDeclarations: Array<Declaration>;
+    private readonly mProject: Project;
+
+    /**
+     * Create a checker over a project.
+     *
+     * @param project - The {@link Project}.
+     * @throws PointcutSyntaxError when a pointcut is not valid.
+     * @throws TypeError when a pointcut uses a designator not statically
+     * determinable.
+     */
+    constructor(project: Project) {
+        this.mProject = project;
+        const aspects: Array<SourceAspect> = WeavingPass.getSourceFiles(project)
+            .flatMap((sourceFile: SourceFile) => sourceFile.getClasses())
+            .filter(AspectReader.isAspect.bind(AspectReader))
+            .map(AspectReader.read.bind(AspectReader));
+        this.mAspects = aspects;
+        const pointcuts: Map<SourceAspect, Map<string, PointcutDefinition>> = AspectCompiler.getPointcuts(aspects);
+        this.mDeclarations = aspects.flatMap((aspect: SourceAspect) => {
+            const definitions: Map<string, PointcutDefinition> = pointcuts.get(aspect)!;
+            const matcher: PointcutMatcher = new PointcutMatcher((name: string) => definitions.get(name));
+            return aspect.declares.map((descriptor: DeclareDescriptor) => {
+                const pointcut: PointcutNode = PointcutParser.parse(descriptor.pointcut);
+                DeclareChecker.assertStatic(pointcut, definitions, descriptor, new Set<string>());
+                return {aspect, descriptor, matcher, pointcut};
+            });
+        });
+    }
+
+    /**
+     * The project.
+     */
+    public get project(): Project {
+        return this.mProject;
+    }
+
+    /**
+     * Check a project and print its diagnostics, the entry point of the
+     * command line.
+     *
+     * @param args - The command line arguments, the path of the
+     * `tsconfig.json` of the project, the `weaving` one of
+     * `config/aspect.json` by default.
+     * @returns The exit status, 1 when an error is reported
+     */
+    public static main(args: Array<string> = process.argv.slice(2)): number {
+        const tsConfigFilePath: string = args[0] || Debug.env.weaving.tsConfigFilePath;
+        const diagnostics: Array<DeclareDiagnostic> = new DeclareChecker(new Project({tsConfigFilePath})).check();
+        diagnostics.forEach((diagnostic: DeclareDiagnostic) => {
+            if (diagnostic.category === 'error') {
+                console.error(DeclareChecker.format(diagnostic));
+            } else {
+                console.warn(DeclareChecker.format(diagnostic));
+            }
+        });
+        return diagnostics.some((diagnostic: DeclareDiagnostic) => diagnostic.category === 'error') ? 1 : 0;
+    }
+
+    /**
+     * Return the text of a diagnostic.
+     *
+     * @param diagnostic - The {@link DeclareDiagnostic}.
+     * @returns The text, e.g. `src/main.ts:12:5 - error: bad construction`
+     */
+    public static format(diagnostic: DeclareDiagnostic): string {
+        const {filePath, line, column, category, message}: DeclareDiagnostic = diagnostic;
+        return `${filePath}:${line}:${column} - ${category}: ${message}`;
+    }
+
+    /**
+     * Check the sources of the project.
+     *
+     * @returns The list of {@link DeclareDiagnostic} by source file and
+     * position
+     */
+    public check(): Array<DeclareDiagnostic> {
+        if (this.mDeclarations.length === 0 && this.mAspects.every((aspect: SourceAspect) => aspect.isPrivileged)) {
+            return [];
+        }
+        return WeavingPass.getSourceFiles(this.mProject)
+            .flatMap((sourceFile: SourceFile) => this.checkSourceFile(sourceFile));
+    }
+
+    /**
+     * Check a source file.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @returns The list of {@link DeclareDiagnostic} by position
+     */
+    public checkSourceFile(sourceFile: SourceFile): Array<DeclareDiagnostic> {
+        const diagnostics: Array<DeclareDiagnostic> = this.mAspects
+            .filter((aspect: SourceAspect) => !aspect.isPrivileged && aspect.declaration.getSourceFile() === sourceFile)
+            .flatMap(WeavingPass.getPrivateAccesses.bind(WeavingPass))
+            .map(({aspect, node, declaration, name}: PrivilegedAccess) => {
+                const {line, column}: {line: number, column: number} = sourceFile.getLineAndColumnAtPos(node.getStart());
+                return {
+                    category: 'error',
+                    message: `${declaration.getName()}.${name} is private, the aspect ${aspect.name} must be @Privileged`,
+                    aspect: aspect.name,
+                    filePath: sourceFile.getFilePath(),
+                    line,
+                    column
+                };
+            });
+        if (this.mDeclarations.length === 0) {
+            return diagnostics;
+        }
+        sourceFile.forEachDescendant((node: Node) => {
+            DeclareChecker.getShadows(node).forEach((shadow: Shadow) => {
+                this.mDeclarations.forEach(({aspect, descriptor, matcher, pointcut}: Declaration) => {
+                    if (matcher.match(pointcut, shadow) !== 'yes') {
+                        return;
+                    }
+                    const {line, column}: {line: number, column: number} =
+                        sourceFile.getLineAndColumnAtPos(node.getStart());
+                    diagnostics.push({
+                        category: descriptor.kind,
+                        message: descriptor.message,
+                        aspect: aspect.name,
+                        filePath: sourceFile.getFilePath(),
+                        line,
+                        column
+                    });
+                });
+            });
+        });
+        return diagnostics.sort((a: DeclareDiagnostic, b: DeclareDiagnostic) => a.line - b.line || a.column - b.column);
+    }
+
+    /**
+     * Throw when a pointcut uses a designator not statically determinable.
+     *
+     * @param node - The pointcut.
+     * @param definitions - The named pointcuts of the aspect.
+     * @param descriptor - The {@link DeclareDescriptor}.
+     * @param visited - The named pointcuts already checked.
+     * @throws TypeError when a designator is not statically determinable.
+     * @throws ReferenceError when a named pointcut cannot be resolved.
+     */
+    private static assertStatic(
+        node: PointcutNode,
+        definitions: Map<string, PointcutDefinition>,
+        descriptor: DeclareDescriptor,
+        visited: Set<string>
+    ): void {
+        if (!STATIC_DESIGNATORS.has(node.kind)) {
+            throw new TypeError(
+                `UnsupportedOperationException ${node.kind}() in declare ${descriptor.kind} : ${descriptor.pointcut}`
+            );
+        }
+        switch (node.kind) {
+            case 'and':
+            case 'or':
+                DeclareChecker.assertStatic(node.left, definitions, descriptor, visited);
+                DeclareChecker.assertStatic(node.right, definitions, descriptor, visited);
+                break;
+            case 'not':
+                DeclareChecker.assertStatic(node.pointcut, definitions, descriptor, visited);
+                break;
+            case 'reference': {
+                const definition: PointcutDefinition | undefined = definitions.get(node.name);
+                if (!definition) {
+                    throw new ReferenceError(`PointcutNotFoundException ${node.name}`);
+                }
+                if (!visited.has(node.name)) {
+                    visited.add(node.name);
+                    DeclareChecker.assertStatic(definition.pointcut, definitions, descriptor, visited);
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Return the declarations of a symbol, the symbol of an import is
+     * followed to its declaration.
+     *
+     * @param symbol - The symbol, if any.
+     * @returns The declarations of the symbol
+     */
+    private static getDeclarations(symbol: MorphSymbol | undefined): Array<Node> {
+        if (!symbol) {
+            return [];
+        }
+        const declared: MorphSymbol | undefined = symbol.isAlias() ? symbol.getAliasedSymbol() : symbol;
+        return declared ? declared.getDeclarations() : [];
+    }
+
+    /**
+     * Return the shadows of the join points of a node: the call of a
+     * method or a constructor, the read or the write of a property.
+     *
+     * @param node - The {@link Node}.
+     * @returns The shadows, an assignment compound such as `+=` reads and
+     * writes
+     */
+    private static getShadows(node: Node): Array<Shadow> {
+        if (Node.isCallExpression(node)) {
+            const callee: Node = node.getExpression();
+            const name: Node = Node.isPropertyAccessExpression(callee) ? callee.getNameNode() : callee;
+            const method: Node | undefined = DeclareChecker.getDeclarations(name.getSymbol())
+                .find((declaration: Node) => Node.isMethodDeclaration(declaration));
+            if (method && Node.isMethodDeclaration(method)) {
+                const className: string = DeclareChecker.getClassName(method);
+                return [DeclareChecker.within(node, AdviceChain.createShadow(
+                    'method-call', className, DescriptorType.getMethod(method)
+                ))];
+            }
+            return [];
+        }
+        if (Node.isNewExpression(node)) {
+            const declaringClass: Node | undefined = DeclareChecker.getDeclarations(node.getExpression().getSymbol())
+                .find((declaration: Node) => Node.isClassDeclaration(declaration));
+            if (declaringClass && Node.isClassDeclaration(declaringClass)) {
+                const arity: number = node.getArguments().length;
+                const constructors: Array<ConstructorDescriptor> = DescriptorType.getConstructors(declaringClass);
+                const descriptor: ConstructorDescriptor = constructors.find((c: ConstructorDescriptor) =>
+                    c.parameters.length === arity
+                ) || constructors[0] || {modifiers: [], parameters: [], returnType: declaringClass.getName() || ''};
+                return [DeclareChecker.within(node, DeclareChecker.createConstructorShadow(
+                    'constructor-call', declaringClass.getName() || '', descriptor
+                ))];
+            }
+            return [];
+        }
+        if (Node.isPropertyAccessExpression(node)) {
+            const parent: Node | undefined = node.getParent();
+            if (parent && Node.isCallExpression(parent) && parent.getExpression() === node) {
+                return [];
+            }
+            const property: Node | undefined = DeclareChecker.getDeclarations(node.getNameNode().getSymbol())
+                .find((declaration: Node) => Node.isPropertyDeclaration(declaration));
+            if (!property || !Node.isPropertyDeclaration(property)) {
+                return [];
+            }
+            return DeclareChecker.getAccessKinds(node).map((kind: JoinPointKind) =>
+                DeclareChecker.within(node, DeclareChecker.createFieldShadow(kind, property))
+            );
+        }
+        return [];
+    }
+
+    /**
+     * Return the join point kinds of a property access.
+     *
+     * @param node - The property access.
+     * @returns `field-get`, `field-set` or both
+     */
+    private static getAccessKinds(node: Node): Array<JoinPointKind> {
+        const parent: Node | undefined = node.getParent();
+        if (parent && Node.isBinaryExpression(parent) && parent.getLeft() === node) {
+            const operator: SyntaxKind = parent.getOperatorToken().getKind();
+            if (operator === SyntaxKind.EqualsToken) {
+                return ['field-set'];
+            }
+            if (COMPOUND_ASSIGNMENTS.has(operator)) {
+                return ['field-get', 'field-set'];
+            }
+        }
+        if (parent && (Node.isPrefixUnaryExpression(parent) || Node.isPostfixUnaryExpression(parent))) {
+            const operator: SyntaxKind = parent.getOperatorToken();
+            if (operator === SyntaxKind.PlusPlusToken || operator === SyntaxKind.MinusMinusToken) {
+                return ['field-get', 'field-set'];
+            }
+        }
+        return ['field-get'];
+    }
+
+    /**
+     * Return the name of the class declaring a member.
+     *
+     * @param member - The member declaration.
+     * @returns The class name, empty when anonymous
+     */
+    private static getClassName(member: Node): string {
+        const declaringClass: ClassDeclaration | undefined = member.getFirstAncestorByKind(SyntaxKind.ClassDeclaration);
+        return declaringClass && declaringClass.getName() || '';
+    }
+
+    /**
+     * Create the shadow of a constructor join point.
+     *
+     * @param kind - The join point kind.
+     * @param className - The name of the declaring class.
+     * @param descriptor - The {@link ConstructorDescriptor}.
+     * @returns The {@link Shadow}
+     */
+    private static createConstructorShadow(
+        kind: JoinPointKind,
+        className: string,
+        descriptor: ConstructorDescriptor
+    ): Shadow {
+        return {
+            kind,
+            declaringType: className,
+            modifiers: [...descriptor.modifiers],
+            name: 'new',
+            returnType: className,
+            parameterTypes: descriptor.parameters.map((parameter: ParameterDescriptor) => parameter.type),
+            exceptionTypes: [],
+            withinType: kind === 'constructor-call' ? '' : className
+        };
+    }
+
+    /**
+     * Create the shadow of a property join point.
+     *
+     * @param kind - The join point kind.
+     * @param property - The {@link PropertyDeclaration}.
+     * @returns The {@link Shadow}
+     */
+    private static createFieldShadow(kind: JoinPointKind, property: PropertyDeclaration): Shadow {
+        const {modifiers, name, type}: MemberDescriptor = DescriptorType.getMember(property);
+        return {
+            kind,
+            declaringType: DeclareChecker.getClassName(property),
+            modifiers: [...modifiers],
+            name,
+            returnType: type,
+            parameterTypes: [],
+            exceptionTypes: [],
+            withinType: ''
+        };
+    }
+
+    /**
+     * Set where the code of a join point is defined.
+     *
+     * @param node - The {@link Node} of the join point.
+     * @param shadow - The {@link Shadow}.
+     * @returns The shadow, within the enclosing class and method or
+     * constructor
+     */
+    private static within(node: Node, shadow: Shadow): Shadow {
+        const className: string = DeclareChecker.getClassName(node);
+        const code: Node | undefined = node.getFirstAncestor((ancestor: Node) =>
+            Node.isMethodDeclaration(ancestor) || Node.isConstructorDeclaration(ancestor)
+        );
+        let withinCode: Shadow | undefined;
+        if (code && Node.isMethodDeclaration(code)) {
+            withinCode = AdviceChain.createShadow('method-execution', className, DescriptorType.getMethod(code));
+        } else if (code && Node.isConstructorDeclaration(code)) {
+            withinCode = DeclareChecker.createConstructorShadow('constructor-execution', className, {
+                modifiers: code.getModifiers().map(DescriptorType.getModifier.bind(DescriptorType)),
+                parameters: code.getParameters().map(DescriptorType.getParameter.bind(DescriptorType)),
+                returnType: className
+            });
+        }
+        return {...shadow, withinType: className, withinCode};
+    }
+}
+
+export default DeclareChecker;
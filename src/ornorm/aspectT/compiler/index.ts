@@ -0,0 +1,4 @@
+export * from './aspect-reader';
+export * from './weaving-pass';
+export * from './aspect-transformer';
+export * from './declare-checker';
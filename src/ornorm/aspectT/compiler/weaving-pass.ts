@@ -0,0 +1,1565 @@
+import {dirname, isAbsolute, join, relative, resolve} from 'path';
+import {mkdir, ShellString} from 'shelljs';
+import {
+    CatchClause,
+    ClassDeclaration,
+    CodeBlockWriter,
+    ConstructorDeclaration,
+    Expression,
+    ExpressionWithTypeArguments,
+    ImportDeclaration,
+    ImportSpecifier,
+    InterfaceDeclaration,
+    MethodDeclaration,
+    Node,
+    OptionalKind,
+    ParameterDeclaration,
+    ParameterDeclarationStructure,
+    Project,
+    PropertyAccessExpression,
+    PropertyDeclaration,
+    Scope,
+    SourceFile,
+    Statement,
+    SyntaxKind,
+    Type,
+    TypeNode,
+    VariableDeclaration
+} from 'ts-morph';
+import {
+    AdviceChain,
+    AdviceDescriptor,
+    AdviceMatcher,
+    Annotation,
+    AspectCompiler,
+    ConstructorChain,
+    ConstructorDescriptor,
+    DeclareAnnotations,
+    DeclareParents,
+    FieldChain,
+    HandlerChain,
+    InterTypeDeclaration,
+    InterTypeDescriptor,
+    InterTypes,
+    isLegalInheritance,
+    JoinPointKind,
+    MemberDescriptor,
+    MethodDescriptor,
+    ParentsDeclaration,
+    PatternMatcher,
+    PointcutDescriptor,
+    Shadow,
+    ShadowMunger,
+    SourceLocation
+} from '@ornorm/aspectT';
+import {DescriptorType} from '../term/describe-type';
+import {AspectReader, SourceAspect} from './aspect-reader';
+
+/**
+ * The module woven sources import the runtime from by default.
+ */
+export const DEFAULT_RUNTIME_MODULE: string = '@ornorm/aspectT';
+
+/**
+ * The prefix of the identifiers generated in woven sources.
+ */
+export const GENERATED_PREFIX: string = 'aspectT$';
+
+const ANNOTATION_DESIGNATOR: RegExp = /@(annotation|within|withincode)\s*\(/;
+
+/**
+ * Compile-time weaving options.
+ */
+export interface WeavingOptions {
+    /**
+     * The path of the `tsconfig.json` of the project to weave.
+     */
+    tsConfigFilePath: string;
+    /**
+     * The directory receiving the woven sources.
+     */
+    outDir: string;
+    /**
+     * The module the woven sources import the runtime from.
+     */
+    runtimeModule?: string;
+}
+
+/**
+ * The result of a compile-time weaving.
+ */
+export interface WeavingResult {
+    /**
+     * The written files.
+     */
+    files: Array<string>;
+    /**
+     * The woven methods, e.g. `Account.deposit`.
+     */
+    methods: Array<string>;
+}
+
+/**
+ * The import of an aspect class into a woven source file.
+ */
+export interface AspectImport {
+    /**
+     * The module specifier of the source file declaring the aspect.
+     */
+    moduleSpecifier: string;
+    /**
+     * True when the aspect class is the default export.
+     */
+    isDefault: boolean;
+}
+
+/**
+ * The `declare parents` of the aspects matching a class.
+ */
+export interface DeclaredParents {
+    /**
+     * The class.
+     */
+    declaration: ClassDeclaration;
+    /**
+     * The new superclass, undefined when unchanged.
+     */
+    superClass?: ClassDeclaration;
+    /**
+     * The names of the new interfaces.
+     */
+    interfaces: Array<string>;
+    /**
+     * The classes among the new interfaces, their members are mixed in.
+     */
+    mixins: Array<ClassDeclaration>;
+}
+
+/**
+ * An inter-type member declaration of an aspect targeting a class.
+ */
+export interface WovenInterType {
+    /**
+     * The target class.
+     */
+    declaration: ClassDeclaration;
+    /**
+     * The declaring aspect.
+     */
+    aspect: SourceAspect;
+    /**
+     * The {@link InterTypeDeclaration}.
+     */
+    interType: InterTypeDeclaration;
+    /**
+     * The aspect method holding the body or the initializer.
+     */
+    method: MethodDeclaration;
+    /**
+     * The name of the injected member.
+     */
+    memberName: string;
+}
+
+/**
+ * An annotation declared by an aspect on a class or one of its members.
+ */
+export interface DeclaredAnnotation {
+    /**
+     * The class.
+     */
+    declaration: ClassDeclaration;
+    /**
+     * True when attached to the class, false to its prototype.
+     */
+    isStatic: boolean;
+    /**
+     * The member name, `constructor` for the constructors, undefined for
+     * the class.
+     */
+    member?: string;
+    /**
+     * The {@link Annotation}.
+     */
+    annotation: Annotation;
+}
+
+/**
+ * A method matched by at least one advice or tracked for `cflow`
+ * pointcuts and per clauses.
+ */
+export interface WovenMethod {
+    /**
+     * The name of the declaring class.
+     */
+    className: string;
+    /**
+     * The method.
+     */
+    declaration: MethodDeclaration;
+    /**
+     * The {@link MethodDescriptor} of the method.
+     */
+    descriptor: MethodDescriptor;
+    /**
+     * The name of the generated {@link AdviceChain} constant.
+     */
+    chainName: string;
+    /**
+     * The {@link SourceLocation} of the method.
+     */
+    sourceLocation: SourceLocation;
+}
+
+/**
+ * A property matched by at least one `get` or `set` advice or tracked for
+ * `cflow` pointcuts and per clauses.
+ */
+export interface WovenField {
+    /**
+     * The name of the declaring class.
+     */
+    className: string;
+    /**
+     * The property.
+     */
+    declaration: PropertyDeclaration;
+    /**
+     * The {@link MemberDescriptor} of the property.
+     */
+    descriptor: MemberDescriptor;
+    /**
+     * True for a static property.
+     */
+    isStatic: boolean;
+    /**
+     * The {@link SourceLocation} of the property.
+     */
+    sourceLocation: SourceLocation;
+}
+
+/**
+ * A `catch` clause, or one of its `instanceof` branches, matched by at
+ * least one before advice.
+ */
+export interface WovenHandler {
+    /**
+     * The name of the class declaring the clause.
+     */
+    className: string;
+    /**
+     * The clause.
+     */
+    declaration: CatchClause;
+    /**
+     * The block of the clause, or the branch run for the handled type.
+     */
+    statement: Statement;
+    /**
+     * The `handler` {@link Shadow}.
+     */
+    shadow: Shadow;
+    /**
+     * True when the clause is in a static method.
+     */
+    isStatic: boolean;
+    /**
+     * The name of the generated {@link HandlerChain} constant.
+     */
+    chainName: string;
+    /**
+     * The {@link SourceLocation} of the clause.
+     */
+    sourceLocation: SourceLocation;
+}
+
+/**
+ * A class whose `preinitialization`, `initialization` or
+ * `staticinitialization` join point is matched by at least one advice.
+ */
+export interface WovenInitialization {
+    /**
+     * The name of the class.
+     */
+    className: string;
+    /**
+     * The class.
+     */
+    declaration: ClassDeclaration;
+    /**
+     * The {@link ConstructorDescriptor} of its constructor.
+     */
+    descriptor: ConstructorDescriptor;
+    /**
+     * The matched join point kinds.
+     */
+    kinds: Array<JoinPointKind>;
+    /**
+     * The name of the generated {@link ConstructorChain} constant.
+     */
+    chainName: string;
+    /**
+     * The {@link SourceLocation} of the constructor, or of the class
+     * without constructor.
+     */
+    sourceLocation: SourceLocation;
+}
+
+/**
+ * The accessor shim generated on a class for a `private` or `#private`
+ * member accessed by a privileged aspect, a static method returning an
+ * object whose `value` property reads and writes the member, a method
+ * being read bound to its target.
+ */
+export interface PrivilegedShim {
+    /**
+     * The class declaring the member.
+     */
+    declaration: ClassDeclaration;
+    /**
+     * The member name, e.g. `balance` or `#balance`.
+     */
+    name: string;
+    /**
+     * True for a static member.
+     */
+    isStatic: boolean;
+    /**
+     * The name of the generated static method, e.g.
+     * `aspectT$privileged$$balance` for `#balance`.
+     */
+    shimName: string;
+    /**
+     * The type of the member value.
+     */
+    type: string;
+    /**
+     * True when the member is a method.
+     */
+    isMethod: boolean;
+    /**
+     * True when the member can be read.
+     */
+    isReadable: boolean;
+    /**
+     * True when the member can be written.
+     */
+    isWritable: boolean;
+}
+
+/**
+ * An access of an aspect to a `private` or `#private` member of another
+ * class, e.g. `account.#balance`, rewritten for a privileged aspect into
+ * `Account.aspectT$privileged$$balance(account).value`.
+ */
+export interface PrivilegedAccess extends PrivilegedShim {
+    /**
+     * The accessing aspect.
+     */
+    aspect: SourceAspect;
+    /**
+     * The property access.
+     */
+    node: PropertyAccessExpression;
+}
+
+/**
+ * Weave the aspects of a ts-morph {@link Project} into its classes.
+ *
+ * The body of each matching method is moved into an arrow function run by
+ * an {@link AdviceChain}, the advice are called directly without
+ * replacing anything at runtime. Generator methods are not woven. The
+ * `declare parents` rewrite the heritage clauses of the matching classes,
+ * the inter-type member declarations add members delegating to the aspect
+ * methods, the declared annotations are attached after the classes. The
+ * matching properties are replaced after the classes by accessors run by
+ * a {@link FieldChain}. The matching `catch` clauses, narrowed by the
+ * `instanceof` branches testing the caught value, start by running their
+ * {@link HandlerChain}, only before advice apply to them.
+ *
+ * The constructor of a class matched by `preinitialization` runs its
+ * {@link ConstructorChain} right before the `super()` call, the
+ * statements following the `super()` call are the `initialization` join
+ * point, a class without constructor is given one. The static
+ * initializers of a class matched by `staticinitialization` are enclosed
+ * by two static blocks. Around advice do not apply to these join points.
+ *
+ * The accesses of the privileged aspects to the `private` and `#private`
+ * members of other classes go through the {@link PrivilegedShim} added to
+ * the declaring classes.
+ */
+export class WeavingPass {
+    private readonly mAspects: Array<SourceAspect>;
+    private readonly mMatchers: Array<AdviceMatcher<SourceAspect>>;
+    private readonly mProject: Project;
+    private readonly mRuntimeModule: string;
+    private readonly mShims: Array<PrivilegedShim>;
+
+    /**
+     * Create a pass over a project. The descriptors of its source files are
+     * set on the {@link PatternMatcher}, so the type patterns resolve their
+     * supertypes and module paths.
+     *
+     * @param project - The {@link Project}.
+     * @param runtimeModule - The module woven sources import the runtime
+     * from.
+     * @throws PointcutSyntaxError when an advice or a pointcut is not valid.
+     * @throws TypeError when a concrete aspect leaves an abstract pointcut
+     * undefined.
+     */
+    constructor(project: Project, runtimeModule: string = DEFAULT_RUNTIME_MODULE) {
+        this.mProject = project;
+        this.mRuntimeModule = runtimeModule;
+        PatternMatcher.setModules(
+            WeavingPass.getSourceFiles(project).map((sourceFile: SourceFile) => DescriptorType.getModule(sourceFile))
+        );
+        this.mAspects = WeavingPass.getSourceFiles(project)
+            .flatMap((sourceFile: SourceFile) => sourceFile.getClasses())
+            .filter(AspectReader.isAspect.bind(AspectReader))
+            .map(AspectReader.read.bind(AspectReader));
+        this.mMatchers = AspectCompiler.getMatchers(this.mAspects);
+        this.mShims = [];
+        this.mAspects
+            .filter((aspect: SourceAspect) => aspect.isPrivileged)
+            .flatMap(WeavingPass.getPrivateAccesses.bind(WeavingPass))
+            .forEach(({declaration, name, isStatic, shimName, type, isMethod, isReadable, isWritable}: PrivilegedAccess) => {
+                if (!this.mShims.some((shim: PrivilegedShim) =>
+                    shim.declaration === declaration && shim.shimName === shimName
+                )) {
+                    this.mShims.push({declaration, name, isStatic, shimName, type, isMethod, isReadable, isWritable});
+                }
+            });
+    }
+
+    /**
+     * The aspects of the project by lexical order.
+     */
+    public get aspects(): Array<SourceAspect> {
+        return this.mAspects;
+    }
+
+    /**
+     * The project.
+     */
+    public get project(): Project {
+        return this.mProject;
+    }
+
+    /**
+     * Return the source files of a project, declaration files excluded.
+     *
+     * @param project - The {@link Project}.
+     * @returns The list of {@link SourceFile}
+     */
+    public static getSourceFiles(project: Project): Array<SourceFile> {
+        return project.getSourceFiles().filter((sourceFile: SourceFile) => !sourceFile.isDeclarationFile());
+    }
+
+    /**
+     * Load a project, weave it and write the woven sources to a separate
+     * directory, the sources of the project are left untouched.
+     *
+     * @param options - The {@link WeavingOptions}.
+     * @returns The {@link WeavingResult}
+     * @throws PointcutSyntaxError when an advice or a pointcut is not valid.
+     */
+    public static async weave(options: WeavingOptions): Promise<WeavingResult> {
+        const {tsConfigFilePath, runtimeModule}: WeavingOptions = options;
+        const project: Project = new Project({tsConfigFilePath});
+        const rootDir: string = resolve(project.getCompilerOptions().rootDir || dirname(tsConfigFilePath));
+        const outDir: string = resolve(options.outDir);
+        const pass: WeavingPass = new WeavingPass(project, runtimeModule);
+        const result: WeavingResult = {files: [], methods: []};
+        WeavingPass.getSourceFiles(project).forEach((sourceFile: SourceFile) => {
+            if (!WeavingPass.isInside(rootDir, sourceFile.getFilePath()) ||
+                WeavingPass.isInside(outDir, sourceFile.getFilePath())) {
+                return;
+            }
+            pass.weaveSourceFile(sourceFile).forEach((method: WovenMethod) => {
+                result.methods.push(`${method.className}.${method.descriptor.name}`);
+            });
+            const outPath: string = join(outDir, relative(rootDir, sourceFile.getFilePath()));
+            mkdir('-p', dirname(outPath));
+            new ShellString(sourceFile.getFullText()).to(outPath);
+            result.files.push(outPath);
+        });
+        return result;
+    }
+
+    /**
+     * Return how a source file imports an aspect class.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @param aspect - The {@link SourceAspect}.
+     * @returns The {@link AspectImport}, undefined when the aspect is
+     * declared in the source file
+     * @throws TypeError when the aspect class is not exported.
+     */
+    public static getAspectImport(sourceFile: SourceFile, aspect: SourceAspect): AspectImport | undefined {
+        if (aspect.declaration.getSourceFile() !== sourceFile && !aspect.declaration.isExported()) {
+            throw new TypeError(`IllegalAccessException aspect ${aspect.name} is not exported`);
+        }
+        return WeavingPass.getTypeImport(sourceFile, aspect.declaration);
+    }
+
+    /**
+     * Return how a source file imports a class or an interface.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @param declaration - The {@link ClassDeclaration} or
+     * {@link InterfaceDeclaration}.
+     * @returns The {@link AspectImport}, undefined when the type is
+     * declared in the source file
+     * @throws TypeError when the type is not exported.
+     */
+    public static getTypeImport(
+        sourceFile: SourceFile,
+        declaration: ClassDeclaration | InterfaceDeclaration
+    ): AspectImport | undefined {
+        const declarationFile: SourceFile = declaration.getSourceFile();
+        if (declarationFile === sourceFile) {
+            return undefined;
+        }
+        if (!declaration.isExported()) {
+            throw new TypeError(`IllegalAccessException ${declaration.getName()} is not exported`);
+        }
+        return {
+            moduleSpecifier: sourceFile.getRelativePathAsModuleSpecifierTo(declarationFile),
+            isDefault: declaration.isDefaultExport()
+        };
+    }
+
+    /**
+     * Return the accesses of an aspect to the `private` and `#private`
+     * members of other classes, the members of the super classes of the
+     * accessed type included.
+     *
+     * @param aspect - The {@link SourceAspect}.
+     * @returns The list of {@link PrivilegedAccess}
+     */
+    public static getPrivateAccesses(aspect: SourceAspect): Array<PrivilegedAccess> {
+        return aspect.declaration.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression)
+            .flatMap((node: PropertyAccessExpression) => {
+                const name: string = node.getName();
+                const type: Type = node.getExpression().getType();
+                const isStatic: boolean = type.getConstructSignatures().length > 0;
+                let declaration: ClassDeclaration | undefined = (type.getSymbol()?.getDeclarations() || [])
+                    .find((candidate: Node) => Node.isClassDeclaration(candidate)) as ClassDeclaration | undefined;
+                let members: Array<Node> = [];
+                while (declaration && (members = WeavingPass.getMembers(declaration, name, isStatic)).length === 0) {
+                    declaration = declaration.getBaseClass();
+                }
+                const owner: ClassDeclaration | undefined = declaration;
+                if (!owner || !name.startsWith('#') && !members.some((member: Node) =>
+                    (Node.isScoped(member) || Node.isScopeable(member)) && member.getScope() === Scope.Private
+                ) || node.getFirstAncestor((ancestor: Node) => ancestor === owner)) {
+                    return [];
+                }
+                const isMethod: boolean = Node.isMethodDeclaration(members[0]);
+                return [{
+                    aspect,
+                    node,
+                    declaration: owner,
+                    name,
+                    isStatic,
+                    shimName: `${GENERATED_PREFIX}privileged$${name.replace(/^#/, '$')}`,
+                    type: members[0].getType().getText(members[0]),
+                    isMethod,
+                    isReadable: members.some((member: Node) => !Node.isSetAccessorDeclaration(member)),
+                    isWritable: !isMethod && members.some((member: Node) => Node.isSetAccessorDeclaration(member) ||
+                        (Node.isPropertyDeclaration(member) || Node.isParameterDeclaration(member)) && !member.isReadonly()
+                    )
+                }];
+            });
+    }
+
+    /**
+     * Return the accessor shims to add to the classes of a source file
+     * for the privileged aspects.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @returns The list of {@link PrivilegedShim}
+     */
+    public getPrivilegedShims(sourceFile: SourceFile): Array<PrivilegedShim> {
+        return this.mShims.filter((shim: PrivilegedShim) => shim.declaration.getSourceFile() === sourceFile);
+    }
+
+    /**
+     * Return the accesses of the privileged aspects of a source file to the
+     * `private` and `#private` members of other classes.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @returns The list of {@link PrivilegedAccess}
+     */
+    public getPrivilegedAccesses(sourceFile: SourceFile): Array<PrivilegedAccess> {
+        return this.mAspects
+            .filter((aspect: SourceAspect) => aspect.isPrivileged && aspect.declaration.getSourceFile() === sourceFile)
+            .flatMap(WeavingPass.getPrivateAccesses.bind(WeavingPass));
+    }
+
+    /**
+     * Return the `declare parents` of the aspects matching the classes of
+     * a source file.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @returns The list of {@link DeclaredParents}
+     * @throws ReferenceError when a declared superclass is not found.
+     * @throws TypeError when a declaration is not valid, an inheritance
+     * is not legal or the constructor of the new superclass of a class
+     * without superclass takes arguments.
+     */
+    public getDeclaredParents(sourceFile: SourceFile): Array<DeclaredParents> {
+        const parents: Array<DeclaredParents> = [];
+        sourceFile.getClasses()
+            .filter((classDeclaration: ClassDeclaration) =>
+                classDeclaration.getName() !== undefined && !AspectReader.isAspect(classDeclaration)
+            )
+            .forEach((classDeclaration: ClassDeclaration) => {
+                const className: string = classDeclaration.getName()!;
+                const declared: DeclaredParents = {declaration: classDeclaration, interfaces: [], mixins: []};
+                const implemented: Array<string> = classDeclaration.getImplements()
+                    .map((implement: ExpressionWithTypeArguments) => implement.getExpression().getText());
+                this.mAspects.forEach((aspect: SourceAspect) => (aspect.parents || [])
+                    .map(DeclareParents.parse.bind(DeclareParents))
+                    .filter((declaration: ParentsDeclaration) => PatternMatcher.matchType(declaration.type, className))
+                    .forEach((declaration: ParentsDeclaration) => {
+                        if (declaration.isExtends) {
+                            const [superClassName]: Array<string> = declaration.parents;
+                            if (!isLegalInheritance(aspect.declaration, className, superClassName)) {
+                                throw new TypeError(`IllegalArgumentException ${className} cannot extend ${superClassName}`);
+                            }
+                            const superClass: ClassDeclaration =
+                                WeavingPass.findType(this.mProject, superClassName) as ClassDeclaration;
+                            if (!classDeclaration.getExtends() && superClass.getConstructors().some(
+                                (constructor: ConstructorDeclaration) => constructor.getParameters()
+                                    .some((parameter: ParameterDeclaration) => !parameter.isOptional())
+                            )) {
+                                throw new TypeError(
+                                    `IllegalArgumentException ${className} cannot extend ${superClassName}, ` +
+                                    'its constructor takes arguments'
+                                );
+                            }
+                            if (superClass !== classDeclaration.getBaseClass()) {
+                                declared.superClass = superClass;
+                            }
+                            return;
+                        }
+                        declaration.parents
+                            .filter((name: string) => !implemented.includes(name) && !declared.interfaces.includes(name))
+                            .forEach((name: string) => {
+                                const type: ClassDeclaration | InterfaceDeclaration | undefined = WeavingPass.findType(this.mProject, name);
+                                declared.interfaces.push(name);
+                                if (Node.isClassDeclaration(type)) {
+                                    declared.mixins.push(type);
+                                }
+                            });
+                    })
+                );
+                if (declared.superClass || declared.interfaces.length > 0) {
+                    parents.push(declared);
+                }
+            });
+        return parents;
+    }
+
+    /**
+     * Return the inter-type member declarations of the aspects targeting
+     * the classes of a source file.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @returns The list of {@link WovenInterType}
+     * @throws TypeError when a declaration is not valid, a public member
+     * is already declared or a constructor is declared on a subclass
+     * without an explicit constructor.
+     */
+    public getInterTypes(sourceFile: SourceFile): Array<WovenInterType> {
+        const interTypes: Array<WovenInterType> = [];
+        sourceFile.getClasses()
+            .filter((classDeclaration: ClassDeclaration) =>
+                classDeclaration.getName() !== undefined && !AspectReader.isAspect(classDeclaration)
+            )
+            .forEach((classDeclaration: ClassDeclaration) => this.mAspects.forEach((aspect: SourceAspect) =>
+                (aspect.interTypes || []).forEach((descriptor: InterTypeDescriptor) => {
+                    const interType: InterTypeDeclaration = InterTypes.parse(descriptor.declaration);
+                    if (interType.onType === classDeclaration.getName()) {
+                        const memberName: string = InterTypes.getMemberName(aspect.name, interType);
+                        WeavingPass.checkInterType(classDeclaration, interType, memberName);
+                        interTypes.push({
+                            declaration: classDeclaration,
+                            aspect,
+                            interType,
+                            method: aspect.declaration.getMethodOrThrow(descriptor.name),
+                            memberName
+                        });
+                    }
+                })
+            ));
+        return interTypes;
+    }
+
+    /**
+     * Return the annotations declared by the aspects on the classes of a
+     * source file and their constructors, methods and properties. When an
+     * aspect uses `@annotation`, `@within` or `@withincode`, the annotations
+     * captured from the decorators are attached as well, so these
+     * designators match at runtime.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @returns The list of {@link DeclaredAnnotation}
+     * @throws PointcutSyntaxError when a pattern is not valid.
+     * @throws TypeError when an annotation is not valid.
+     */
+    public getDeclaredAnnotations(sourceFile: SourceFile): Array<DeclaredAnnotation> {
+        const annotations: Array<DeclaredAnnotation> = [];
+        const add: (declared: DeclaredAnnotation) => void = (declared: DeclaredAnnotation): void => {
+            if (!annotations.some((annotation: DeclaredAnnotation) =>
+                annotation.declaration === declared.declaration && annotation.isStatic === declared.isStatic &&
+                annotation.member === declared.member && annotation.annotation.name === declared.annotation.name
+            )) {
+                annotations.push(declared);
+            }
+        };
+        const isCaptured: boolean = this.mAspects.some(WeavingPass.usesAnnotations);
+        if (!isCaptured && !this.mAspects.some((aspect: SourceAspect) => (aspect.annotations || []).length > 0)) {
+            return annotations;
+        }
+        const capture: (node: Node) => Array<Annotation> = (node: Node): Array<Annotation> =>
+            isCaptured ? DescriptorType.getAnnotations(node) : [];
+        sourceFile.getClasses()
+            .filter((classDeclaration: ClassDeclaration) =>
+                classDeclaration.getName() !== undefined && !AspectReader.isAspect(classDeclaration)
+            )
+            .forEach((declaration: ClassDeclaration) => {
+                const className: string = declaration.getName()!;
+                [...capture(declaration), ...DeclareAnnotations.getAnnotations(
+                    this.mAspects, DeclareAnnotations.createTypeShadow(className)
+                )].forEach((annotation: Annotation) => add({declaration, isStatic: true, annotation}));
+                const constructors: Array<ConstructorDescriptor> = DescriptorType.getConstructors(declaration);
+                (constructors.length > 0 ? constructors : [{modifiers: [], parameters: [], returnType: className}])
+                    .forEach((constructor: ConstructorDescriptor) => DeclareAnnotations.getAnnotations(
+                        this.mAspects, DeclareAnnotations.createConstructorShadow(className, constructor)
+                    ).forEach((annotation: Annotation) => add({declaration, isStatic: true, member: 'constructor', annotation})));
+                declaration.getMethods().forEach((method: MethodDeclaration) => {
+                    const descriptor: MethodDescriptor = DescriptorType.getMethod(method);
+                    [...capture(method), ...DeclareAnnotations.getAnnotations(
+                        this.mAspects, AdviceChain.createShadow('method-execution', className, descriptor)
+                    )].forEach((annotation: Annotation) => add({
+                        declaration, isStatic: descriptor.isStatic, member: descriptor.name, annotation
+                    }));
+                });
+                declaration.getProperties().forEach((property: PropertyDeclaration) => {
+                    const isStatic: boolean = property.isStatic();
+                    [...capture(property), ...DeclareAnnotations.getAnnotations(
+                        this.mAspects,
+                        DeclareAnnotations.createFieldShadow(className, {...DescriptorType.getMember(property), isStatic})
+                    )].forEach((annotation: Annotation) => add({
+                        declaration, isStatic, member: property.getName(), annotation
+                    }));
+                });
+            });
+        return annotations;
+    }
+
+    /**
+     * Return the methods of a source file matched by at least one advice
+     * or tracked for `cflow` pointcuts and per clauses.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @returns The list of {@link WovenMethod}
+     */
+    public getWovenMethods(sourceFile: SourceFile): Array<WovenMethod> {
+        const methods: Array<WovenMethod> = [];
+        sourceFile.getClasses()
+            .filter((classDeclaration: ClassDeclaration) =>
+                classDeclaration.getName() !== undefined && !AspectReader.isAspect(classDeclaration)
+            )
+            .forEach((classDeclaration: ClassDeclaration) => {
+                const className: string = classDeclaration.getName()!;
+                classDeclaration.getMethods()
+                    .filter((method: MethodDeclaration) => method.hasBody() && !method.isGenerator())
+                    .forEach((declaration: MethodDeclaration) => {
+                        const descriptor: MethodDescriptor = DescriptorType.getMethod(declaration);
+                        const shadows: Array<Shadow> = WeavingPass.captureAnnotations(
+                            AdviceChain.createShadows(className, descriptor), classDeclaration, declaration
+                        );
+                        if (AspectCompiler.match(this.mMatchers, shadows).length > 0 ||
+                            AspectCompiler.isTracked(this.mMatchers, shadows)) {
+                            const {line, column}: {line: number, column: number} =
+                                sourceFile.getLineAndColumnAtPos(declaration.getStart());
+                            methods.push({
+                                className,
+                                declaration,
+                                descriptor,
+                                chainName: `${GENERATED_PREFIX}${className}$${descriptor.isStatic ? 'static$' : ''}${descriptor.name}`,
+                                sourceLocation: {fileName: sourceFile.getBaseName(), line, column}
+                            });
+                        }
+                    });
+            });
+        return methods;
+    }
+
+    /**
+     * Return the properties of a source file matched by at least one `get`
+     * or `set` advice or tracked for `cflow` pointcuts and per clauses.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @returns The list of {@link WovenField}
+     */
+    public getWovenFields(sourceFile: SourceFile): Array<WovenField> {
+        const fields: Array<WovenField> = [];
+        sourceFile.getClasses()
+            .filter((classDeclaration: ClassDeclaration) =>
+                classDeclaration.getName() !== undefined && !AspectReader.isAspect(classDeclaration)
+            )
+            .forEach((classDeclaration: ClassDeclaration) => {
+                const className: string = classDeclaration.getName()!;
+                classDeclaration.getProperties().forEach((declaration: PropertyDeclaration) => {
+                    const descriptor: MemberDescriptor = DescriptorType.getMember(declaration);
+                    const isStatic: boolean = declaration.isStatic();
+                    const shadows: Array<Shadow> = WeavingPass.captureAnnotations(
+                        FieldChain.createShadows(className, {...descriptor, isStatic}), classDeclaration, declaration
+                    );
+                    if (AspectCompiler.match(this.mMatchers, shadows).length > 0 ||
+                        AspectCompiler.isTracked(this.mMatchers, shadows)) {
+                        const {line, column}: {line: number, column: number} =
+                            sourceFile.getLineAndColumnAtPos(declaration.getStart());
+                        fields.push({
+                            className,
+                            declaration,
+                            descriptor,
+                            isStatic,
+                            sourceLocation: {fileName: sourceFile.getBaseName(), line, column}
+                        });
+                    }
+                });
+            });
+        return fields;
+    }
+
+    /**
+     * Return the `catch` clauses of the methods and constructors of a
+     * source file matched by at least one advice. A clause whose block
+     * starts with `if (e instanceof T)` branches handles each type `T` in
+     * its branch and `unknown` in the final `else`, another clause handles
+     * `unknown`.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @returns The list of {@link WovenHandler}
+     * @throws TypeError when an advice other than before matches a clause.
+     */
+    public getWovenHandlers(sourceFile: SourceFile): Array<WovenHandler> {
+        const handlers: Array<WovenHandler> = [];
+        sourceFile.getClasses()
+            .filter((classDeclaration: ClassDeclaration) =>
+                classDeclaration.getName() !== undefined && !AspectReader.isAspect(classDeclaration)
+            )
+            .forEach((classDeclaration: ClassDeclaration) => {
+                const className: string = classDeclaration.getName()!;
+                const constructors: Array<ConstructorDescriptor> = DescriptorType.getConstructors(classDeclaration);
+                let count: number = 0;
+                [...classDeclaration.getConstructors(), ...classDeclaration.getMethods()].forEach((
+                    member: ConstructorDeclaration | MethodDeclaration
+                ) => {
+                    const isStatic: boolean = Node.isMethodDeclaration(member) && member.isStatic();
+                    const [withinCode]: Array<Shadow> = WeavingPass.captureAnnotations([
+                        Node.isMethodDeclaration(member) ?
+                            AdviceChain.createShadow('method-execution', className, DescriptorType.getMethod(member)) :
+                            DeclareAnnotations.createConstructorShadow(
+                                className, constructors[classDeclaration.getConstructors().indexOf(member)]
+                            )
+                    ], classDeclaration, member);
+                    member.getDescendantsOfKind(SyntaxKind.CatchClause).forEach((declaration: CatchClause) => {
+                        const variable: VariableDeclaration | undefined = declaration.getVariableDeclaration();
+                        const name: string = variable ? variable.getName() : `${GENERATED_PREFIX}error`;
+                        WeavingPass.getHandledTypes(declaration).forEach(([type, statement]: [string, Statement]) => {
+                            const [shadow]: Array<Shadow> = WeavingPass.captureAnnotations(
+                                [HandlerChain.createShadow(className, type, name, withinCode)], classDeclaration
+                            );
+                            const mungers: Array<ShadowMunger<SourceAspect>> = AspectCompiler.match(this.mMatchers, [shadow]);
+                            if (mungers.length === 0) {
+                                return;
+                            }
+                            const unsupported: ShadowMunger<SourceAspect> | undefined = mungers.find(
+                                (munger: ShadowMunger<SourceAspect>) => munger.advice.declaration.adviceKind !== 'before'
+                            );
+                            if (unsupported) {
+                                throw new TypeError(
+                                    `UnsupportedOperationException ${unsupported.advice.declaration.adviceKind} ` +
+                                    `advice on handler(${type})`
+                                );
+                            }
+                            const {line, column}: {line: number, column: number} =
+                                sourceFile.getLineAndColumnAtPos(statement.getStart());
+                            handlers.push({
+                                className,
+                                declaration,
+                                statement,
+                                shadow,
+                                isStatic,
+                                chainName: `${GENERATED_PREFIX}${className}$handler${count++}`,
+                                sourceLocation: {fileName: sourceFile.getBaseName(), line, column}
+                            });
+                        });
+                    });
+                });
+            });
+        return handlers;
+    }
+
+    /**
+     * Return the classes of a source file whose `preinitialization`,
+     * `initialization` or `staticinitialization` join point is matched by
+     * at least one advice.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @returns The list of {@link WovenInitialization}
+     * @throws TypeError when an around advice matches one of these join
+     * points.
+     */
+    public getWovenInitializations(sourceFile: SourceFile): Array<WovenInitialization> {
+        const initializations: Array<WovenInitialization> = [];
+        sourceFile.getClasses()
+            .filter((classDeclaration: ClassDeclaration) =>
+                classDeclaration.getName() !== undefined && !AspectReader.isAspect(classDeclaration)
+            )
+            .forEach((declaration: ClassDeclaration) => {
+                const className: string = declaration.getName()!;
+                const [descriptor = {modifiers: [], parameters: [], returnType: className}]: Array<ConstructorDescriptor> =
+                    DescriptorType.getConstructors(declaration);
+                const [constructor]: Array<ConstructorDeclaration> = declaration.getConstructors();
+                const shadows: Array<Shadow> = WeavingPass.captureAnnotations([
+                    ConstructorChain.createShadow('preinitialization', className, descriptor),
+                    ConstructorChain.createShadow('initialization', className, descriptor),
+                    ConstructorChain.createTypeShadow(className)
+                ], declaration, constructor);
+                const mungers: Array<ShadowMunger<SourceAspect>> = AspectCompiler.match(this.mMatchers, shadows);
+                if (mungers.length === 0) {
+                    return;
+                }
+                const around: ShadowMunger<SourceAspect> | undefined = mungers.find(
+                    (munger: ShadowMunger<SourceAspect>) => munger.advice.declaration.adviceKind === 'around'
+                );
+                if (around) {
+                    throw new TypeError(
+                        `UnsupportedOperationException around advice on ${around.shadow.kind.replace('-', '')}(${className})`
+                    );
+                }
+                const {line, column}: {line: number, column: number} =
+                    sourceFile.getLineAndColumnAtPos((constructor || declaration).getStart());
+                initializations.push({
+                    className,
+                    declaration,
+                    descriptor,
+                    kinds: shadows
+                        .filter((shadow: Shadow) => mungers.some((munger: ShadowMunger<SourceAspect>) => munger.shadow === shadow))
+                        .map((shadow: Shadow) => shadow.kind),
+                    chainName: `${GENERATED_PREFIX}${className}$new`,
+                    sourceLocation: {fileName: sourceFile.getBaseName(), line, column}
+                });
+            });
+        return initializations;
+    }
+
+    /**
+     * Weave a source file in memory.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @returns The list of {@link WovenMethod}
+     * @throws ReferenceError when a declared superclass is not found.
+     * @throws TypeError when an aspect class or a declared parent is not
+     * exported, an inheritance is not legal, an inter-type member is
+     * already declared, an advice other than before matches a `catch`
+     * clause or an around advice matches an initialization.
+     */
+    public weaveSourceFile(sourceFile: SourceFile): Array<WovenMethod> {
+        const parents: Array<DeclaredParents> = this.getDeclaredParents(sourceFile);
+        const statements: Array<string> = parents.flatMap((declared: DeclaredParents) =>
+            WeavingPass.declareParents(sourceFile, declared)
+        );
+        if (statements.length > 0) {
+            sourceFile.addImportDeclaration({moduleSpecifier: this.mRuntimeModule, namedImports: ['DeclareParents']});
+            sourceFile.addStatements(statements);
+        }
+        this.getInterTypes(sourceFile).forEach((interType: WovenInterType) => WeavingPass.addInterType(
+            interType, WeavingPass.importAspect(sourceFile, interType.aspect)
+        ));
+        const annotations: Array<DeclaredAnnotation> = this.getDeclaredAnnotations(sourceFile);
+        if (annotations.length > 0) {
+            sourceFile.addImportDeclaration({moduleSpecifier: this.mRuntimeModule, namedImports: ['Annotations']});
+            sourceFile.addStatements(annotations.map(WeavingPass.annotate.bind(WeavingPass)));
+        }
+        const methods: Array<WovenMethod> = this.getWovenMethods(sourceFile);
+        const fields: Array<WovenField> = this.getWovenFields(sourceFile);
+        const handlers: Array<WovenHandler> = this.getWovenHandlers(sourceFile);
+        const initializations: Array<WovenInitialization> = this.getWovenInitializations(sourceFile);
+        this.getPrivilegedShims(sourceFile).forEach((shim: PrivilegedShim) => WeavingPass.addPrivilegedShim(shim));
+        this.getPrivilegedAccesses(sourceFile).reverse().forEach((access: PrivilegedAccess) => {
+            const {node, declaration, shimName}: PrivilegedAccess = access;
+            const type: string = WeavingPass.addImport(
+                sourceFile, declaration.getName()!, WeavingPass.getTypeImport(sourceFile, declaration)
+            );
+            node.replaceWithText(`${type}.${shimName}(${node.getExpression().getText()}).value`);
+        });
+        if (methods.length === 0 && fields.length === 0 && handlers.length === 0 && initializations.length === 0) {
+            return methods;
+        }
+        const aspectsName: string = `${GENERATED_PREFIX}aspects`;
+        [...handlers].reverse().forEach((handler: WovenHandler) => WeavingPass.addHandler(handler));
+        methods.forEach((method: WovenMethod) => WeavingPass.rewriteMethod(method));
+        initializations.forEach((initialization: WovenInitialization) =>
+            WeavingPass.addInitialization(initialization, aspectsName)
+        );
+        const constructors: Array<WovenInitialization> = initializations.filter(({kinds}: WovenInitialization) =>
+            kinds.includes('preinitialization') || kinds.includes('initialization')
+        );
+        const aspects: Array<string> = this.mAspects.map((declared: SourceAspect) => {
+            const type: string = WeavingPass.importAspect(sourceFile, declared);
+            const aspect: SourceAspect = AspectCompiler.inherit(declared);
+            const perClause: string = aspect.perClause ? `, perClause: ${JSON.stringify(aspect.perClause)}` : '';
+            const precedence: string = aspect.precedence && aspect.precedence.length > 0 ?
+                `, precedence: ${JSON.stringify(aspect.precedence)}` : '';
+            const softs: string = aspect.softs && aspect.softs.length > 0 ? `, softs: ${JSON.stringify(aspect.softs)}` : '';
+            const isAbstract: string = aspect.isAbstract ? ', isAbstract: true' : '';
+            return `{name: '${aspect.name}', type: ${type}, pointcuts: ${JSON.stringify(aspect.pointcuts)}, ` +
+                `advices: ${JSON.stringify(aspect.advices)}${perClause}${precedence}${softs}${isAbstract}}`;
+        });
+        sourceFile.addImportDeclaration({
+            moduleSpecifier: this.mRuntimeModule,
+            namedImports: [
+                ...methods.length > 0 ? ['AdviceChain'] : [],
+                'AspectDescriptor',
+                ...initializations.length > 0 ? ['ConstructorChain'] : [],
+                ...fields.length > 0 ? ['FieldChain'] : [],
+                ...handlers.length > 0 ? ['HandlerChain'] : [],
+                ...initializations.some(({kinds}: WovenInitialization) =>
+                    kinds.includes('initialization') || kinds.includes('static-initialization')
+                ) ? ['Initialization'] : []
+            ]
+        });
+        sourceFile.addStatements([
+            ...methods.map((method: WovenMethod) =>
+                `const ${method.chainName}: AdviceChain = AdviceChain.lazy(${method.className}, ` +
+                `'${method.className}', ${JSON.stringify(method.descriptor)}, ${aspectsName}, ` +
+                `${JSON.stringify(method.sourceLocation)});`
+            ),
+            ...fields.map((field: WovenField) => {
+                const owner: string = field.isStatic ? field.className : `${field.className}.prototype`;
+                const name: string = JSON.stringify(field.descriptor.name);
+                return `Object.defineProperty(${owner}, ${name}, FieldChain.lazy(${field.className}, ` +
+                    `'${field.className}', ${JSON.stringify(field.descriptor)}, ${field.isStatic}, ${aspectsName}, ` +
+                    `${JSON.stringify(field.sourceLocation)}).intercept(Object.getOwnPropertyDescriptor(${owner}, ${name})));`;
+            }),
+            ...handlers.map((handler: WovenHandler) =>
+                `const ${handler.chainName}: HandlerChain = HandlerChain.lazy(${handler.className}, ` +
+                `${JSON.stringify(handler.shadow)}, ${aspectsName}, ${JSON.stringify(handler.sourceLocation)});`
+            ),
+            ...constructors.map((initialization: WovenInitialization) =>
+                `const ${initialization.chainName}: ConstructorChain = ` +
+                `${WeavingPass.createConstructorChain(initialization, aspectsName)};`
+            ),
+            `function ${aspectsName}(): Array<AspectDescriptor> {\n` +
+            `    return [\n        ${aspects.join(',\n        ')}\n    ];\n}`
+        ]);
+        return methods;
+    }
+
+    /**
+     * Return the statement attaching a declared annotation.
+     *
+     * @param declared - The {@link DeclaredAnnotation}.
+     * @returns The statement
+     */
+    private static annotate(declared: DeclaredAnnotation): string {
+        const {declaration, isStatic, member, annotation}: DeclaredAnnotation = declared;
+        return `Annotations.annotate(${declaration.getName()}${isStatic ? '' : '.prototype'}, ` +
+            `${JSON.stringify(annotation)}${member ? `, ${JSON.stringify(member)}` : ''});`;
+    }
+
+    /**
+     * Set the annotations captured from the decorators of a class and of
+     * one of its members on the shadows of the member, so `@annotation`,
+     * `@within` and `@withincode` match statically. A static
+     * initialization is annotated by the class.
+     *
+     * @param shadows - The shadows.
+     * @param declaration - The {@link ClassDeclaration}.
+     * @param member - The method, constructor or property if any.
+     * @returns The shadows
+     */
+    private static captureAnnotations(shadows: Array<Shadow>, declaration: ClassDeclaration, member?: Node): Array<Shadow> {
+        const withinAnnotations: Array<Annotation> = DescriptorType.getAnnotations(declaration);
+        shadows.forEach((shadow: Shadow) => {
+            shadow.annotations = shadow.kind === 'static-initialization' ?
+                withinAnnotations : member ? DescriptorType.getAnnotations(member) : [];
+            shadow.withinAnnotations = withinAnnotations;
+        });
+        return shadows;
+    }
+
+    /**
+     * Return true when an aspect uses `@annotation`, `@within` or
+     * `@withincode`.
+     *
+     * @param aspect - The {@link SourceAspect}.
+     * @returns True when the annotations of the woven classes are matched
+     */
+    private static usesAnnotations(declared: SourceAspect): boolean {
+        const aspect: SourceAspect = AspectCompiler.inherit(declared);
+        return [
+            ...aspect.advices.map((advice: AdviceDescriptor) => advice.advice),
+            ...(aspect.pointcuts || []).map((pointcut: PointcutDescriptor) => pointcut.pointcut)
+        ].some((text: string) => ANNOTATION_DESIGNATOR.test(text));
+    }
+
+    /**
+     * Return the types handled by a `catch` clause.
+     *
+     * @param declaration - The {@link CatchClause}.
+     * @returns The handled types, each with the block or the branch
+     * handling it
+     */
+    private static getHandledTypes(declaration: CatchClause): Array<[string, Statement]> {
+        const variable: VariableDeclaration | undefined = declaration.getVariableDeclaration();
+        const handled: Array<[string, Statement]> = [];
+        let statement: Statement | undefined = declaration.getBlock().getStatements()[0];
+        while (variable && Node.isIfStatement(statement)) {
+            const condition: Expression = statement.getExpression();
+            if (!Node.isBinaryExpression(condition) ||
+                condition.getOperatorToken().getKind() !== SyntaxKind.InstanceOfKeyword ||
+                condition.getLeft().getText() !== variable.getName()) {
+                break;
+            }
+            handled.push([condition.getRight().getText(), statement.getThenStatement()]);
+            statement = statement.getElseStatement();
+        }
+        if (handled.length === 0) {
+            return [['unknown', declaration.getBlock()]];
+        }
+        return statement ? [...handled, ['unknown', statement]] : handled;
+    }
+
+    /**
+     * Run the {@link HandlerChain} of a handler first, a clause without
+     * variable is given one.
+     *
+     * @param handler - The {@link WovenHandler}.
+     */
+    private static addHandler(handler: WovenHandler): void {
+        const {declaration, statement, shadow, isStatic, chainName}: WovenHandler = handler;
+        const handle: string = `${chainName}.handle(${isStatic ? 'undefined' : 'this'}, ${shadow.name});`;
+        if (!declaration.getVariableDeclaration()) {
+            // The replacing text is indented like the clause
+            const indentation: string = declaration.getIndentationText();
+            const unit: string = declaration.getProject().manipulationSettings.getIndentationText();
+            const text: string = declaration.getBlock().getText();
+            const inline: string = text.substring(1, text.length - 1).trim();
+            const lines: Array<string> = text.includes('\n') ?
+                text.split('\n').map((line: string) =>
+                    line.startsWith(indentation) ? line.substring(indentation.length) : line
+                ) :
+                ['{', ...inline ? [`${unit}${inline}`] : [], '}'];
+            lines.splice(1, 0, `${unit}${handle}`);
+            declaration.replaceWithText(`catch (${shadow.name}) ${lines.join('\n')}`);
+        } else if (Node.isBlock(statement)) {
+            statement.insertStatements(0, handle);
+        } else {
+            statement.replaceWithText((writer: CodeBlockWriter) => writer
+                .inlineBlock(() => writer.writeLine(handle).write(statement.getText()))
+            );
+        }
+    }
+
+    /**
+     * Import an aspect class into a source file.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @param aspect - The {@link SourceAspect}.
+     * @returns The identifier of the aspect class in the source file
+     * @throws TypeError when the aspect class is not exported.
+     */
+    private static importAspect(sourceFile: SourceFile, aspect: SourceAspect): string {
+        return WeavingPass.addImport(sourceFile, aspect.name, WeavingPass.getAspectImport(sourceFile, aspect));
+    }
+
+    /**
+     * Import a type into a source file under a generated alias.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @param name - The type name.
+     * @param typeImport - The {@link AspectImport}, undefined when the type
+     * is declared in the source file.
+     * @returns The identifier of the type in the source file
+     */
+    private static addImport(sourceFile: SourceFile, name: string, typeImport: AspectImport | undefined): string {
+        if (!typeImport) {
+            return name;
+        }
+        const alias: string = `${GENERATED_PREFIX}${name}`;
+        const {moduleSpecifier}: AspectImport = typeImport;
+        const isImported: boolean = sourceFile.getImportDeclarations().some((importDeclaration: ImportDeclaration) =>
+            importDeclaration.getDefaultImport()?.getText() === alias ||
+            importDeclaration.getNamedImports().some((namedImport: ImportSpecifier) =>
+                namedImport.getAliasNode()?.getText() === alias
+            )
+        );
+        if (isImported) {
+            return alias;
+        }
+        if (typeImport.isDefault) {
+            sourceFile.addImportDeclaration({moduleSpecifier, defaultImport: alias});
+        } else {
+            sourceFile.addImportDeclaration({moduleSpecifier, namedImports: [{name, alias}]});
+        }
+        return alias;
+    }
+
+    /**
+     * Add the accessor shim of a private member to its class.
+     *
+     * @param shim - The {@link PrivilegedShim}.
+     */
+    private static addPrivilegedShim(shim: PrivilegedShim): void {
+        const {declaration, name, isStatic, shimName, type, isMethod, isReadable, isWritable}: PrivilegedShim = shim;
+        const access: string = `target.${name}`;
+        const accessors: Array<string> = [];
+        if (isReadable) {
+            accessors.push(`get value(): ${type} {\n    return ${isMethod ? `${access}.bind(target)` : access};\n}`);
+        }
+        if (isWritable) {
+            accessors.push(`set value(value: ${type}) {\n    ${access} = value;\n}`);
+        }
+        declaration.addMethod({
+            name: shimName,
+            isStatic: true,
+            parameters: [{name: 'target', type: isStatic ? `typeof ${declaration.getName()}` : declaration.getName()}],
+            returnType: `{${isWritable ? '' : 'readonly '}value: ${type}}`,
+            statements: [`return {\n${accessors.join(',\n').replace(/^/gm, '    ')}\n};`]
+        });
+    }
+
+    /**
+     * Return the members of a class of the specified name, the accessors
+     * of a property and the parameter properties included.
+     *
+     * @param declaration - The {@link ClassDeclaration}.
+     * @param name - The member name.
+     * @param isStatic - True for the static members.
+     * @returns The member declarations
+     */
+    private static getMembers(declaration: ClassDeclaration, name: string, isStatic: boolean): Array<Node> {
+        const members: Array<Node> = isStatic ? declaration.getStaticMembers() : [
+            ...declaration.getInstanceMembers(),
+            ...declaration.getConstructors().flatMap((constructor: ConstructorDeclaration) => constructor.getParameters())
+                .filter((parameter: ParameterDeclaration) => parameter.isParameterProperty())
+        ];
+        return members
+            .filter((member: Node) => (Node.isPropertyDeclaration(member) || Node.isParameterDeclaration(member) ||
+                Node.isMethodDeclaration(member) || Node.isGetAccessorDeclaration(member) ||
+                Node.isSetAccessorDeclaration(member)) && member.getName() === name);
+    }
+
+    /**
+     * Rewrite the heritage clauses of a class from its `declare parents`.
+     * A class getting its first superclass calls `super()` first in its
+     * constructor, the classes mixed in are merged into its interface.
+     *
+     * @param sourceFile - The {@link SourceFile}.
+     * @param declared - The {@link DeclaredParents}.
+     * @returns The statements registering the interfaces at runtime
+     * @throws TypeError when a declared parent is not exported.
+     */
+    private static declareParents(sourceFile: SourceFile, declared: DeclaredParents): Array<string> {
+        const {declaration, superClass, interfaces, mixins}: DeclaredParents = declared;
+        const className: string = declaration.getName()!;
+        if (superClass) {
+            const hadSuperClass: boolean = declaration.getExtends() !== undefined;
+            declaration.setExtends(WeavingPass.addImport(
+                sourceFile, superClass.getName()!, WeavingPass.getTypeImport(sourceFile, superClass)
+            ));
+            if (!hadSuperClass) {
+                declaration.getConstructors()
+                    .filter((constructor: ConstructorDeclaration) => constructor.hasBody())
+                    .forEach((constructor: ConstructorDeclaration) => constructor.insertStatements(0, 'super();'));
+            }
+        }
+        if (interfaces.length === 0) {
+            return [];
+        }
+        const project: Project = sourceFile.getProject();
+        declaration.addImplements(interfaces.map((name: string) => {
+            const type: ClassDeclaration | InterfaceDeclaration | undefined = WeavingPass.findType(project, name);
+            return type ? WeavingPass.addImport(sourceFile, name, WeavingPass.getTypeImport(sourceFile, type)) : name;
+        }));
+        const types: Array<string> = mixins.map((mixin: ClassDeclaration) =>
+            WeavingPass.addImport(sourceFile, mixin.getName()!, WeavingPass.getTypeImport(sourceFile, mixin))
+        );
+        if (types.length > 0) {
+            sourceFile.insertInterface(declaration.getChildIndex() + 1, {
+                name: className,
+                isExported: declaration.isExported() && !declaration.isDefaultExport(),
+                extends: types
+            });
+        }
+        return [`DeclareParents.implement(${className}, ${JSON.stringify(interfaces)}, [${types.join(', ')}]);`];
+    }
+
+    /**
+     * Add an inter-type member to its target class, the member delegates to
+     * the aspect method with `this` bound to the target. A constructor is
+     * added as an overload selected by its number of arguments, run in
+     * place of the original body.
+     *
+     * @param interType - The {@link WovenInterType}.
+     * @param aspectType - The identifier of the aspect class.
+     */
+    private static addInterType(interType: WovenInterType, aspectType: string): void {
+        const {declaration, interType: {kind, isStatic, isAbstract}, method, memberName}: WovenInterType = interType;
+        const parameters: Array<ParameterDeclaration> = method.getParameters()
+            .filter((parameter: ParameterDeclaration) => parameter.getName() !== 'this');
+        const formals: Array<OptionalKind<ParameterDeclarationStructure>> = parameters.map(WeavingPass.getFormal);
+        const args: Array<string> = parameters.map((parameter: ParameterDeclaration) =>
+            `${parameter.isRestParameter() ? '...' : ''}${parameter.getName()}`
+        );
+        const body: string = `${aspectType}.prototype.${method.getName()}`;
+        const returnType: string | undefined = method.getReturnTypeNode()?.getText();
+        if (kind === 'method') {
+            declaration.addMethod({
+                name: memberName,
+                isStatic,
+                isAbstract,
+                parameters: formals,
+                returnType,
+                statements: isAbstract ? undefined : [`return ${body}.call(${['this', ...args].join(', ')});`]
+            });
+        } else if (kind === 'field') {
+            declaration.addProperty({name: memberName, isStatic, type: returnType, initializer: `${body}.call(this)`});
+        } else {
+            const constructor: ConstructorDeclaration = declaration.getConstructors()
+                .find((candidate: ConstructorDeclaration) => candidate.hasBody()) || declaration.addConstructor({});
+            if (constructor.getOverloads().length === 0) {
+                constructor.addOverload({parameters: constructor.getParameters().map(WeavingPass.getFormal)});
+            }
+            constructor.addOverload({parameters: formals});
+            const [first]: Array<Node> = constructor.getStatements();
+            const hasSuper: boolean = Node.isExpressionStatement(first) && first.getExpression().getText().startsWith('super(');
+            constructor.insertStatements(hasSuper ? 1 : 0, (writer: CodeBlockWriter) => writer
+                .write(`if (arguments.length === ${parameters.length}) `)
+                .block(() => writer
+                    .writeLine(`${body}.call(${['this', ...parameters.map((_: ParameterDeclaration, index: number) =>
+                        `arguments[${index}]`)].join(', ')});`)
+                    .writeLine('return;')
+                )
+            );
+        }
+    }
+
+    /**
+     * Check an inter-type member can be added to its target class.
+     *
+     * @param declaration - The target {@link ClassDeclaration}.
+     * @param interType - The {@link InterTypeDeclaration}.
+     * @param memberName - The name of the injected member.
+     * @throws TypeError when a public member is already declared or a
+     * constructor is declared on a subclass without an explicit
+     * constructor.
+     */
+    private static checkInterType(
+        declaration: ClassDeclaration,
+        interType: InterTypeDeclaration,
+        memberName: string
+    ): void {
+        const {kind, isStatic, isPrivate, onType, name}: InterTypeDeclaration = interType;
+        if (kind === 'constructor') {
+            if (declaration.getExtends() && !declaration.getConstructors().some((constructor: ConstructorDeclaration) =>
+                constructor.hasBody()
+            )) {
+                throw new TypeError(
+                    `UnsupportedOperationException inter-type constructor ${onType}.new needs a constructor in ${onType}`
+                );
+            }
+            return;
+        }
+        const isDeclared: boolean = kind === 'method' ?
+            (isStatic ? declaration.getStaticMethod(memberName) : declaration.getInstanceMethod(memberName)) !== undefined :
+            (isStatic ? declaration.getStaticProperty(memberName) : declaration.getInstanceProperty(memberName)) !== undefined;
+        if (!isPrivate && isDeclared) {
+            throw new TypeError(`IllegalArgumentException ${onType}.${name} is already declared`);
+        }
+    }
+
+    /**
+     * Return the structure of a parameter in a signature, an initializer
+     * makes it optional and parameter properties are dropped.
+     *
+     * @param parameter - The {@link ParameterDeclaration}.
+     * @returns The {@link ParameterDeclarationStructure}
+     */
+    private static getFormal(parameter: ParameterDeclaration): OptionalKind<ParameterDeclarationStructure> {
+        return {
+            name: parameter.getNameNode().getText(),
+            type: parameter.getTypeNode()?.getText(),
+            hasQuestionToken: parameter.hasQuestionToken() || parameter.hasInitializer(),
+            isRestParameter: parameter.isRestParameter()
+        };
+    }
+
+    /**
+     * Find a class or an interface of a project by name.
+     *
+     * @param project - The {@link Project}.
+     * @param name - The type name.
+     * @returns The {@link ClassDeclaration} or {@link InterfaceDeclaration},
+     * undefined when not found
+     */
+    private static findType(project: Project, name: string): ClassDeclaration | InterfaceDeclaration | undefined {
+        for (const sourceFile of WeavingPass.getSourceFiles(project)) {
+            const type: ClassDeclaration | InterfaceDeclaration | undefined =
+                sourceFile.getClass(name) || sourceFile.getInterface(name);
+            if (type) {
+                return type;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Return true when a path is inside a directory.
+     *
+     * @param dir - The directory.
+     * @param path - The path.
+     * @returns True when inside
+     */
+    private static isInside(dir: string, path: string): boolean {
+        const relativePath: string = relative(dir, path);
+        return !relativePath.startsWith('..') && !isAbsolute(relativePath);
+    }
+
+    /**
+     * Run the {@link ConstructorChain} of a class around the `super()` call
+     * of its constructor and around its static initializers.
+     *
+     * @param initialization - The {@link WovenInitialization}.
+     * @param aspectsName - The name of the function returning the aspects.
+     */
+    private static addInitialization(initialization: WovenInitialization, aspectsName: string): void {
+        const {declaration, kinds, chainName}: WovenInitialization = initialization;
+        if (kinds.includes('static-initialization')) {
+            const name: string = `${GENERATED_PREFIX}${initialization.className}$staticinitialization`;
+            declaration.insertStaticBlock(0, {
+                statements: `${name} = ${WeavingPass.createConstructorChain(initialization, aspectsName)}.staticInitialize();`
+            });
+            declaration.insertStaticBlock(declaration.getMembers().length, {statements: `${name}.returned();`});
+            declaration.getSourceFile().insertStatements(declaration.getChildIndex(), `let ${name}: Initialization;`);
+        }
+        if (!kinds.includes('preinitialization') && !kinds.includes('initialization')) {
+            return;
+        }
+        let [constructor]: Array<ConstructorDeclaration> = declaration.getConstructors();
+        if (!constructor) {
+            const base: ExpressionWithTypeArguments | undefined = declaration.getExtends();
+            const name: string = `${GENERATED_PREFIX}args`;
+            constructor = declaration.addConstructor(base ? {
+                parameters: [{
+                    name,
+                    isRestParameter: true,
+                    type: `ConstructorParameters<typeof ${base.getExpression().getText()}>`
+                }],
+                statements: `super(...${name});`
+            } : {});
+        }
+        // The value of a destructured parameter is its argument
+        const args: string = constructor.getParameters().map((parameter: ParameterDeclaration, index: number) => {
+            if (!Node.isIdentifier(parameter.getNameNode())) {
+                return `arguments[${index}]`;
+            }
+            return `${parameter.isRestParameter() ? '...' : ''}${parameter.getName()}`;
+        }).join(', ');
+        // Comments count as statements for the insertions and the removals
+        let statements: Array<Node> = constructor.getStatementsWithComments();
+        let index: number = statements.findIndex((statement: Node) =>
+            Node.isExpressionStatement(statement) && Node.isCallExpression(statement.getExpression()) &&
+            statement.getExpression().getFirstChildOrThrow().getKind() === SyntaxKind.SuperKeyword
+        );
+        if (kinds.includes('preinitialization')) {
+            constructor.insertStatements(Math.max(index, 0), `${chainName}.preinitialize([${args}]);`);
+            index = index < 0 ? 0 : index + 1;
+            statements = constructor.getStatementsWithComments();
+        }
+        if (!kinds.includes('initialization')) {
+            return;
+        }
+        const rest: Array<Node> = statements.slice(index + 1);
+        const start: string = `${chainName}.initialize(this, [${args}])`;
+        if (rest.length === 0) {
+            constructor.addStatements(`${start}.returned();`);
+            return;
+        }
+        // The statements are moved into the try block, dedented
+        const indentation: string = rest[0].getIndentationText();
+        const body: string = constructor.getSourceFile().getFullText()
+            .substring(rest[0].getStart(), rest[rest.length - 1].getEnd())
+            .split('\n')
+            .map((line: string) => line.startsWith(indentation) ? line.substring(indentation.length) : line)
+            .join('\n');
+        const name: string = `${GENERATED_PREFIX}initialization`;
+        constructor.removeStatements([index + 1, statements.length - 1]);
+        constructor.addStatements((writer: CodeBlockWriter) => writer
+            .writeLine(`const ${name}: Initialization = ${start};`)
+            .write('try ').inlineBlock(() => writer.write(body))
+            .write(` catch (${GENERATED_PREFIX}error) `)
+            .inlineBlock(() => writer.writeLine(`throw ${name}.threw(${GENERATED_PREFIX}error);`))
+            .write(' finally ').inlineBlock(() => writer.writeLine(`${name}.returned();`))
+        );
+    }
+
+    /**
+     * Return the expression creating the {@link ConstructorChain} of a
+     * class.
+     *
+     * @param initialization - The {@link WovenInitialization}.
+     * @param aspectsName - The name of the function returning the aspects.
+     * @returns The expression
+     */
+    private static createConstructorChain(initialization: WovenInitialization, aspectsName: string): string {
+        const {className, descriptor, sourceLocation}: WovenInitialization = initialization;
+        return `ConstructorChain.lazy(${className}, '${className}', ${JSON.stringify(descriptor)}, ${aspectsName}, ` +
+            `${JSON.stringify(sourceLocation)})`;
+    }
+
+    /**
+     * Move the body of a method into an arrow function run by its
+     * {@link AdviceChain}.
+     *
+     * @param method - The {@link WovenMethod}.
+     */
+    private static rewriteMethod(method: WovenMethod): void {
+        const {declaration, chainName}: WovenMethod = method;
+        const parameters: Array<ParameterDeclaration> = declaration.getParameters();
+        const formals: Array<string> = parameters.map((parameter: ParameterDeclaration) => {
+            const type: TypeNode | undefined = parameter.getTypeNode();
+            const initializer: Node | undefined = parameter.getInitializer();
+            return `${parameter.isRestParameter() ? '...' : ''}${parameter.getNameNode().getText()}` +
+                `${parameter.hasQuestionToken() ? '?' : ''}${type ? `: ${type.getText()}` : ''}` +
+                `${initializer ? ` = ${initializer.getText()}` : ''}`;
+        });
+        const args: Array<string> = parameters.map((parameter: ParameterDeclaration, index: number) => {
+            let name: string = parameter.getName();
+            if (!Node.isIdentifier(parameter.getNameNode())) {
+                name = `${GENERATED_PREFIX}arg${index}`;
+                parameter.getNameNode().replaceWithText(name);
+            }
+            return parameter.isRestParameter() ? `...${name}` : name;
+        });
+        const returnType: TypeNode | undefined = declaration.getReturnTypeNode();
+        const body: string = declaration.getBodyText() || '';
+        declaration.setBodyText((writer: CodeBlockWriter) => writer
+            .write(`return ${chainName}.invoke(${declaration.isAsync() ? 'async ' : ''}(${formals.join(', ')})`)
+            .write(`${returnType ? `: ${returnType.getText()}` : ''} => `)
+            .inlineBlock(() => writer.write(body))
+            .write(`, this, [${args.join(', ')}]);`)
+        );
+    }
+}
+
+export default WeavingPass;
@@ -175,6 +175,18 @@ export interface SystemInfo {
     nodeVersion: string;
 }
 
+/**
+ * Interface representing the compile-time weaving settings.
+ */
+export interface WeavingInfo {
+    /** Determines if the aspects are woven while emitting JavaScript. */
+    enabled: boolean;
+    /** The path of the `tsconfig.json` of the project to weave. */
+    tsConfigFilePath: string;
+    /** The module the woven sources import the runtime from. */
+    runtimeModule?: string;
+}
+
 /**
  * Interface representing the configuration of the application.
  */
@@ -308,4 +320,9 @@ export interface Config extends Map<string, string> {
      * @see Deployment
      */
     readonly isTest: boolean;
+    /**
+     * The compile-time weaving settings.
+     * @see WeavingInfo
+     */
+    readonly weaving: WeavingInfo;
 }
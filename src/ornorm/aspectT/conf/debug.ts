@@ -1,4 +1,4 @@
-import {AppInfo, Config, DebugInfo, Deployment, DiagnosticsInfo, SystemInfo} from '@ornorm/aspectT';
+import {AppInfo, Config, DebugInfo, Deployment, DiagnosticsInfo, SystemInfo, WeavingInfo} from '@ornorm/aspectT';
 import {existsSync, readFileSync} from 'fs';
 import {dirname, join} from 'path';
 
@@ -224,6 +224,14 @@ export class Debug implements Config {
         return this.deployment === 'test';
     }
 
+    /**
+     * The compile-time weaving settings.
+     * @see WeavingInfo
+     */
+    public get weaving(): WeavingInfo {
+        return this.config.weaving;
+    }
+
     /**
      * Returns the number of entries in the map.
      * @returns The number of entries in the map.
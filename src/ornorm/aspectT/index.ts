@@ -1,9 +1,12 @@
 export * from './advice';
 export * from './argparse';
 export * from './aspects';
+export * from './compiler';
 export * from './conf';
 export * from './logger';
 export * from './file';
+export * from './parser';
 export * from './point-cut';
 export * from './remote';
 export * from './types';
+export * from './weaver';
@@ -0,0 +1,369 @@
+/**
+ * @file ast.ts
+ * @description This file contains the typed abstract syntax tree produced
+ * by the {@link PointcutParser} for the pointcut grammar documented in
+ * `aspects.ts`.
+ * @license MIT
+ */
+
+/**
+ * The location of a node in the parsed pointcut text.
+ */
+export interface SourceRange {
+    /**
+     * Offset of the first character of the node.
+     */
+    start: number;
+    /**
+     * Offset just after the last character of the node.
+     */
+    end: number;
+    /**
+     * 1-based line of the first character of the node.
+     */
+    line: number;
+    /**
+     * 1-based column of the first character of the node.
+     */
+    column: number;
+}
+
+/**
+ * Base interface of every AST node.
+ */
+export interface AstNode {
+    /**
+     * The node discriminant.
+     */
+    kind: string;
+    /**
+     * The location of the node in the source text.
+     * @see SourceRange
+     */
+    range: SourceRange;
+}
+
+/**
+ * A simple or qualified name pattern such as `Foo`, `com.bigboxco.*`,
+ * `Foo+` or `java..*Port[]`.
+ */
+export interface NameTypePattern extends AstNode {
+    kind: 'type-name';
+    /**
+     * The dotted name pattern, `*` matches any part of a segment and `..`
+     * matches any number of segments.
+     */
+    pattern: string;
+    /**
+     * True when suffixed by `+`.
+     */
+    includeSubtypes: boolean;
+    /**
+     * Number of `[]` suffixes.
+     */
+    dimensions: number;
+    /**
+     * The type arguments of a formal type, e.g. `string` and `number` in
+     * `Map<string, number>`, the pattern names the erased type.
+     */
+    typeArguments?: Array<NameTypePattern>;
+}
+
+/**
+ * A negated type pattern, `! TypePat`.
+ */
+export interface NotTypePattern extends AstNode {
+    kind: 'type-not';
+    pattern: TypePattern;
+}
+
+/**
+ * A composed type pattern, `TypePat && TypePat` or `TypePat || TypePat`.
+ */
+export interface BinaryTypePattern extends AstNode {
+    kind: 'type-and' | 'type-or';
+    left: TypePattern;
+    right: TypePattern;
+}
+
+/**
+ * Union of the type pattern nodes.
+ */
+export type TypePattern = NameTypePattern | NotTypePattern | BinaryTypePattern;
+
+/**
+ * The `..` wildcard of a parameter or `args` list.
+ */
+export interface EllipsisPattern extends AstNode {
+    kind: 'ellipsis';
+}
+
+/**
+ * An entry of a parameter list, `TypePat` or `..`.
+ */
+export type ParameterPattern = TypePattern | EllipsisPattern;
+
+/**
+ * A modifier of a `ModifiersPat`, optionally negated (`!private`).
+ */
+export interface ModifierPattern extends AstNode {
+    kind: 'modifier';
+    name: string;
+    negated: boolean;
+}
+
+/**
+ * An entry of a `throws` clause, optionally negated.
+ */
+export interface ThrowsPattern extends AstNode {
+    kind: 'throws';
+    pattern: TypePattern;
+    negated: boolean;
+}
+
+/**
+ * `[ModifiersPat] TypePat [TypePat .] IdPat ( TypePat | .., … ) [ throws ThrowsPat ]`
+ */
+export interface MethodPattern extends AstNode {
+    kind: 'method-pattern';
+    modifiers: Array<ModifierPattern>;
+    returnType: TypePattern;
+    declaringType?: TypePattern;
+    name: string;
+    parameters: Array<ParameterPattern>;
+    throws: Array<ThrowsPattern>;
+}
+
+/**
+ * `[ModifiersPat ] [TypePat . ] new ( TypePat | .. , …) [ throws ThrowsPat ]`
+ */
+export interface ConstructorPattern extends AstNode {
+    kind: 'constructor-pattern';
+    modifiers: Array<ModifierPattern>;
+    declaringType?: TypePattern;
+    parameters: Array<ParameterPattern>;
+    throws: Array<ThrowsPattern>;
+}
+
+/**
+ * `[ModifiersPat] TypePat [TypePat . ] IdPat`
+ */
+export interface FieldPattern extends AstNode {
+    kind: 'field-pattern';
+    modifiers: Array<ModifierPattern>;
+    type: TypePattern;
+    declaringType?: TypePattern;
+    name: string;
+}
+
+/**
+ * Union of the member signature patterns.
+ */
+export type SignaturePattern = MethodPattern | ConstructorPattern | FieldPattern;
+
+/**
+ * `Pointcut && Pointcut` or `Pointcut || Pointcut`.
+ */
+export interface BinaryPointcut extends AstNode {
+    kind: 'and' | 'or';
+    left: PointcutNode;
+    right: PointcutNode;
+}
+
+/**
+ * `! Pointcut`.
+ */
+export interface NotPointcut extends AstNode {
+    kind: 'not';
+    pointcut: PointcutNode;
+}
+
+/**
+ * `call`, `execution` or `withincode` over a method or constructor
+ * pattern.
+ */
+export interface InvocationPointcut extends AstNode {
+    kind: 'call' | 'execution' | 'withincode';
+    pattern: MethodPattern | ConstructorPattern;
+}
+
+/**
+ * `initialization(ConstructorPat)` or `preinitialization(ConstructorPat)`.
+ */
+export interface InitializationPointcut extends AstNode {
+    kind: 'initialization' | 'preinitialization';
+    pattern: ConstructorPattern;
+}
+
+/**
+ * `get(FieldPat)` or `set(FieldPat)`.
+ */
+export interface FieldPointcut extends AstNode {
+    kind: 'get' | 'set';
+    pattern: FieldPattern;
+}
+
+/**
+ * `staticinitialization(TypePat)`, `handler(TypePat)` or
+ * `within(TypePat)`.
+ */
+export interface TypePointcut extends AstNode {
+    kind: 'staticinitialization' | 'handler' | 'within';
+    pattern: TypePattern;
+}
+
+/**
+ * `adviceexecution()`.
+ */
+export interface AdviceExecutionPointcut extends AstNode {
+    kind: 'adviceexecution';
+}
+
+/**
+ * `cflow(Pointcut)` or `cflowbelow(Pointcut)`.
+ */
+export interface ControlFlowPointcut extends AstNode {
+    kind: 'cflow' | 'cflowbelow';
+    pointcut: PointcutNode;
+}
+
+/**
+ * `if(Expression)`, the expression is kept as raw source text.
+ */
+export interface IfPointcut extends AstNode {
+    kind: 'if';
+    expression: string;
+}
+
+/**
+ * `this(Type | Var)`, `target(Type | Var)` and the annotation forms
+ * `@this`, `@target`, `@within`, `@withincode` and `@annotation`.
+ *
+ * A simple name may either be a type or a variable bound by the
+ * enclosing advice or pointcut, it is resolved when the pointcut is
+ * bound.
+ */
+export interface ContextPointcut extends AstNode {
+    kind: 'this' | 'target' | '@this' | '@target' | '@within' | '@withincode' | '@annotation';
+    pattern: TypePattern;
+}
+
+/**
+ * `args(Type | Var , …)` or `@args(Type | Var , …)`.
+ */
+export interface ArgsPointcut extends AstNode {
+    kind: 'args' | '@args';
+    parameters: Array<ParameterPattern>;
+}
+
+/**
+ * A reference to a named pointcut, `pc()` or `Aspect.pc(i)`.
+ */
+export interface ReferencePointcut extends AstNode {
+    kind: 'reference';
+    name: string;
+    parameters: Array<ParameterPattern>;
+}
+
+/**
+ * Union of the pointcut nodes.
+ */
+export type PointcutNode =
+    BinaryPointcut |
+    NotPointcut |
+    InvocationPointcut |
+    InitializationPointcut |
+    FieldPointcut |
+    TypePointcut |
+    AdviceExecutionPointcut |
+    ControlFlowPointcut |
+    IfPointcut |
+    ContextPointcut |
+    ArgsPointcut |
+    ReferencePointcut;
+
+/**
+ * A formal parameter of an advice or a named pointcut, `Type Id`.
+ */
+export interface Formal extends AstNode {
+    kind: 'formal';
+    type: NameTypePattern;
+    name: string;
+}
+
+/**
+ * The kinds of advice.
+ */
+export type AdviceKind = 'before' | 'after' | 'after-returning' | 'after-throwing' | 'around';
+
+/**
+ * An advice declaration as documented in `advice.ts`, e.g.
+ * `after () returning (int x) : call(int Foo.m(int))`.
+ */
+export interface AdviceDeclaration extends AstNode {
+    kind: 'advice';
+    adviceKind: AdviceKind;
+    /**
+     * The return type of an `around` advice.
+     */
+    returnType?: NameTypePattern;
+    /**
+     * The formals between the parentheses of the advice.
+     */
+    formals: Array<Formal>;
+    /**
+     * The formal naming the returned value of an `after returning` or
+     * the thrown error of an `after throwing` advice.
+     */
+    extraFormal?: Formal;
+    throws: Array<ThrowsPattern>;
+    pointcut: PointcutNode;
+}
+
+/**
+ * `perthis(Pointcut)`, `pertarget(Pointcut)`, `percflow(Pointcut)` or
+ * `percflowbelow(Pointcut)`.
+ */
+export interface PointcutPerClause extends AstNode {
+    kind: 'perthis' | 'pertarget' | 'percflow' | 'percflowbelow';
+    pointcut: PointcutNode;
+}
+
+/**
+ * `pertypewithin(TypePattern)`.
+ */
+export interface TypePerClause extends AstNode {
+    kind: 'pertypewithin';
+    pattern: TypePattern;
+}
+
+/**
+ * `issingleton()`.
+ */
+export interface SingletonPerClause extends AstNode {
+    kind: 'issingleton';
+}
+
+/**
+ * Union of the aspect instantiation clauses.
+ */
+export type PerClause = PointcutPerClause | TypePerClause | SingletonPerClause;
+
+/**
+ * The primitive pointcut designators of the grammar.
+ */
+export const PRIMITIVE_POINTCUTS: Array<string> = [
+    'call', 'execution', 'initialization', 'preinitialization',
+    'staticinitialization', 'get', 'set', 'handler', 'adviceexecution',
+    'within', 'withincode', 'cflow', 'cflowbelow', 'if', 'this', 'target',
+    'args', '@this', '@target', '@args', '@within', '@withincode',
+    '@annotation'
+];
+
+/**
+ * The modifiers accepted in a `ModifiersPat`.
+ */
+export const PATTERN_MODIFIERS: Array<string> = [
+    'public', 'protected', 'private', 'static', 'abstract', 'async',
+    'readonly', 'declare', 'override', 'final'
+];
@@ -0,0 +1,4 @@
+export * from './ast';
+export * from './lexer';
+export * from './parser';
+export * from './syntax-error';
@@ -0,0 +1,215 @@
+import {SourceRange} from './ast';
+import {PointcutSyntaxError} from './syntax-error';
+
+/**
+ * The kinds of token of the pointcut grammar.
+ *
+ * A `name` is an identifier pattern that may contain `*` wildcards, an
+ * `annotation` is an `@` immediately followed by an identifier.
+ */
+export type TokenKind =
+    'name' | 'annotation' | 'dot' | 'dotdot' | 'lparen' | 'rparen' |
+    'lbracket' | 'rbracket' | 'comma' | 'colon' | 'and' | 'or' | 'not' |
+    'plus' | 'lt' | 'gt' | 'eof';
+
+/**
+ * A token of the pointcut grammar.
+ */
+export interface Token {
+    kind: TokenKind;
+    /**
+     * The source text of the token.
+     */
+    text: string;
+    /**
+     * The location of the token.
+     * @see SourceRange
+     */
+    range: SourceRange;
+}
+
+const NAME_START: RegExp = /[A-Za-z_$*]/;
+const NAME_PART: RegExp = /[A-Za-z0-9_$*]/;
+
+const PUNCTUATORS: Array<[string, TokenKind]> = [
+    ['&&', 'and'],
+    ['||', 'or'],
+    ['..', 'dotdot'],
+    ['.', 'dot'],
+    ['(', 'lparen'],
+    [')', 'rparen'],
+    ['[', 'lbracket'],
+    [']', 'rbracket'],
+    [',', 'comma'],
+    [':', 'colon'],
+    ['!', 'not'],
+    ['+', 'plus'],
+    ['<', 'lt'],
+    ['>', 'gt']
+];
+
+/**
+ * Split a pointcut text into {@link Token}s on demand.
+ *
+ * The lexer is lazy so that the parser can capture raw text, such as the
+ * expression of an `if()` pointcut, which does not belong to the pointcut
+ * vocabulary.
+ */
+export class PointcutLexer {
+    private readonly mSource: string;
+    private mOffset: number = 0;
+    private mPeeked: Token | undefined;
+
+    /**
+     * Create a lexer over the specified text.
+     *
+     * @param source - The text to tokenize.
+     */
+    constructor(source: string) {
+        this.mSource = source;
+    }
+
+    /**
+     * The text being tokenized.
+     */
+    public get source(): string {
+        return this.mSource;
+    }
+
+    /**
+     * Consume and return the next token.
+     *
+     * @returns The next {@link Token}, an `eof` token at the end
+     * @throws PointcutSyntaxError on an unexpected character.
+     */
+    public next(): Token {
+        const token: Token = this.peek();
+        this.mPeeked = undefined;
+        this.mOffset = token.range.end;
+        return token;
+    }
+
+    /**
+     * Return the next token without consuming it.
+     *
+     * @returns The next {@link Token}
+     * @throws PointcutSyntaxError on an unexpected character.
+     */
+    public peek(): Token {
+        if (!this.mPeeked) {
+            this.mPeeked = this.scan(this.mOffset);
+        }
+        return this.mPeeked;
+    }
+
+    /**
+     * Return the token following the specified one without consuming
+     * anything.
+     *
+     * @param token - A token returned by {@link peek}.
+     * @returns The {@link Token} after it
+     * @throws PointcutSyntaxError on an unexpected character.
+     */
+    public lookahead(token: Token): Token {
+        return this.scan(token.range.end);
+    }
+
+    /**
+     * Consume the raw text up to the parenthesis that balances an already
+     * consumed opening one, string literals are skipped over.
+     *
+     * @param opening - The consumed `(` token.
+     * @returns The text between the parentheses and its location
+     * @throws PointcutSyntaxError when the parenthesis is never closed.
+     */
+    public readBalanced(opening: Token): [string, SourceRange] {
+        const source: string = this.mSource;
+        let depth: number = 1;
+        let quote: string = '';
+        let offset: number = opening.range.end;
+        for (; offset < source.length; offset++) {
+            const char: string = source[offset];
+            if (quote) {
+                if (char === '\\') {
+                    offset++;
+                } else if (char === quote) {
+                    quote = '';
+                }
+            } else if (char === '\'' || char === '"' || char === '`') {
+                quote = char;
+            } else if (char === '(') {
+                depth++;
+            } else if (char === ')' && --depth === 0) {
+                break;
+            }
+        }
+        if (depth !== 0) {
+            throw new PointcutSyntaxError(
+                'Unbalanced \'(\'', source, opening.range
+            );
+        }
+        const range: SourceRange = this.rangeOf(opening.range.end, offset);
+        this.mPeeked = undefined;
+        this.mOffset = offset;
+        return [source.substring(opening.range.end, offset), range];
+    }
+
+    /**
+     * Compute the {@link SourceRange} of a span of the source text.
+     *
+     * @param start - Offset of the first character.
+     * @param end - Offset just after the last character.
+     * @returns The location of the span
+     */
+    public rangeOf(start: number, end: number): SourceRange {
+        let line: number = 1;
+        let column: number = 1;
+        for (let i: number = 0; i < start; i++) {
+            if (this.mSource[i] === '\n') {
+                line++;
+                column = 1;
+            } else {
+                column++;
+            }
+        }
+        return {start, end, line, column};
+    }
+
+    /**
+     * Scan the token starting at or after the specified offset.
+     *
+     * @param offset - Where to start scanning.
+     * @returns The scanned {@link Token}
+     */
+    private scan(offset: number): Token {
+        const source: string = this.mSource;
+        while (offset < source.length && /\s/.test(source[offset])) {
+            offset++;
+        }
+        if (offset >= source.length) {
+            return {kind: 'eof', text: '', range: this.rangeOf(offset, offset)};
+        }
+        const char: string = source[offset];
+        if (NAME_START.test(char) || (char === '@' && NAME_START.test(source[offset + 1] || ''))) {
+            let end: number = offset + 1;
+            while (end < source.length && NAME_PART.test(source[end])) {
+                end++;
+            }
+            return {
+                kind: char === '@' ? 'annotation' : 'name',
+                text: source.substring(offset, end),
+                range: this.rangeOf(offset, end)
+            };
+        }
+        for (const [text, kind] of PUNCTUATORS) {
+            if (source.startsWith(text, offset)) {
+                return {kind, text, range: this.rangeOf(offset, offset + text.length)};
+            }
+        }
+        throw new PointcutSyntaxError(
+            `Unexpected character '${char}'`, source, this.rangeOf(offset, offset + 1)
+        );
+    }
+}
+
+export default PointcutLexer;
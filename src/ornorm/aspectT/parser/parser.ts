@@ -0,0 +1,918 @@
+import {
+    AdviceDeclaration,
+    AdviceKind,
+    ConstructorPattern,
+    EllipsisPattern,
+    FieldPattern,
+    Formal,
+    MethodPattern,
+    ModifierPattern,
+    NameTypePattern,
+    ParameterPattern,
+    PATTERN_MODIFIERS,
+    PerClause,
+    PointcutNode,
+    PRIMITIVE_POINTCUTS,
+    SourceRange,
+    ThrowsPattern,
+    TypePattern
+} from './ast';
+import {PointcutLexer, Token, TokenKind} from './lexer';
+import {PointcutSyntaxError} from './syntax-error';
+
+const TOKEN_NAMES: Record<TokenKind, string> = {
+    name: 'name',
+    annotation: 'annotation',
+    dot: '\'.\'',
+    dotdot: '\'..\'',
+    lparen: '\'(\'',
+    rparen: '\')\'',
+    lbracket: '\'[\'',
+    rbracket: '\']\'',
+    comma: '\',\'',
+    colon: '\':\'',
+    and: '\'&&\'',
+    or: '\'||\'',
+    not: '\'!\'',
+    plus: '\'+\'',
+    lt: '\'<\'',
+    gt: '\'>\'',
+    eof: 'end of input'
+};
+
+/**
+ * Recursive descent parser for the pointcut grammar documented in
+ * `aspects.ts`.
+ *
+ * ```
+ * Pointcut := Pointcut || Pointcut | Pointcut && Pointcut | ! Pointcut
+ *           | ( Pointcut ) | Primitive | Id [. Id]* ( TypePat | Var | .., … )
+ * ```
+ *
+ * Every node of the resulting tree carries its {@link SourceRange} and
+ * any deviation from the grammar raises a {@link PointcutSyntaxError}
+ * pointing at the offending token.
+ *
+ * @example
+ * const node: PointcutNode = PointcutParser.parse('call(int Foo.m(int)) && args(i)');
+ */
+export class PointcutParser {
+    private readonly mLexer: PointcutLexer;
+
+    /**
+     * Create a parser over the specified text.
+     *
+     * @param source - The text to parse.
+     */
+    constructor(source: string) {
+        this.mLexer = new PointcutLexer(source);
+    }
+
+    /**
+     * Parse a pointcut expression.
+     *
+     * @param source - The pointcut text.
+     * @returns The root {@link PointcutNode}
+     * @throws PointcutSyntaxError when the text is not a valid pointcut.
+     */
+    public static parse(source: string): PointcutNode {
+        const parser: PointcutParser = new PointcutParser(source);
+        return parser.end(parser.parsePointcut());
+    }
+
+    /**
+     * Parse an advice declaration, e.g.
+     * `after () throwing (NotFoundException e) : call(int Foo.m(int))`.
+     *
+     * @param source - The advice text.
+     * @returns The {@link AdviceDeclaration}
+     * @throws PointcutSyntaxError when the text is not a valid advice.
+     */
+    public static parseAdvice(source: string): AdviceDeclaration {
+        const parser: PointcutParser = new PointcutParser(source);
+        return parser.end(parser.parseAdvice());
+    }
+
+    /**
+     * Parse a constructor pattern, e.g. `Point.new(..)`.
+     *
+     * @param source - The pattern text.
+     * @returns The {@link ConstructorPattern}
+     * @throws PointcutSyntaxError when the text is not a valid pattern.
+     */
+    public static parseConstructorPattern(source: string): ConstructorPattern {
+        const parser: PointcutParser = new PointcutParser(source);
+        return parser.end(parser.parseConstructorPattern());
+    }
+
+    /**
+     * Parse a field pattern, e.g. `!private * Point.*`.
+     *
+     * @param source - The pattern text.
+     * @returns The {@link FieldPattern}
+     * @throws PointcutSyntaxError when the text is not a valid pattern.
+     */
+    public static parseFieldPattern(source: string): FieldPattern {
+        const parser: PointcutParser = new PointcutParser(source);
+        return parser.end(parser.parseFieldPattern());
+    }
+
+    /**
+     * Parse a comma separated list of formals, e.g. `int i, Object o`.
+     *
+     * @param source - The formals text, may be empty.
+     * @returns The list of {@link Formal}
+     * @throws PointcutSyntaxError when the text is not a valid list.
+     */
+    public static parseFormals(source: string): Array<Formal> {
+        const parser: PointcutParser = new PointcutParser(source);
+        return parser.end(parser.parseFormals());
+    }
+
+    /**
+     * Parse a method pattern, e.g. `* C.foo*(..)`.
+     *
+     * @param source - The pattern text.
+     * @returns The {@link MethodPattern}
+     * @throws PointcutSyntaxError when the text is not a valid pattern.
+     */
+    public static parseMethodPattern(source: string): MethodPattern {
+        const parser: PointcutParser = new PointcutParser(source);
+        const start: Token = parser.mLexer.peek();
+        const pattern: MethodPattern | ConstructorPattern = parser.parseInvocationPattern();
+        if (pattern.kind !== 'method-pattern') {
+            parser.fail('Expected method pattern but found constructor pattern', start);
+        }
+        return parser.end(pattern as MethodPattern);
+    }
+
+    /**
+     * Parse the instantiation clause of an aspect, e.g.
+     * `percflow(call(void Foo.m()))`.
+     *
+     * @param source - The clause text.
+     * @returns The {@link PerClause}
+     * @throws PointcutSyntaxError when the text is not a valid clause.
+     */
+    public static parsePerClause(source: string): PerClause {
+        const parser: PointcutParser = new PointcutParser(source);
+        return parser.end(parser.parsePerClause());
+    }
+
+    /**
+     * Parse a type pattern, e.g. `java.io.InputPort+ && !Foo`.
+     *
+     * @param source - The pattern text.
+     * @returns The {@link TypePattern}
+     * @throws PointcutSyntaxError when the text is not a valid pattern.
+     */
+    public static parseTypePattern(source: string): TypePattern {
+        const parser: PointcutParser = new PointcutParser(source);
+        return parser.end(parser.parseTypePattern());
+    }
+
+    /**
+     * Parse a comma separated list of type patterns, e.g. the
+     * `Security, Logging, *` of a `declare precedence`.
+     *
+     * @param source - The list text.
+     * @returns The list of {@link TypePattern}
+     * @throws PointcutSyntaxError when the text is not a valid list.
+     */
+    public static parseTypePatternList(source: string): Array<TypePattern> {
+        const parser: PointcutParser = new PointcutParser(source);
+        const patterns: Array<TypePattern> = [parser.parseTypePattern()];
+        while (parser.accept('comma')) {
+            patterns.push(parser.parseTypePattern());
+        }
+        return parser.end(patterns);
+    }
+
+    /**
+     * `Pointcut := OrPointcut`
+     *
+     * @returns The parsed node
+     */
+    public parsePointcut(): PointcutNode {
+        let left: PointcutNode = this.parseAndPointcut();
+        while (this.accept('or')) {
+            const right: PointcutNode = this.parseAndPointcut();
+            left = {kind: 'or', left, right, range: this.span(left.range, right.range)};
+        }
+        return left;
+    }
+
+    /**
+     * `Advice := before ( Formals ) : Pointcut
+     * | after ( Formals ) [ returning [ ( Formal ) ] | throwing [ ( Formal ) ] ] : Pointcut
+     * | Type around ( Formals ) [ throws TypeList ] : Pointcut`
+     *
+     * @returns The parsed declaration
+     */
+    public parseAdvice(): AdviceDeclaration {
+        const start: Token = this.mLexer.peek();
+        let returnType: NameTypePattern | undefined;
+        if (start.kind === 'name' && start.text !== 'before' && start.text !== 'after' && start.text !== 'around') {
+            returnType = this.parseFormalType();
+        }
+        const keyword: Token = this.expect('name', 'advice kind');
+        if (returnType ? keyword.text !== 'around' : !['before', 'after', 'around'].includes(keyword.text)) {
+            this.fail(`Expected ${returnType ? '\'around\'' : 'advice kind'} but found '${keyword.text}'`, keyword);
+        }
+        this.expect('lparen', `'(' after '${keyword.text}'`);
+        const formals: Array<Formal> = this.parseFormals();
+        this.expect('rparen', '\')\'');
+        let adviceKind: AdviceKind = keyword.text as AdviceKind;
+        let extraFormal: Formal | undefined;
+        const next: Token = this.mLexer.peek();
+        if (keyword.text === 'after' && next.kind === 'name' && (next.text === 'returning' || next.text === 'throwing')) {
+            this.mLexer.next();
+            adviceKind = next.text === 'returning' ? 'after-returning' : 'after-throwing';
+            if (this.accept('lparen')) {
+                extraFormal = this.parseFormal();
+                this.expect('rparen', '\')\'');
+            }
+        }
+        const throws: Array<ThrowsPattern> = this.parseThrows();
+        this.expect('colon', '\':\' before pointcut');
+        const pointcut: PointcutNode = this.parsePointcut();
+        return {
+            kind: 'advice',
+            adviceKind,
+            returnType,
+            formals,
+            extraFormal,
+            throws,
+            pointcut,
+            range: this.span(start.range, pointcut.range)
+        };
+    }
+
+    /**
+     * `Formals := [ Formal [, Formal]* ]`
+     *
+     * @returns The parsed formals
+     */
+    public parseFormals(): Array<Formal> {
+        const formals: Array<Formal> = [];
+        const token: Token = this.mLexer.peek();
+        if (token.kind === 'rparen' || token.kind === 'eof') {
+            return formals;
+        }
+        do {
+            formals.push(this.parseFormal());
+        } while (this.accept('comma'));
+        return formals;
+    }
+
+    /**
+     * `PerClause := pertarget ( Pointcut ) | perthis ( Pointcut )
+     * | percflow ( Pointcut ) | percflowbelow ( Pointcut )
+     * | pertypewithin ( TypePattern ) | issingleton ()`
+     *
+     * @returns The parsed clause
+     */
+    public parsePerClause(): PerClause {
+        const designator: Token = this.expect('name', 'per clause');
+        let clause: PerClause;
+        this.expect('lparen', `'(' after '${designator.text}'`);
+        switch (designator.text) {
+            case 'perthis':
+            case 'pertarget':
+            case 'percflow':
+            case 'percflowbelow':
+                clause = {kind: designator.text, pointcut: this.parsePointcut(), range: designator.range};
+                break;
+            case 'pertypewithin':
+                clause = {kind: 'pertypewithin', pattern: this.parseTypePattern(), range: designator.range};
+                break;
+            case 'issingleton':
+                clause = {kind: 'issingleton', range: designator.range};
+                break;
+            default:
+                return this.fail(`Unknown per clause '${designator.text}'`, designator);
+        }
+        const close: Token = this.expect('rparen', `')' to close '${designator.text}('`);
+        clause.range = this.span(designator.range, close.range);
+        return clause;
+    }
+
+    /**
+     * `ConstructorPat`
+     *
+     * @returns The parsed pattern
+     */
+    public parseConstructorPattern(): ConstructorPattern {
+        const start: Token = this.mLexer.peek();
+        const pattern: MethodPattern | ConstructorPattern = this.parseInvocationPattern();
+        if (pattern.kind !== 'constructor-pattern') {
+            this.fail('Expected constructor pattern but found method pattern', start);
+        }
+        return pattern as ConstructorPattern;
+    }
+
+    /**
+     * `FieldPat := [ModifiersPat] TypePat [TypePat . ] IdPat`
+     *
+     * @returns The parsed pattern
+     */
+    public parseFieldPattern(): FieldPattern {
+        const start: Token = this.mLexer.peek();
+        const modifiers: Array<ModifierPattern> = this.parseModifiers();
+        const type: TypePattern = this.parseTypePattern();
+        const [declaringType, name, end]: [TypePattern | undefined, string, SourceRange] =
+            this.parseMemberName(type);
+        return {
+            kind: 'field-pattern',
+            modifiers,
+            type,
+            declaringType,
+            name,
+            range: this.span(start.range, end)
+        };
+    }
+
+    /**
+     * `MethodPat | ConstructorPat`, the kind is decided by the `new`
+     * keyword.
+     *
+     * @returns The parsed pattern
+     */
+    public parseInvocationPattern(): MethodPattern | ConstructorPattern {
+        const start: Token = this.mLexer.peek();
+        const modifiers: Array<ModifierPattern> = this.parseModifiers();
+        const first: Token = this.mLexer.peek();
+        if (first.kind === 'name' && first.text === 'new' && this.mLexer.lookahead(first).kind === 'lparen') {
+            this.mLexer.next();
+            return this.parseConstructorRest(start, modifiers, undefined);
+        }
+        const type: TypePattern = this.parseTypePattern();
+        if (type.kind === 'type-name' && type.includeSubtypes && this.mLexer.peek().kind === 'dot') {
+            const dot: Token = this.mLexer.next();
+            const name: Token = this.expect('name', 'constructor or member name');
+            if (name.text === 'new') {
+                return this.parseConstructorRest(start, modifiers, type);
+            }
+            this.fail(`Expected 'new' after '${type.pattern}+.' but found '${name.text}'`, dot);
+        }
+        if (type.kind === 'type-name' && !type.includeSubtypes && type.dimensions === 0 &&
+            this.mLexer.peek().kind === 'lparen' && !this.isDeclaringTypeGroup()) {
+            if (type.pattern === 'new' || type.pattern.endsWith('.new')) {
+                if (type.pattern.endsWith('..new')) {
+                    this.fail('Expected type pattern before \'.new\'', first);
+                }
+                const declaringType: NameTypePattern | undefined = type.pattern === 'new' ? undefined : {
+                    ...type,
+                    pattern: type.pattern.substring(0, type.pattern.length - 4),
+                    range: this.mLexer.rangeOf(type.range.start, type.range.end - 4)
+                };
+                return this.parseConstructorRest(start, modifiers, declaringType);
+            }
+            this.fail(`Expected return type pattern before '${type.pattern}'`, first);
+        }
+        const [declaringType, name]: [TypePattern | undefined, string, SourceRange] =
+            this.parseMemberName(type);
+        this.expect('lparen', '\'(\'');
+        const parameters: Array<ParameterPattern> = this.parseParameterList();
+        const close: Token = this.expect('rparen', '\')\'');
+        const throws: Array<ThrowsPattern> = this.parseThrows();
+        return {
+            kind: 'method-pattern',
+            modifiers,
+            returnType: type,
+            declaringType,
+            name,
+            parameters,
+            throws,
+            range: this.span(start.range, throws.length ? throws[throws.length - 1].range : close.range)
+        };
+    }
+
+    /**
+     * `TypePat := TypePat || TypePat | TypePat && TypePat | ! TypePat
+     * | ( TypePat ) | IdPat [ + ] [ [] … ]`
+     *
+     * @returns The parsed pattern
+     */
+    public parseTypePattern(): TypePattern {
+        let left: TypePattern = this.parseAndTypePattern();
+        while (this.accept('or')) {
+            const right: TypePattern = this.parseAndTypePattern();
+            left = {kind: 'type-or', left, right, range: this.span(left.range, right.range)};
+        }
+        return left;
+    }
+
+    /**
+     * `AndPointcut := UnaryPointcut [&& UnaryPointcut]*`
+     *
+     * @returns The parsed node
+     */
+    private parseAndPointcut(): PointcutNode {
+        let left: PointcutNode = this.parseUnaryPointcut();
+        while (this.accept('and')) {
+            const right: PointcutNode = this.parseUnaryPointcut();
+            left = {kind: 'and', left, right, range: this.span(left.range, right.range)};
+        }
+        return left;
+    }
+
+    /**
+     * `UnaryPointcut := ! UnaryPointcut | ( Pointcut ) | Primitive | Reference`
+     *
+     * @returns The parsed node
+     */
+    private parseUnaryPointcut(): PointcutNode {
+        const token: Token = this.mLexer.next();
+        switch (token.kind) {
+            case 'not': {
+                const pointcut: PointcutNode = this.parseUnaryPointcut();
+                return {kind: 'not', pointcut, range: this.span(token.range, pointcut.range)};
+            }
+            case 'lparen': {
+                const pointcut: PointcutNode = this.parsePointcut();
+                const close: Token = this.expect('rparen', '\')\'');
+                return {...pointcut, range: this.span(token.range, close.range)};
+            }
+            case 'annotation':
+            case 'name':
+                if (PRIMITIVE_POINTCUTS.includes(token.text)) {
+                    return this.parsePrimitive(token);
+                }
+                if (token.kind === 'annotation') {
+                    this.fail(`Unknown pointcut designator '${token.text}'`, token);
+                }
+                return this.parseReference(token);
+            default:
+                return this.fail(`Expected pointcut but found ${this.describe(token)}`, token);
+        }
+    }
+
+    /**
+     * Parse the parenthesized body of a primitive pointcut.
+     *
+     * @param designator - The consumed designator token.
+     * @returns The parsed node
+     */
+    private parsePrimitive(designator: Token): PointcutNode {
+        const open: Token = this.expect('lparen', `'(' after '${designator.text}'`);
+        let node: PointcutNode;
+        switch (designator.text) {
+            case 'call':
+            case 'execution':
+            case 'withincode':
+                node = {kind: designator.text, pattern: this.parseInvocationPattern(), range: designator.range};
+                break;
+            case 'initialization':
+            case 'preinitialization':
+                node = {kind: designator.text, pattern: this.parseConstructorPattern(), range: designator.range};
+                break;
+            case 'staticinitialization':
+            case 'handler':
+            case 'within':
+                node = {kind: designator.text, pattern: this.parseTypePattern(), range: designator.range};
+                break;
+            case 'get':
+            case 'set':
+                node = {kind: designator.text, pattern: this.parseFieldPattern(), range: designator.range};
+                break;
+            case 'adviceexecution':
+                node = {kind: 'adviceexecution', range: designator.range};
+                break;
+            case 'cflow':
+            case 'cflowbelow':
+                node = {kind: designator.text, pointcut: this.parsePointcut(), range: designator.range};
+                break;
+            case 'if': {
+                const [expression]: [string, SourceRange] = this.mLexer.readBalanced(open);
+                if (!expression.trim()) {
+                    this.fail('Expected expression in \'if()\'', this.mLexer.peek());
+                }
+                node = {kind: 'if', expression: expression.trim(), range: designator.range};
+                break;
+            }
+            case 'args':
+            case '@args':
+                node = {kind: designator.text, parameters: this.parseParameterList(), range: designator.range};
+                break;
+            default:
+                node = {
+                    kind: designator.text as 'this' | 'target' | '@this' | '@target' | '@within' | '@withincode' | '@annotation',
+                    pattern: this.parseTypePattern(),
+                    range: designator.range
+                };
+        }
+        const close: Token = this.expect('rparen', `')' to close '${designator.text}('`);
+        node.range = this.span(designator.range, close.range);
+        return node;
+    }
+
+    /**
+     * `Reference := Id [. Id]* ( TypePat | Var | .., … )`
+     *
+     * @param first - The consumed first name token.
+     * @returns The parsed node
+     */
+    private parseReference(first: Token): PointcutNode {
+        let name: string = this.checkIdentifier(first);
+        while (this.mLexer.peek().kind === 'dot') {
+            this.mLexer.next();
+            name += `.${this.checkIdentifier(this.expect('name', 'pointcut name'))}`;
+        }
+        this.expect('lparen', `'(' after pointcut name '${name}'`);
+        const parameters: Array<ParameterPattern> = this.parseParameterList();
+        const close: Token = this.expect('rparen', '\')\'');
+        return {kind: 'reference', name, parameters, range: this.span(first.range, close.range)};
+    }
+
+    /**
+     * `Formal := Type Id`
+     *
+     * @returns The parsed formal
+     */
+    private parseFormal(): Formal {
+        const type: NameTypePattern = this.parseFormalType();
+        const name: Token = this.expect('name', `formal name after '${type.pattern}'`);
+        return {
+            kind: 'formal',
+            type,
+            name: this.checkIdentifier(name),
+            range: this.span(type.range, name.range)
+        };
+    }
+
+    /**
+     * Parse the type of a formal, a name pattern without wildcards nor
+     * `+`, optionally followed by type arguments, e.g. `Map<string, number>`.
+     *
+     * `FormalType := Id [. Id]* [ < FormalType [, FormalType]* > ] [ [] ]*`
+     *
+     * @returns The parsed type
+     */
+    private parseFormalType(): NameTypePattern {
+        const token: Token = this.mLexer.peek();
+        const type: NameTypePattern = this.parseNameTypePattern();
+        if (type.pattern.includes('*') || type.pattern.includes('..') || type.includeSubtypes) {
+            this.fail(`Expected type but found pattern '${type.pattern}'`, token);
+        }
+        if (type.dimensions > 0 || this.mLexer.peek().kind !== 'lt') {
+            return type;
+        }
+        this.mLexer.next();
+        const typeArguments: Array<NameTypePattern> = [this.parseFormalType()];
+        while (this.mLexer.peek().kind === 'comma') {
+            this.mLexer.next();
+            typeArguments.push(this.parseFormalType());
+        }
+        let end: SourceRange = this.expect('gt', '\'>\'').range;
+        let dimensions: number = 0;
+        while (this.mLexer.peek().kind === 'lbracket') {
+            this.mLexer.next();
+            end = this.expect('rbracket', '\']\'').range;
+            dimensions++;
+        }
+        return {...type, typeArguments, dimensions, range: this.span(type.range, end)};
+    }
+
+    /**
+     * `ModifiersPat := [ [!] Modifier ]*`
+     *
+     * @returns The parsed modifiers
+     */
+    private parseModifiers(): Array<ModifierPattern> {
+        const modifiers: Array<ModifierPattern> = [];
+        for (;;) {
+            const token: Token = this.mLexer.peek();
+            if (token.kind === 'name' && PATTERN_MODIFIERS.includes(token.text)) {
+                this.mLexer.next();
+                modifiers.push({kind: 'modifier', name: token.text, negated: false, range: token.range});
+            } else if (token.kind === 'not') {
+                const modifier: Token = this.mLexer.lookahead(token);
+                if (modifier.kind !== 'name' || !PATTERN_MODIFIERS.includes(modifier.text)) {
+                    return modifiers;
+                }
+                this.mLexer.next();
+                this.mLexer.next();
+                modifiers.push({
+                    kind: 'modifier',
+                    name: modifier.text,
+                    negated: true,
+                    range: this.span(token.range, modifier.range)
+                });
+            } else {
+                return modifiers;
+            }
+        }
+    }
+
+    /**
+     * Return true when the `(` about to be read encloses the declaring type
+     * of a member, e.g. `* (Foo || Bar).m()`, rather than the parameters of
+     * a method pattern missing its return type.
+     *
+     * @returns True when the parenthesis is followed by a `.`
+     */
+    private isDeclaringTypeGroup(): boolean {
+        let depth: number = 0;
+        for (let token: Token = this.mLexer.peek(); token.kind !== 'eof'; token = this.mLexer.lookahead(token)) {
+            if (token.kind === 'lparen') {
+                depth++;
+            } else if (token.kind === 'rparen' && --depth === 0) {
+                return this.mLexer.lookahead(token).kind === 'dot';
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Parse the `[TypePat .] IdPat` part of a method or field pattern.
+     *
+     * @param type - The already parsed return or field type.
+     * @returns The declaring type, the member name and the end location
+     */
+    private parseMemberName(type: TypePattern): [TypePattern | undefined, string, SourceRange] {
+        const token: Token = this.mLexer.peek();
+        if (token.kind === 'lparen') {
+            this.mLexer.next();
+            const declaringType: TypePattern = this.parseTypePattern();
+            this.expect('rparen', '\')\'');
+            this.expect('dot', '\'.\' after declaring type');
+            const name: Token = this.expect('name', 'member name pattern');
+            return [declaringType, name.text, name.range];
+        }
+        if (token.kind !== 'name') {
+            const typeText: string = type.kind === 'type-name' ? ` after '${type.pattern}'` : '';
+            return this.fail(`Expected member name pattern${typeText} but found ${this.describe(token)}`, token);
+        }
+        const head: NameTypePattern = this.parseNameTypePattern();
+        if (head.dimensions > 0) {
+            this.fail('Unexpected \'[]\' in member name', token);
+        }
+        if (head.includeSubtypes) {
+            this.expect('dot', `'.' after '${head.pattern}+'`);
+            const name: Token = this.expect('name', 'member name pattern');
+            return [head, name.text, name.range];
+        }
+        const dot: number = head.pattern.lastIndexOf('.');
+        if (dot === -1) {
+            return [undefined, head.pattern, head.range];
+        }
+        if (head.pattern[dot - 1] === '.') {
+            this.fail(`Expected '.' before member name in '${head.pattern}'`, token);
+        }
+        const declaringType: NameTypePattern = {
+            kind: 'type-name',
+            pattern: head.pattern.substring(0, dot),
+            includeSubtypes: false,
+            dimensions: 0,
+            range: this.mLexer.rangeOf(head.range.start, head.range.start + dot)
+        };
+        return [declaringType, head.pattern.substring(dot + 1), head.range];
+    }
+
+    /**
+     * Parse the `( TypePat | .., … )` part of a constructor pattern.
+     *
+     * @param start - The first token of the pattern.
+     * @param modifiers - The parsed modifiers.
+     * @param declaringType - The parsed declaring type if any.
+     * @returns The constructor pattern
+     */
+    private parseConstructorRest(
+        start: Token, modifiers: Array<ModifierPattern>, declaringType: TypePattern | undefined
+    ): ConstructorPattern {
+        this.expect('lparen', '\'(\' after \'new\'');
+        const parameters: Array<ParameterPattern> = this.parseParameterList();
+        const close: Token = this.expect('rparen', '\')\'');
+        const throws: Array<ThrowsPattern> = this.parseThrows();
+        return {
+            kind: 'constructor-pattern',
+            modifiers,
+            declaringType,
+            parameters,
+            throws,
+            range: this.span(start.range, throws.length ? throws[throws.length - 1].range : close.range)
+        };
+    }
+
+    /**
+     * `( TypePat | .., … )` without the parentheses, may be empty.
+     *
+     * @returns The parsed parameters
+     */
+    private parseParameterList(): Array<ParameterPattern> {
+        const parameters: Array<ParameterPattern> = [];
+        if (this.mLexer.peek().kind === 'rparen') {
+            return parameters;
+        }
+        do {
+            const token: Token = this.mLexer.peek();
+            if (token.kind === 'dotdot') {
+                this.mLexer.next();
+                const ellipsis: EllipsisPattern = {kind: 'ellipsis', range: token.range};
+                parameters.push(ellipsis);
+            } else {
+                parameters.push(this.parseTypePattern());
+            }
+        } while (this.accept('comma'));
+        return parameters;
+    }
+
+    /**
+     * `[ throws ThrowsPat ]`
+     *
+     * @returns The parsed throws patterns
+     */
+    private parseThrows(): Array<ThrowsPattern> {
+        const token: Token = this.mLexer.peek();
+        if (token.kind !== 'name' || token.text !== 'throws') {
+            return [];
+        }
+        this.mLexer.next();
+        const throws: Array<ThrowsPattern> = [];
+        do {
+            const start: Token = this.mLexer.peek();
+            const negated: boolean = this.accept('not');
+            const pattern: TypePattern = this.parseTypePattern();
+            throws.push({kind: 'throws', pattern, negated, range: this.span(start.range, pattern.range)});
+        } while (this.accept('comma'));
+        return throws;
+    }
+
+    /**
+     * `AndTypePat := UnaryTypePat [&& UnaryTypePat]*`
+     *
+     * @returns The parsed pattern
+     */
+    private parseAndTypePattern(): TypePattern {
+        let left: TypePattern = this.parseUnaryTypePattern();
+        while (this.accept('and')) {
+            const right: TypePattern = this.parseUnaryTypePattern();
+            left = {kind: 'type-and', left, right, range: this.span(left.range, right.range)};
+        }
+        return left;
+    }
+
+    /**
+     * `UnaryTypePat := ! UnaryTypePat | ( TypePat ) | IdPat [ + ] [ [] … ]`
+     *
+     * @returns The parsed pattern
+     */
+    private parseUnaryTypePattern(): TypePattern {
+        const token: Token = this.mLexer.peek();
+        if (token.kind === 'not') {
+            this.mLexer.next();
+            const pattern: TypePattern = this.parseUnaryTypePattern();
+            return {kind: 'type-not', pattern, range: this.span(token.range, pattern.range)};
+        }
+        if (token.kind === 'lparen') {
+            this.mLexer.next();
+            const pattern: TypePattern = this.parseTypePattern();
+            const close: Token = this.expect('rparen', '\')\'');
+            return {...pattern, range: this.span(token.range, close.range)};
+        }
+        if (token.kind !== 'name') {
+            return this.fail(`Expected type pattern but found ${this.describe(token)}`, token);
+        }
+        return this.parseNameTypePattern();
+    }
+
+    /**
+     * `IdPat [ + ] [ [] … ]` where `IdPat` is a dotted name pattern.
+     *
+     * @returns The parsed pattern
+     */
+    private parseNameTypePattern(): NameTypePattern {
+        const first: Token = this.expect('name', 'type pattern');
+        let pattern: string = first.text;
+        let end: SourceRange = first.range;
+        for (;;) {
+            const separator: Token = this.mLexer.peek();
+            if (separator.kind !== 'dot' && separator.kind !== 'dotdot') {
+                break;
+            }
+            const segment: Token = this.mLexer.lookahead(separator);
+            if (segment.kind !== 'name') {
+                if (separator.kind === 'dotdot') {
+                    this.mLexer.next();
+                    this.fail(`Expected name pattern after '..' but found ${this.describe(segment)}`, segment);
+                }
+                break;
+            }
+            this.mLexer.next();
+            this.mLexer.next();
+            pattern += separator.text + segment.text;
+            end = segment.range;
+        }
+        const includeSubtypes: boolean = this.mLexer.peek().kind === 'plus';
+        if (includeSubtypes) {
+            end = this.mLexer.next().range;
+        }
+        let dimensions: number = 0;
+        while (this.mLexer.peek().kind === 'lbracket') {
+            this.mLexer.next();
+            end = this.expect('rbracket', '\']\'').range;
+            dimensions++;
+        }
+        return {
+            kind: 'type-name',
+            pattern,
+            includeSubtypes,
+            dimensions,
+            range: this.span(first.range, end)
+        };
+    }
+
+    /**
+     * Consume the next token when it is of the specified kind.
+     *
+     * @param kind - The expected kind.
+     * @returns True when consumed
+     */
+    private accept(kind: TokenKind): boolean {
+        if (this.mLexer.peek().kind === kind) {
+            this.mLexer.next();
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Consume the next token which must be of the specified kind.
+     *
+     * @param kind - The expected kind.
+     * @param expected - The description used in the error message.
+     * @returns The consumed token
+     * @throws PointcutSyntaxError when the token is of another kind.
+     */
+    private expect(kind: TokenKind, expected: string): Token {
+        const token: Token = this.mLexer.next();
+        if (token.kind !== kind) {
+            this.fail(`Expected ${expected} but found ${this.describe(token)}`, token);
+        }
+        return token;
+    }
+
+    /**
+     * Verify that the whole text has been consumed.
+     *
+     * @param result - The parsed value.
+     * @returns The parsed value
+     * @throws PointcutSyntaxError when some text remains.
+     */
+    private end<T>(result: T): T {
+        const token: Token = this.mLexer.peek();
+        if (token.kind !== 'eof') {
+            this.fail(`Unexpected ${this.describe(token)}`, token);
+        }
+        return result;
+    }
+
+    /**
+     * Verify that a name token holds no wildcard.
+     *
+     * @param token - The name token.
+     * @returns The name
+     * @throws PointcutSyntaxError when the name holds a wildcard.
+     */
+    private checkIdentifier(token: Token): string {
+        if (token.text.includes('*')) {
+            this.fail(`Unexpected wildcard in name '${token.text}'`, token);
+        }
+        return token.text;
+    }
+
+    /**
+     * Describe a token for an error message.
+     *
+     * @param token - The token.
+     * @returns The description
+     */
+    private describe(token: Token): string {
+        return token.kind === 'name' || token.kind === 'annotation' ? `'${token.text}'` : TOKEN_NAMES[token.kind];
+    }
+
+    /**
+     * Raise a {@link PointcutSyntaxError} at the specified token.
+     *
+     * @param reason - The description of the error.
+     * @param token - The offending token.
+     * @throws PointcutSyntaxError always.
+     */
+    private fail(reason: string, token: Token): never {
+        throw new PointcutSyntaxError(reason, this.mLexer.source, token.range);
+    }
+
+    /**
+     * Compute the range covering two ranges.
+     *
+     * @param start - The first range.
+     * @param end - The last range.
+     * @returns The covering range
+     */
+    private span(start: SourceRange, end: SourceRange): SourceRange {
+        return {start: start.start, end: end.end, line: start.line, column: start.column};
+    }
+}
+
+export default PointcutParser;
@@ -0,0 +1,87 @@
+import {SourceRange} from './ast';
+
+/**
+ * Thrown when a pointcut or pattern does not conform to the grammar
+ * documented in `aspects.ts`.
+ *
+ * The message names the offending token and is followed by the source
+ * text with a caret under the failing position, e.g.
+ * ```
+ * Expected ')' but found '&&' at 1:22
+ *   call(int Foo.m(int) && args(i)
+ *                       ^
+ * ```
+ */
+export class PointcutSyntaxError extends SyntaxError {
+    private readonly mRange: SourceRange;
+    private readonly mReason: string;
+    private readonly mSource: string;
+
+    /**
+     * Create a pointcut syntax error.
+     *
+     * @param reason - The description of the error, without location.
+     * @param source - The text being parsed.
+     * @param range - The location of the offending token.
+     * @see SourceRange
+     */
+    constructor(reason: string, source: string, range: SourceRange) {
+        super(PointcutSyntaxError.format(reason, source, range));
+        this.name = 'PointcutSyntaxError';
+        this.mRange = range;
+        this.mReason = reason;
+        this.mSource = source;
+    }
+
+    /**
+     * 1-based column of the offending token.
+     */
+    public get column(): number {
+        return this.mRange.column;
+    }
+
+    /**
+     * 1-based line of the offending token.
+     */
+    public get line(): number {
+        return this.mRange.line;
+    }
+
+    /**
+     * The location of the offending token.
+     * @see SourceRange
+     */
+    public get range(): SourceRange {
+        return this.mRange;
+    }
+
+    /**
+     * The description of the error, without location.
+     */
+    public get reason(): string {
+        return this.mReason;
+    }
+
+    /**
+     * The text being parsed.
+     */
+    public get source(): string {
+        return this.mSource;
+    }
+
+    /**
+     * Build the error message.
+     *
+     * @param reason - The description of the error.
+     * @param source - The text being parsed.
+     * @param range - The location of the offending token.
+     * @returns The message with the source line and a caret.
+     */
+    private static format(reason: string, source: string, range: SourceRange): string {
+        const sourceLine: string = source.split(/\r?\n/)[range.line - 1] || '';
+        const caret: string = `${' '.repeat(range.column - 1)}^`;
+        return `${reason} at ${range.line}:${range.column}\n  ${sourceLine}\n  ${caret}`;
+    }
+}
+
+export default PointcutSyntaxError;
@@ -6,6 +6,7 @@
     SourceFile,
     ClassDeclarationStructure
 } from 'ts-morph';
+import {Formal, PointcutParser} from './parser';
 
 /*
 Pointcut Definitions
@@ -33,9 +34,10 @@ const sourceFile: SourceFile = project.createSourceFile('point-cut.ts', '', { ov
  * Creates a pointcut definition method.
  * @param name - The name of the pointcut.
  * @param visibility - The visibility of the pointcut (private, package, public, abstract).
- * @param formals - The formal parameters of the pointcut.
- * @param pointcut - The pointcut expression.
+ * @param formals - The formal parameters of the pointcut, e.g. `Map<string, number> m`.
+ * @param pointcut - The pointcut expression, empty for an abstract pointcut.
  * @returns The created pointcut method.
+ * @throws PointcutSyntaxError if the formals or the pointcut expression are not valid.
  */
 function createPointcut(
     name: string,
@@ -43,9 +45,15 @@ function createPointcut(
     formals: string,
     pointcut: string
 ): MethodDeclarationStructure {
+    if (visibility !== 'abstract' || pointcut) {
+        PointcutParser.parse(pointcut);
+    }
     return {
         name: name,
-        parameters: formals ? formals.split(',').map(param => ({ name: param.trim() })) : [],
+        parameters: PointcutParser.parseFormals(formals).map((formal: Formal) => ({
+            name: formal.name,
+            type: formals.substring(formal.type.range.start, formal.type.range.end)
+        })),
         statements: [],
         returnType: 'void',
         scope: visibility === 'private' ? Scope.Private : Scope.Public,
@@ -53,7 +61,7 @@ function createPointcut(
         decorators: [
             {
                 name: 'Pointcut',
-                arguments: [pointcut],
+                arguments: [JSON.stringify(pointcut)],
                 kind: StructureKind.Decorator
             }
         ],
@@ -3,6 +3,7 @@ import {
     ClassDeclaration,
     ClassInstancePropertyTypes,
     ConstructorDeclaration,
+    Decorator,
     ExpressionWithTypeArguments,
     InterfaceDeclaration,
     MethodDeclaration,
@@ -17,6 +18,7 @@ import {
 } from 'ts-morph';
 import Script from './script';
 import {
+    Annotation,
     ClassDescriptor,
     ConstructorDescriptor,
     InterfaceDescriptor,
@@ -95,6 +97,10 @@ export const INCLUDE_ALL: number =
 export interface DescribeTypeInputOptions {
     inputPath: Array<string>;
     tsConfigPath: string;
+    /**
+     * The flags, {@link INCLUDE_ALL} by default.
+     */
+    flags?: number;
 }
 
 /**
@@ -175,7 +181,7 @@ export class DescriptorType {
      * @return A list of {@link ModuleDescriptor}
      */
     public static describeTypeInput(options: DescribeTypeInputOptions): Promise<Array<ModuleDescriptor>> {
-        const {inputPath, tsConfigPath}: DescribeTypeInputOptions = options;
+        const {inputPath, tsConfigPath, flags = INCLUDE_ALL}: DescribeTypeInputOptions = options;
         return new Promise<Array<ModuleDescriptor>>((
             res: Resolve<Array<ModuleDescriptor>>,
             rej: Reject
@@ -201,7 +207,7 @@ export class DescriptorType {
                         return excluded.every((reg: RegExp) => !reg.test(sourceFile.getFilePath()));
                     });
 
-                res(sourceFiles.map(DescriptorType.getModule.bind(DescriptorType)));
+                res(sourceFiles.map((sourceFile: SourceFile) => DescriptorType.getModule(sourceFile, flags)));
             } catch (e) {
                 rej(e);
             }
@@ -239,15 +245,18 @@ export class DescriptorType {
      * Get a {@link ModuleDescriptor} from the specified source file.
      *
      * @param sourceFile The {@link SourceFile} to use.
+     * @param flags The flags, {@link INCLUDE_ALL} by default.
      * @return The module descriptor
      */
-    public static getModule(sourceFile: SourceFile): ModuleDescriptor {
+    public static getModule(sourceFile: SourceFile, flags: number = INCLUDE_ALL): ModuleDescriptor {
         return {
             base: 'Module',
             name: sourceFile.getBaseName().replace(/.(ts|js)$/, ''),
             path: sourceFile.getDirectoryPath(),
-            classes: sourceFile.getClasses().map(DescriptorType.getClass.bind(DescriptorType)),
-            interfaces: sourceFile.getInterfaces().map(DescriptorType.getInterface.bind(DescriptorType))
+            classes: sourceFile.getClasses()
+                .map((classDeclaration: ClassDeclaration) => DescriptorType.getClass(classDeclaration, flags)),
+            interfaces: sourceFile.getInterfaces()
+                .map((declaration: InterfaceDeclaration) => DescriptorType.getInterface(declaration, flags))
         };
     }
 
@@ -255,38 +264,76 @@ export class DescriptorType {
      * Get a {@link ClassDescriptor} from a class declaration.
      *
      * @param classDeclaration The {@link ClassDeclaration} to use.
+     * @param flags The flags, {@link INCLUDE_ALL} by default.
      * @return The class descriptor
      */
-    public static getClass(classDeclaration: ClassDeclaration): ClassDescriptor {
+    public static getClass(classDeclaration: ClassDeclaration, flags: number = INCLUDE_ALL): ClassDescriptor {
         return {
             base: 'Class',
             modifiers: classDeclaration.getModifiers().map(DescriptorType.getModifier.bind(DescriptorType)),
             name: classDeclaration.getName() || '',
-            methods: classDeclaration.getMethods().map(DescriptorType.getMethod.bind(DescriptorType)),
-            members: classDeclaration.getProperties().map(DescriptorType.getMember.bind(DescriptorType)),
+            methods: classDeclaration.getMethods()
+                .map((method: MethodDeclaration) => DescriptorType.getMethod(method, flags)),
+            members: classDeclaration.getProperties()
+                .map((property: PropertyDeclaration) => DescriptorType.getMember(property, flags)),
             factory: {
                 extendsClass: DescriptorType.getBaseClasses(classDeclaration),
                 implementsInterfaces: classDeclaration.getImplements().map(DescriptorType.getInterfaceName.bind(DescriptorType)),
                 constructors: DescriptorType.getConstructors(classDeclaration),
-                methods: classDeclaration.getInstanceMethods().map(DescriptorType.getMethod.bind(DescriptorType)),
-                members: classDeclaration.getInstanceProperties().map(DescriptorType.getMember.bind(DescriptorType))
-            }
+                methods: classDeclaration.getInstanceMethods()
+                    .map((method: MethodDeclaration) => DescriptorType.getMethod(method, flags)),
+                members: classDeclaration.getInstanceProperties()
+                    .map((property: ClassInstancePropertyTypes) => DescriptorType.getMember(property, flags))
+            },
+            ...DescriptorType.getMetadata(classDeclaration, flags)
         };
     }
 
+    /**
+     * Get the annotations captured from the decorators of a node, e.g.
+     * `@Transactional('required')`. The literal arguments are the values of
+     * the annotation, another argument is kept as its source text.
+     *
+     * @param node The decorated node.
+     * @return A list of {@link Annotation}
+     */
+    public static getAnnotations(node: Node): Array<Annotation> {
+        if (!Node.isDecoratable(node)) {
+            return [];
+        }
+        return node.getDecorators().map((decorator: Decorator) => ({
+            name: decorator.getName(),
+            values: decorator.getArguments().map((argument: Node) => {
+                if (Node.isStringLiteral(argument) || Node.isNoSubstitutionTemplateLiteral(argument)) {
+                    return argument.getLiteralValue();
+                }
+                try {
+                    return JSON.parse(argument.getText());
+                } catch {
+                    return argument.getText();
+                }
+            })
+        }));
+    }
+
     /**
      * Get an {@link InterfaceDescriptor} from an interface declaration.
      *
      * @param interfaceDeclaration An {@link InterfaceDeclaration} to use.
+     * @param flags The flags, {@link INCLUDE_ALL} by default.
      * @return An interface descriptor
      */
-    public static getInterface(interfaceDeclaration: InterfaceDeclaration): InterfaceDescriptor {
+    public static getInterface(
+        interfaceDeclaration: InterfaceDeclaration,
+        flags: number = INCLUDE_ALL
+    ): InterfaceDescriptor {
         return {
             base: 'Interface',
             modifiers: interfaceDeclaration.getModifiers().map(DescriptorType.getModifier.bind(DescriptorType)),
             name: interfaceDeclaration.getName(),
             methods: interfaceDeclaration.getMethods().map(DescriptorType.getInterfaceMethod.bind(DescriptorType)),
-            members: interfaceDeclaration.getProperties().map(DescriptorType.getMember.bind(DescriptorType))
+            members: interfaceDeclaration.getProperties()
+                .map((property: PropertySignature) => DescriptorType.getMember(property, flags))
         };
     }
 
@@ -313,8 +360,8 @@ export class DescriptorType {
             const className: string | undefined = base.getName();
             if (className) {
                 classes.push(className);
-                base = base.getBaseClass();
             }
+            base = base.getBaseClass();
         }
         return classes;
     }
@@ -339,9 +386,10 @@ export class DescriptorType {
      * Return the {@link MethodDescriptor} for a method.
      *
      * @param methodDeclaration The method.
+     * @param flags The flags, {@link INCLUDE_ALL} by default.
      * @return The {@link MethodDescriptor} for the specified method
      */
-    public static getMethod(methodDeclaration: MethodDeclaration): MethodDescriptor {
+    public static getMethod(methodDeclaration: MethodDeclaration, flags: number = INCLUDE_ALL): MethodDescriptor {
         return {
             isSignature: methodDeclaration.getKindName() === 'MethodSignature',
             isAbstract: methodDeclaration.isAbstract(),
@@ -353,7 +401,8 @@ export class DescriptorType {
             modifiers: methodDeclaration.getModifiers().map(DescriptorType.getModifier.bind(this)),
             name: methodDeclaration.getName(),
             parameters: methodDeclaration.getParameters().map(DescriptorType.getParameter.bind(this)),
-            returnType: DescriptorType.getTypeName(methodDeclaration.getReturnType())
+            returnType: DescriptorType.getTypeName(methodDeclaration.getReturnType()),
+            ...DescriptorType.getMetadata(methodDeclaration, flags)
         };
     }
 
@@ -383,10 +432,12 @@ export class DescriptorType {
      * Get a {@link MemberDescriptor} object.
      *
      * @param classOrInstanceProperty The target to be described.
+     * @param flags The flags, {@link INCLUDE_ALL} by default.
      * @return The descriptor to be used
      */
     public static getMember(
-        classOrInstanceProperty: PropertySignature | PropertyDeclaration | ClassInstancePropertyTypes
+        classOrInstanceProperty: PropertySignature | PropertyDeclaration | ClassInstancePropertyTypes,
+        flags: number = INCLUDE_ALL
     ): MemberDescriptor {
         const kindName: string = classOrInstanceProperty.getKindName();
         return {
@@ -395,10 +446,25 @@ export class DescriptorType {
             isProperty: kindName === 'PropertyDeclaration' || kindName === 'PropertySignature',
             modifiers: classOrInstanceProperty.getModifiers().map(DescriptorType.getModifier.bind(DescriptorType)),
             name: classOrInstanceProperty.getName(),
-            type: DescriptorType.getTypeName(classOrInstanceProperty.getType())
+            type: DescriptorType.getTypeName(classOrInstanceProperty.getType()),
+            ...DescriptorType.getMetadata(classOrInstanceProperty, flags)
         };
     }
 
+    /**
+     * Get the annotations of a decorated node when {@link INCLUDE_METADATA}
+     * is set, the key is left out of the descriptor otherwise.
+     *
+     * @param node The node.
+     * @param flags The flags, {@link INCLUDE_ALL} by default.
+     * @return The annotations to spread into the descriptor
+     */
+    public static getMetadata(node: Node, flags: number = INCLUDE_ALL): {annotations?: Array<Annotation>} {
+        const annotations: Array<Annotation> = flags & INCLUDE_METADATA ?
+            DescriptorType.getAnnotations(node) : [];
+        return annotations.length > 0 ? {annotations} : {};
+    }
+
     /**
      * Get a modifier from a {@link node}.
      *
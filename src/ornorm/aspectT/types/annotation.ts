@@ -0,0 +1,102 @@
+import 'reflect-metadata';
+
+const ANNOTATION: RegExp = /^@([A-Za-z_$][\w$.]*)\s*(?:\(([\s\S]*)\))?$/;
+
+/**
+ * The metadata key of the annotations of a type or a member.
+ */
+export const ANNOTATIONS_METADATA_KEY: string = 'aspectT:annotations';
+
+/**
+ * Interface that represent an annotation, e.g. `@Table("users")`.
+ */
+export interface Annotation {
+    /**
+     * The annotation name, without `@`.
+     */
+    name: string;
+    /**
+     * The annotation values.
+     */
+    values: Array<any>;
+}
+
+/**
+ * Attach annotations to types and members as `reflect-metadata` under
+ * {@link ANNOTATIONS_METADATA_KEY}: a type is annotated on its class, a
+ * member on its class when static, on the prototype otherwise, and a
+ * constructor under the `constructor` key of its class.
+ */
+export class Annotations {
+    /**
+     * Parse an annotation, its values are JSON literals.
+     *
+     * @param annotation - The annotation, e.g. `@Table("users", 2)`.
+     * @returns The {@link Annotation}
+     * @throws TypeError when the annotation is not valid.
+     */
+    public static parse(annotation: string): Annotation {
+        const match: RegExpExecArray | null = ANNOTATION.exec(annotation.trim());
+        if (!match) {
+            throw new TypeError(`IllegalArgumentException annotation ${annotation}`);
+        }
+        const [, name, values]: RegExpExecArray = match;
+        try {
+            return {name, values: values && values.trim() ? JSON.parse(`[${values}]`) : []};
+        } catch {
+            throw new TypeError(`IllegalArgumentException annotation ${annotation}`);
+        }
+    }
+
+    /**
+     * Annotate a type or a member, an annotation is attached once.
+     *
+     * @param target - The class or the prototype.
+     * @param annotation - The {@link Annotation}.
+     * @param propertyKey - The member name, undefined for a type.
+     */
+    public static annotate(target: object, annotation: Annotation, propertyKey?: string): void {
+        const annotations: Array<Annotation> = Annotations.getAnnotations(target, propertyKey);
+        if (annotations.some(({name}: Annotation) => name === annotation.name)) {
+            return;
+        }
+        const value: Array<Annotation> = [...annotations, annotation];
+        if (propertyKey === undefined) {
+            Reflect.defineMetadata(ANNOTATIONS_METADATA_KEY, value, target);
+        } else {
+            Reflect.defineMetadata(ANNOTATIONS_METADATA_KEY, value, target, propertyKey);
+        }
+    }
+
+    /**
+     * Return the annotations of a type or a member.
+     *
+     * @param target - The class or the prototype.
+     * @param propertyKey - The member name, undefined for a type.
+     * @returns The list of {@link Annotation}
+     */
+    public static getAnnotations(target: object, propertyKey?: string): Array<Annotation> {
+        const annotations: Array<Annotation> | undefined = propertyKey === undefined ?
+            Reflect.getOwnMetadata(ANNOTATIONS_METADATA_KEY, target) :
+            Reflect.getOwnMetadata(ANNOTATIONS_METADATA_KEY, target, propertyKey);
+        return annotations || [];
+    }
+
+    /**
+     * Merge lists of annotations, an annotation is kept once by name.
+     *
+     * @param annotations - The lists of {@link Annotation}, by precedence.
+     * @returns The list of {@link Annotation}
+     */
+    public static merge(...annotations: Array<Array<Annotation>>): Array<Annotation> {
+        const merged: Array<Annotation> = [];
+        annotations.forEach((list: Array<Annotation>) => list.forEach((annotation: Annotation) => {
+            if (!merged.some(({name}: Annotation) => name === annotation.name)) {
+                merged.push(annotation);
+            }
+        }));
+        return merged;
+    }
+}
+
+export default Annotations;
@@ -1,5 +1,7 @@
 
 import {
+    Annotation,
+    Annotations,
     BaseType,
     ClassDescriptor,
     Descriptor,
@@ -14,6 +16,10 @@ import {
 
 const LOADED_CLASSES: Record<string, Class> = {};
 
+const INTERFACES: WeakMap<Function, Array<string>> = new WeakMap<Function, Array<string>>();
+
+const INTERFACE_TYPES: WeakMap<Function, Map<string, Function>> = new WeakMap<Function, Map<string, Function>>();
+
 export class Class<T=any> {
     private readonly mBase: BaseType;
     private readonly mDeclaringClass: Function;
@@ -171,6 +177,30 @@ export class Class<T=any> {
         Descriptor.addType(name, type);
     }
 
+    /**
+     * Record the interfaces a class implements, e.g. from a
+     * <code>declare parents</code>. An interface is also recorded as the
+     * class registered under its name, if any.
+     *
+     * @param type The class.
+     * @param interfaces The interface names.
+     */
+    public static addInterfaces(type: Function, interfaces: Array<string>): void {
+        const names: Array<string> = INTERFACES.get(type) || [];
+        const types: Map<string, Function> = INTERFACE_TYPES.get(type) || new Map<string, Function>();
+        interfaces.forEach((name: string) => {
+            if (!names.includes(name)) {
+                names.push(name);
+            }
+            const resolved: unknown = Descriptor.getType(name);
+            if (typeof resolved === 'function' && !types.has(name)) {
+                types.set(name, resolved);
+            }
+        });
+        INTERFACES.set(type, names);
+        INTERFACE_TYPES.set(type, types);
+    }
+
     /**
      * Returns the <code>Function</code> object associated with the class or
      * interface with the given string name.
@@ -266,6 +296,27 @@ export class Class<T=any> {
         return getters;
     }
 
+    /**
+     * Return the names of the interfaces recorded for a class and its
+     * superclasses.
+     *
+     * @param type The class.
+     * @return The interface names
+     */
+    public static getInterfaceNames(type: Function): Array<string> {
+        const interfaces: Array<string> = [];
+        let instance: any = type.prototype;
+        for (; instance !== null && instance !== undefined; instance = Object.getPrototypeOf(instance)) {
+            (INTERFACES.get(instance.constructor) || []).forEach((name: string) => {
+                if (!interfaces.includes(name)) {
+                    interfaces.push(name);
+                }
+            });
+        }
+
+        return interfaces;
+    }
+
     /**
      * Get all method names.
      *
@@ -353,7 +404,10 @@ export class Class<T=any> {
      * object represents a primitive type, this method returns
      * <code>true</code> if the specified <code>Class</code> parameter is
      * exactly this <code>Class</code> object; otherwise it returns
-     * <code>false</code>.
+     * <code>false</code>. The interfaces recorded with
+     * <code>addInterfaces</code> are matched by the class they resolved to,
+     * its superclasses included, and by name only when they resolved to no
+     * class.
      *
      * @param src The source type.
      * @param dst The destination type.
@@ -361,12 +415,16 @@ export class Class<T=any> {
      * type <code>cls</code> can be assigned to objects of this class
      */
     public static isAssignableFrom(src: Function, dst: Function): boolean {
-        if (src === dst) {
+        if (Class.isSubclass(src, dst)) {
             return true;
         }
         let instance: any = src.prototype;
         for (; instance !== null && instance !== undefined; instance = Object.getPrototypeOf(instance)) {
-            if (instance.constructor === dst) {
+            const types: Map<string, Function> = INTERFACE_TYPES.get(instance.constructor) || new Map<string, Function>();
+            if ((INTERFACES.get(instance.constructor) || []).some((name: string) => {
+                const type: Function | undefined = types.get(name);
+                return type ? Class.isSubclass(type, dst) : name === dst.name;
+            })) {
                 return true;
             }
         }
@@ -419,6 +477,37 @@ export class Class<T=any> {
         }
     }
 
+    /**
+     * Returns the annotation of the specified name of this class,
+     * as attached by <code>Annotations.annotate</code>.
+     *
+     * @param name The annotation name, without <code>@</code>.
+     * @return The {@link Annotation} otherwise undefined
+     */
+    public getAnnotation(name: string): Annotation | undefined {
+        return this.getAnnotations().find((annotation: Annotation) => annotation.name === name);
+    }
+
+    /**
+     * Returns the annotations of this class.
+     *
+     * @return The list of {@link Annotation}
+     */
+    public getAnnotations(): Array<Annotation> {
+        return Annotations.getAnnotations(this.declaringClass);
+    }
+
+    /**
+     * Returns true if an annotation of the specified name is present on
+     * this class.
+     *
+     * @param name The annotation name, without <code>@</code>.
+     * @return true if present
+     */
+    public isAnnotationPresent(name: string): boolean {
+        return this.getAnnotation(name) !== undefined;
+    }
+
     /**
      * Determines if the class or interface represented by this
      * <code>Class</code> object is either the same as, or is a superclass or
@@ -476,6 +565,28 @@ export class Class<T=any> {
         return Class.isInstance(obj, this.declaringClass);
     }
 
+    /**
+     * Return true when a class is the same as, or a subclass of, another
+     * class, the recorded interfaces aside.
+     *
+     * @param src The source type.
+     * @param dst The destination type.
+     * @return True when <code>dst</code> is in the prototype chain of
+     * <code>src</code>
+     */
+    private static isSubclass(src: Function, dst: Function): boolean {
+        if (src === dst) {
+            return true;
+        }
+        let instance: any = src.prototype;
+        for (; instance !== null && instance !== undefined; instance = Object.getPrototypeOf(instance)) {
+            if (instance.constructor === dst) {
+                return true;
+            }
+        }
+
+        return false;
+    }
 }
 
 export default Class;
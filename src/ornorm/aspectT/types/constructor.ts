@@ -1,4 +1,6 @@
 import {
+    Annotation,
+    Annotations,
     ClassDescriptor,
     ConstructorDescriptor,
     Descriptor,
@@ -71,6 +73,37 @@ export class Constructor<T> {
         return this.mReturnType;
     }
 
+    /**
+     * Returns the annotation of the specified name of this constructor,
+     * as attached by <code>Annotations.annotate</code>.
+     *
+     * @param name The annotation name, without <code>@</code>.
+     * @return The {@link Annotation} otherwise undefined
+     */
+    public getAnnotation(name: string): Annotation | undefined {
+        return this.getAnnotations().find((annotation: Annotation) => annotation.name === name);
+    }
+
+    /**
+     * Returns the annotations of this constructor.
+     *
+     * @return The list of {@link Annotation}
+     */
+    public getAnnotations(): Array<Annotation> {
+        return Annotations.getAnnotations(this.declaringClass, 'constructor');
+    }
+
+    /**
+     * Returns true if an annotation of the specified name is present on
+     * this constructor.
+     *
+     * @param name The annotation name, without <code>@</code>.
+     * @return true if present
+     */
+    public isAnnotationPresent(name: string): boolean {
+        return this.getAnnotation(name) !== undefined;
+    }
+
     /**
      * Uses the constructor represented by this <code>Constructor</code> object to
      * create and initialize a new instance of the constructor's
@@ -1,3 +1,5 @@
+import {Annotation} from '@ornorm/aspectT';
+
 /**
  * The base type of descriptors.
  */
@@ -60,6 +62,10 @@ export interface ClassDescriptor {
      * The class prototype.
      */
     factory: PrototypeDescriptor;
+    /**
+     * The annotations captured from the class decorators.
+     */
+    annotations?: Array<Annotation>;
 }
 
 /**
@@ -148,6 +154,10 @@ export interface MemberDescriptor {
      * The member type.
      */
     type: string;
+    /**
+     * The annotations captured from the member decorators.
+     */
+    annotations?: Array<Annotation>;
 }
 
 /**
@@ -220,6 +230,10 @@ export interface MethodDescriptor {
      * Typeof return.
      */
     returnType: string;
+    /**
+     * The annotations captured from the method decorators.
+     */
+    annotations?: Array<Annotation>;
 }
 
 /**
@@ -1,5 +1,5 @@
 import {
-    MemberDescriptor, Modifier, Primitive
+    Annotation, Annotations, MemberDescriptor, Modifier, Primitive
 } from '@ornorm/aspectT';
 
 /**
@@ -8,6 +8,7 @@ import {
  * be a class (static) field or an instance field.
  */
 export class Field {
+    private readonly mAnnotations: Array<Annotation> | undefined;
     private readonly mDeclaringClass: Function;
     private readonly mIsGetter: boolean;
     private readonly mIsProperty: boolean;
@@ -29,6 +30,7 @@ export class Field {
         descriptor: MemberDescriptor,
         isStatic: boolean = false
     ) {
+        this.mAnnotations = descriptor.annotations;
         this.mDeclaringClass = declaringClass;
         this.mIsGetter = descriptor.isGetter;
         this.mModifiers = descriptor.modifiers;
@@ -39,6 +41,14 @@ export class Field {
         this.mType = descriptor.type;
     }
 
+    /**
+     * The annotations captured from the decorators of this field, if
+     * described.
+     */
+    public get annotations(): Array<Annotation> | undefined {
+        return this.mAnnotations;
+    }
+
     /**
      * Returns the <code>Class</code> object representing the class or interface
      * that declares the method represented by this <code>Method</code> object.
@@ -128,6 +138,41 @@ export class Field {
         return this.mType;
     }
 
+    /**
+     * Returns the annotation of the specified name of this field,
+     * as attached by <code>Annotations.annotate</code>.
+     *
+     * @param name The annotation name, without <code>@</code>.
+     * @return The {@link Annotation} otherwise undefined
+     */
+    public getAnnotation(name: string): Annotation | undefined {
+        return this.getAnnotations().find((annotation: Annotation) => annotation.name === name);
+    }
+
+    /**
+     * Returns the annotations of this field, captured from its decorators or
+     * attached by <code>Annotations.annotate</code>.
+     *
+     * @return The list of {@link Annotation}
+     */
+    public getAnnotations(): Array<Annotation> {
+        return Annotations.merge(
+            this.mAnnotations || [],
+            Annotations.getAnnotations(this.isStatic ? this.declaringClass : this.declaringClass.prototype, this.name)
+        );
+    }
+
+    /**
+     * Returns true if an annotation of the specified name is present on
+     * this field.
+     *
+     * @param name The annotation name, without <code>@</code>.
+     * @return true if present
+     */
+    public isAnnotationPresent(name: string): boolean {
+        return this.getAnnotation(name) !== undefined;
+    }
+
     /**
      * Returns the value of the field represented by this <code>Field</code>, on
      * the specified object. The value is automatically wrapped in an
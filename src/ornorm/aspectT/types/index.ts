@@ -1,3 +1,4 @@
+export * from './annotation';
 export * from './class';
 export * from './constructor';
 export * from './descriptor';
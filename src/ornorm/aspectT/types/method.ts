@@ -1,5 +1,5 @@
 import {
-    MethodDescriptor, Parameter, ParameterDescriptor
+    Annotation, Annotations, MethodDescriptor, Parameter, ParameterDescriptor
 } from '@ornorm/aspectT';
 
 /**
@@ -8,6 +8,7 @@ import {
 export class Method {
     private readonly mIsAbstract: boolean;
     private readonly mIsAsync: boolean;
+    private readonly mAnnotations: Array<Annotation> | undefined;
     private readonly mDeclaringClass: Function;
     private readonly mIsGenerator: boolean;
     private readonly mIsImplementation: boolean;
@@ -28,6 +29,7 @@ export class Method {
         declaringClass: Function,
         descriptor: MethodDescriptor
     ) {
+        this.mAnnotations = descriptor.annotations;
         this.mDeclaringClass = declaringClass;
         this.mIsAbstract = descriptor.isAbstract;
         this.mIsAsync = descriptor.isAsync;
@@ -43,6 +45,14 @@ export class Method {
         this.mReturnType = descriptor.returnType;
     }
 
+    /**
+     * The annotations captured from the decorators of this method, if
+     * described.
+     */
+    public get annotations(): Array<Annotation> | undefined {
+        return this.mAnnotations;
+    }
+
     /**
      * Returns the <code>Class</code> object representing the class or interface
      * that declares the method represented by this <code>Method</code> object.
@@ -128,6 +138,41 @@ export class Method {
         return this.mReturnType;
     }
 
+    /**
+     * Returns the annotation of the specified name of this method,
+     * as attached by <code>Annotations.annotate</code>.
+     *
+     * @param name The annotation name, without <code>@</code>.
+     * @return The {@link Annotation} otherwise undefined
+     */
+    public getAnnotation(name: string): Annotation | undefined {
+        return this.getAnnotations().find((annotation: Annotation) => annotation.name === name);
+    }
+
+    /**
+     * Returns the annotations of this method, captured from its decorators or
+     * attached by <code>Annotations.annotate</code>.
+     *
+     * @return The list of {@link Annotation}
+     */
+    public getAnnotations(): Array<Annotation> {
+        return Annotations.merge(
+            this.mAnnotations || [],
+            Annotations.getAnnotations(this.isStatic ? this.declaringClass : this.declaringClass.prototype, this.name)
+        );
+    }
+
+    /**
+     * Returns true if an annotation of the specified name is present on
+     * this method.
+     *
+     * @param name The annotation name, without <code>@</code>.
+     * @return true if present
+     */
+    public isAnnotationPresent(name: string): boolean {
+        return this.getAnnotation(name) !== undefined;
+    }
+
     /**
      * Invokes the underlying method represented by this <code>Method</code>
      * object, on the specified object with the specified parameters.
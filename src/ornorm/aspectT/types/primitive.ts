@@ -1,6 +1,6 @@
 const PRIMITIVE_REG: RegExp = new RegExp(
-    '^(bigint|BigInt|boolean|Boolean|number|Number|string|String|symbol|Symbol)$',
-    'g');
+    '^(bigint|BigInt|boolean|Boolean|number|Number|string|String|symbol|Symbol)$'
+);
 
 /**
  * Utility class for primitive?
@@ -0,0 +1,500 @@
+import {
+    Formal,
+    Log,
+    Method,
+    MethodDescriptor,
+    ParameterDescriptor,
+    TypePattern
+} from '@ornorm/aspectT';
+import {AdviceMatcher, AspectAdvice, AspectCompiler, AspectDescriptor, ShadowMunger} from './aspect';
+import {AspectInstances} from './aspect-instances';
+import {ControlFlow, ControlFlowFrame} from './control-flow';
+import {
+    AdviceSignature,
+    JoinPoint,
+    ProceedingJoinPoint,
+    SourceLocation,
+    StaticPart,
+    UNKNOWN_LOCATION
+} from './join-point';
+import {PatternMatcher} from './pattern-matcher';
+import {JoinPointKind, Shadow} from './shadow';
+import {SoftException} from './soft-exception';
+
+const TAG: string = 'AdviceChain';
+
+const MATCHERS: WeakMap<Function, Array<AdviceMatcher>> = new WeakMap<Function, Array<AdviceMatcher>>();
+
+const REENTERED: WeakSet<ShadowMunger> = new WeakSet<ShadowMunger>();
+
+/**
+ * The advice woven into a method, run in order around the original
+ * method. Advice on the `call` join point run around advice on the
+ * `execution` join point. Both join points are tracked by the
+ * {@link ControlFlow} while in progress.
+ */
+export class AdviceChain {
+    private readonly mClassName: string;
+    private readonly mMethod: Method;
+    private readonly mResolve: () => Array<AdviceMatcher>;
+    private readonly mShadows: Array<Shadow>;
+    private readonly mStaticParts: Map<JoinPointKind, StaticPart>;
+    private readonly mSourceLocation: SourceLocation;
+    private mExecutionIndex: number = 0;
+    private mMatchers: Array<AdviceMatcher> | undefined;
+    private mMungers: Array<ShadowMunger> | undefined;
+
+    /**
+     * Create a chain.
+     *
+     * @param className - The name of the declaring class.
+     * @param method - The woven {@link Method}.
+     * @param matchers - Compute the list of {@link AdviceMatcher} of the
+     * woven aspects, called once on first use.
+     * @param sourceLocation - The {@link SourceLocation} of the method.
+     */
+    constructor(
+        className: string,
+        method: Method,
+        matchers: () => Array<AdviceMatcher>,
+        sourceLocation: SourceLocation = UNKNOWN_LOCATION
+    ) {
+        this.mClassName = className;
+        this.mMethod = method;
+        this.mResolve = matchers;
+        this.mSourceLocation = sourceLocation;
+        this.mShadows = AdviceChain.createShadows(className, method);
+        this.mStaticParts = new Map<JoinPointKind, StaticPart>();
+    }
+
+    /**
+     * The name of the declaring class.
+     */
+    public get className(): string {
+        return this.mClassName;
+    }
+
+    /**
+     * The woven {@link Method}.
+     */
+    public get method(): Method {
+        return this.mMethod;
+    }
+
+    /**
+     * The list of {@link AdviceMatcher} of the woven aspects.
+     */
+    public get matchers(): Array<AdviceMatcher> {
+        if (!this.mMatchers) {
+            this.mMatchers = this.mResolve();
+        }
+        return this.mMatchers;
+    }
+
+    /**
+     * The list of {@link ShadowMunger}, outermost first.
+     */
+    public get mungers(): Array<ShadowMunger> {
+        if (!this.mMungers) {
+            const mungers: Array<ShadowMunger> = AspectCompiler.match(this.matchers, this.mShadows);
+            const index: number = mungers.findIndex((munger: ShadowMunger) => munger.shadow.kind !== 'method-call');
+            this.mExecutionIndex = index < 0 ? mungers.length : index;
+            this.mMungers = mungers;
+        }
+        return this.mMungers;
+    }
+
+    /**
+     * The {@link SourceLocation} of the method.
+     */
+    public get sourceLocation(): SourceLocation {
+        return this.mSourceLocation;
+    }
+
+    /**
+     * Create the `call` and `execution` shadows of a method.
+     *
+     * @param className - The declaring class name.
+     * @param method - The method descriptor.
+     * @returns The shadows, outermost first
+     */
+    public static createShadows(className: string, method: MethodDescriptor): Array<Shadow> {
+        return (['method-call', 'method-execution'] as Array<JoinPointKind>)
+            .map((kind: JoinPointKind) => AdviceChain.createShadow(kind, className, method));
+    }
+
+    /**
+     * Create the {@link Shadow} of a method. The calling code is unknown
+     * to a chain, so `within` and `withincode` never match a `call`
+     * shadow. The annotations captured by the descriptor are kept.
+     *
+     * @param kind - The join point kind.
+     * @param className - The declaring class name.
+     * @param method - The method descriptor.
+     * @returns The shadow
+     */
+    public static createShadow(kind: JoinPointKind, className: string, method: MethodDescriptor): Shadow {
+        const modifiers: Array<string> = [...method.modifiers];
+        if (method.isStatic && !modifiers.includes('static')) {
+            modifiers.push('static');
+        }
+        if (method.isAsync && !modifiers.includes('async')) {
+            modifiers.push('async');
+        }
+        const shadow: Shadow = {
+            kind,
+            declaringType: className,
+            modifiers,
+            name: method.name,
+            returnType: method.returnType,
+            parameterTypes: method.parameters.map((parameter: ParameterDescriptor) => parameter.type),
+            exceptionTypes: [],
+            withinType: kind === 'method-call' ? '' : className
+        };
+        if (method.annotations) {
+            shadow.annotations = method.annotations;
+        }
+        return shadow;
+    }
+
+    /**
+     * Create a chain matching the aspects on first use, the form used by
+     * compile-time weaving where the aspects may not be initialized yet
+     * when the woven module loads.
+     *
+     * @param declaringClass - The declaring class.
+     * @param className - The name of the declaring class.
+     * @param descriptor - The {@link MethodDescriptor}.
+     * @param aspects - Return the list of {@link AspectDescriptor} by
+     * decreasing precedence, unless ordered by a `declare precedence`.
+     * @param sourceLocation - The {@link SourceLocation} of the method.
+     * @returns The chain
+     */
+    public static lazy(
+        declaringClass: Function,
+        className: string,
+        descriptor: MethodDescriptor,
+        aspects: () => Array<AspectDescriptor>,
+        sourceLocation?: SourceLocation
+    ): AdviceChain {
+        const method: Method = new Method(declaringClass, descriptor);
+        return new AdviceChain(className, method, () => AdviceChain.getMatchers(aspects), sourceLocation);
+    }
+
+    /**
+     * Return the matchers of the aspects of compile-time woven members,
+     * computed once per list of aspects.
+     *
+     * @param aspects - Return the list of {@link AspectDescriptor}.
+     * @returns The list of {@link AdviceMatcher}
+     */
+    public static getMatchers(aspects: () => Array<AspectDescriptor>): Array<AdviceMatcher> {
+        let matchers: Array<AdviceMatcher> | undefined = MATCHERS.get(aspects);
+        if (!matchers) {
+            matchers = AspectCompiler.getMatchers(aspects());
+            AspectInstances.register(matchers);
+            MATCHERS.set(aspects, matchers);
+        }
+        return matchers;
+    }
+
+    /**
+     * Run the advice and the original method.
+     *
+     * @param original - The original method.
+     * @param receiver - The object the method is called on.
+     * @param args - The arguments.
+     * @returns The result of the method
+     */
+    public invoke(original: Function, receiver: any, args: Array<any>): any {
+        return this.enter('method-call', receiver, args, () => this.proceed(0, original, receiver, args));
+    }
+
+    /**
+     * Run an advice around the rest of the chain. The join points of an
+     * async method, or of a method returning a thenable, e.g. an `async`
+     * method compiled to ES6, return once the promise is settled: after
+     * returning advice see the resolved value, after throwing advice the
+     * rejection.
+     * The advice is skipped when no aspect instance applies. A
+     * `declare soft` wraps the softened errors in a {@link SoftException}.
+     * The formals bound by `args` receive the arguments of the join point.
+     *
+     * The advice body runs as an `adviceexecution()` join point tracked by
+     * the {@link ControlFlow}. An advice is skipped when it is already
+     * running in the control flow for the same shadow, so an advice
+     * reaching its own join points, e.g. by logging through advised code,
+     * does not recurse, the first reentry of each woven advice is logged.
+     * The other advice of the aspect still run. The join point proceeded
+     * from an advice is not part of its control flow.
+     *
+     * @param munger - The {@link ShadowMunger}.
+     * @param joinPoint - The {@link ProceedingJoinPoint}.
+     * @param isAsync - True when the woven method is async.
+     * @returns The result of the join point
+     */
+    public static runAdvice(munger: ShadowMunger, joinPoint: ProceedingJoinPoint, isAsync: boolean): any {
+        const {advice}: ShadowMunger = munger;
+        if (advice.soft) {
+            const soft: TypePattern = advice.soft;
+            const soften: (e: any) => never = (e: any): never => {
+                throw SoftException.isSoftened(soft, e) ? new SoftException(e) : e;
+            };
+            return AdviceChain.settle(munger, joinPoint, isAsync, undefined, soften);
+        }
+        const aspectInstance: any = AspectInstances.getInstance(
+            advice.aspect, munger.perClause, munger.shadow, joinPoint
+        );
+        if (aspectInstance === undefined || AdviceChain.isReentered(munger, joinPoint)) {
+            return joinPoint.proceed();
+        }
+        const body: Function = Reflect.get(aspectInstance, advice.name);
+        const {declaration} = advice;
+        const formals: Array<any> = munger.matcher.bindFormals(
+            declaration.pointcut, joinPoint, declaration.formals, munger.shadow
+        );
+        const advise: (...extra: Array<any>) => any = (...extra: Array<any>): any => {
+            const adviceArgs: Array<any> = [...formals, ...extra, joinPoint];
+            const adviceJoinPoint: JoinPoint = new JoinPoint(
+                AdviceChain.getStaticPart(advice), aspectInstance, aspectInstance, adviceArgs
+            );
+            return ControlFlow.run(AdviceChain.createAdviceShadow(advice), adviceJoinPoint, () => JoinPoint.advise(
+                joinPoint, () => Reflect.apply(body, aspectInstance, adviceArgs)
+            ), joinPoint, munger.shadow);
+        };
+        const returning: (result: any) => any = (result: any): any => {
+            if (!declaration.extraFormal) {
+                advise();
+            } else if (PatternMatcher.matchInstance(declaration.extraFormal.type, result)) {
+                advise(result);
+            }
+            return result;
+        };
+        const throwing: (e: any) => never = (e: any): never => {
+            if (!declaration.extraFormal) {
+                advise();
+            } else if (PatternMatcher.matchInstance(declaration.extraFormal.type, e)) {
+                advise(e);
+            }
+            throw e;
+        };
+        switch (declaration.adviceKind) {
+            case 'before':
+                advise();
+                return joinPoint.proceed();
+            case 'after':
+                return AdviceChain.settle(
+                    munger,
+                    joinPoint,
+                    isAsync,
+                    (result: any) => {
+                        advise();
+                        return result;
+                    },
+                    (e: any) => {
+                        advise();
+                        throw e;
+                    }
+                );
+            case 'after-returning':
+                return AdviceChain.settle(munger, joinPoint, isAsync, returning);
+            case 'after-throwing':
+                return AdviceChain.settle(munger, joinPoint, isAsync, undefined, throwing);
+            default:
+                return advise();
+        }
+    }
+
+    /**
+     * Create the `adviceexecution()` {@link Shadow} of an advice, declared
+     * and defined by its aspect.
+     *
+     * @param advice - The {@link AspectAdvice}.
+     * @returns The shadow
+     */
+    public static createAdviceShadow(advice: AspectAdvice): Shadow {
+        const {declaration} = advice;
+        const formals: Array<Formal> = declaration.extraFormal ?
+            [...declaration.formals, declaration.extraFormal] : declaration.formals;
+        const parameterTypes: Array<string> = formals.map((formal: Formal) =>
+            formal.type.pattern + '[]'.repeat(formal.type.dimensions)
+        );
+        return {
+            kind: 'advice-execution',
+            declaringType: advice.aspect.name,
+            modifiers: [],
+            name: advice.name,
+            returnType: declaration.adviceKind === 'around' ? 'any' : 'void',
+            parameterTypes: [...parameterTypes, 'JoinPoint'],
+            exceptionTypes: [],
+            withinType: advice.aspect.name
+        };
+    }
+
+    /**
+     * Return the {@link StaticPart} of the `adviceexecution()` join point of
+     * an advice.
+     *
+     * @param advice - The {@link AspectAdvice}.
+     * @returns The static part
+     */
+    private static getStaticPart(advice: AspectAdvice): StaticPart {
+        return new StaticPart(
+            'advice-execution', new AdviceSignature(advice.aspect.type, advice.name, advice.declaration.adviceKind)
+        );
+    }
+
+    /**
+     * Return whether the advice of a munger is running in the control flow
+     * for the same shadow, the first reentry of each woven advice is
+     * logged.
+     *
+     * @param munger - The {@link ShadowMunger} to run.
+     * @param joinPoint - The advised {@link JoinPoint}.
+     * @returns True when the advice must be skipped
+     */
+    private static isReentered(munger: ShadowMunger, joinPoint: JoinPoint): boolean {
+        const {advice}: ShadowMunger = munger;
+        for (let frame: ControlFlowFrame | undefined = ControlFlow.current; frame; frame = frame.parent) {
+            if (frame.shadow.kind === 'advice-execution' &&
+                frame.shadow.declaringType === advice.aspect.name &&
+                frame.shadow.name === advice.name &&
+                frame.advisedShadow === munger.shadow) {
+                if (!REENTERED.has(munger)) {
+                    REENTERED.add(munger);
+                    Log.w(TAG, 'Advice {0}.{1} reentered by {2}, the advice is skipped',
+                        advice.aspect.name, advice.name, joinPoint.toString());
+                }
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Proceed with a join point and handle its result or its error once
+     * settled. An async join point returns a promise, a synchronous throw
+     * becomes a rejection. A method join point returning a thenable is
+     * settled as well, the other join points are handled synchronously.
+     *
+     * @param munger - The {@link ShadowMunger}.
+     * @param joinPoint - The {@link ProceedingJoinPoint}.
+     * @param isAsync - True when the woven method is async.
+     * @param onResult - The handler of the result, the result is returned
+     * when undefined.
+     * @param onError - The handler of the error, the error is thrown when
+     * undefined.
+     * @returns The result of the join point, or its promise
+     */
+    private static settle(
+        munger: ShadowMunger,
+        joinPoint: ProceedingJoinPoint,
+        isAsync: boolean,
+        onResult?: (result: any) => any,
+        onError?: (e: any) => any
+    ): any {
+        if (isAsync) {
+            return new Promise<any>((resolve: (value: any) => void) => resolve(joinPoint.proceed()))
+                .then(onResult, onError);
+        }
+        let result: any;
+        try {
+            result = joinPoint.proceed();
+        } catch (e) {
+            if (onError) {
+                return onError(e);
+            }
+            throw e;
+        }
+        const {kind}: Shadow = munger.shadow;
+        const isThenable: boolean = result !== null && result !== undefined && typeof result.then === 'function';
+        if ((kind === 'method-call' || kind === 'method-execution') && isThenable) {
+            return Promise.resolve(result).then(onResult, onError);
+        }
+        return onResult ? onResult(result) : result;
+    }
+
+    /**
+     * Run a join point of the method within the {@link ControlFlow}, the
+     * aspect instances of its per clauses bound.
+     *
+     * @param kind - The join point kind.
+     * @param receiver - The object the method is called on.
+     * @param args - The arguments.
+     * @param body - The advice and the code of the join point.
+     * @returns The result of the join point
+     */
+    private enter(kind: JoinPointKind, receiver: any, args: Array<any>, body: () => any): any {
+        const shadow: Shadow = this.mShadows.find((s: Shadow) => s.kind === kind)!;
+        const target: any = this.mMethod.isStatic ? undefined : receiver;
+        const joinPoint: JoinPoint = new JoinPoint(
+            this.getStaticPart(kind), kind === 'method-call' ? undefined : target, target, args
+        );
+        return ControlFlow.run(shadow, joinPoint, () => {
+            AspectInstances.bind(this.matchers, ControlFlow.current!);
+            return body();
+        });
+    }
+
+    /**
+     * Return the {@link StaticPart} of a join point of the method.
+     *
+     * @param kind - The join point kind.
+     * @returns The static part
+     */
+    private getStaticPart(kind: JoinPointKind): StaticPart {
+        let staticPart: StaticPart | undefined = this.mStaticParts.get(kind);
+        if (!staticPart) {
+            staticPart = new StaticPart(kind, this.mMethod, this.mSourceLocation);
+            this.mStaticParts.set(kind, staticPart);
+        }
+        return staticPart;
+    }
+
+    /**
+     * Run the chain from the specified index.
+     *
+     * @param index - The index of the next advice.
+     * @param original - The original method.
+     * @param receiver - The object the method is called on.
+     * @param args - The arguments.
+     * @param isExecuting - True once the `execution` join point is entered.
+     * @returns The result of the method
+     */
+    private proceed(
+        index: number,
+        original: Function,
+        receiver: any,
+        args: Array<any>,
+        isExecuting: boolean = false
+    ): any {
+        const mungers: Array<ShadowMunger> = this.mungers;
+        if (index === this.mExecutionIndex && !isExecuting) {
+            return this.enter('method-execution', receiver, args, () =>
+                this.proceed(index, original, receiver, args, true)
+            );
+        }
+        if (index === mungers.length) {
+            return JoinPoint.execute(
+                this.getStaticPart('method-execution'), () => Reflect.apply(original, receiver, args)
+            );
+        }
+        const munger: ShadowMunger = mungers[index];
+        const target: any = this.mMethod.isStatic ? undefined : receiver;
+        const joinPoint: ProceedingJoinPoint = new ProceedingJoinPoint(
+            this.getStaticPart(munger.shadow.kind),
+            munger.shadow.kind === 'method-call' ? undefined : target,
+            target,
+            args,
+            (proceedArgs: Array<any>) => this.proceed(index + 1, original, receiver, proceedArgs, isExecuting)
+        );
+        if (munger.isDynamic && munger.matcher.match(
+            munger.advice.declaration.pointcut, munger.shadow, joinPoint, munger.advice.declaration.formals
+        ) !== 'yes') {
+            return joinPoint.proceed();
+        }
+        return AdviceChain.runAdvice(munger, joinPoint, this.mMethod.isAsync);
+    }
+}
+
+export default AdviceChain;
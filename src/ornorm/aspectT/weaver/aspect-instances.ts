@@ -0,0 +1,246 @@
+import {PerClause, TypePerClause} from '@ornorm/aspectT';
+import {AdviceMatcher, AspectDescriptor} from './aspect';
+import {ControlFlow, ControlFlowFrame} from './control-flow';
+import {JoinPoint} from './join-point';
+import {PatternMatcher} from './pattern-matcher';
+import {Shadow} from './shadow';
+
+const PER_CLAUSES: WeakMap<Function, PerClause> = new WeakMap<Function, PerClause>();
+
+const SINGLETONS: Map<Function, any> = new Map<Function, any>();
+
+const PER_OBJECT: Map<Function, WeakMap<object, any>> = new Map<Function, WeakMap<object, any>>();
+
+const PER_TYPE: Map<Function, Map<string, any>> = new Map<Function, Map<string, any>>();
+
+/**
+ * Return the aspect instance that applies.
+ *
+ * @param aspectClass - The aspect class.
+ * @param obj - The bound object of a `perthis` or `pertarget` aspect, the
+ * class of a `pertypewithin` aspect.
+ * @returns The aspect instance
+ * @throws Error when no instance is bound.
+ */
+export function aspectOf<T>(aspectClass: new () => T, obj?: any): T {
+    const instance: T | undefined = AspectInstances.find(aspectClass, obj);
+    if (instance === undefined) {
+        throw new Error(`NoAspectBoundException ${aspectClass.name}`);
+    }
+    return instance;
+}
+
+/**
+ * Return true when an aspect instance applies.
+ *
+ * @param aspectClass - The aspect class.
+ * @param obj - The bound object of a `perthis` or `pertarget` aspect, the
+ * class of a `pertypewithin` aspect.
+ * @returns True when bound
+ */
+export function hasAspect(aspectClass: Function, obj?: any): boolean {
+    return AspectInstances.find(aspectClass, obj) !== undefined;
+}
+
+/**
+ * Hold the aspect instances by instantiation model:
+ *
+ * - `issingleton()`, the default, one instance;
+ * - `perthis(Pointcut)` and `pertarget(Pointcut)`, one instance per
+ * object bound at the join points of the pointcut;
+ * - `percflow(Pointcut)` and `percflowbelow(Pointcut)`, one instance per
+ * control flow entered at the join points of the pointcut;
+ * - `pertypewithin(TypePattern)`, one instance per matching type.
+ */
+export class AspectInstances {
+    /**
+     * Register the instantiation model of the aspects of matchers.
+     *
+     * @param matchers - The list of {@link AdviceMatcher}.
+     */
+    public static register(matchers: Array<AdviceMatcher>): void {
+        matchers.forEach(({advice, perClause}: AdviceMatcher) => {
+            if (perClause) {
+                PER_CLAUSES.set(advice.aspect.type, perClause);
+            } else {
+                PER_CLAUSES.delete(advice.aspect.type);
+            }
+        });
+    }
+
+    /**
+     * Bind the aspect instances of a join point entering the
+     * {@link ControlFlow}.
+     *
+     * @param matchers - The list of {@link AdviceMatcher}.
+     * @param frame - The {@link ControlFlowFrame} of the join point.
+     */
+    public static bind(matchers: Array<AdviceMatcher>, frame: ControlFlowFrame): void {
+        const bound: Set<Function> = new Set<Function>();
+        matchers.forEach(({advice, matcher, perClause}: AdviceMatcher) => {
+            const type: Function = advice.aspect.type;
+            if (!perClause || perClause.kind === 'issingleton' || perClause.kind === 'pertypewithin' ||
+                bound.has(type)) {
+                return;
+            }
+            bound.add(type);
+            if (matcher.match(perClause.pointcut, frame.shadow, frame.joinPoint) !== 'yes') {
+                return;
+            }
+            if (perClause.kind === 'percflow' || perClause.kind === 'percflowbelow') {
+                frame.aspects.set(type, Reflect.construct(type, []));
+                return;
+            }
+            const obj: any = perClause.kind === 'perthis' ? frame.joinPoint.thisObject : frame.joinPoint.target;
+            if (AspectInstances.isObject(obj)) {
+                let instances: WeakMap<object, any> | undefined = PER_OBJECT.get(type);
+                if (!instances) {
+                    instances = new WeakMap<object, any>();
+                    PER_OBJECT.set(type, instances);
+                }
+                if (!instances.has(obj)) {
+                    instances.set(obj, Reflect.construct(type, []));
+                }
+            }
+        });
+    }
+
+    /**
+     * Return the aspect instance running an advice at a join point.
+     *
+     * @param aspect - The {@link AspectDescriptor}.
+     * @param perClause - The instantiation model, if any.
+     * @param shadow - The {@link Shadow} of the join point.
+     * @param joinPoint - The {@link JoinPoint}.
+     * @returns The aspect instance, undefined when the advice does not
+     * apply
+     */
+    public static getInstance(
+        aspect: AspectDescriptor,
+        perClause: PerClause | undefined,
+        shadow: Shadow,
+        joinPoint: JoinPoint
+    ): any {
+        const type: Function = aspect.type;
+        switch (perClause ? perClause.kind : 'issingleton') {
+            case 'perthis':
+                return AspectInstances.findPerObject(type, joinPoint.thisObject);
+            case 'pertarget':
+                return AspectInstances.findPerObject(type, joinPoint.target);
+            case 'percflow':
+                return AspectInstances.findInControlFlow(type, ControlFlow.current);
+            case 'percflowbelow': {
+                const frame: ControlFlowFrame | undefined = ControlFlow.current;
+                return AspectInstances.findInControlFlow(type, frame && frame.parent);
+            }
+            case 'pertypewithin':
+                return AspectInstances.getPerType(type, shadow.withinType);
+            default:
+                return AspectInstances.getSingleton(type);
+        }
+    }
+
+    /**
+     * Return the aspect instance that applies.
+     *
+     * @param type - The aspect class.
+     * @param obj - The bound object or class, if any.
+     * @returns The aspect instance, undefined when none is bound
+     */
+    public static find(type: Function, obj?: any): any {
+        const perClause: PerClause | undefined = PER_CLAUSES.get(type);
+        switch (perClause ? perClause.kind : 'issingleton') {
+            case 'perthis':
+            case 'pertarget':
+                return AspectInstances.findPerObject(type, obj);
+            case 'percflow':
+            case 'percflowbelow':
+                return AspectInstances.findInControlFlow(type, ControlFlow.current);
+            case 'pertypewithin': {
+                const {pattern}: TypePerClause = perClause as TypePerClause;
+                if (typeof obj !== 'function' || !PatternMatcher.matchType(pattern, obj.name)) {
+                    return undefined;
+                }
+                return AspectInstances.getPerType(type, obj.name);
+            }
+            default:
+                return AspectInstances.getSingleton(type);
+        }
+    }
+
+    /**
+     * Return the innermost aspect instance bound to a control flow.
+     *
+     * @param type - The aspect class.
+     * @param frame - The innermost {@link ControlFlowFrame} to look at.
+     * @returns The aspect instance, undefined when none is bound
+     */
+    private static findInControlFlow(type: Function, frame: ControlFlowFrame | undefined): any {
+        for (; frame; frame = frame.parent) {
+            if (frame.aspects.has(type)) {
+                return frame.aspects.get(type);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Return the aspect instance bound to an object.
+     *
+     * @param type - The aspect class.
+     * @param obj - The object.
+     * @returns The aspect instance, undefined when none is bound
+     */
+    private static findPerObject(type: Function, obj: any): any {
+        const instances: WeakMap<object, any> | undefined = PER_OBJECT.get(type);
+        return instances && AspectInstances.isObject(obj) ? instances.get(obj) : undefined;
+    }
+
+    /**
+     * Return the aspect instance of a type, created on first use.
+     *
+     * @param type - The aspect class.
+     * @param typeName - The name of the type.
+     * @returns The aspect instance
+     */
+    private static getPerType(type: Function, typeName: string): any {
+        let instances: Map<string, any> | undefined = PER_TYPE.get(type);
+        if (!instances) {
+            instances = new Map<string, any>();
+            PER_TYPE.set(type, instances);
+        }
+        let instance: any = instances.get(typeName);
+        if (!instance) {
+            instance = Reflect.construct(type, []);
+            instances.set(typeName, instance);
+        }
+        return instance;
+    }
+
+    /**
+     * Return the singleton instance of an aspect, created on first use.
+     *
+     * @param type - The aspect class.
+     * @returns The aspect instance
+     */
+    private static getSingleton(type: Function): any {
+        let instance: any = SINGLETONS.get(type);
+        if (!instance) {
+            instance = Reflect.construct(type, []);
+            SINGLETONS.set(type, instance);
+        }
+        return instance;
+    }
+
+    /**
+     * Return true for the values a WeakMap accepts as keys.
+     *
+     * @param value - The value.
+     * @returns True for objects and functions
+     */
+    private static isObject(value: any): value is object {
+        return (typeof value === 'object' && value !== null) || typeof value === 'function';
+    }
+}
+
+export default AspectInstances;
@@ -0,0 +1,234 @@
+import {PointcutParser} from '@ornorm/aspectT';
+import {AdviceDescriptor, AspectCompiler, AspectDescriptor, PointcutDescriptor} from './aspect';
+
+/**
+ * The pointcuts and advice declared on the methods of a class, waiting
+ * for its `@Aspect` decorator.
+ */
+interface AspectMembers {
+    pointcuts: Array<PointcutDescriptor>;
+    advices: Array<AdviceDescriptor>;
+}
+
+const MEMBERS: WeakMap<object, AspectMembers> = new WeakMap<object, AspectMembers>();
+
+const ASPECTS: Map<string, AspectDescriptor> = new Map<string, AspectDescriptor>();
+
+/**
+ * Return the pointcuts and advice declared on the methods of a class.
+ *
+ * @param target - The prototype of the class.
+ * @param propertyKey - The decorated method.
+ * @returns The {@link AspectMembers}
+ * @throws TypeError when the method is static.
+ */
+function getMembers(target: object, propertyKey: string | symbol): AspectMembers {
+    if (typeof target === 'function') {
+        throw new TypeError(
+            `IllegalArgumentException static ${target.name}.${String(propertyKey)} cannot be an advice or a pointcut`
+        );
+    }
+    let members: AspectMembers | undefined = MEMBERS.get(target);
+    if (!members) {
+        members = {pointcuts: [], advices: []};
+        MEMBERS.set(target, members);
+    }
+    return members;
+}
+
+/**
+ * Declare a class as an aspect and register it with its pointcuts and
+ * advice in the {@link AspectRegistry}.
+ *
+ * @param perClause - The instantiation model, e.g.
+ * `perthis(execution(* Account.*(..)))`, `issingleton()` by default.
+ * @returns The class decorator
+ * @throws PointcutSyntaxError when the instantiation model or an `if()`
+ * expression of the aspect is not valid.
+ *
+ * @example
+ * @Aspect()
+ * class Auditing {
+ *     @Before('execution(* Account.deposit(..))')
+ *     logBefore(jp: JoinPoint): void {}
+ * }
+ */
+export function Aspect(perClause?: string): ClassDecorator {
+    if (perClause) {
+        PointcutParser.parsePerClause(perClause);
+    }
+    return (target: Function): void => {
+        AspectRegistry.register(target, perClause);
+    };
+}
+
+/**
+ * Declare a named pointcut, referred to by the advice of the aspect with
+ * the method name, e.g. `operation()`. Without expression the pointcut is
+ * abstract, its aspect is abstract and its concrete sub aspects must
+ * declare the pointcut.
+ *
+ * @param pointcut - The pointcut expression, empty for an abstract
+ * pointcut.
+ * @param formals - The formals, e.g. `int amount`.
+ * @returns The method decorator
+ * @throws PointcutSyntaxError when the pointcut or the formals are not
+ * valid.
+ */
+export function Pointcut(pointcut: string = '', formals: string = ''): MethodDecorator {
+    if (pointcut) {
+        PointcutParser.parse(pointcut);
+    }
+    PointcutParser.parseFormals(formals);
+    return (target: object, propertyKey: string | symbol): void => {
+        const descriptor: PointcutDescriptor = {name: String(propertyKey), formals, pointcut};
+        if (!pointcut) {
+            descriptor.isAbstract = true;
+        }
+        getMembers(target, propertyKey).pointcuts.push(descriptor);
+    };
+}
+
+/**
+ * Declare an advice from its declaration.
+ *
+ * @param advice - The advice declaration, e.g.
+ * `after() returning (int balance) : call(* Account.deposit(..))`.
+ * @returns The method decorator
+ * @throws PointcutSyntaxError when the declaration is not valid.
+ */
+export function Advice(advice: string): MethodDecorator {
+    PointcutParser.parseAdvice(advice);
+    return (target: object, propertyKey: string | symbol): void => {
+        getMembers(target, propertyKey).advices.push({name: String(propertyKey), advice});
+    };
+}
+
+/**
+ * Declare a `before` advice.
+ *
+ * @param pointcut - The pointcut expression.
+ * @param formals - The formals bound by the pointcut, e.g. `int amount`.
+ * @returns The method decorator
+ * @throws PointcutSyntaxError when the pointcut or the formals are not
+ * valid.
+ */
+export function Before(pointcut: string, formals: string = ''): MethodDecorator {
+    return Advice(AspectRegistry.toAdvice('before', pointcut, formals));
+}
+
+/**
+ * Declare an `after` advice, run however the join point exits.
+ *
+ * @param pointcut - The pointcut expression.
+ * @param formals - The formals bound by the pointcut, e.g. `int amount`.
+ * @returns The method decorator
+ * @throws PointcutSyntaxError when the pointcut or the formals are not
+ * valid.
+ */
+export function After(pointcut: string, formals: string = ''): MethodDecorator {
+    return Advice(AspectRegistry.toAdvice('after', pointcut, formals));
+}
+
+/**
+ * Declare an `around` advice returning `Object`.
+ *
+ * @param pointcut - The pointcut expression.
+ * @param formals - The formals bound by the pointcut, e.g. `int amount`.
+ * @returns The method decorator
+ * @throws PointcutSyntaxError when the pointcut or the formals are not
+ * valid.
+ */
+export function Around(pointcut: string, formals: string = ''): MethodDecorator {
+    return Advice(AspectRegistry.toAdvice('around', pointcut, formals));
+}
+
+/**
+ * Hold the aspects declared with the `@Aspect` decorator, by name. The
+ * registered descriptors are woven like any other, e.g.
+ * `Weaver.weave('Account', ...AspectRegistry.getAspects())`.
+ */
+export class AspectRegistry {
+    /**
+     * Return a registered aspect.
+     *
+     * @param name - The aspect name.
+     * @returns The {@link AspectDescriptor} otherwise undefined
+     */
+    public static getAspect(name: string): AspectDescriptor | undefined {
+        return ASPECTS.get(name);
+    }
+
+    /**
+     * Return the registered aspects, in order of registration.
+     *
+     * @returns The list of {@link AspectDescriptor}
+     */
+    public static getAspects(): Array<AspectDescriptor> {
+        return [...ASPECTS.values()];
+    }
+
+    /**
+     * Register an aspect class with the pointcuts and advice declared on
+     * its methods, an aspect of the same name is replaced. The aspect
+     * extends the registered aspect of its super class, if any, and is
+     * abstract when it declares an abstract pointcut. The `if()`
+     * expressions are checked, the classes they refer to must be
+     * registered first.
+     *
+     * @param type - The aspect class.
+     * @param perClause - The instantiation model.
+     * @returns The registered {@link AspectDescriptor}
+     * @throws PointcutSyntaxError when an `if()` expression is not valid.
+     * @throws TypeError when a concrete aspect leaves an abstract pointcut
+     * undefined.
+     */
+    public static register(type: Function, perClause?: string): AspectDescriptor {
+        const {pointcuts, advices}: AspectMembers = MEMBERS.get(type.prototype) || {pointcuts: [], advices: []};
+        const aspect: AspectDescriptor = {name: type.name, type, pointcuts: [...pointcuts], advices: [...advices]};
+        if (perClause) {
+            aspect.perClause = perClause;
+        }
+        if (pointcuts.some((descriptor: PointcutDescriptor) => descriptor.isAbstract)) {
+            aspect.isAbstract = true;
+        }
+        const superAspect: AspectDescriptor | undefined = AspectRegistry.getAspects()
+            .find((descriptor: AspectDescriptor) => descriptor.type === Object.getPrototypeOf(type));
+        if (superAspect) {
+            aspect.superAspect = superAspect;
+        }
+        AspectCompiler.getMatchers([aspect]);
+        ASPECTS.set(aspect.name, aspect);
+        return aspect;
+    }
+
+    /**
+     * Build the declaration of an advice.
+     *
+     * @param kind - The advice kind.
+     * @param pointcut - The pointcut expression.
+     * @param formals - The formals.
+     * @returns The declaration, e.g. `Object around(int i) : args(i)`
+     */
+    public static toAdvice(kind: 'before' | 'after' | 'around', pointcut: string, formals: string = ''): string {
+        return `${kind === 'around' ? 'Object ' : ''}${kind}(${formals}) : ${pointcut}`;
+    }
+
+    /**
+     * Unregister an aspect.
+     *
+     * @param name - The aspect name.
+     */
+    public static unregister(name: string): void {
+        ASPECTS.delete(name);
+    }
+
+    /**
+     * Unregister all the aspects.
+     */
+    public static clear(): void {
+        ASPECTS.clear();
+    }
+}
+
+export default AspectRegistry;
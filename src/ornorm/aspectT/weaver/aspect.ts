@@ -0,0 +1,499 @@
+import {
+    AdviceDeclaration,
+    Formal,
+    PerClause,
+    PointcutNode,
+    PointcutParser,
+    TypePattern
+} from '@ornorm/aspectT';
+import {IfExpression, TypeResolver} from './if-expression';
+import {PatternMatcher} from './pattern-matcher';
+import {AspectPrecedence} from './precedence';
+import {PointcutDefinition, PointcutMatcher} from './pointcut-matcher';
+import {FuzzyBoolean, Shadow} from './shadow';
+
+/**
+ * Interface that represent a descriptor for a named pointcut of an
+ * aspect, the runtime counterpart of `createPointcut`.
+ */
+export interface PointcutDescriptor {
+    /**
+     * Pointcut name.
+     */
+    name: string;
+    /**
+     * The formals, e.g. `int i, Object o`.
+     */
+    formals?: string;
+    /**
+     * The pointcut expression, empty for an abstract pointcut.
+     */
+    pointcut: string;
+    /**
+     * True for an abstract pointcut, defined by the concrete sub aspects.
+     */
+    isAbstract?: boolean;
+}
+
+/**
+ * Interface that represent a descriptor for an advice of an aspect, the
+ * runtime counterpart of the `@Advice` decorator of `createAdvice`.
+ */
+export interface AdviceDescriptor {
+    /**
+     * The name of the aspect method holding the advice body.
+     */
+    name: string;
+    /**
+     * The advice declaration, e.g. `after() returning (int x) : call(int Foo.m(int))`.
+     */
+    advice: string;
+}
+
+/**
+ * Interface that represent a `declare soft` of an aspect, the runtime
+ * counterpart of `declareSoft`.
+ */
+export interface SoftDescriptor {
+    /**
+     * The type pattern of the softened errors, e.g. `IOException`.
+     */
+    type: string;
+    /**
+     * The pointcut of the join points softening the errors.
+     */
+    pointcut: string;
+}
+
+/**
+ * Interface that represent an inter-type member declaration of an
+ * aspect, the runtime counterpart of the `@InterType` decorator of
+ * `addInterTypeMember`.
+ */
+export interface InterTypeDescriptor {
+    /**
+     * The name of the aspect method holding the body of a method or a
+     * constructor, or returning the initial value of a field.
+     */
+    name: string;
+    /**
+     * The declaration, e.g. `private static Foo.m(..)`, `Point.new(..)` or
+     * `Point.x`.
+     */
+    declaration: string;
+}
+
+/**
+ * Interface that represent a `declare @type`, `declare @method`,
+ * `declare @constructor` or `declare @field` of an aspect, the runtime
+ * counterpart of `declareTypeAnnotation` and its siblings.
+ */
+export interface AnnotationDescriptor {
+    kind: 'type' | 'method' | 'constructor' | 'field';
+    /**
+     * The pattern of the annotated types or members, e.g. `* C.foo*(..)`.
+     */
+    pattern: string;
+    /**
+     * The annotation, e.g. `@SomeAnnotation` or `@Table("users")`.
+     */
+    annotation: string;
+}
+
+/**
+ * Interface that represent the definition of an aspect, as read from
+ * its source.
+ *
+ * @see AdviceDescriptor
+ * @see PointcutDescriptor
+ */
+export interface AspectDefinition {
+    /**
+     * Aspect name.
+     */
+    name: string;
+    /**
+     * A list of {@link PointcutDescriptor}.
+     */
+    pointcuts?: Array<PointcutDescriptor>;
+    /**
+     * A list of {@link AdviceDescriptor}.
+     */
+    advices: Array<AdviceDescriptor>;
+    /**
+     * The instantiation model, e.g. `perthis(execution(* Account.*(..)))`,
+     * `issingleton()` by default.
+     */
+    perClause?: string;
+    /**
+     * The type pattern lists of the `declare precedence` of the aspect,
+     * e.g. `Security, Logging, *`.
+     */
+    precedence?: Array<string>;
+    /**
+     * A list of {@link SoftDescriptor}.
+     */
+    softs?: Array<SoftDescriptor>;
+    /**
+     * The `declare parents` of the aspect, e.g. `Point extends Shape` or
+     * `Point implements Comparable, Serializable`.
+     */
+    parents?: Array<string>;
+    /**
+     * A list of {@link InterTypeDescriptor}.
+     */
+    interTypes?: Array<InterTypeDescriptor>;
+    /**
+     * A list of {@link AnnotationDescriptor}.
+     */
+    annotations?: Array<AnnotationDescriptor>;
+    /**
+     * True for an abstract aspect, its advices only run in its concrete
+     * sub aspects.
+     */
+    isAbstract?: boolean;
+    /**
+     * The aspect extended by this aspect, if any.
+     */
+    superAspect?: AspectDefinition;
+    /**
+     * True for a privileged aspect, it may access the private members of
+     * the types it advises.
+     */
+    isPrivileged?: boolean;
+}
+
+/**
+ * Interface that represent a descriptor for aspects.
+ *
+ * @see AspectDefinition
+ */
+export interface AspectDescriptor extends AspectDefinition {
+    /**
+     * The aspect class, its methods are the advice bodies.
+     */
+    type: Function;
+}
+
+/**
+ * An advice parsed and bound to its aspect.
+ */
+export interface AspectAdvice<A extends AspectDefinition = AspectDescriptor> {
+    /**
+     * The declaring aspect.
+     */
+    aspect: A;
+    /**
+     * The name of the aspect method.
+     */
+    name: string;
+    /**
+     * The parsed declaration.
+     */
+    declaration: AdviceDeclaration;
+    /**
+     * The softened type of a `declare soft`, the advice then has no body.
+     */
+    soft?: TypePattern;
+}
+
+/**
+ * An advice with the matcher resolving the pointcuts of its aspect.
+ */
+export interface AdviceMatcher<A extends AspectDefinition = AspectDescriptor> {
+    advice: AspectAdvice<A>;
+    matcher: PointcutMatcher;
+    /**
+     * The parsed instantiation model of the aspect, if any.
+     */
+    perClause?: PerClause;
+}
+
+/**
+ * An advice matching a {@link Shadow}.
+ */
+export interface ShadowMunger<A extends AspectDefinition = AspectDescriptor> extends AdviceMatcher<A> {
+    shadow: Shadow;
+    /**
+     * True when the pointcut must be evaluated again at runtime.
+     */
+    isDynamic: boolean;
+}
+
+/**
+ * Parse the advices and the pointcuts of aspects.
+ */
+export class AspectCompiler {
+    /**
+     * Parse the advices of an aspect in lexical order, the inherited ones
+     * first, followed by its `declare soft` as after throwing advices.
+     *
+     * @param aspect - The {@link AspectDefinition}.
+     * @returns The list of {@link AspectAdvice}
+     * @throws PointcutSyntaxError when an advice or a `declare soft` is not
+     * valid.
+     */
+    public static getAdvices<A extends AspectDefinition>(aspect: A): Array<AspectAdvice<A>> {
+        const definition: A = AspectCompiler.inherit(aspect);
+        const advices: Array<AspectAdvice<A>> = definition.advices.map((advice: AdviceDescriptor) => ({
+            aspect,
+            name: advice.name,
+            declaration: PointcutParser.parseAdvice(advice.advice)
+        }));
+        (definition.softs || []).forEach(({type, pointcut}: SoftDescriptor) => {
+            const node: PointcutNode = PointcutParser.parse(pointcut);
+            advices.push({
+                aspect,
+                name: `declare soft : ${type}`,
+                declaration: {
+                    kind: 'advice', adviceKind: 'after-throwing', formals: [], throws: [], pointcut: node, range: node.range
+                },
+                soft: PointcutParser.parseTypePattern(type)
+            });
+        });
+        return advices;
+    }
+
+    /**
+     * Parse the named pointcuts of aspects, the pointcuts are registered
+     * under their simple name for the declaring aspect and under their
+     * qualified name, e.g. `Tracing.pc`, for all. An aspect also holds the
+     * pointcuts inherited from its super aspects, the abstract ones are
+     * left out.
+     *
+     * @param aspects - The list of {@link AspectDefinition}.
+     * @returns The pointcuts of each aspect by name
+     * @throws PointcutSyntaxError when a pointcut is not valid.
+     */
+    public static getPointcuts<A extends AspectDefinition>(aspects: Array<A>): Map<A, Map<string, PointcutDefinition>> {
+        const qualified: Map<string, PointcutDefinition> = new Map<string, PointcutDefinition>();
+        aspects.forEach((aspect: A) => {
+            AspectCompiler.getConcretePointcuts(aspect).forEach((descriptor: PointcutDescriptor) => {
+                qualified.set(`${aspect.name}.${descriptor.name}`, {
+                    formals: descriptor.formals ? PointcutParser.parseFormals(descriptor.formals) : [],
+                    pointcut: PointcutParser.parse(descriptor.pointcut)
+                });
+            });
+        });
+        const pointcuts: Map<A, Map<string, PointcutDefinition>> = new Map<A, Map<string, PointcutDefinition>>();
+        aspects.forEach((aspect: A) => {
+            const definitions: Map<string, PointcutDefinition> = new Map<string, PointcutDefinition>(qualified);
+            AspectCompiler.getConcretePointcuts(aspect).forEach((descriptor: PointcutDescriptor) => {
+                definitions.set(descriptor.name, qualified.get(`${aspect.name}.${descriptor.name}`)!);
+            });
+            pointcuts.set(aspect, definitions);
+        });
+        return pointcuts;
+    }
+
+    /**
+     * Parse the advices of aspects and bind them to a matcher, the
+     * aspects are listed by decreasing precedence unless ordered by a
+     * `declare precedence`. An aspect inherits the pointcuts, the advices,
+     * the `declare soft` and the instantiation model of its super aspects,
+     * the advices of an abstract aspect are checked but only bound in its
+     * concrete sub aspects. The `if()` expressions of the aspects defined
+     * by a class are compiled, their own name and the names of their super
+     * aspects resolving to these classes.
+     *
+     * @param aspects - The list of {@link AspectDefinition}.
+     * @returns The list of {@link AdviceMatcher}, highest precedence first
+     * @throws PointcutSyntaxError when an advice, a pointcut, a per clause,
+     * a `declare precedence` or an `if()` expression is not valid.
+     * @throws TypeError when a concrete aspect leaves an abstract pointcut
+     * undefined.
+     * @throws Error when the `declare precedence` are circular.
+     */
+    public static getMatchers<A extends AspectDefinition>(aspects: Array<A>): Array<AdviceMatcher<A>> {
+        const pointcuts: Map<A, Map<string, PointcutDefinition>> = AspectCompiler.getPointcuts(aspects);
+        const matchers: Array<AdviceMatcher<A>> = [];
+        AspectPrecedence.sort(aspects).forEach((aspect: A) => {
+            const inherited: A = AspectCompiler.inherit(aspect);
+            const undefinedPointcuts: Array<string> = (inherited.pointcuts || [])
+                .filter((descriptor: PointcutDescriptor) => descriptor.isAbstract)
+                .map((descriptor: PointcutDescriptor) => `${descriptor.name}()`);
+            if (!aspect.isAbstract && undefinedPointcuts.length > 0) {
+                throw new TypeError(`AbstractMethodError ${aspect.name} does not define the abstract pointcut ` +
+                    undefinedPointcuts.join(', '));
+            }
+            const definitions: Map<string, PointcutDefinition> = pointcuts.get(aspect)!;
+            const matcher: PointcutMatcher = new PointcutMatcher((name: string) => definitions.get(name));
+            const perClause: PerClause | undefined = inherited.perClause ?
+                PointcutParser.parsePerClause(inherited.perClause) : undefined;
+            const advices: Array<AspectAdvice<A>> = AspectCompiler.getAdvices(aspect);
+            if ((aspect as Partial<AspectDescriptor>).type) {
+                const resolve: TypeResolver = (name: string): Function | undefined => {
+                    for (let a: AspectDefinition | undefined = aspect; a; a = a.superAspect) {
+                        const type: Function | undefined = (a as Partial<AspectDescriptor>).type;
+                        if (a.name === name && type) {
+                            return type;
+                        }
+                    }
+                    return IfExpression.forName(name);
+                };
+                AspectCompiler.getConcretePointcuts(aspect).forEach(({name}: PointcutDescriptor) => {
+                    const {pointcut, formals}: PointcutDefinition = definitions.get(name)!;
+                    AspectCompiler.compileConditions(pointcut, formals, resolve);
+                });
+                advices.forEach(({declaration}: AspectAdvice<A>) => {
+                    AspectCompiler.compileConditions(declaration.pointcut, declaration.formals, resolve);
+                });
+            }
+            if (aspect.isAbstract) {
+                return;
+            }
+            advices.forEach((advice: AspectAdvice<A>) => {
+                matchers.push({advice, matcher, perClause});
+            });
+        });
+        return matchers;
+    }
+
+    /**
+     * Return the definition of an aspect merged with the definitions of
+     * its super aspects: the inherited pointcuts are overridden by its own
+     * pointcuts of the same name, the inherited advices by its own advices
+     * of the same method, and the instantiation model is the one of the
+     * nearest aspect declaring one.
+     *
+     * @param aspect - The {@link AspectDefinition}.
+     * @returns The merged definition, without super aspect
+     */
+    public static inherit<A extends AspectDefinition>(aspect: A): A {
+        if (!aspect.superAspect) {
+            return aspect;
+        }
+        const inherited: AspectDefinition = AspectCompiler.inherit(aspect.superAspect);
+        const pointcuts: Map<string, PointcutDescriptor> = new Map<string, PointcutDescriptor>();
+        [...inherited.pointcuts || [], ...aspect.pointcuts || []].forEach((descriptor: PointcutDescriptor) => {
+            pointcuts.set(descriptor.name, descriptor);
+        });
+        const names: Array<string> = aspect.advices.map((advice: AdviceDescriptor) => advice.name);
+        const definition: A = {
+            ...aspect,
+            pointcuts: [...pointcuts.values()],
+            advices: [
+                ...inherited.advices.filter((advice: AdviceDescriptor) => !names.includes(advice.name)),
+                ...aspect.advices
+            ],
+            softs: [...inherited.softs || [], ...aspect.softs || []]
+        };
+        delete definition.superAspect;
+        if (!definition.perClause && inherited.perClause) {
+            definition.perClause = inherited.perClause;
+        }
+        return definition;
+    }
+
+    /**
+     * Return true when a shadow must be woven even without advice: it may
+     * start the control flow of a `cflow` or `cflowbelow` designator or
+     * bind an aspect instance through a `perthis`, `pertarget`,
+     * `percflow` or `percflowbelow` clause.
+     *
+     * @param matchers - The list of {@link AdviceMatcher}.
+     * @param shadows - The shadows.
+     * @returns True when the join points must be tracked
+     */
+    public static isTracked<A extends AspectDefinition>(
+        matchers: Array<AdviceMatcher<A>>,
+        shadows: Array<Shadow>
+    ): boolean {
+        return matchers.some(({advice, matcher, perClause}: AdviceMatcher<A>) => {
+            const definitions: Array<PointcutDefinition> = matcher
+                .getControlFlows(advice.declaration.pointcut, advice.declaration.formals);
+            if (perClause && perClause.kind !== 'issingleton' && perClause.kind !== 'pertypewithin') {
+                definitions.push({formals: [], pointcut: perClause.pointcut});
+            }
+            return definitions.some((definition: PointcutDefinition) => shadows.some((shadow: Shadow) =>
+                matcher.match(definition.pointcut, shadow, undefined, definition.formals) !== 'no'
+            ));
+        });
+    }
+
+    /**
+     * Return the advices matching the specified shadows, statically or
+     * depending on the runtime state, ordered by {@link AspectPrecedence}
+     * at each shadow. The advices of a `pertypewithin` aspect only match
+     * within the types of its clause.
+     *
+     * @param matchers - The list of {@link AdviceMatcher}, as returned by
+     * `getMatchers`.
+     * @param shadows - The shadows, outermost first.
+     * @returns The list of {@link ShadowMunger}, outermost first
+     * @throws Error when the advices of an aspect matching a shadow have
+     * circular precedence.
+     */
+    public static match<A extends AspectDefinition>(
+        matchers: Array<AdviceMatcher<A>>,
+        shadows: Array<Shadow>
+    ): Array<ShadowMunger<A>> {
+        const mungers: Array<ShadowMunger<A>> = [];
+        shadows.forEach((shadow: Shadow) => {
+            const matched: Array<ShadowMunger<A>> = [];
+            matchers.forEach(({advice, matcher, perClause}: AdviceMatcher<A>) => {
+                if (perClause && perClause.kind === 'pertypewithin' &&
+                    !PatternMatcher.matchType(perClause.pattern, shadow.withinType)) {
+                    return;
+                }
+                const result: FuzzyBoolean = matcher.match(
+                    advice.declaration.pointcut, shadow, undefined, advice.declaration.formals
+                );
+                if (result !== 'no') {
+                    matched.push({advice, matcher, perClause, shadow, isDynamic: result === 'maybe'});
+                }
+            });
+            while (matched.length > 0) {
+                const aspect: A = matched[0].advice.aspect;
+                const count: number = matched.findIndex((munger: ShadowMunger<A>) => munger.advice.aspect !== aspect);
+                mungers.push(...AspectPrecedence.sortAdvices(
+                    matched.splice(0, count < 0 ? matched.length : count),
+                    (munger: ShadowMunger<A>) => munger.advice
+                ));
+            }
+        });
+        return mungers;
+    }
+
+    /**
+     * Return the pointcuts of an aspect defined by an expression, its own
+     * and the inherited ones.
+     *
+     * @param aspect - The {@link AspectDefinition}.
+     * @returns The list of {@link PointcutDescriptor}
+     */
+    private static getConcretePointcuts(aspect: AspectDefinition): Array<PointcutDescriptor> {
+        return (AspectCompiler.inherit(aspect).pointcuts || [])
+            .filter((descriptor: PointcutDescriptor) => !descriptor.isAbstract);
+    }
+
+    /**
+     * Compile the `if()` expressions of a pointcut.
+     *
+     * @param node - The pointcut.
+     * @param formals - The formals in scope.
+     * @param resolve - Resolve the classes referred to.
+     * @throws PointcutSyntaxError when an expression is not valid.
+     */
+    private static compileConditions(node: PointcutNode, formals: Array<Formal>, resolve: TypeResolver): void {
+        switch (node.kind) {
+            case 'and':
+            case 'or':
+                AspectCompiler.compileConditions(node.left, formals, resolve);
+                AspectCompiler.compileConditions(node.right, formals, resolve);
+                break;
+            case 'not':
+            case 'cflow':
+            case 'cflowbelow':
+                AspectCompiler.compileConditions(node.pointcut, formals, resolve);
+                break;
+            case 'if':
+                IfExpression.compile(node, formals, resolve);
+                break;
+            default:
+                break;
+        }
+    }
+}
+
+export default AspectCompiler;
@@ -0,0 +1,468 @@
+import {
+    Class,
+    Constructor,
+    ConstructorDescriptor,
+    Descriptor,
+    ParameterDescriptor
+} from '@ornorm/aspectT';
+import {AdviceChain} from './advice-chain';
+import {AdviceMatcher, AspectCompiler, AspectDescriptor, ShadowMunger} from './aspect';
+import {AspectInstances} from './aspect-instances';
+import {ControlFlow} from './control-flow';
+import {
+    InitializerSignature,
+    JoinPoint,
+    ProceedingJoinPoint,
+    Signature,
+    SourceLocation,
+    StaticPart,
+    UNKNOWN_LOCATION
+} from './join-point';
+import {JoinPointKind, Shadow} from './shadow';
+
+/**
+ * An initialization join point in progress, woven around code which
+ * cannot be moved into a function, e.g. the statements of a constructor
+ * assigning readonly properties.
+ */
+export interface Initialization {
+    /**
+     * Run the after and after returning advice, once.
+     */
+    returned(): void;
+    /**
+     * Run the after and after throwing advice, once.
+     *
+     * @param error - The thrown value.
+     * @returns The thrown value, to be rethrown
+     */
+    threw(error: any): any;
+}
+
+/**
+ * The advice woven into the creation of the objects of a class.
+ *
+ * The `call` and `execution` join points of a constructor are run by the
+ * proxy replacing the registered class, see {@link ConstructorChain.intercept}:
+ * a `call` has no executing object, an `execution` runs before the object
+ * exists, the created object is the value returned by their innermost
+ * `proceed`. A `super()` call of a subclass is an `execution` only.
+ *
+ * The `preinitialization`, `initialization` and `staticinitialization`
+ * join points are run by compile-time weaving, which cannot move the
+ * initializing code into a function: their around advice are not
+ * supported, the join point is tracked by the {@link ControlFlow} while
+ * each advice runs.
+ */
+export class ConstructorChain {
+    private readonly mClassName: string;
+    private readonly mConstructor: Constructor<any>;
+    private readonly mResolve: () => Array<AdviceMatcher>;
+    private readonly mShadows: Array<Shadow>;
+    private readonly mStaticParts: Map<JoinPointKind, StaticPart>;
+    private readonly mSourceLocation: SourceLocation;
+    private mMatchers: Array<AdviceMatcher> | undefined;
+    private mMungers: Map<JoinPointKind, Array<ShadowMunger>> | undefined;
+
+    /**
+     * Create a chain.
+     *
+     * @param className - The name of the declaring class.
+     * @param constructor - The woven {@link Constructor}.
+     * @param descriptor - The {@link ConstructorDescriptor} of the
+     * constructor.
+     * @param matchers - Compute the list of {@link AdviceMatcher} of the
+     * woven aspects, called once on first use.
+     * @param sourceLocation - The {@link SourceLocation} of the constructor.
+     */
+    constructor(
+        className: string,
+        constructor: Constructor<any>,
+        descriptor: ConstructorDescriptor,
+        matchers: () => Array<AdviceMatcher>,
+        sourceLocation: SourceLocation = UNKNOWN_LOCATION
+    ) {
+        this.mClassName = className;
+        this.mConstructor = constructor;
+        this.mResolve = matchers;
+        this.mSourceLocation = sourceLocation;
+        this.mShadows = [
+            ...(['constructor-call', 'constructor-execution', 'preinitialization', 'initialization'] as Array<JoinPointKind>)
+                .map((kind: JoinPointKind) => ConstructorChain.createShadow(kind, className, descriptor)),
+            ConstructorChain.createTypeShadow(className)
+        ];
+        this.mStaticParts = new Map<JoinPointKind, StaticPart>();
+    }
+
+    /**
+     * The name of the declaring class.
+     */
+    public get className(): string {
+        return this.mClassName;
+    }
+
+    /**
+     * The list of {@link AdviceMatcher} of the woven aspects.
+     */
+    public get matchers(): Array<AdviceMatcher> {
+        if (!this.mMatchers) {
+            this.mMatchers = this.mResolve();
+        }
+        return this.mMatchers;
+    }
+
+    /**
+     * The woven {@link Constructor}.
+     */
+    public get signature(): Constructor<any> {
+        return this.mConstructor;
+    }
+
+    /**
+     * The {@link SourceLocation} of the constructor.
+     */
+    public get sourceLocation(): SourceLocation {
+        return this.mSourceLocation;
+    }
+
+    /**
+     * Create the `call` and `execution` shadows of a constructor.
+     *
+     * @param className - The declaring class name.
+     * @param descriptor - The {@link ConstructorDescriptor}.
+     * @returns The shadows
+     */
+    public static createShadows(className: string, descriptor: ConstructorDescriptor): Array<Shadow> {
+        return (['constructor-call', 'constructor-execution'] as Array<JoinPointKind>)
+            .map((kind: JoinPointKind) => ConstructorChain.createShadow(kind, className, descriptor));
+    }
+
+    /**
+     * Create the {@link Shadow} of a constructor.
+     *
+     * @param kind - The join point kind.
+     * @param className - The declaring class name.
+     * @param descriptor - The {@link ConstructorDescriptor}.
+     * @returns The shadow, named `new`
+     */
+    public static createShadow(kind: JoinPointKind, className: string, descriptor: ConstructorDescriptor): Shadow {
+        return {
+            kind,
+            declaringType: className,
+            modifiers: [...descriptor.modifiers],
+            name: 'new',
+            returnType: className,
+            parameterTypes: descriptor.parameters.map((parameter: ParameterDescriptor) => parameter.type),
+            exceptionTypes: [],
+            withinType: className
+        };
+    }
+
+    /**
+     * Create the {@link Shadow} of the static initialization of a class.
+     *
+     * @param className - The class name.
+     * @returns The `static-initialization` shadow
+     */
+    public static createTypeShadow(className: string): Shadow {
+        return {
+            kind: 'static-initialization',
+            declaringType: className,
+            modifiers: [],
+            name: className,
+            returnType: className,
+            parameterTypes: [],
+            exceptionTypes: [],
+            withinType: className
+        };
+    }
+
+    /**
+     * Return the constructors of a class, described by the registered
+     * descriptors when available, otherwise a constructor taking `any`
+     * arguments.
+     *
+     * @param className - The class name.
+     * @param type - The class.
+     * @returns The list of {@link ConstructorDescriptor}
+     */
+    public static getConstructors(className: string, type: Function): Array<ConstructorDescriptor> {
+        const described: Class | undefined = Descriptor.getModuleOfClass(className) ?
+            Class.loadClass(className) : undefined;
+        if (described && described.factory.constructors.length > 0) {
+            return described.factory.constructors;
+        }
+        return [{
+            modifiers: [],
+            parameters: Array.from({length: type.length}, (_: unknown, index: number) => ({
+                index,
+                isOptional: false,
+                isRestParameter: false,
+                modifiers: [],
+                name: `arg${index}`,
+                type: 'any'
+            })),
+            returnType: className
+        }];
+    }
+
+    /**
+     * Create a proxy of a class running the `call` and `execution` join
+     * points of its constructors, the chain is selected by the number of
+     * arguments.
+     *
+     * @param type - The class.
+     * @param chains - The chains of its constructors.
+     * @returns The proxy, to register in place of the class
+     */
+    public static intercept(type: Function, chains: Array<ConstructorChain>): Function {
+        const proxy: Function = new Proxy(type, {
+            construct(target: Function, args: Array<any>, newTarget: Function): object {
+                const chain: ConstructorChain = chains.find((c: ConstructorChain) =>
+                    c.signature.parameters.length === args.length
+                ) || chains[0];
+                return chain.construct(
+                    args,
+                    (constructArgs: Array<any>) => Reflect.construct(target, constructArgs, newTarget),
+                    newTarget === proxy
+                );
+            }
+        });
+        return proxy;
+    }
+
+    /**
+     * Create a chain matching the aspects on first use, the form used by
+     * compile-time weaving.
+     *
+     * @param declaringClass - The declaring class.
+     * @param className - The name of the declaring class.
+     * @param descriptor - The {@link ConstructorDescriptor}.
+     * @param aspects - Return the list of {@link AspectDescriptor} by
+     * decreasing precedence, unless ordered by a `declare precedence`.
+     * @param sourceLocation - The {@link SourceLocation} of the constructor.
+     * @returns The chain
+     */
+    public static lazy(
+        declaringClass: Function,
+        className: string,
+        descriptor: ConstructorDescriptor,
+        aspects: () => Array<AspectDescriptor>,
+        sourceLocation?: SourceLocation
+    ): ConstructorChain {
+        return new ConstructorChain(
+            className,
+            new Constructor(declaringClass, descriptor),
+            descriptor,
+            () => AdviceChain.getMatchers(aspects),
+            sourceLocation
+        );
+    }
+
+    /**
+     * Run the advice of the `call` and `execution` join points and create
+     * an object.
+     *
+     * @param args - The arguments.
+     * @param create - Create the object with the arguments.
+     * @param isCall - False for the `super()` call of a subclass.
+     * @returns The created object, or the value returned by an around
+     * advice
+     */
+    public construct(args: Array<any>, create: (args: Array<any>) => object, isCall: boolean = true): object {
+        const execute: (executeArgs: Array<any>) => object = (executeArgs: Array<any>): object =>
+            this.enter('constructor-execution', executeArgs, create);
+        return isCall ? this.enter('constructor-call', args, execute) : execute(args);
+    }
+
+    /**
+     * Run the advice of the `preinitialization` join point, before the
+     * `super()` call.
+     *
+     * @param args - The arguments of the constructor.
+     */
+    public preinitialize(args: Array<any>): void {
+        this.start('preinitialization', undefined, args).returned();
+    }
+
+    /**
+     * Run the before advice of the `initialization` join point, after the
+     * `super()` call.
+     *
+     * @param thisObject - The object being initialized.
+     * @param args - The arguments of the constructor.
+     * @returns The {@link Initialization} to complete at the end of the
+     * constructor
+     */
+    public initialize(thisObject: any, args: Array<any>): Initialization {
+        return this.start('initialization', thisObject, args);
+    }
+
+    /**
+     * Run the before advice of the `staticinitialization` join point,
+     * before the static initializers of the class.
+     *
+     * @returns The {@link Initialization} to complete after the static
+     * initializers
+     */
+    public staticInitialize(): Initialization {
+        return this.start('static-initialization', undefined, []);
+    }
+
+    /**
+     * Run a `call` or `execution` join point within the
+     * {@link ControlFlow}, the aspect instances of its per clauses bound.
+     *
+     * @param kind - The join point kind.
+     * @param args - The arguments.
+     * @param body - Run the rest of the creation with the arguments.
+     * @returns The created object
+     */
+    private enter(kind: JoinPointKind, args: Array<any>, body: (args: Array<any>) => object): object {
+        const joinPoint: JoinPoint = new JoinPoint(this.getStaticPart(kind), undefined, undefined, args);
+        return ControlFlow.run(this.getShadow(kind), joinPoint, () => {
+            AspectInstances.bind(this.matchers, ControlFlow.current!);
+            return this.proceed(kind, 0, args, body);
+        });
+    }
+
+    /**
+     * Return the list of {@link ShadowMunger} of a join point of the
+     * constructor, outermost first.
+     *
+     * @param kind - The join point kind.
+     * @returns The mungers
+     */
+    private getMungers(kind: JoinPointKind): Array<ShadowMunger> {
+        if (!this.mMungers) {
+            const mungers: Array<ShadowMunger> = AspectCompiler.match(this.matchers, this.mShadows);
+            this.mMungers = new Map<JoinPointKind, Array<ShadowMunger>>(
+                this.mShadows.map((shadow: Shadow) => [
+                    shadow.kind, mungers.filter((munger: ShadowMunger) => munger.shadow === shadow)
+                ])
+            );
+        }
+        return this.mMungers.get(kind)!;
+    }
+
+    /**
+     * Return the {@link Shadow} of a join point of the constructor.
+     *
+     * @param kind - The join point kind.
+     * @returns The shadow
+     */
+    private getShadow(kind: JoinPointKind): Shadow {
+        return this.mShadows.find((shadow: Shadow) => shadow.kind === kind)!;
+    }
+
+    /**
+     * Return the {@link StaticPart} of a join point of the constructor.
+     *
+     * @param kind - The join point kind.
+     * @returns The static part
+     */
+    private getStaticPart(kind: JoinPointKind): StaticPart {
+        let staticPart: StaticPart | undefined = this.mStaticParts.get(kind);
+        if (!staticPart) {
+            const signature: Signature = kind === 'static-initialization' ?
+                new InitializerSignature(this.mConstructor.declaringClass) : this.mConstructor;
+            staticPart = new StaticPart(kind, signature, this.mSourceLocation);
+            this.mStaticParts.set(kind, staticPart);
+        }
+        return staticPart;
+    }
+
+    /**
+     * Run the chain of a `call` or `execution` join point from the
+     * specified index.
+     *
+     * @param kind - The join point kind.
+     * @param index - The index of the next advice.
+     * @param args - The arguments.
+     * @param body - Run the rest of the creation with the arguments.
+     * @returns The created object
+     */
+    private proceed(kind: JoinPointKind, index: number, args: Array<any>, body: (args: Array<any>) => object): object {
+        const mungers: Array<ShadowMunger> = this.getMungers(kind);
+        if (index === mungers.length) {
+            return body(args);
+        }
+        const munger: ShadowMunger = mungers[index];
+        const joinPoint: ProceedingJoinPoint = new ProceedingJoinPoint(
+            this.getStaticPart(kind),
+            undefined,
+            undefined,
+            args,
+            (proceedArgs: Array<any>) => this.proceed(kind, index + 1, proceedArgs, body)
+        );
+        if (munger.isDynamic && munger.matcher.match(
+            munger.advice.declaration.pointcut, munger.shadow, joinPoint, munger.advice.declaration.formals
+        ) !== 'yes') {
+            return joinPoint.proceed();
+        }
+        return AdviceChain.runAdvice(munger, joinPoint, false);
+    }
+
+    /**
+     * Run the before advice of an initialization join point, the after
+     * advice are run by the returned {@link Initialization} by increasing
+     * precedence.
+     *
+     * @param kind - The join point kind.
+     * @param thisObject - The object being initialized, undefined when
+     * not created yet.
+     * @param args - The arguments.
+     * @returns The initialization in progress
+     */
+    private start(kind: JoinPointKind, thisObject: any, args: Array<any>): Initialization {
+        const shadow: Shadow = this.getShadow(kind);
+        const staticPart: StaticPart = this.getStaticPart(kind);
+        const mungers: Array<ShadowMunger> = this.getMungers(kind)
+            .filter((munger: ShadowMunger) => munger.advice.declaration.adviceKind !== 'around');
+        const run: (munger: ShadowMunger, body: () => void) => void = (munger: ShadowMunger, body: () => void): void => {
+            const joinPoint: ProceedingJoinPoint = new ProceedingJoinPoint(staticPart, thisObject, thisObject, args, body);
+            ControlFlow.run(shadow, joinPoint, () => {
+                AspectInstances.bind(this.matchers, ControlFlow.current!);
+                if (munger.isDynamic && munger.matcher.match(
+                    munger.advice.declaration.pointcut, munger.shadow, joinPoint, munger.advice.declaration.formals
+                ) !== 'yes') {
+                    return;
+                }
+                AdviceChain.runAdvice(munger, joinPoint, false);
+            });
+        };
+        const [before, after]: [Array<ShadowMunger>, Array<ShadowMunger>] = [
+            mungers.filter((munger: ShadowMunger) => munger.advice.declaration.adviceKind === 'before'),
+            mungers.filter((munger: ShadowMunger) => munger.advice.declaration.adviceKind !== 'before').reverse()
+        ];
+        before.forEach((munger: ShadowMunger) => run(munger, (): void => undefined));
+        let done: boolean = false;
+        return {
+            returned(): void {
+                if (!done) {
+                    done = true;
+                    after.forEach((munger: ShadowMunger) => run(munger, (): void => undefined));
+                }
+            },
+            threw(error: any): any {
+                if (!done) {
+                    done = true;
+                    after.forEach((munger: ShadowMunger) => {
+                        try {
+                            run(munger, (): never => {
+                                throw error;
+                            });
+                        } catch (e) {
+                            if (e !== error) {
+                                throw e;
+                            }
+                        }
+                    });
+                }
+                return error;
+            }
+        };
+    }
+}
+
+export default ConstructorChain;
@@ -0,0 +1,95 @@
+import {AsyncLocalStorage} from 'async_hooks';
+import {JoinPoint} from './join-point';
+import {Shadow} from './shadow';
+
+/**
+ * A join point in progress.
+ */
+export interface ControlFlowFrame {
+    /**
+     * The {@link Shadow} of the join point.
+     */
+    shadow: Shadow;
+    /**
+     * The {@link JoinPoint}.
+     */
+    joinPoint: JoinPoint;
+    /**
+     * The aspect instances bound to the control flow of the join point by
+     * a `percflow` or `percflowbelow` clause.
+     */
+    aspects: Map<Function, any>;
+    /**
+     * The join point advised by the advice running as the join point, set
+     * for an `adviceexecution` only, so `proceed()` finds it after an
+     * `await`.
+     */
+    advised?: JoinPoint;
+    /**
+     * The {@link Shadow} of the join point advised, set with `advised`.
+     */
+    advisedShadow?: Shadow;
+    /**
+     * The frame of the enclosing join point, if any.
+     */
+    parent?: ControlFlowFrame;
+}
+
+const STORAGE: AsyncLocalStorage<ControlFlowFrame> = new AsyncLocalStorage<ControlFlowFrame>();
+
+/**
+ * Track the woven join points in progress, `cflow` and `cflowbelow`
+ * match against them. The frames follow the asynchronous continuations
+ * of a join point, so an `await` does not leave its control flow.
+ */
+export class ControlFlow {
+    /**
+     * The frame of the innermost join point in progress, if any.
+     */
+    public static get current(): ControlFlowFrame | undefined {
+        return STORAGE.getStore();
+    }
+
+    /**
+     * Run a join point within the control flow.
+     *
+     * @param shadow - The {@link Shadow} of the join point.
+     * @param joinPoint - The {@link JoinPoint}.
+     * @param body - The code of the join point.
+     * @param advised - The join point advised when the join point is an
+     * advice execution.
+     * @param advisedShadow - The {@link Shadow} of the join point advised.
+     * @returns The result of the code
+     */
+    public static run<T>(
+        shadow: Shadow,
+        joinPoint: JoinPoint,
+        body: () => T,
+        advised?: JoinPoint,
+        advisedShadow?: Shadow
+    ): T {
+        const frame: ControlFlowFrame = {shadow, joinPoint, aspects: new Map<Function, any>(), parent: STORAGE.getStore()};
+        if (advised) {
+            frame.advised = advised;
+        }
+        if (advisedShadow) {
+            frame.advisedShadow = advisedShadow;
+        }
+        return STORAGE.run(frame, body);
+    }
+
+    /**
+     * Run code back within the control flow of a join point in progress,
+     * e.g. the rest of an advice chain proceeded from an advice.
+     *
+     * @param frame - The {@link ControlFlowFrame} of the join point, the
+     * current control flow is kept when undefined.
+     * @param body - The code.
+     * @returns The result of the code
+     */
+    public static resume<T>(frame: ControlFlowFrame | undefined, body: () => T): T {
+        return frame ? STORAGE.run(frame, body) : body();
+    }
+}
+
+export default ControlFlow;
@@ -0,0 +1,182 @@
+import {
+    Annotation,
+    Annotations,
+    ConstructorDescriptor,
+    Field,
+    MemberDescriptor,
+    Method,
+    PointcutParser
+} from '@ornorm/aspectT';
+import {AdviceChain} from './advice-chain';
+import {AnnotationDescriptor, AspectDefinition} from './aspect';
+import {ConstructorChain} from './constructor-chain';
+import {FieldChain} from './field-chain';
+import {PatternMatcher} from './pattern-matcher';
+import {JoinPointKind, Shadow} from './shadow';
+
+/**
+ * The shadow kind describing each kind of annotated element.
+ */
+const SHADOW_KINDS: Record<AnnotationDescriptor['kind'], JoinPointKind> = {
+    type: 'static-initialization',
+    method: 'method-execution',
+    constructor: 'constructor-execution',
+    field: 'field-get'
+};
+
+/**
+ * Apply the `declare @type`, `declare @method`, `declare @constructor`
+ * and `declare @field` of aspects: each type or member matched by the
+ * pattern is annotated with {@link Annotations.annotate}, the types and
+ * members are described by {@link Shadow}s:
+ *
+ * - a type by its `static-initialization` shadow;
+ * - a method by its `execution` shadow;
+ * - a constructor by its `execution` shadow, named `new`;
+ * - a field by its `get` shadow, typed by the field type.
+ */
+export class DeclareAnnotations {
+    /**
+     * Return the annotations declared by aspects on the type or the member
+     * of a shadow.
+     *
+     * @param aspects - The list of {@link AspectDefinition}.
+     * @param shadow - The {@link Shadow} of the type or the member.
+     * @returns The list of {@link Annotation}
+     * @throws PointcutSyntaxError when a pattern is not valid.
+     * @throws TypeError when an annotation is not valid.
+     */
+    public static getAnnotations(aspects: Array<AspectDefinition>, shadow: Shadow): Array<Annotation> {
+        return aspects
+            .flatMap((aspect: AspectDefinition) => aspect.annotations || [])
+            .filter((declaration: AnnotationDescriptor) =>
+                SHADOW_KINDS[declaration.kind] === shadow.kind && DeclareAnnotations.matches(declaration, shadow)
+            )
+            .map((declaration: AnnotationDescriptor) => Annotations.parse(declaration.annotation));
+    }
+
+    /**
+     * Check the annotations and the patterns declared by aspects, so that
+     * annotating a class does not fail once started.
+     *
+     * @param aspects - The list of {@link AspectDefinition}.
+     * @throws PointcutSyntaxError when a pattern is not valid.
+     * @throws TypeError when an annotation is not valid.
+     */
+    public static check(aspects: Array<AspectDefinition>): void {
+        aspects
+            .flatMap((aspect: AspectDefinition) => aspect.annotations || [])
+            .forEach((declaration: AnnotationDescriptor) => {
+                Annotations.parse(declaration.annotation);
+                switch (declaration.kind) {
+                    case 'type':
+                        PointcutParser.parseTypePattern(declaration.pattern);
+                        break;
+                    case 'method':
+                        PointcutParser.parseMethodPattern(declaration.pattern);
+                        break;
+                    case 'constructor':
+                        PointcutParser.parseConstructorPattern(declaration.pattern);
+                        break;
+                    default:
+                        PointcutParser.parseFieldPattern(declaration.pattern);
+                }
+            });
+    }
+
+    /**
+     * Annotate a class and its members. The members are described by the
+     * registered descriptors when available, otherwise the constructor
+     * takes `any` arguments and the fields are the static properties.
+     *
+     * @param className - The class name.
+     * @param type - The class.
+     * @param aspects - The list of {@link AspectDefinition}.
+     * @param methods - The list of {@link Method} of the class.
+     * @throws PointcutSyntaxError when a pattern is not valid.
+     * @throws TypeError when an annotation is not valid.
+     */
+    public static apply(
+        className: string,
+        type: Function,
+        aspects: Array<AspectDefinition>,
+        methods: Array<Method>
+    ): void {
+        if (!aspects.some((aspect: AspectDefinition) => (aspect.annotations || []).length > 0)) {
+            return;
+        }
+        DeclareAnnotations.getAnnotations(aspects, DeclareAnnotations.createTypeShadow(className))
+            .forEach((annotation: Annotation) => Annotations.annotate(type, annotation));
+        methods.forEach((method: Method) => {
+            const owner: object = method.isStatic ? type : type.prototype;
+            DeclareAnnotations.getAnnotations(aspects, AdviceChain.createShadow('method-execution', className, method))
+                .forEach((annotation: Annotation) => Annotations.annotate(owner, annotation, method.name));
+        });
+        ConstructorChain.getConstructors(className, type).forEach((constructor: ConstructorDescriptor) => {
+            DeclareAnnotations.getAnnotations(aspects, DeclareAnnotations.createConstructorShadow(className, constructor))
+                .forEach((annotation: Annotation) => Annotations.annotate(type, annotation, 'constructor'));
+        });
+        FieldChain.getFields(className, type).forEach((field: Field) => {
+            const owner: object = field.isStatic ? type : type.prototype;
+            DeclareAnnotations.getAnnotations(aspects, DeclareAnnotations.createFieldShadow(className, field))
+                .forEach((annotation: Annotation) => Annotations.annotate(owner, annotation, field.name));
+        });
+    }
+
+    /**
+     * Create the shadow of a type.
+     *
+     * @param className - The class name.
+     * @returns The `static-initialization` {@link Shadow}
+     */
+    public static createTypeShadow(className: string): Shadow {
+        return ConstructorChain.createTypeShadow(className);
+    }
+
+    /**
+     * Create the shadow of a constructor.
+     *
+     * @param className - The class name.
+     * @param constructor - The {@link ConstructorDescriptor}.
+     * @returns The `constructor-execution` {@link Shadow}
+     */
+    public static createConstructorShadow(className: string, constructor: ConstructorDescriptor): Shadow {
+        return ConstructorChain.createShadow('constructor-execution', className, constructor);
+    }
+
+    /**
+     * Create the shadow of a field.
+     *
+     * @param className - The class name.
+     * @param field - The field, static when `isStatic` is true.
+     * @returns The `field-get` {@link Shadow}
+     */
+    public static createFieldShadow(
+        className: string,
+        field: MemberDescriptor & {isStatic: boolean}
+    ): Shadow {
+        return FieldChain.createShadow('field-get', className, field);
+    }
+
+    /**
+     * Match a declaration against a shadow of the same kind.
+     *
+     * @param declaration - The {@link AnnotationDescriptor}.
+     * @param shadow - The {@link Shadow}.
+     * @returns True when matching
+     */
+    private static matches(declaration: AnnotationDescriptor, shadow: Shadow): boolean {
+        switch (declaration.kind) {
+            case 'type':
+                return PatternMatcher.matchType(PointcutParser.parseTypePattern(declaration.pattern), shadow.declaringType);
+            case 'method':
+                return PatternMatcher.matchMethod(PointcutParser.parseMethodPattern(declaration.pattern), shadow);
+            case 'constructor':
+                return PatternMatcher.matchConstructor(PointcutParser.parseConstructorPattern(declaration.pattern), shadow);
+            default:
+                return PatternMatcher.matchField(PointcutParser.parseFieldPattern(declaration.pattern), shadow);
+        }
+    }
+}
+
+export default DeclareAnnotations;
@@ -0,0 +1,282 @@
+import {Class, ClassDescriptor, Descriptor, PointcutParser, TypePattern} from '@ornorm/aspectT';
+import {AspectDefinition} from './aspect';
+import {PatternMatcher} from './pattern-matcher';
+
+const DECLARATION: RegExp = /^(.*\S)\s+(extends|implements)\s+(\S.*)$/;
+
+const TYPE_NAME: RegExp = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Interface that represent a parsed `declare parents`.
+ */
+export interface ParentsDeclaration {
+    /**
+     * The {@link TypePattern} of the classes getting new parents.
+     */
+    type: TypePattern;
+    /**
+     * True for `extends`, false for `implements`.
+     */
+    isExtends: boolean;
+    /**
+     * The name of the superclass or the names of the interfaces.
+     */
+    parents: Array<string>;
+}
+
+/**
+ * Interface that represent a `declare parents` resolved against the
+ * registered types.
+ */
+export interface ResolvedParents {
+    declaration: ParentsDeclaration;
+    /**
+     * The superclass, or the classes mixed in: an interface name resolving
+     * to no registered class has no class mixed in.
+     */
+    types: Array<Function>;
+}
+
+/**
+ * Apply the `declare parents` of aspects to the classes they match:
+ *
+ * - `C extends D` re-parents the prototype chain of `C` to `D`, legal
+ * when `D` is the superclass of `C` or one of its subclasses. The
+ * `super()` call of a subclass runs the constructor of `D`, a class
+ * without superclass runs it through the proxy registered in its place,
+ * so only the objects created through the registered class do. There
+ * `D` is constructed apart without arguments and its own properties are
+ * copied to the object: a constructor of `D` with required parameters is
+ * not supported and rejected, one keeping `this`, e.g. in a registry,
+ * keeps the object constructed apart;
+ * - `C implements I, J` registers the interfaces with
+ * `Class.addInterfaces` and mixes in the prototype members of the
+ * registered classes of the same names, the members of `C` are kept. A
+ * name resolving to no registered class is an interface without members,
+ * recorded by name only.
+ *
+ * The class descriptors are updated in place.
+ */
+export class DeclareParents {
+    /**
+     * Parse a `declare parents`.
+     *
+     * @param source - The declaration, e.g. `C extends D` or
+     * `C implements I, J`.
+     * @returns The {@link ParentsDeclaration}
+     * @throws TypeError when the declaration is not valid.
+     * @throws PointcutSyntaxError when the type pattern is not valid.
+     */
+    public static parse(source: string): ParentsDeclaration {
+        const match: RegExpExecArray | null = DECLARATION.exec(source.trim());
+        if (!match) {
+            throw new TypeError(`IllegalArgumentException declare parents : ${source}`);
+        }
+        const [, type, keyword, list]: RegExpExecArray = match;
+        const parents: Array<string> = list.split(',').map((name: string) => name.trim());
+        if (!parents.every((name: string) => TYPE_NAME.test(name)) || keyword === 'extends' && parents.length > 1) {
+            throw new TypeError(`IllegalArgumentException declare parents : ${source}`);
+        }
+        return {type: PointcutParser.parseTypePattern(type), isExtends: keyword === 'extends', parents};
+    }
+
+    /**
+     * Return the `declare parents` of aspects matching a class.
+     *
+     * @param aspects - The list of {@link AspectDefinition}.
+     * @param className - The class name.
+     * @returns The list of {@link ParentsDeclaration}
+     * @throws TypeError when a declaration is not valid.
+     * @throws PointcutSyntaxError when a type pattern is not valid.
+     */
+    public static getDeclarations(aspects: Array<AspectDefinition>, className: string): Array<ParentsDeclaration> {
+        return aspects
+            .flatMap((aspect: AspectDefinition) => (aspect.parents || []).map(DeclareParents.parse.bind(DeclareParents)))
+            .filter((declaration: ParentsDeclaration) => PatternMatcher.matchType(declaration.type, className));
+    }
+
+    /**
+     * Resolve the `declare parents` of aspects matching a class, nothing is
+     * applied so a declaration failing leaves the class unchanged.
+     *
+     * @param className - The class name.
+     * @param type - The class.
+     * @param aspects - The list of {@link AspectDefinition}.
+     * @returns The list of {@link ResolvedParents}
+     * @throws ReferenceError when a superclass is not registered.
+     * @throws TypeError when a declaration is not valid, the inheritance
+     * is not legal or the constructor of the new superclass of a class
+     * without superclass takes arguments.
+     * @throws PointcutSyntaxError when a type pattern is not valid.
+     */
+    public static resolveDeclarations(
+        className: string,
+        type: Function,
+        aspects: Array<AspectDefinition>
+    ): Array<ResolvedParents> {
+        return DeclareParents.getDeclarations(aspects, className).map((declaration: ParentsDeclaration) => {
+            if (declaration.isExtends) {
+                const [superClassName]: Array<string> = declaration.parents;
+                const parent: Function | undefined = DeclareParents.resolve(superClassName);
+                if (!parent) {
+                    throw new ReferenceError(`ClassNotFoundException ${superClassName}`);
+                }
+                if (!DeclareParents.isLegalInheritance(type, parent)) {
+                    throw new TypeError(`IllegalArgumentException ${type.name} cannot extend ${parent.name}`);
+                }
+                if (DeclareParents.isBaseClass(type) && parent.length > 0) {
+                    throw new TypeError(
+                        `IllegalArgumentException ${type.name} cannot extend ${parent.name}, its constructor takes arguments`
+                    );
+                }
+                return {declaration, types: [parent]};
+            }
+            return {
+                declaration,
+                types: declaration.parents
+                    .map((name: string) => DeclareParents.resolve(name))
+                    .filter((mixin: Function | undefined): mixin is Function => mixin !== undefined)
+            };
+        });
+    }
+
+    /**
+     * Apply the resolved `declare parents` of aspects to a class. A class
+     * without superclass getting one is registered as the proxy returned
+     * by `construct`.
+     *
+     * @param className - The class name.
+     * @param type - The class.
+     * @param declarations - The list of {@link ResolvedParents}.
+     * @throws TypeError when the inheritance is not legal.
+     */
+    public static apply(className: string, type: Function, declarations: Array<ResolvedParents>): void {
+        declarations.forEach(({declaration, types}: ResolvedParents) => {
+            if (declaration.isExtends) {
+                const isBase: boolean = DeclareParents.isBaseClass(type);
+                DeclareParents.extend(type, types[0]);
+                if (isBase) {
+                    Descriptor.addType(className, DeclareParents.construct(Descriptor.getType(className), types[0]));
+                }
+            } else {
+                DeclareParents.implement(type, declaration.parents, types);
+            }
+        });
+    }
+
+    /**
+     * Re-parent a class.
+     *
+     * @param type - The class.
+     * @param parent - The new superclass.
+     * @throws TypeError when the inheritance is not legal.
+     */
+    public static extend(type: Function, parent: Function): void {
+        if (!DeclareParents.isLegalInheritance(type, parent)) {
+            throw new TypeError(`IllegalArgumentException ${type.name} cannot extend ${parent.name}`);
+        }
+        if (Object.getPrototypeOf(type.prototype) === parent.prototype) {
+            return;
+        }
+        Object.setPrototypeOf(type.prototype, parent.prototype);
+        Object.setPrototypeOf(type, parent);
+        const classDescriptor: ClassDescriptor | undefined = Descriptor.getClass(type.name);
+        if (classDescriptor) {
+            const {extendsClass}: {extendsClass: Array<string>} = classDescriptor.factory;
+            extendsClass.splice(0, extendsClass.length, parent.name, ...Class.getSuperClassNames(parent.prototype)
+                .filter((name: string) => name !== 'Object'));
+        }
+    }
+
+    /**
+     * Create a proxy of a class running the constructor of its new
+     * superclass, as the `super()` call inserted by compile-time weaving: a
+     * class without superclass does not call the constructor it inherits.
+     * The superclass is constructed first without arguments, apart from the
+     * object, its own properties are kept unless the class defines them.
+     *
+     * @param type - The registered class.
+     * @param parent - The new superclass.
+     * @returns The proxy, to register in place of the class
+     */
+    public static construct(type: Function, parent: Function): Function {
+        return new Proxy(type, {
+            construct(target: Function, args: Array<any>, newTarget: Function): object {
+                const inherited: object = Reflect.construct(parent, [], newTarget);
+                const instance: object = Reflect.construct(target, args, newTarget);
+                Object.entries(Object.getOwnPropertyDescriptors(inherited))
+                    .filter(([name]: [string, PropertyDescriptor]) => !Object.prototype.hasOwnProperty.call(instance, name))
+                    .forEach(([name, descriptor]: [string, PropertyDescriptor]) => {
+                        Object.defineProperty(instance, name, descriptor);
+                    });
+                return instance;
+            }
+        });
+    }
+
+    /**
+     * Register the interfaces of a class and mix in their members.
+     *
+     * @param type - The class.
+     * @param interfaces - The interface names.
+     * @param mixins - The classes whose prototype members are mixed in.
+     */
+    public static implement(type: Function, interfaces: Array<string>, mixins: Array<Function> = []): void {
+        Class.addInterfaces(type, interfaces);
+        mixins.forEach((mixin: Function) => {
+            Object.entries(Object.getOwnPropertyDescriptors(mixin.prototype))
+                .forEach(([name, descriptor]: [string, PropertyDescriptor]) => {
+                    if (name !== 'constructor' && !(name in type.prototype)) {
+                        Object.defineProperty(type.prototype, name, descriptor);
+                    }
+                });
+        });
+        const classDescriptor: ClassDescriptor | undefined = Descriptor.getClass(type.name);
+        if (classDescriptor) {
+            const {implementsInterfaces}: {implementsInterfaces: Array<string>} = classDescriptor.factory;
+            interfaces
+                .filter((name: string) => !implementsInterfaces.includes(name))
+                .forEach((name: string) => implementsInterfaces.push(name));
+        }
+    }
+
+    /**
+     * Return true when a class may extend another class: the new
+     * superclass must be the superclass of the class or one of its
+     * subclasses, and must not be the class or one of its subclasses.
+     *
+     * @param type - The class.
+     * @param parent - The new superclass.
+     * @returns True when legal
+     */
+    public static isLegalInheritance(type: Function, parent: Function): boolean {
+        if (typeof parent !== 'function' || !parent.prototype || Class.isAssignableFrom(parent, type)) {
+            return false;
+        }
+        const superClass: Function = Object.getPrototypeOf(type.prototype).constructor;
+        return superClass === Object || Class.isAssignableFrom(parent, superClass);
+    }
+
+    /**
+     * Return true when a class has no superclass.
+     *
+     * @param type - The class.
+     * @returns True when the prototype of the class extends `Object`
+     */
+    private static isBaseClass(type: Function): boolean {
+        return Object.getPrototypeOf(type.prototype) === Object.prototype;
+    }
+
+    /**
+     * Resolve a class by name from the registered types.
+     *
+     * @param name - The class name.
+     * @returns The class, undefined when not registered
+     */
+    private static resolve(name: string): Function | undefined {
+        const type: unknown = Descriptor.getType(name);
+        return typeof type === 'function' ? type : undefined;
+    }
+}
+
+export default DeclareParents;
@@ -0,0 +1,395 @@
+import {
+    Class,
+    Descriptor,
+    Field,
+    MemberDescriptor
+} from '@ornorm/aspectT';
+import {AdviceChain} from './advice-chain';
+import {AdviceMatcher, AspectCompiler, AspectDescriptor, ShadowMunger} from './aspect';
+import {AspectInstances} from './aspect-instances';
+import {ControlFlow} from './control-flow';
+import {JoinPoint, ProceedingJoinPoint, SourceLocation, StaticPart, UNKNOWN_LOCATION} from './join-point';
+import {JoinPointKind, Shadow} from './shadow';
+
+/**
+ * The advice woven into a field, run in order around its `get` and `set`
+ * join points. The field is replaced by an accessor: a `get` join point
+ * has no argument, a `set` join point has the assigned value as single
+ * argument, so `args(v)` binds it and an around advice may proceed with
+ * another value. Both join points are tracked by the {@link ControlFlow}
+ * while in progress.
+ *
+ * The first assignment of an instance field, e.g. by the initializers of
+ * a class compiled without `useDefineForClassFields`, defines an own
+ * enumerable accessor on the object, so `JSON.stringify`, spreading and
+ * `Object.assign` keep the field. An own property assigned before the
+ * field is woven hides the accessor. Once the chain is released, an own
+ * accessor becomes a data property holding its value on next access.
+ */
+export class FieldChain {
+    private readonly mClassName: string;
+    private readonly mField: Field;
+    private readonly mResolve: () => Array<AdviceMatcher>;
+    private readonly mShadows: Array<Shadow>;
+    private readonly mStaticParts: Map<JoinPointKind, StaticPart>;
+    private readonly mSourceLocation: SourceLocation;
+    private mMatchers: Array<AdviceMatcher> | undefined;
+    private mMungers: Map<JoinPointKind, Array<ShadowMunger>> | undefined;
+    private mReleased: boolean = false;
+
+    /**
+     * Create a chain.
+     *
+     * @param className - The name of the declaring class.
+     * @param field - The woven {@link Field}.
+     * @param matchers - Compute the list of {@link AdviceMatcher} of the
+     * woven aspects, called once on first use.
+     * @param sourceLocation - The {@link SourceLocation} of the field.
+     */
+    constructor(
+        className: string,
+        field: Field,
+        matchers: () => Array<AdviceMatcher>,
+        sourceLocation: SourceLocation = UNKNOWN_LOCATION
+    ) {
+        this.mClassName = className;
+        this.mField = field;
+        this.mResolve = matchers;
+        this.mSourceLocation = sourceLocation;
+        this.mShadows = FieldChain.createShadows(className, field);
+        this.mStaticParts = new Map<JoinPointKind, StaticPart>();
+    }
+
+    /**
+     * The name of the declaring class.
+     */
+    public get className(): string {
+        return this.mClassName;
+    }
+
+    /**
+     * The woven {@link Field}.
+     */
+    public get field(): Field {
+        return this.mField;
+    }
+
+    /**
+     * The list of {@link AdviceMatcher} of the woven aspects.
+     */
+    public get matchers(): Array<AdviceMatcher> {
+        if (!this.mMatchers) {
+            this.mMatchers = this.mResolve();
+        }
+        return this.mMatchers;
+    }
+
+    /**
+     * The {@link SourceLocation} of the field.
+     */
+    public get sourceLocation(): SourceLocation {
+        return this.mSourceLocation;
+    }
+
+    /**
+     * Create the `get` and `set` shadows of a field.
+     *
+     * @param className - The declaring class name.
+     * @param field - The field, static when `isStatic` is true.
+     * @returns The shadows
+     */
+    public static createShadows(className: string, field: MemberDescriptor & {isStatic: boolean}): Array<Shadow> {
+        return (['field-get', 'field-set'] as Array<JoinPointKind>)
+            .map((kind: JoinPointKind) => FieldChain.createShadow(kind, className, field));
+    }
+
+    /**
+     * Create the {@link Shadow} of a field. The accessing code is unknown
+     * to a chain, so `within` and `withincode` never match. The annotations
+     * captured by the descriptor are kept.
+     *
+     * @param kind - The join point kind.
+     * @param className - The declaring class name.
+     * @param field - The field, static when `isStatic` is true.
+     * @returns The shadow, typed by the field type
+     */
+    public static createShadow(
+        kind: JoinPointKind,
+        className: string,
+        field: MemberDescriptor & {isStatic: boolean}
+    ): Shadow {
+        const modifiers: Array<string> = [...field.modifiers];
+        if (field.isStatic && !modifiers.includes('static')) {
+            modifiers.push('static');
+        }
+        const shadow: Shadow = {
+            kind,
+            declaringType: className,
+            modifiers,
+            name: field.name,
+            returnType: field.type,
+            parameterTypes: [],
+            exceptionTypes: [],
+            withinType: ''
+        };
+        if (field.annotations) {
+            shadow.annotations = field.annotations;
+        }
+        return shadow;
+    }
+
+    /**
+     * Return the fields of a class, described by the registered
+     * descriptors when available, otherwise the static properties typed
+     * `any`.
+     *
+     * @param className - The class name.
+     * @param type - The class.
+     * @returns The list of {@link Field}
+     */
+    public static getFields(className: string, type: Function): Array<Field> {
+        if (Descriptor.getModuleOfClass(className)) {
+            const described: Class = Class.loadClass(className);
+            return [...described.members, ...described.factory.members];
+        }
+        return Object.entries(Object.getOwnPropertyDescriptors(type))
+            .filter(([name, descriptor]: [string, PropertyDescriptor]) =>
+                !['length', 'name', 'prototype'].includes(name) &&
+                'value' in descriptor && typeof descriptor.value !== 'function'
+            )
+            .map(([name]: [string, PropertyDescriptor]) => new Field(type, {
+                modifiers: [],
+                isGetter: false,
+                isSetter: false,
+                isProperty: true,
+                name,
+                type: 'any'
+            }, true));
+    }
+
+    /**
+     * Create a chain matching the aspects on first use, the form used by
+     * compile-time weaving.
+     *
+     * @param declaringClass - The declaring class.
+     * @param className - The name of the declaring class.
+     * @param descriptor - The {@link MemberDescriptor}.
+     * @param isStatic - True for a static field.
+     * @param aspects - Return the list of {@link AspectDescriptor} by
+     * decreasing precedence, unless ordered by a `declare precedence`.
+     * @param sourceLocation - The {@link SourceLocation} of the field.
+     * @returns The chain
+     */
+    public static lazy(
+        declaringClass: Function,
+        className: string,
+        descriptor: MemberDescriptor,
+        isStatic: boolean,
+        aspects: () => Array<AspectDescriptor>,
+        sourceLocation?: SourceLocation
+    ): FieldChain {
+        const field: Field = new Field(declaringClass, descriptor, isStatic);
+        return new FieldChain(className, field, () => AdviceChain.getMatchers(aspects), sourceLocation);
+    }
+
+    /**
+     * Create the accessor replacing the field. A static field, or an
+     * accessor, keeps its value in its original descriptor, an instance
+     * field in the own accessor defined on the object by its first
+     * assignment.
+     *
+     * @param descriptor - The original own property of the class or the
+     * prototype if any, updated by the `set` join points of a static field.
+     * @returns The accessor descriptor
+     */
+    public intercept(descriptor?: PropertyDescriptor): PropertyDescriptor {
+        const isStatic: boolean = this.mField.isStatic;
+        const name: string = this.mField.name;
+        const values: WeakMap<object, any> = new WeakMap<object, any>();
+        const read: (receiver: any) => any = (receiver: any): any => {
+            if (descriptor && descriptor.get) {
+                return descriptor.get.call(receiver);
+            }
+            if (!isStatic && values.has(receiver)) {
+                return values.get(receiver);
+            }
+            return descriptor && descriptor.value;
+        };
+        const write: (receiver: any, value: any) => void = (receiver: any, value: any): void => {
+            if (descriptor && descriptor.set) {
+                descriptor.set.call(receiver, value);
+            } else if (descriptor && (descriptor.get || !descriptor.writable)) {
+                throw new TypeError(`IllegalAccessException ${this.mClassName}.${name} is read-only`);
+            } else if (isStatic && descriptor) {
+                descriptor.value = value;
+            } else {
+                if (!isStatic && !values.has(receiver) && Object.isExtensible(receiver)) {
+                    Object.defineProperty(receiver, name, own);
+                }
+                values.set(receiver, value);
+            }
+        };
+        const get: (receiver: any) => any = (receiver: any): any => this.get(receiver, () => read(receiver));
+        const set: (receiver: any, value: any) => void = (receiver: any, value: any): void =>
+            this.set(receiver, value, (assigned: any) => write(receiver, assigned));
+        const restore: (receiver: any, value: any) => any = (receiver: any, value: any): any => {
+            Object.defineProperty(receiver, name, {configurable: true, enumerable: true, writable: true, value});
+            return value;
+        };
+        const released: () => boolean = (): boolean => this.mReleased;
+        const own: PropertyDescriptor = {
+            configurable: true,
+            enumerable: true,
+            get(this: any): any {
+                return released() ? restore(this, values.get(this)) : get(this);
+            },
+            set(this: any, value: any): void {
+                if (released()) {
+                    restore(this, value);
+                } else {
+                    set(this, value);
+                }
+            }
+        };
+        return {
+            configurable: true,
+            enumerable: descriptor ? descriptor.enumerable : true,
+            get(this: any): any {
+                // Prototypes are walked by reflection, e.g. Class.getMethodNames
+                if (!isStatic && Object.prototype.hasOwnProperty.call(this, 'constructor')) {
+                    return undefined;
+                }
+                return get(this);
+            },
+            set(this: any, value: any): void {
+                set(this, value);
+            }
+        };
+    }
+
+    /**
+     * Release the chain once its field is restored: the own accessors of
+     * the objects become data properties holding their values on next
+     * access, and no longer run the advice.
+     */
+    public release(): void {
+        this.mReleased = true;
+    }
+
+    /**
+     * Run the advice of the `get` join point and read the field.
+     *
+     * @param receiver - The object the field is read on.
+     * @param read - Read the field.
+     * @returns The value of the field, or the value returned by an around
+     * advice
+     */
+    public get(receiver: any, read: () => any): any {
+        return this.enter('field-get', receiver, [], () => read());
+    }
+
+    /**
+     * Run the advice of the `set` join point and write the field.
+     *
+     * @param receiver - The object the field is written on.
+     * @param value - The assigned value.
+     * @param write - Write the field.
+     */
+    public set(receiver: any, value: any, write: (value: any) => void): void {
+        this.enter('field-set', receiver, [value], (args: Array<any>) => write(args[0]));
+    }
+
+    /**
+     * Run a join point of the field within the {@link ControlFlow}, the
+     * aspect instances of its per clauses bound.
+     *
+     * @param kind - The join point kind.
+     * @param receiver - The object the field is accessed on.
+     * @param args - The arguments.
+     * @param body - Access the field with the arguments.
+     * @returns The result of the join point
+     */
+    private enter(kind: JoinPointKind, receiver: any, args: Array<any>, body: (args: Array<any>) => any): any {
+        const shadow: Shadow = this.mShadows.find((s: Shadow) => s.kind === kind)!;
+        const target: any = this.mField.isStatic ? undefined : receiver;
+        const joinPoint: JoinPoint = new JoinPoint(this.getStaticPart(kind), undefined, target, args);
+        return ControlFlow.run(shadow, joinPoint, () => {
+            AspectInstances.bind(this.matchers, ControlFlow.current!);
+            return this.proceed(kind, 0, receiver, args, body);
+        });
+    }
+
+    /**
+     * Return the list of {@link ShadowMunger} of a join point of the
+     * field, outermost first.
+     *
+     * @param kind - The join point kind.
+     * @returns The mungers
+     */
+    private getMungers(kind: JoinPointKind): Array<ShadowMunger> {
+        if (!this.mMungers) {
+            const mungers: Array<ShadowMunger> = AspectCompiler.match(this.matchers, this.mShadows);
+            this.mMungers = new Map<JoinPointKind, Array<ShadowMunger>>(
+                this.mShadows.map((shadow: Shadow) => [
+                    shadow.kind, mungers.filter((munger: ShadowMunger) => munger.shadow === shadow)
+                ])
+            );
+        }
+        return this.mMungers.get(kind)!;
+    }
+
+    /**
+     * Return the {@link StaticPart} of a join point of the field.
+     *
+     * @param kind - The join point kind.
+     * @returns The static part
+     */
+    private getStaticPart(kind: JoinPointKind): StaticPart {
+        let staticPart: StaticPart | undefined = this.mStaticParts.get(kind);
+        if (!staticPart) {
+            staticPart = new StaticPart(kind, this.mField, this.mSourceLocation);
+            this.mStaticParts.set(kind, staticPart);
+        }
+        return staticPart;
+    }
+
+    /**
+     * Run the chain of a join point from the specified index.
+     *
+     * @param kind - The join point kind.
+     * @param index - The index of the next advice.
+     * @param receiver - The object the field is accessed on.
+     * @param args - The arguments.
+     * @param body - Access the field with the arguments.
+     * @returns The result of the join point
+     */
+    private proceed(
+        kind: JoinPointKind,
+        index: number,
+        receiver: any,
+        args: Array<any>,
+        body: (args: Array<any>) => any
+    ): any {
+        const mungers: Array<ShadowMunger> = this.getMungers(kind);
+        if (index === mungers.length) {
+            return body(args);
+        }
+        const munger: ShadowMunger = mungers[index];
+        const target: any = this.mField.isStatic ? undefined : receiver;
+        const joinPoint: ProceedingJoinPoint = new ProceedingJoinPoint(
+            this.getStaticPart(kind),
+            undefined,
+            target,
+            args,
+            (proceedArgs: Array<any>) => this.proceed(kind, index + 1, receiver, proceedArgs, body)
+        );
+        if (munger.isDynamic && munger.matcher.match(
+            munger.advice.declaration.pointcut, munger.shadow, joinPoint, munger.advice.declaration.formals
+        ) !== 'yes') {
+            return joinPoint.proceed();
+        }
+        return AdviceChain.runAdvice(munger, joinPoint, false);
+    }
+}
+
+export default FieldChain;
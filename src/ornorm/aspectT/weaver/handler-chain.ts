@@ -0,0 +1,159 @@
+import {AdviceChain} from './advice-chain';
+import {AdviceMatcher, AspectCompiler, AspectDescriptor, ShadowMunger} from './aspect';
+import {AspectInstances} from './aspect-instances';
+import {ControlFlow} from './control-flow';
+import {
+    CatchClauseSignature,
+    JoinPoint,
+    ProceedingJoinPoint,
+    SourceLocation,
+    StaticPart,
+    UNKNOWN_LOCATION
+} from './join-point';
+import {Shadow} from './shadow';
+
+/**
+ * The before advice woven into a `catch` clause by compile-time weaving,
+ * run when the caught value enters the clause or the `instanceof` branch
+ * narrowing it. The caught value is the single argument of the join
+ * point, so `args(e)` binds it. The join point is tracked by the
+ * {@link ControlFlow} while the advice runs.
+ */
+export class HandlerChain {
+    private readonly mShadow: Shadow;
+    private readonly mResolve: () => Array<AdviceMatcher>;
+    private readonly mStaticPart: StaticPart;
+    private mMatchers: Array<AdviceMatcher> | undefined;
+    private mMungers: Array<ShadowMunger> | undefined;
+
+    /**
+     * Create a chain.
+     *
+     * @param declaringClass - The class declaring the code of the clause.
+     * @param shadow - The `handler` {@link Shadow}.
+     * @param matchers - Compute the list of {@link AdviceMatcher} of the
+     * woven aspects, called once on first use.
+     * @param sourceLocation - The {@link SourceLocation} of the clause.
+     */
+    constructor(
+        declaringClass: Function,
+        shadow: Shadow,
+        matchers: () => Array<AdviceMatcher>,
+        sourceLocation: SourceLocation = UNKNOWN_LOCATION
+    ) {
+        this.mShadow = shadow;
+        this.mResolve = matchers;
+        this.mStaticPart = new StaticPart(
+            'handler', new CatchClauseSignature(declaringClass, shadow.declaringType, shadow.name), sourceLocation
+        );
+    }
+
+    /**
+     * The `handler` {@link Shadow}.
+     */
+    public get shadow(): Shadow {
+        return this.mShadow;
+    }
+
+    /**
+     * The {@link StaticPart} of the join point.
+     */
+    public get staticPart(): StaticPart {
+        return this.mStaticPart;
+    }
+
+    /**
+     * The list of {@link AdviceMatcher} of the woven aspects.
+     */
+    public get matchers(): Array<AdviceMatcher> {
+        if (!this.mMatchers) {
+            this.mMatchers = this.mResolve();
+        }
+        return this.mMatchers;
+    }
+
+    /**
+     * The list of {@link ShadowMunger}, by precedence.
+     */
+    public get mungers(): Array<ShadowMunger> {
+        if (!this.mMungers) {
+            this.mMungers = AspectCompiler.match(this.matchers, [this.mShadow]);
+        }
+        return this.mMungers;
+    }
+
+    /**
+     * Create the {@link Shadow} of a `catch` clause, its declaring type is
+     * the handled type as matched by `handler`.
+     *
+     * @param className - The name of the class declaring the code of the
+     * clause.
+     * @param type - The handled type, `unknown` when not narrowed.
+     * @param name - The name of the caught value.
+     * @param withinCode - The shadow of the method or the constructor
+     * declaring the clause, if any.
+     * @returns The shadow
+     */
+    public static createShadow(className: string, type: string, name: string, withinCode?: Shadow): Shadow {
+        const shadow: Shadow = {
+            kind: 'handler',
+            declaringType: type,
+            modifiers: [],
+            name,
+            returnType: 'void',
+            parameterTypes: [type],
+            exceptionTypes: [],
+            withinType: className
+        };
+        if (withinCode) {
+            shadow.withinCode = withinCode;
+        }
+        return shadow;
+    }
+
+    /**
+     * Create a chain matching the aspects on first use.
+     *
+     * @param declaringClass - The class declaring the code of the clause.
+     * @param shadow - The `handler` {@link Shadow}.
+     * @param aspects - Return the list of {@link AspectDescriptor} by
+     * decreasing precedence, unless ordered by a `declare precedence`.
+     * @param sourceLocation - The {@link SourceLocation} of the clause.
+     * @returns The chain
+     */
+    public static lazy(
+        declaringClass: Function,
+        shadow: Shadow,
+        aspects: () => Array<AspectDescriptor>,
+        sourceLocation?: SourceLocation
+    ): HandlerChain {
+        return new HandlerChain(declaringClass, shadow, () => AdviceChain.getMatchers(aspects), sourceLocation);
+    }
+
+    /**
+     * Run the before advice of the clause.
+     *
+     * @param thisObject - The executing object, undefined in static code.
+     * @param error - The caught value.
+     */
+    public handle(thisObject: any, error: any): void {
+        const args: Array<any> = [error];
+        const joinPoint: JoinPoint = new JoinPoint(this.mStaticPart, thisObject, thisObject, args);
+        ControlFlow.run(this.mShadow, joinPoint, () => {
+            AspectInstances.bind(this.matchers, ControlFlow.current!);
+            this.mungers.forEach((munger: ShadowMunger) => {
+                const adviceJoinPoint: ProceedingJoinPoint = new ProceedingJoinPoint(
+                    this.mStaticPart, thisObject, thisObject, args, (): void => undefined
+                );
+                if (munger.isDynamic && munger.matcher.match(
+                    munger.advice.declaration.pointcut, munger.shadow, adviceJoinPoint, munger.advice.declaration.formals
+                ) !== 'yes') {
+                    return;
+                }
+                AdviceChain.runAdvice(munger, adviceJoinPoint, false);
+            });
+        });
+    }
+}
+
+export default HandlerChain;
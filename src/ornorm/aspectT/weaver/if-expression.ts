@@ -0,0 +1,267 @@
+import {
+    Class,
+    Formal,
+    IfPointcut,
+    PointcutLexer,
+    PointcutSyntaxError
+} from '@ornorm/aspectT';
+import {JoinPoint} from './join-point';
+import {JoinPointState} from './shadow';
+
+/**
+ * Resolve the name of a class referred to by an `if()` expression.
+ */
+export type TypeResolver = (name: string) => Function | undefined;
+
+/**
+ * A token of an `if()` expression.
+ */
+interface ExpressionToken {
+    text: string;
+    isName: boolean;
+    start: number;
+    end: number;
+}
+
+const TOKEN: RegExp = new RegExp([
+    '\\s*(?:',
+    '([A-Za-z_$][\\w$]*)',
+    '|(\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)',
+    '|(\'(?:[^\'\\\\]|\\\\.)*\'|"(?:[^"\\\\]|\\\\.)*")',
+    '|(===|!==|==|!=|<=|>=|&&|\\|\\||\\?\\?|\\?\\.|[()[\\],.?:!<>+\\-*/%])',
+    ')'
+].join(''), 'y');
+
+const KEYWORDS: Array<string> = ['true', 'false', 'null', 'undefined', 'typeof', 'instanceof'];
+
+const JOIN_POINT_VARIABLES: Array<string> = ['thisJoinPoint', 'thisJoinPointStaticPart'];
+
+const FORBIDDEN_MEMBERS: Array<string> = [
+    'constructor', 'prototype', '__proto__',
+    '__defineGetter__', '__defineSetter__', '__lookupGetter__', '__lookupSetter__'
+];
+
+const EXPRESSIONS: WeakMap<IfPointcut, IfExpression> = new WeakMap<IfPointcut, IfExpression>();
+
+/**
+ * The compiled expression of an `if()` pointcut.
+ *
+ * The expression only sees the variables bound by the pointcut,
+ * `thisJoinPoint`, `thisJoinPointStaticPart` and the static members of
+ * the classes resolved through `Class.forName`, e.g.
+ * `if(Tracing.isEnabled() && amount > 0)`. Literals, operators, calls
+ * and member accesses are allowed, assignments, functions, `this`,
+ * `new` and computed accesses other than by number are not. A class may
+ * also be the right operand of `instanceof`.
+ */
+export class IfExpression {
+    private readonly mExpression: string;
+    private readonly mFormals: Array<Formal>;
+    private readonly mTypes: Map<string, Function>;
+    private readonly mEvaluate: Function;
+
+    /**
+     * Create an expression, use `compile`.
+     *
+     * @param expression - The source text.
+     * @param formals - The formals in scope.
+     * @param types - The classes referred to, by name.
+     * @param evaluate - The compiled expression, taking the values of the
+     * formals, of the join point variables and of the classes.
+     */
+    private constructor(expression: string, formals: Array<Formal>, types: Map<string, Function>, evaluate: Function) {
+        this.mExpression = expression;
+        this.mFormals = formals;
+        this.mTypes = types;
+        this.mEvaluate = evaluate;
+    }
+
+    /**
+     * The source text.
+     */
+    public get expression(): string {
+        return this.mExpression;
+    }
+
+    /**
+     * The formals in scope.
+     */
+    public get formals(): Array<Formal> {
+        return this.mFormals;
+    }
+
+    /**
+     * The names of the classes referred to.
+     */
+    public get typeNames(): Array<string> {
+        return [...this.mTypes.keys()];
+    }
+
+    /**
+     * Compile the expression of an `if()` pointcut once, the expression is
+     * kept for the node.
+     *
+     * @param node - The {@link IfPointcut}.
+     * @param formals - The formals in scope.
+     * @param resolve - Resolve the classes, `Class.forName` by default.
+     * @returns The compiled expression
+     * @throws PointcutSyntaxError when the expression is not valid or
+     * refers to a name out of its scope.
+     */
+    public static compile(
+        node: IfPointcut,
+        formals: Array<Formal>,
+        resolve: TypeResolver = IfExpression.forName
+    ): IfExpression {
+        let expression: IfExpression | undefined = EXPRESSIONS.get(node);
+        if (!expression) {
+            expression = IfExpression.create(node.expression, formals, resolve);
+            EXPRESSIONS.set(node, expression);
+        }
+        return expression;
+    }
+
+    /**
+     * Resolve a class through `Class.forName`.
+     *
+     * @param name - The class name.
+     * @returns The class otherwise undefined
+     */
+    public static forName(name: string): Function | undefined {
+        try {
+            return Class.forName(name);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Return the compiled expression of an `if()` pointcut, if compiled.
+     *
+     * @param node - The {@link IfPointcut}.
+     * @returns The expression otherwise undefined
+     */
+    public static get(node: IfPointcut): IfExpression | undefined {
+        return EXPRESSIONS.get(node);
+    }
+
+    /**
+     * Evaluate the expression at a join point.
+     *
+     * @param values - The values of the formals, in order.
+     * @param state - The runtime state of the join point.
+     * @returns True when the expression is truthy
+     */
+    public evaluate(values: Array<any>, state: JoinPointState): boolean {
+        const staticPart: any = state instanceof JoinPoint ? state.staticPart : undefined;
+        return Boolean(Reflect.apply(this.mEvaluate, undefined, [
+            ...this.mFormals.map((formal: Formal, index: number) => values[index]),
+            state,
+            staticPart,
+            ...this.mTypes.values()
+        ]));
+    }
+
+    /**
+     * Check and compile an expression.
+     *
+     * @param expression - The source text.
+     * @param formals - The formals in scope.
+     * @param resolve - Resolve the classes.
+     * @returns The compiled expression
+     * @throws PointcutSyntaxError when the expression is not valid or
+     * refers to a name out of its scope.
+     */
+    private static create(expression: string, formals: Array<Formal>, resolve: TypeResolver): IfExpression {
+        const source: string = `if(${expression})`;
+        const lexer: PointcutLexer = new PointcutLexer(source);
+        const fail: (reason: string, start: number, end: number) => never = (
+            reason: string,
+            start: number,
+            end: number
+        ): never => {
+            throw new PointcutSyntaxError(reason, source, lexer.rangeOf(start + 3, end + 3));
+        };
+        const tokens: Array<ExpressionToken> = [];
+        TOKEN.lastIndex = 0;
+        while (TOKEN.lastIndex < expression.length) {
+            const offset: number = TOKEN.lastIndex;
+            const match: RegExpExecArray | null = TOKEN.exec(expression);
+            if (!match) {
+                if (!expression.substring(offset).trim()) {
+                    break;
+                }
+                const start: number = offset + expression.substring(offset).search(/\S/);
+                fail(`Unexpected '${expression[start]}' in 'if()'`, start, start + 1);
+            }
+            const text: string = match![1] || match![2] || match![3] || match![4];
+            tokens.push({text, isName: match![1] !== undefined, start: TOKEN.lastIndex - text.length, end: TOKEN.lastIndex});
+        }
+        const formalNames: Array<string> = formals.map((formal: Formal) => formal.name);
+        const types: Map<string, Function> = new Map<string, Function>();
+        tokens.forEach(({text, isName, start, end}: ExpressionToken, index: number) => {
+            const previous: string | undefined = index > 0 ? tokens[index - 1].text : undefined;
+            if (text === '[' && !(tokens[index + 1] && /^\d/.test(tokens[index + 1].text) &&
+                tokens[index + 2] && tokens[index + 2].text === ']')) {
+                fail('Expected number in \'[]\' of \'if()\'', start, end);
+            }
+            if (!isName) {
+                return;
+            }
+            if (previous === '.' || previous === '?.') {
+                if (FORBIDDEN_MEMBERS.includes(text)) {
+                    fail(`Illegal member '${text}' in 'if()'`, start, end);
+                }
+                return;
+            }
+            if (KEYWORDS.includes(text) || formalNames.includes(text) || JOIN_POINT_VARIABLES.includes(text)) {
+                return;
+            }
+            const type: Function | undefined = types.get(text) || resolve(text);
+            if (!type) {
+                fail(`Unknown name '${text}' in 'if()', expected a bound variable, a join point or a class`, start, end);
+            }
+            const member: ExpressionToken | undefined = tokens[index + 1] &&
+                tokens[index + 1].text === '.' ? tokens[index + 2] : undefined;
+            if (previous !== 'instanceof' && (!member || !IfExpression.isStaticMember(type!, member.text))) {
+                fail(
+                    `Expected static member of '${text}' in 'if()'`,
+                    member ? member.start : start,
+                    member ? member.end : end
+                );
+            }
+            types.set(text, type!);
+        });
+        let evaluate: Function;
+        try {
+            evaluate = new Function(
+                ...formalNames, ...JOIN_POINT_VARIABLES, ...types.keys(), `'use strict'; return (${expression});`
+            );
+        } catch (e: any) {
+            return fail(`Invalid expression in 'if()': ${e.message}`, 0, expression.length);
+        }
+        return new IfExpression(expression, formals, types, evaluate);
+    }
+
+    /**
+     * Return true when a member is a static member of a class or of its
+     * super classes.
+     *
+     * @param type - The class.
+     * @param name - The member name.
+     * @returns True when allowed
+     */
+    private static isStaticMember(type: Function, name: string): boolean {
+        if (FORBIDDEN_MEMBERS.includes(name) || ['name', 'length'].includes(name)) {
+            return false;
+        }
+        for (let t: any = type; t && t !== Function.prototype; t = Object.getPrototypeOf(t)) {
+            if (Object.prototype.hasOwnProperty.call(t, name)) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
+
+export default IfExpression;
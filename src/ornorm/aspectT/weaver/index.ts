@@ -0,0 +1,19 @@
+export * from './advice-chain';
+export * from './aspect';
+export * from './aspect-instances';
+export * from './aspect-registry';
+export * from './constructor-chain';
+export * from './control-flow';
+export * from './declare-annotations';
+export * from './declare-parents';
+export * from './field-chain';
+export * from './handler-chain';
+export * from './if-expression';
+export * from './inter-types';
+export * from './join-point';
+export * from './pattern-matcher';
+export * from './pointcut-matcher';
+export * from './precedence';
+export * from './shadow';
+export * from './soft-exception';
+export * from './weaver';
@@ -0,0 +1,254 @@
+import {Descriptor} from '@ornorm/aspectT';
+import {AspectDescriptor, InterTypeDescriptor} from './aspect';
+
+const DECLARATION: RegExp =
+    /^((?:(?:public|private|static|abstract)\s+)*)([A-Za-z_$][\w$]*)\s*\.\s*([A-Za-z_$][\w$]*)\s*(\(\s*\.\.\s*\))?$/;
+
+const APPLIED: WeakMap<Function, Set<string>> = new WeakMap<Function, Set<string>>();
+
+const CONSTRUCTORS: WeakMap<Function, Array<Function>> = new WeakMap<Function, Array<Function>>();
+
+/**
+ * Interface that represent a parsed inter-type member declaration.
+ */
+export interface InterTypeDeclaration {
+    kind: 'method' | 'constructor' | 'field';
+    /**
+     * The name of the target type.
+     */
+    onType: string;
+    /**
+     * The member name, `new` for a constructor.
+     */
+    name: string;
+    /**
+     * True when only visible in the declaring aspect.
+     */
+    isPrivate: boolean;
+    isStatic: boolean;
+    isAbstract: boolean;
+}
+
+/**
+ * Interface that represent an inter-type member declaration resolved
+ * against its target type.
+ */
+export interface InterTypeMember {
+    /**
+     * The key of the declaration, injected once.
+     */
+    key: string;
+    /**
+     * The name the member is injected under.
+     */
+    name: string;
+    declaration: InterTypeDeclaration;
+    /**
+     * The aspect method.
+     */
+    body: Function;
+}
+
+/**
+ * Inject the inter-type member declarations of aspects into their target
+ * types:
+ *
+ * - a method is added to the prototype, or to the class when static, the
+ * aspect method is called with `this` bound to the target;
+ * - a field is initialized by the aspect method on first access, with
+ * `this` bound to the target instance, static fields on injection;
+ * - a constructor is selected by its number of arguments when the class
+ * is instantiated through its registered type, the aspect method is run
+ * with `this` bound to the new instance in place of the original body;
+ * - an abstract method only declares the member, nothing is injected.
+ *
+ * A member private to the aspect is injected under the name returned by
+ * `getMemberName`, a public member must not be declared by the target
+ * itself.
+ */
+export class InterTypes {
+    /**
+     * Parse an inter-type member declaration.
+     *
+     * @param declaration - The declaration, e.g. `private Foo.m(..)`.
+     * @returns The {@link InterTypeDeclaration}
+     * @throws TypeError when the declaration is not valid.
+     */
+    public static parse(declaration: string): InterTypeDeclaration {
+        const match: RegExpExecArray | null = DECLARATION.exec(declaration.trim());
+        if (!match) {
+            throw new TypeError(`IllegalArgumentException inter-type declaration ${declaration}`);
+        }
+        const [, modifiers, onType, name, parameters]: RegExpExecArray = match;
+        const names: Array<string> = modifiers.split(/\s+/).filter((modifier: string) => modifier.length > 0);
+        const kind: 'method' | 'constructor' | 'field' = name === 'new' ? 'constructor' : parameters ? 'method' : 'field';
+        const isStatic: boolean = names.includes('static');
+        const isAbstract: boolean = names.includes('abstract');
+        if (kind === 'constructor' && (!parameters || isStatic || isAbstract) || kind === 'field' && isAbstract) {
+            throw new TypeError(`IllegalArgumentException inter-type declaration ${declaration}`);
+        }
+        return {kind, onType, name, isPrivate: names.includes('private'), isStatic, isAbstract};
+    }
+
+    /**
+     * Return the name a member is injected under, private members are
+     * prefixed by the name of the declaring aspect.
+     *
+     * @param aspectName - The name of the declaring aspect.
+     * @param declaration - The {@link InterTypeDeclaration}.
+     * @returns The member name
+     */
+    public static getMemberName(aspectName: string, declaration: InterTypeDeclaration): string {
+        return declaration.isPrivate ? `aspectT$${aspectName}$${declaration.name}` : declaration.name;
+    }
+
+    /**
+     * Resolve the inter-type member declarations of aspects targeting a
+     * class and not injected yet, nothing is injected so a declaration
+     * failing leaves the class unchanged.
+     *
+     * @param className - The class name.
+     * @param type - The class.
+     * @param aspects - The list of {@link AspectDescriptor}.
+     * @returns The list of {@link InterTypeMember}
+     * @throws ReferenceError when an aspect method is missing.
+     * @throws TypeError when a declaration is not valid or a public member
+     * is already declared by the class.
+     */
+    public static resolveMembers(
+        className: string,
+        type: Function,
+        aspects: Array<AspectDescriptor>
+    ): Array<InterTypeMember> {
+        const applied: Set<string> = APPLIED.get(type) || new Set<string>();
+        const declared: Set<string> = new Set<string>();
+        const members: Array<InterTypeMember> = [];
+        aspects.forEach((aspect: AspectDescriptor) => (aspect.interTypes || []).forEach((interType: InterTypeDescriptor) => {
+            const declaration: InterTypeDeclaration = InterTypes.parse(interType.declaration);
+            const key: string = `${aspect.name}:${interType.declaration}`;
+            if (declaration.onType !== className || applied.has(key)) {
+                return;
+            }
+            const body: Function = Reflect.get(aspect.type.prototype, interType.name);
+            if (typeof body !== 'function') {
+                throw new ReferenceError(`NoSuchMethodException ${aspect.name}.${interType.name}`);
+            }
+            const name: string = InterTypes.getMemberName(aspect.name, declaration);
+            if (declaration.kind !== 'constructor' && !declaration.isAbstract) {
+                const owner: any = declaration.isStatic ? type : type.prototype;
+                const member: string = `${declaration.isStatic ? 'static ' : ''}${name}`;
+                if (Object.prototype.hasOwnProperty.call(owner, name) || declared.has(member)) {
+                    throw new TypeError(
+                        `IllegalArgumentException ${declaration.onType}.${declaration.name} is already declared`
+                    );
+                }
+                declared.add(member);
+            }
+            members.push({key, name, declaration, body});
+        }));
+        return members;
+    }
+
+    /**
+     * Inject the resolved inter-type member declarations into a class, a
+     * declaration is injected once.
+     *
+     * @param className - The class name.
+     * @param type - The class.
+     * @param members - The list of {@link InterTypeMember}.
+     * @throws TypeError when a public member is already declared by the
+     * class.
+     */
+    public static apply(className: string, type: Function, members: Array<InterTypeMember>): void {
+        const applied: Set<string> = APPLIED.get(type) || new Set<string>();
+        APPLIED.set(type, applied);
+        members
+            .filter((member: InterTypeMember) => !applied.has(member.key))
+            .forEach(({key, name, declaration, body}: InterTypeMember) => {
+                applied.add(key);
+                if (declaration.kind === 'constructor') {
+                    InterTypes.addConstructor(className, type, body);
+                } else if (!declaration.isAbstract) {
+                    InterTypes.addMember(type, name, declaration, body);
+                }
+            });
+    }
+
+    /**
+     * Add a method or a field.
+     *
+     * @param type - The class.
+     * @param name - The member name.
+     * @param declaration - The {@link InterTypeDeclaration}.
+     * @param body - The aspect method.
+     * @throws TypeError when a public member is already declared.
+     */
+    private static addMember(type: Function, name: string, declaration: InterTypeDeclaration, body: Function): void {
+        const owner: any = declaration.isStatic ? type : type.prototype;
+        if (Object.prototype.hasOwnProperty.call(owner, name)) {
+            throw new TypeError(
+                `IllegalArgumentException ${declaration.onType}.${declaration.name} is already declared`
+            );
+        }
+        if (declaration.kind === 'method') {
+            Object.defineProperty(owner, name, {configurable: true, enumerable: false, writable: true, value: body});
+        } else if (declaration.isStatic) {
+            Object.defineProperty(owner, name, {
+                configurable: true, enumerable: true, writable: true, value: body.call(type)
+            });
+        } else {
+            const define: (instance: any, value: any) => void = (instance: any, value: any): void => {
+                Object.defineProperty(instance, name, {configurable: true, enumerable: true, writable: true, value});
+            };
+            Object.defineProperty(owner, name, {
+                configurable: true,
+                enumerable: false,
+                get(this: any): any {
+                    // Prototypes are walked by reflection, e.g. Class.getMethodNames
+                    if (Object.prototype.hasOwnProperty.call(this, 'constructor')) {
+                        return undefined;
+                    }
+                    const value: any = body.call(this);
+                    define(this, value);
+                    return value;
+                },
+                set(this: any, value: any): void {
+                    define(this, value);
+                }
+            });
+        }
+    }
+
+    /**
+     * Add a constructor, the registered type is replaced by a proxy
+     * selecting the constructors by number of arguments.
+     *
+     * @param className - The class name.
+     * @param type - The class.
+     * @param body - The aspect method.
+     */
+    private static addConstructor(className: string, type: Function, body: Function): void {
+        const constructors: Array<Function> | undefined = CONSTRUCTORS.get(type);
+        if (constructors) {
+            constructors.push(body);
+            return;
+        }
+        const added: Array<Function> = [body];
+        const proxy: Function = new Proxy(type, {
+            construct(target: Function, args: Array<any>, newTarget: Function): object {
+                const constructor: Function | undefined = added.find((fn: Function) => fn.length === args.length);
+                const instance: object = Reflect.construct(target, constructor ? [] : args, newTarget);
+                if (constructor) {
+                    constructor.apply(instance, args);
+                }
+                return instance;
+            }
+        });
+        CONSTRUCTORS.set(type, added);
+        CONSTRUCTORS.set(proxy, added);
+        APPLIED.set(proxy, APPLIED.get(type)!);
+        Descriptor.addType(className, proxy);
+    }
+}
+
+export default InterTypes;
@@ -0,0 +1,465 @@
+import {AdviceKind, Constructor, Field, Method, Parameter} from '@ornorm/aspectT';
+import {ControlFlow, ControlFlowFrame} from './control-flow';
+import {JoinPointKind, JoinPointState} from './shadow';
+
+/**
+ * The signature of an advice, the method of the aspect running it.
+ */
+export class AdviceSignature {
+    private readonly mAdviceKind: AdviceKind;
+    private readonly mDeclaringClass: Function;
+    private readonly mName: string;
+
+    /**
+     * Create a signature.
+     *
+     * @param declaringClass - The aspect class.
+     * @param name - The name of the advice method.
+     * @param adviceKind - The {@link AdviceKind}.
+     */
+    constructor(declaringClass: Function, name: string, adviceKind: AdviceKind) {
+        this.mDeclaringClass = declaringClass;
+        this.mName = name;
+        this.mAdviceKind = adviceKind;
+    }
+
+    /**
+     * The {@link AdviceKind}.
+     */
+    public get adviceKind(): AdviceKind {
+        return this.mAdviceKind;
+    }
+
+    /**
+     * The aspect class.
+     */
+    public get declaringClass(): Function {
+        return this.mDeclaringClass;
+    }
+
+    /**
+     * The name of the advice method.
+     */
+    public get name(): string {
+        return this.mName;
+    }
+}
+
+/**
+ * The signature of a `catch` clause, the handled type is the type the
+ * caught value is narrowed to.
+ */
+export class CatchClauseSignature {
+    private readonly mDeclaringClass: Function;
+    private readonly mName: string;
+    private readonly mParameterType: string;
+
+    /**
+     * Create a signature.
+     *
+     * @param declaringClass - The class declaring the code of the clause.
+     * @param parameterType - The handled type.
+     * @param name - The name of the caught value.
+     */
+    constructor(declaringClass: Function, parameterType: string, name: string) {
+        this.mDeclaringClass = declaringClass;
+        this.mParameterType = parameterType;
+        this.mName = name;
+    }
+
+    /**
+     * The class declaring the code of the clause.
+     */
+    public get declaringClass(): Function {
+        return this.mDeclaringClass;
+    }
+
+    /**
+     * The name of the caught value.
+     */
+    public get name(): string {
+        return this.mName;
+    }
+
+    /**
+     * The handled type.
+     */
+    public get parameterType(): string {
+        return this.mParameterType;
+    }
+}
+
+/**
+ * The signature of the static initialization of a class.
+ */
+export class InitializerSignature {
+    private readonly mDeclaringClass: Function;
+
+    /**
+     * Create a signature.
+     *
+     * @param declaringClass - The initialized class.
+     */
+    constructor(declaringClass: Function) {
+        this.mDeclaringClass = declaringClass;
+    }
+
+    /**
+     * The initialized class.
+     */
+    public get declaringClass(): Function {
+        return this.mDeclaringClass;
+    }
+
+    /**
+     * The name of the static initializer, `<clinit>` as in Java.
+     */
+    public get name(): string {
+        return '<clinit>';
+    }
+}
+
+/**
+ * The member, the `catch` clause, the static initializer or the advice a
+ * join point is about.
+ */
+export type Signature =
+    Method |
+    Constructor<any> |
+    Field |
+    AdviceSignature |
+    CatchClauseSignature |
+    InitializerSignature;
+
+/**
+ * The location in the sources of a join point, the line and the column
+ * are 0 when unknown.
+ */
+export interface SourceLocation {
+    /**
+     * The name of the source file.
+     */
+    fileName: string;
+    /**
+     * The line number, starting at 1.
+     */
+    line: number;
+    /**
+     * The column number, starting at 1.
+     */
+    column: number;
+}
+
+/**
+ * The location used when the sources are unknown.
+ */
+export const UNKNOWN_LOCATION: SourceLocation = {fileName: '', line: 0, column: 0};
+
+const DESIGNATORS: Record<JoinPointKind, string> = {
+    'method-call': 'call',
+    'method-execution': 'execution',
+    'constructor-call': 'call',
+    'constructor-execution': 'execution',
+    'field-get': 'get',
+    'field-set': 'set',
+    'handler': 'handler',
+    'static-initialization': 'staticinitialization',
+    'initialization': 'initialization',
+    'preinitialization': 'preinitialization',
+    'advice-execution': 'adviceexecution'
+};
+
+/**
+ * The join point being advised, only set while an advice runs
+ * synchronously.
+ */
+export let thisJoinPoint: JoinPoint | undefined;
+
+/**
+ * The static part of the join point being advised, only set while an
+ * advice runs synchronously.
+ */
+export let thisJoinPointStaticPart: StaticPart | undefined;
+
+/**
+ * The static part of the join point enclosing the one being advised, the
+ * join point itself for an `execution`, the executing woven method for a
+ * `call`.
+ */
+export let thisEnclosingJoinPointStaticPart: StaticPart | undefined;
+
+let EXECUTING: StaticPart | undefined;
+
+/**
+ * Proceed with the join point advised by the running around advice. The
+ * join point is kept by the {@link ControlFlow} of the advice, so an
+ * async advice may `await` before it proceeds.
+ *
+ * @param args - The arguments to use instead of the original ones.
+ * @returns The result of the join point
+ * @throws Error when no around advice is running.
+ */
+export function proceed(args?: Array<any>): any {
+    const frame: ControlFlowFrame | undefined = ControlFlow.current;
+    const joinPoint: JoinPoint | undefined = frame && frame.advised;
+    if (!(joinPoint instanceof ProceedingJoinPoint)) {
+        throw new Error('IllegalStateException proceed() called outside of around advice');
+    }
+    return joinPoint.proceed(args);
+}
+
+/**
+ * The part of a join point known without running it.
+ */
+export class StaticPart {
+    private readonly mKind: JoinPointKind;
+    private readonly mSignature: Signature;
+    private readonly mSourceLocation: SourceLocation;
+
+    /**
+     * Create a static part.
+     *
+     * @param kind - The join point kind.
+     * @param signature - The {@link Signature}.
+     * @param sourceLocation - The {@link SourceLocation}.
+     */
+    constructor(kind: JoinPointKind, signature: Signature, sourceLocation: SourceLocation = UNKNOWN_LOCATION) {
+        this.mKind = kind;
+        this.mSignature = signature;
+        this.mSourceLocation = sourceLocation;
+    }
+
+    /**
+     * The join point kind.
+     */
+    public get kind(): JoinPointKind {
+        return this.mKind;
+    }
+
+    /**
+     * The {@link Signature}.
+     */
+    public get signature(): Signature {
+        return this.mSignature;
+    }
+
+    /**
+     * The {@link SourceLocation}.
+     */
+    public get sourceLocation(): SourceLocation {
+        return this.mSourceLocation;
+    }
+
+    /**
+     * Return the pointcut form of the join point, e.g.
+     * `execution(number Account.deposit(number))`.
+     *
+     * @returns The string
+     */
+    public toString(): string {
+        return `${DESIGNATORS[this.mKind]}(${StaticPart.toSignatureString(this.mSignature)})`;
+    }
+
+    /**
+     * Return the pattern form of a signature.
+     *
+     * @param signature - The {@link Signature}.
+     * @returns The string, e.g. `number Account.deposit(number)`
+     */
+    private static toSignatureString(signature: Signature): string {
+        if (signature instanceof CatchClauseSignature) {
+            return signature.parameterType;
+        }
+        const className: string = signature.declaringClass.name;
+        if (signature instanceof InitializerSignature) {
+            return className;
+        }
+        if (signature instanceof AdviceSignature) {
+            return `${signature.adviceKind} ${className}.${signature.name}`;
+        }
+        if (signature instanceof Field) {
+            return `${signature.type} ${className}.${signature.name}`;
+        }
+        const types: string = signature.parameters.map((parameter: Parameter) => parameter.type).join(', ');
+        if (signature instanceof Constructor) {
+            return `${className}(${types})`;
+        }
+        return `${signature.returnType} ${className}.${signature.name}(${types})`;
+    }
+}
+
+/**
+ * A join point being run, the last argument of every advice method.
+ */
+export class JoinPoint implements JoinPointState {
+    /**
+     * The {@link StaticPart} class, `JoinPoint.StaticPart` in AspectJ.
+     */
+    public static readonly StaticPart: typeof StaticPart = StaticPart;
+
+    private readonly mArgs: Array<any>;
+    private readonly mStaticPart: StaticPart;
+    private readonly mTarget: any;
+    private readonly mThisObject: any;
+
+    /**
+     * Create a join point.
+     *
+     * @param staticPart - The {@link StaticPart}.
+     * @param thisObject - The currently executing object.
+     * @param target - The target object.
+     * @param args - The arguments.
+     */
+    constructor(staticPart: StaticPart, thisObject: any, target: any, args: Array<any>) {
+        this.mStaticPart = staticPart;
+        this.mThisObject = thisObject;
+        this.mTarget = target;
+        this.mArgs = args;
+    }
+
+    /**
+     * The arguments.
+     */
+    public get args(): Array<any> {
+        return this.mArgs;
+    }
+
+    /**
+     * The join point kind.
+     */
+    public get kind(): JoinPointKind {
+        return this.mStaticPart.kind;
+    }
+
+    /**
+     * The {@link Signature}.
+     */
+    public get signature(): Signature {
+        return this.mStaticPart.signature;
+    }
+
+    /**
+     * The {@link SourceLocation}.
+     */
+    public get sourceLocation(): SourceLocation {
+        return this.mStaticPart.sourceLocation;
+    }
+
+    /**
+     * The {@link StaticPart}.
+     */
+    public get staticPart(): StaticPart {
+        return this.mStaticPart;
+    }
+
+    /**
+     * The target object, undefined for static members.
+     */
+    public get target(): any {
+        return this.mTarget;
+    }
+
+    /**
+     * The currently executing object, undefined for static members and
+     * for `call` join points.
+     */
+    public get thisObject(): any {
+        return this.mThisObject;
+    }
+
+    /**
+     * Run an advice with `thisJoinPoint`, `thisJoinPointStaticPart` and
+     * `thisEnclosingJoinPointStaticPart` set.
+     *
+     * @param joinPoint - The advised {@link JoinPoint}.
+     * @param advice - The advice.
+     * @returns The result of the advice
+     */
+    public static advise<T>(joinPoint: JoinPoint, advice: () => T): T {
+        const previous: [JoinPoint | undefined, StaticPart | undefined, StaticPart | undefined] = [
+            thisJoinPoint, thisJoinPointStaticPart, thisEnclosingJoinPointStaticPart
+        ];
+        thisJoinPoint = joinPoint;
+        thisJoinPointStaticPart = joinPoint.staticPart;
+        thisEnclosingJoinPointStaticPart = joinPoint.kind.endsWith('-call') ? EXECUTING : joinPoint.staticPart;
+        try {
+            return advice();
+        } finally {
+            [thisJoinPoint, thisJoinPointStaticPart, thisEnclosingJoinPointStaticPart] = previous;
+        }
+    }
+
+    /**
+     * Run the original code of a join point, the enclosing join point of
+     * the calls it makes. `thisJoinPoint` and its companions are unset as
+     * the code is not part of an advice.
+     *
+     * @param staticPart - The {@link StaticPart} of the executed join point.
+     * @param body - The original code.
+     * @returns The result of the code
+     */
+    public static execute<T>(staticPart: StaticPart, body: () => T): T {
+        const previous: [JoinPoint | undefined, StaticPart | undefined, StaticPart | undefined, StaticPart | undefined] = [
+            thisJoinPoint, thisJoinPointStaticPart, thisEnclosingJoinPointStaticPart, EXECUTING
+        ];
+        thisJoinPoint = thisJoinPointStaticPart = thisEnclosingJoinPointStaticPart = undefined;
+        EXECUTING = staticPart;
+        try {
+            return body();
+        } finally {
+            [thisJoinPoint, thisJoinPointStaticPart, thisEnclosingJoinPointStaticPart, EXECUTING] = previous;
+        }
+    }
+
+    /**
+     * Return the string form of the join point.
+     *
+     * @returns The string, e.g. `execution(number Account.deposit(number))`
+     */
+    public toString(): string {
+        return this.mStaticPart.toString();
+    }
+}
+
+/**
+ * A join point advised by an around advice, which may proceed with
+ * different arguments. The rest of the chain runs in the control flow
+ * the join point was created in, not in the one of the advice.
+ */
+export class ProceedingJoinPoint extends JoinPoint {
+    private readonly mFrame: ControlFlowFrame | undefined;
+    private readonly mProceed: (args: Array<any>) => any;
+
+    /**
+     * Create a join point.
+     *
+     * @param staticPart - The {@link StaticPart}.
+     * @param thisObject - The currently executing object.
+     * @param target - The target object.
+     * @param args - The arguments.
+     * @param proceed - Run the rest of the advice chain.
+     */
+    constructor(
+        staticPart: StaticPart,
+        thisObject: any,
+        target: any,
+        args: Array<any>,
+        proceed: (args: Array<any>) => any
+    ) {
+        super(staticPart, thisObject, target, args);
+        this.mFrame = ControlFlow.current;
+        this.mProceed = proceed;
+    }
+
+    /**
+     * Run the rest of the advice chain and the join point.
+     *
+     * @param args - The arguments to use instead of the original ones.
+     * @returns The result of the join point
+     */
+    public proceed(args?: Array<any>): any {
+        return ControlFlow.resume(this.mFrame, () => this.mProceed(args || this.args));
+    }
+}
+
+export default JoinPoint;
@@ -0,0 +1,551 @@
+import {
+    Annotation,
+    Annotations,
+    Class,
+    ClassDescriptor,
+    ConstructorPattern,
+    Descriptor,
+    FieldPattern,
+    InterfaceDescriptor,
+    MethodPattern,
+    ModifierPattern,
+    ModuleDescriptor,
+    ParameterPattern,
+    Primitive,
+    ThrowsPattern,
+    TypePattern
+} from '@ornorm/aspectT';
+import {Fuzzy, FuzzyBoolean, Shadow} from './shadow';
+
+/**
+ * Java primitive and boxed type names accepted in patterns, mapped to
+ * their typescript counterpart.
+ */
+const TYPE_ALIASES: Record<string, string> = {
+    byte: 'number',
+    short: 'number',
+    int: 'number',
+    long: 'number',
+    float: 'number',
+    double: 'number',
+    char: 'string',
+    Byte: 'number',
+    Short: 'number',
+    Integer: 'number',
+    Long: 'number',
+    Float: 'number',
+    Double: 'number',
+    Number: 'number',
+    Character: 'string',
+    String: 'string',
+    Boolean: 'boolean',
+    BigInt: 'bigint',
+    Symbol: 'symbol'
+};
+
+const NAME_PATTERNS: Map<string, RegExp> = new Map<string, RegExp>();
+
+const MODULES: Array<ModuleDescriptor> = [];
+
+/**
+ * Match the patterns of the pointcut grammar against {@link Shadow}s,
+ * type names and runtime values.
+ */
+export class PatternMatcher {
+    /**
+     * Match a constructor pattern against a constructor shadow.
+     *
+     * @param pattern - The {@link ConstructorPattern}.
+     * @param shadow - The {@link Shadow} to match.
+     * @returns True when matching
+     */
+    public static matchConstructor(pattern: ConstructorPattern, shadow: Shadow): boolean {
+        return PatternMatcher.matchModifiers(pattern.modifiers, shadow.modifiers) &&
+            PatternMatcher.matchDeclaringType(pattern.declaringType, shadow.declaringType) &&
+            PatternMatcher.matchParameters(pattern.parameters, shadow.parameterTypes) &&
+            PatternMatcher.matchThrows(pattern.throws, shadow.exceptionTypes);
+    }
+
+    /**
+     * Match a field pattern against a field shadow.
+     *
+     * @param pattern - The {@link FieldPattern}.
+     * @param shadow - The {@link Shadow} to match.
+     * @returns True when matching
+     */
+    public static matchField(pattern: FieldPattern, shadow: Shadow): boolean {
+        return PatternMatcher.matchModifiers(pattern.modifiers, shadow.modifiers) &&
+            PatternMatcher.matchType(pattern.type, shadow.returnType) &&
+            PatternMatcher.matchDeclaringType(pattern.declaringType, shadow.declaringType) &&
+            PatternMatcher.matchName(pattern.name, shadow.name);
+    }
+
+    /**
+     * Match annotations against a type pattern naming an annotation type,
+     * e.g. `Transactional` or `!Audit*`.
+     *
+     * @param pattern - The {@link TypePattern}.
+     * @param annotations - The list of {@link Annotation}.
+     * @returns True when matching
+     */
+    public static matchAnnotation(pattern: TypePattern, annotations: Array<Annotation>): boolean {
+        switch (pattern.kind) {
+            case 'type-not':
+                return !PatternMatcher.matchAnnotation(pattern.pattern, annotations);
+            case 'type-and':
+                return PatternMatcher.matchAnnotation(pattern.left, annotations) &&
+                    PatternMatcher.matchAnnotation(pattern.right, annotations);
+            case 'type-or':
+                return PatternMatcher.matchAnnotation(pattern.left, annotations) ||
+                    PatternMatcher.matchAnnotation(pattern.right, annotations);
+            default:
+                return annotations.some((annotation: Annotation) =>
+                    PatternMatcher.matchTypeName(pattern.pattern, annotation.name)
+                );
+        }
+    }
+
+    /**
+     * Match a value against a type pattern, the value matches when it is
+     * an instance of a matching type: a primitive of this type, an
+     * instance of the registered class of this name, or of a class whose
+     * name or super class names match.
+     *
+     * @param pattern - The {@link TypePattern}.
+     * @param value - The runtime value.
+     * @returns True when matching
+     */
+    public static matchInstance(pattern: TypePattern, value: any): boolean {
+        switch (pattern.kind) {
+            case 'type-not':
+                return !PatternMatcher.matchInstance(pattern.pattern, value);
+            case 'type-and':
+                return PatternMatcher.matchInstance(pattern.left, value) &&
+                    PatternMatcher.matchInstance(pattern.right, value);
+            case 'type-or':
+                return PatternMatcher.matchInstance(pattern.left, value) ||
+                    PatternMatcher.matchInstance(pattern.right, value);
+            default:
+                if (pattern.pattern === '*') {
+                    return true;
+                }
+                if (pattern.dimensions > 0) {
+                    return Array.isArray(value) && value.every((item: any) =>
+                        PatternMatcher.matchInstance({...pattern, dimensions: pattern.dimensions - 1}, item)
+                    );
+                }
+                if (PatternMatcher.isInstance(pattern.pattern, value)) {
+                    return true;
+                }
+                return PatternMatcher.getTypeNames(value).some((name: string) =>
+                    PatternMatcher.matchTypeName(pattern.pattern, name)
+                );
+        }
+    }
+
+    /**
+     * Match a list of patterns, possibly holding `..`, against a list of
+     * items.
+     *
+     * @param patterns - The list of {@link ParameterPattern}.
+     * @param items - The items to match.
+     * @param matchOne - Match one pattern against one item.
+     * @returns The fuzzy result
+     */
+    public static matchList<T>(
+        patterns: Array<ParameterPattern>,
+        items: Array<T>,
+        matchOne: (pattern: TypePattern, item: T, index: number) => FuzzyBoolean
+    ): FuzzyBoolean {
+        const match: (p: number, i: number) => FuzzyBoolean = (p: number, i: number): FuzzyBoolean => {
+            if (p === patterns.length) {
+                return Fuzzy.of(i === items.length);
+            }
+            const pattern: ParameterPattern = patterns[p];
+            if (pattern.kind === 'ellipsis') {
+                let result: FuzzyBoolean = 'no';
+                for (let k: number = i; k <= items.length && result !== 'yes'; k++) {
+                    result = Fuzzy.or(result, () => match(p + 1, k));
+                }
+                return result;
+            }
+            if (i === items.length) {
+                return 'no';
+            }
+            return Fuzzy.and(matchOne(pattern, items[i], i), () => match(p + 1, i + 1));
+        };
+        return match(0, 0);
+    }
+
+    /**
+     * Match a method pattern against a method shadow.
+     *
+     * @param pattern - The {@link MethodPattern}.
+     * @param shadow - The {@link Shadow} to match.
+     * @returns True when matching
+     */
+    public static matchMethod(pattern: MethodPattern, shadow: Shadow): boolean {
+        return PatternMatcher.matchModifiers(pattern.modifiers, shadow.modifiers) &&
+            PatternMatcher.matchType(pattern.returnType, shadow.returnType) &&
+            PatternMatcher.matchDeclaringType(pattern.declaringType, shadow.declaringType) &&
+            PatternMatcher.matchName(pattern.name, shadow.name) &&
+            PatternMatcher.matchParameters(pattern.parameters, shadow.parameterTypes) &&
+            PatternMatcher.matchThrows(pattern.throws, shadow.exceptionTypes);
+    }
+
+    /**
+     * Match a modifiers pattern against a list of modifiers, a member
+     * which is neither `private` nor `protected` is `public`.
+     *
+     * @param patterns - The list of {@link ModifierPattern}.
+     * @param modifiers - The member modifiers.
+     * @returns True when matching
+     */
+    public static matchModifiers(patterns: Array<ModifierPattern>, modifiers: Array<string>): boolean {
+        const isPublic: boolean = !modifiers.includes('private') && !modifiers.includes('protected');
+        return patterns.every((pattern: ModifierPattern) => {
+            const present: boolean = pattern.name === 'public' ?
+                isPublic : modifiers.includes(pattern.name);
+            return present !== pattern.negated;
+        });
+    }
+
+    /**
+     * Match a simple name against a name pattern where `*` matches any
+     * sequence of characters.
+     *
+     * @param pattern - The name pattern.
+     * @param name - The name.
+     * @returns True when matching
+     */
+    public static matchName(pattern: string, name: string): boolean {
+        return PatternMatcher.compile(pattern).test(name);
+    }
+
+    /**
+     * Match a list of declared parameter types.
+     *
+     * @param patterns - The list of {@link ParameterPattern}.
+     * @param types - The declared types.
+     * @returns True when matching
+     */
+    public static matchParameters(patterns: Array<ParameterPattern>, types: Array<string>): boolean {
+        return PatternMatcher.matchList(patterns, types, (pattern: TypePattern, type: string) =>
+            Fuzzy.of(PatternMatcher.matchType(pattern, type))
+        ) === 'yes';
+    }
+
+    /**
+     * Match a declared type name against a type pattern. The `any` type
+     * matches every pattern.
+     *
+     * @param pattern - The {@link TypePattern}.
+     * @param type - The type name, e.g. `Foo` or `number[]`.
+     * @returns True when matching
+     */
+    public static matchType(pattern: TypePattern, type: string): boolean {
+        switch (pattern.kind) {
+            case 'type-not':
+                return !PatternMatcher.matchType(pattern.pattern, type);
+            case 'type-and':
+                return PatternMatcher.matchType(pattern.left, type) && PatternMatcher.matchType(pattern.right, type);
+            case 'type-or':
+                return PatternMatcher.matchType(pattern.left, type) || PatternMatcher.matchType(pattern.right, type);
+            default: {
+                if (type === 'any' || pattern.pattern === '*' && pattern.dimensions === 0) {
+                    return true;
+                }
+                let elementType: string = type;
+                for (let i: number = 0; i < pattern.dimensions; i++) {
+                    if (!elementType.endsWith('[]')) {
+                        return false;
+                    }
+                    elementType = elementType.substring(0, elementType.length - 2);
+                }
+                const names: Array<string> = pattern.includeSubtypes ?
+                    [elementType, ...PatternMatcher.getSupertypes(elementType)] : [elementType];
+                return names.some((name: string) => PatternMatcher.matchTypeName(pattern.pattern, name));
+            }
+        }
+    }
+
+    /**
+     * Match a type name against a dotted name pattern, taking the type
+     * aliases into account. A pattern holding a dot also matches the
+     * qualified name of a described type from any of its segments, e.g.
+     * `model..*Service` matches `AccountService` of `src/model/account.ts`.
+     *
+     * @param pattern - The name pattern, e.g. `int` or `com..*Service`.
+     * @param type - The type name.
+     * @returns True when matching
+     */
+    public static matchTypeName(pattern: string, type: string): boolean {
+        const reg: RegExp = PatternMatcher.compile(pattern);
+        if (reg.test(type) || (Reflect.has(TYPE_ALIASES, pattern) && Reflect.get(TYPE_ALIASES, pattern) === type)) {
+            return true;
+        }
+        if (!pattern.includes('.')) {
+            return false;
+        }
+        const segments: Array<string> = PatternMatcher.getQualifiedName(type).split('.');
+        return segments.some((segment: string, index: number) => reg.test(segments.slice(index).join('.')));
+    }
+
+    /**
+     * Return the names of the supertypes of a type, from the registered
+     * types and from the registered or set descriptors, the supertypes
+     * of the supertypes included.
+     *
+     * @param type - The type name.
+     * @returns The names of the superclasses and implemented interfaces
+     */
+    public static getSupertypes(type: string): Array<string> {
+        const supertypes: Array<string> = [];
+        const visit: (name: string) => void = (name: string): void => {
+            const direct: Array<string> = [];
+            const declaringClass: Function | undefined = Descriptor.getType(name);
+            if (declaringClass && declaringClass.prototype) {
+                direct.push(
+                    ...Class.getSuperClassNames(declaringClass.prototype),
+                    ...Class.getInterfaceNames(declaringClass)
+                );
+            }
+            const found: [ModuleDescriptor, ClassDescriptor | InterfaceDescriptor] | undefined =
+                PatternMatcher.findDescriptor(name);
+            if (found && found[1].base === 'Class') {
+                const {factory}: ClassDescriptor = found[1] as ClassDescriptor;
+                direct.push(...factory.extendsClass, ...factory.implementsInterfaces);
+            }
+            direct.forEach((supertype: string) => {
+                if (supertype !== type && !supertypes.includes(supertype)) {
+                    supertypes.push(supertype);
+                    visit(supertype);
+                }
+            });
+        };
+        visit(type);
+        return supertypes;
+    }
+
+    /**
+     * Return the qualified name of a type, the segments of the path and the
+     * name of its module followed by its name, e.g. `src.model.account.Account`.
+     *
+     * @param type - The type name.
+     * @returns The qualified name, the type name when not described
+     */
+    public static getQualifiedName(type: string): string {
+        const found: [ModuleDescriptor, ClassDescriptor | InterfaceDescriptor] | undefined =
+            PatternMatcher.findDescriptor(type);
+        if (!found) {
+            return type;
+        }
+        const [{path, name}]: [ModuleDescriptor, ClassDescriptor | InterfaceDescriptor] = found;
+        return [...path.split(/[\\/]/), name, type].filter((segment: string) => segment !== '').join('.');
+    }
+
+    /**
+     * Set the descriptors of the modules not registered at runtime, e.g.
+     * the sources being woven, so type patterns resolve their supertypes
+     * and module paths statically.
+     *
+     * @param modules - The list of {@link ModuleDescriptor}.
+     */
+    public static setModules(modules: Array<ModuleDescriptor>): void {
+        MODULES.length = 0;
+        MODULES.push(...modules);
+    }
+
+    /**
+     * Remove the module descriptors set by `setModules`.
+     */
+    public static clearModules(): void {
+        MODULES.length = 0;
+    }
+
+    /**
+     * Return the annotations of the class of a runtime value and of its
+     * super classes, captured from their decorators or attached.
+     *
+     * @param value - The runtime value.
+     * @returns The list of {@link Annotation}, most specific first
+     */
+    public static getAnnotations(value: any): Array<Annotation> {
+        const annotations: Array<Annotation> = [];
+        if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+            return annotations;
+        }
+        let type: any = Class.getClass(value);
+        for (; type && type !== Function.prototype; type = Object.getPrototypeOf(type)) {
+            annotations.push(...PatternMatcher.getTypeAnnotations(type)!);
+        }
+        return annotations;
+    }
+
+    /**
+     * Return the annotations of a member: the annotations of the
+     * {@link Shadow}, captured from its decorators, and the annotations
+     * attached to the member of its class, the `constructor` key for
+     * constructors and initializations. The class is the registered type
+     * of the declaring type unless specified.
+     *
+     * @param shadow - The {@link Shadow} of the member.
+     * @param declaringClass - The declaring class if known.
+     * @returns The list of {@link Annotation}, undefined when unknown
+     */
+    public static getMemberAnnotations(shadow: Shadow, declaringClass?: Function): Array<Annotation> | undefined {
+        if (shadow.kind === 'static-initialization') {
+            const annotations: Array<Annotation> | undefined =
+                PatternMatcher.getTypeAnnotations(declaringClass || shadow.declaringType);
+            return shadow.annotations ? Annotations.merge(shadow.annotations, annotations || []) : annotations;
+        }
+        if (shadow.kind === 'handler' || shadow.kind === 'advice-execution') {
+            return shadow.annotations || [];
+        }
+        const type: Function | undefined = declaringClass || Descriptor.getType(shadow.declaringType);
+        if (!type) {
+            return shadow.annotations;
+        }
+        const isConstructor: boolean = shadow.name === 'new';
+        const owner: object = isConstructor || shadow.modifiers.includes('static') ? type : type.prototype;
+        return Annotations.merge(
+            shadow.annotations || [],
+            Annotations.getAnnotations(owner, isConstructor ? 'constructor' : shadow.name)
+        );
+    }
+
+    /**
+     * Return the annotations of a class: the annotations captured from its
+     * decorators by its registered {@link ClassDescriptor} and the
+     * annotations attached to the class.
+     *
+     * @param type - The class or its name.
+     * @returns The list of {@link Annotation}, undefined when the class is
+     * not registered
+     */
+    public static getTypeAnnotations(type: string | Function): Array<Annotation> | undefined {
+        const declaringClass: Function | undefined = typeof type === 'string' ? Descriptor.getType(type) : type;
+        const descriptor: ClassDescriptor | undefined = Descriptor.getClass(typeof type === 'string' ? type : type.name);
+        if (!declaringClass && !descriptor) {
+            return undefined;
+        }
+        return Annotations.merge(
+            (descriptor && descriptor.annotations) || [],
+            declaringClass ? Annotations.getAnnotations(declaringClass) : []
+        );
+    }
+
+    /**
+     * Return the names of the types a runtime value is an instance of, its
+     * interfaces included.
+     *
+     * @param value - The runtime value.
+     * @returns The type names, most specific first
+     */
+    public static getTypeNames(value: any): Array<string> {
+        if (value === null || value === undefined) {
+            return [];
+        }
+        if (typeof value !== 'object' && typeof value !== 'function') {
+            return [typeof value, 'Object'];
+        }
+        if (!Object.getPrototypeOf(value)) {
+            return ['Object'];
+        }
+        const className: string = Class.getClassName(value);
+        const names: Array<string> = [
+            className,
+            ...Class.getSuperClassNames(value),
+            ...Class.getInterfaceNames(Class.getClass(value)),
+            ...PatternMatcher.getSupertypes(className)
+        ];
+        return names.filter((name: string, index: number) => names.indexOf(name) === index);
+    }
+
+    /**
+     * Return true when a value is a primitive of the named type, aliases
+     * included, or an instance of the registered class of this name.
+     *
+     * @param name - The type name, without wildcard.
+     * @param value - The runtime value.
+     * @returns True when matching
+     */
+    private static isInstance(name: string, value: any): boolean {
+        const type: string = Reflect.has(TYPE_ALIASES, name) ? Reflect.get(TYPE_ALIASES, name) : name;
+        if (Primitive.isPrimitive(type)) {
+            return typeof value === type.toLowerCase();
+        }
+        const declaringClass: Function | undefined = name.includes('*') ? undefined : Descriptor.getType(name);
+        return declaringClass !== undefined && Class.isInstance(value, declaringClass);
+    }
+
+    /**
+     * Find the descriptor of a class or an interface, registered or set by
+     * `setModules`.
+     *
+     * @param type - The type name.
+     * @returns The module and the descriptor otherwise undefined
+     */
+    private static findDescriptor(type: string): [ModuleDescriptor, ClassDescriptor | InterfaceDescriptor] | undefined {
+        const registered: [ModuleDescriptor, ClassDescriptor | InterfaceDescriptor] | undefined =
+            Descriptor.getModuleOfClass(type) || Descriptor.getModuleOfInterface(type);
+        if (registered) {
+            return registered;
+        }
+        for (const module of MODULES) {
+            const descriptor: ClassDescriptor | InterfaceDescriptor | undefined = [...module.classes, ...module.interfaces]
+                .find(({name}: ClassDescriptor | InterfaceDescriptor) => name === type);
+            if (descriptor) {
+                return [module, descriptor];
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Match a declaring type name, an absent pattern matches any type.
+     *
+     * @param pattern - The {@link TypePattern} if any.
+     * @param type - The declaring type name.
+     * @returns True when matching
+     */
+    private static matchDeclaringType(pattern: TypePattern | undefined, type: string): boolean {
+        return !pattern || PatternMatcher.matchType(pattern, type);
+    }
+
+    /**
+     * Match a `throws` clause against the declared exception types.
+     *
+     * @param patterns - The list of {@link ThrowsPattern}.
+     * @param types - The declared exception types.
+     * @returns True when matching
+     */
+    private static matchThrows(patterns: Array<ThrowsPattern>, types: Array<string>): boolean {
+        return patterns.every((pattern: ThrowsPattern) =>
+            types.some((type: string) => PatternMatcher.matchType(pattern.pattern, type)) !== pattern.negated
+        );
+    }
+
+    /**
+     * Compile a dotted name pattern into a regular expression.
+     *
+     * @param pattern - The name pattern.
+     * @returns The regular expression
+     */
+    private static compile(pattern: string): RegExp {
+        let reg: RegExp | undefined = NAME_PATTERNS.get(pattern);
+        if (!reg) {
+            const source: string = pattern
+                .split('..')
+                .map((part: string) => part
+                    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+                    .replace(/\*/g, '[^.]*'))
+                .join('\\.(?:.*\\.)?');
+            reg = new RegExp(`^${source}$`);
+            NAME_PATTERNS.set(pattern, reg);
+        }
+        return reg;
+    }
+}
+
+export default PatternMatcher;
@@ -0,0 +1,499 @@
+import {
+    Annotation,
+    Annotations,
+    ConstructorPattern,
+    Formal,
+    MethodPattern,
+    NameTypePattern,
+    ParameterPattern,
+    PointcutNode,
+    TypePattern
+} from '@ornorm/aspectT';
+import {ControlFlow, ControlFlowFrame} from './control-flow';
+import {IfExpression} from './if-expression';
+import {JoinPoint} from './join-point';
+import {PatternMatcher} from './pattern-matcher';
+import {Fuzzy, FuzzyBoolean, JoinPointKind, JoinPointState, Shadow} from './shadow';
+
+/**
+ * A named pointcut as seen by the matcher.
+ */
+export interface PointcutDefinition {
+    /**
+     * The formals of the pointcut.
+     */
+    formals: Array<Formal>;
+    /**
+     * The pointcut expression.
+     */
+    pointcut: PointcutNode;
+}
+
+/**
+ * Resolve the name of a pointcut reference, e.g. `pc` or `Tracing.pc`.
+ */
+export type PointcutResolver = (name: string) => PointcutDefinition | undefined;
+
+/**
+ * Map the name of a formal of a pointcut to the formal it binds in scope.
+ */
+type Rename = (name: string) => string | undefined;
+
+/**
+ * Match a pointcut against the {@link Shadow} of a join point and,
+ * when available, against its runtime {@link JoinPointState}.
+ *
+ * Without a state the dynamic designators (`this`, `target`, `args`,
+ * their annotation forms, `cflow`, `cflowbelow`, `if`) answer `maybe`, the weaver then defers the
+ * decision to the execution of the join point. The `@annotation`,
+ * `@within` and `@withincode` designators match the annotations of the
+ * shadow, or of the registered classes, and answer `maybe` as well when
+ * they are unknown until the declaring class of the join point is.
+ */
+export class PointcutMatcher {
+    private readonly mResolver: PointcutResolver;
+
+    /**
+     * Create a matcher.
+     *
+     * @param resolver - Resolve named pointcut references.
+     */
+    constructor(resolver: PointcutResolver) {
+        this.mResolver = resolver;
+    }
+
+    /**
+     * Return the pointcuts of the `cflow` and `cflowbelow` designators of a
+     * pointcut, named pointcuts included. The join points they match must
+     * be woven to be tracked by the {@link ControlFlow}.
+     *
+     * @param node - The pointcut.
+     * @param formals - The formals in scope.
+     * @returns The list of {@link PointcutDefinition}
+     * @throws ReferenceError when a named pointcut cannot be resolved.
+     */
+    public getControlFlows(node: PointcutNode, formals: Array<Formal> = []): Array<PointcutDefinition> {
+        const controlFlows: Array<PointcutDefinition> = [];
+        const visit: (pointcut: PointcutNode, scope: Array<Formal>, names: Array<string>) => void = (
+            pointcut: PointcutNode,
+            scope: Array<Formal>,
+            names: Array<string>
+        ): void => {
+            switch (pointcut.kind) {
+                case 'and':
+                case 'or':
+                    visit(pointcut.left, scope, names);
+                    visit(pointcut.right, scope, names);
+                    break;
+                case 'not':
+                    visit(pointcut.pointcut, scope, names);
+                    break;
+                case 'cflow':
+                case 'cflowbelow':
+                    controlFlows.push({formals: scope, pointcut: pointcut.pointcut});
+                    visit(pointcut.pointcut, scope, names);
+                    break;
+                case 'reference': {
+                    if (names.includes(pointcut.name)) {
+                        break;
+                    }
+                    const definition: PointcutDefinition | undefined = this.mResolver(pointcut.name);
+                    if (!definition) {
+                        throw new ReferenceError(`PointcutNotFoundException ${pointcut.name}`);
+                    }
+                    visit(definition.pointcut, definition.formals, [...names, pointcut.name]);
+                    break;
+                }
+                default:
+                    break;
+            }
+        };
+        visit(node, formals, []);
+        return controlFlows;
+    }
+
+    /**
+     * Match a pointcut.
+     *
+     * @param node - The pointcut.
+     * @param shadow - The {@link Shadow} of the join point.
+     * @param state - The runtime state of the join point if any.
+     * @param formals - The formals in scope, their names may be used in
+     * place of a type pattern.
+     * @returns The fuzzy result
+     * @throws ReferenceError when a named pointcut cannot be resolved.
+     * @throws TypeError when the pointcut uses an unsupported designator.
+     * @throws PointcutSyntaxError when the expression of an `if()` is not
+     * valid.
+     */
+    public match(
+        node: PointcutNode,
+        shadow: Shadow,
+        state?: JoinPointState,
+        formals: Array<Formal> = []
+    ): FuzzyBoolean {
+        return this.matchPointcut(node, node, shadow, state, formals);
+    }
+
+    /**
+     * Return the values of the formals bound by the `args`, `this` and
+     * `target` designators of a pointcut, named pointcuts included. The
+     * arguments before a `..` are bound from the start, the arguments after
+     * it from the end. The `@args`, `@this` and `@target` designators bind
+     * the {@link Annotation} of the value matching the type of the formal,
+     * the `@annotation`, `@within` and `@withincode` designators the one of
+     * the member, the type or the code of the join point, given its shadow.
+     *
+     * @param node - The pointcut.
+     * @param state - The runtime state of the join point.
+     * @param formals - The formals in scope.
+     * @param shadow - The {@link Shadow} of the join point if any.
+     * @returns The values in order of the formals, undefined when unbound
+     * @throws ReferenceError when a named pointcut cannot be resolved.
+     */
+    public bindFormals(node: PointcutNode, state: JoinPointState, formals: Array<Formal>, shadow?: Shadow): Array<any> {
+        const values: Map<string, any> = new Map<string, any>();
+        const bind: (pattern: ParameterPattern, rename: Rename, value: any, annotations?: Array<Annotation>) => void = (
+            pattern: ParameterPattern,
+            rename: Rename,
+            value: any,
+            annotations?: Array<Annotation>
+        ): void => {
+            const name: string | undefined = pattern.kind === 'type-name' && pattern.dimensions === 0 ?
+                rename(pattern.pattern) : undefined;
+            if (name === undefined || values.has(name)) {
+                return;
+            }
+            if (!annotations) {
+                values.set(name, value);
+                return;
+            }
+            const type: NameTypePattern = formals.find((f: Formal) => f.name === name)!.type;
+            const annotation: Annotation | undefined = annotations
+                .find((a: Annotation) => PatternMatcher.matchTypeName(type.pattern, a.name));
+            if (annotation) {
+                values.set(name, annotation);
+            }
+        };
+        const visit: (pointcut: PointcutNode, rename: (name: string) => string | undefined, names: Array<string>) => void = (
+            pointcut: PointcutNode,
+            rename: (name: string) => string | undefined,
+            names: Array<string>
+        ): void => {
+            switch (pointcut.kind) {
+                case 'and':
+                case 'or':
+                    visit(pointcut.left, rename, names);
+                    visit(pointcut.right, rename, names);
+                    break;
+                case 'this':
+                case 'target':
+                    bind(pointcut.pattern, rename, pointcut.kind === 'this' ? state.thisObject : state.target);
+                    break;
+                case '@this':
+                case '@target':
+                    bind(pointcut.pattern, rename, undefined, PatternMatcher.getAnnotations(
+                        pointcut.kind === '@this' ? state.thisObject : state.target
+                    ));
+                    break;
+                case '@annotation':
+                case '@within':
+                case '@withincode': {
+                    const annotations: Array<Annotation> | undefined = shadow &&
+                        PointcutMatcher.getAnnotations(pointcut.kind, shadow, state);
+                    if (annotations) {
+                        bind(pointcut.pattern, rename, undefined, annotations);
+                    }
+                    break;
+                }
+                case 'args':
+                case '@args': {
+                    const ellipsis: number = pointcut.parameters.findIndex((p: ParameterPattern) => p.kind === 'ellipsis');
+                    pointcut.parameters.forEach((parameter: ParameterPattern, index: number) => {
+                        const position: number = ellipsis < 0 || index < ellipsis ?
+                            index : state.args.length - (pointcut.parameters.length - index);
+                        if (position < 0 || position >= state.args.length) {
+                            return;
+                        }
+                        const value: any = state.args[position];
+                        if (pointcut.kind === 'args') {
+                            bind(parameter, rename, value);
+                        } else {
+                            bind(parameter, rename, undefined, PatternMatcher.getAnnotations(value));
+                        }
+                    });
+                    break;
+                }
+                case 'reference': {
+                    if (names.includes(pointcut.name)) {
+                        break;
+                    }
+                    const definition: PointcutDefinition | undefined = this.mResolver(pointcut.name);
+                    if (!definition) {
+                        throw new ReferenceError(`PointcutNotFoundException ${pointcut.name}`);
+                    }
+                    visit(definition.pointcut, (name: string): string | undefined => {
+                        const parameter: ParameterPattern | undefined =
+                            pointcut.parameters[definition.formals.findIndex((f: Formal) => f.name === name)];
+                        return parameter && parameter.kind === 'type-name' ? rename(parameter.pattern) : undefined;
+                    }, [...names, pointcut.name]);
+                    break;
+                }
+                default:
+                    break;
+            }
+        };
+        visit(node, (name: string): string | undefined =>
+            formals.some((f: Formal) => f.name === name) ? name : undefined, []
+        );
+        return formals.map((formal: Formal) => values.get(formal.name));
+    }
+
+    /**
+     * Return the annotations matched by `@annotation`, `@within` or
+     * `@withincode` at a join point: the annotations of its member, of the
+     * type or of the code where it is defined. The declaring class of the
+     * join point is used when the state is a {@link JoinPoint}.
+     *
+     * @param kind - The designator.
+     * @param shadow - The {@link Shadow} of the join point.
+     * @param state - The runtime state of the join point if any.
+     * @returns The list of {@link Annotation}, undefined when unknown
+     */
+    private static getAnnotations(
+        kind: '@annotation' | '@within' | '@withincode',
+        shadow: Shadow,
+        state?: JoinPointState
+    ): Array<Annotation> | undefined {
+        const declaringClass: Function | undefined = state instanceof JoinPoint ?
+            state.staticPart.signature.declaringClass : undefined;
+        if (kind === '@annotation') {
+            return PatternMatcher.getMemberAnnotations(shadow, declaringClass);
+        }
+        if (kind === '@withincode') {
+            return shadow.withinCode ? PatternMatcher.getMemberAnnotations(shadow.withinCode, declaringClass) : [];
+        }
+        if (!shadow.withinType) {
+            return [];
+        }
+        const annotations: Array<Annotation> | undefined =
+            PatternMatcher.getTypeAnnotations(declaringClass || shadow.withinType);
+        return shadow.withinAnnotations ?
+            Annotations.merge(shadow.withinAnnotations, annotations || []) : annotations;
+    }
+
+    /**
+     * Replace a type pattern naming a formal by the type of this formal.
+     *
+     * @param pattern - The {@link TypePattern}.
+     * @param formals - The formals in scope.
+     * @returns The type pattern to match
+     */
+    private static bind(pattern: TypePattern, formals: Array<Formal>): TypePattern {
+        if (pattern.kind !== 'type-name') {
+            return pattern;
+        }
+        const formal: Formal | undefined = formals.find((f: Formal) => f.name === pattern.pattern);
+        if (!formal) {
+            return pattern;
+        }
+        const type: NameTypePattern = formal.type;
+        return {...type, dimensions: type.dimensions + pattern.dimensions};
+    }
+
+    /**
+     * Match a pointcut within the pointcut binding the formals in scope.
+     *
+     * @param node - The pointcut.
+     * @param root - The pointcut binding the formals.
+     * @param shadow - The {@link Shadow} of the join point.
+     * @param state - The runtime state of the join point if any.
+     * @param formals - The formals in scope.
+     * @returns The fuzzy result
+     */
+    private matchPointcut(
+        node: PointcutNode,
+        root: PointcutNode,
+        shadow: Shadow,
+        state: JoinPointState | undefined,
+        formals: Array<Formal>
+    ): FuzzyBoolean {
+        switch (node.kind) {
+            case 'and':
+                return Fuzzy.and(
+                    this.matchPointcut(node.left, root, shadow, state, formals),
+                    () => this.matchPointcut(node.right, root, shadow, state, formals)
+                );
+            case 'or':
+                return Fuzzy.or(
+                    this.matchPointcut(node.left, root, shadow, state, formals),
+                    () => this.matchPointcut(node.right, root, shadow, state, formals)
+                );
+            case 'not':
+                return Fuzzy.not(this.matchPointcut(node.pointcut, root, shadow, state, formals));
+            case 'call':
+                return Fuzzy.of(PointcutMatcher.matchInvocation(node.pattern, shadow, 'method-call', 'constructor-call'));
+            case 'execution':
+                return Fuzzy.of(PointcutMatcher.matchInvocation(
+                    node.pattern, shadow, 'method-execution', 'constructor-execution'
+                ));
+            case 'withincode': {
+                const code: Shadow | undefined = shadow.withinCode;
+                return Fuzzy.of(code !== undefined && PointcutMatcher.matchInvocation(
+                    node.pattern, code, code.kind, code.kind
+                ));
+            }
+            case 'initialization':
+            case 'preinitialization':
+                return Fuzzy.of(shadow.kind === node.kind && PatternMatcher.matchConstructor(node.pattern, shadow));
+            case 'get':
+            case 'set':
+                return Fuzzy.of(shadow.kind === `field-${node.kind}` && PatternMatcher.matchField(node.pattern, shadow));
+            case 'staticinitialization':
+                return Fuzzy.of(shadow.kind === 'static-initialization' &&
+                    PatternMatcher.matchType(node.pattern, shadow.declaringType));
+            case 'handler':
+                return Fuzzy.of(shadow.kind === 'handler' &&
+                    PatternMatcher.matchType(node.pattern, shadow.declaringType));
+            case 'within':
+                return Fuzzy.of(PatternMatcher.matchType(node.pattern, shadow.withinType));
+            case 'adviceexecution':
+                return Fuzzy.of(shadow.kind === 'advice-execution');
+            case 'this':
+            case 'target': {
+                if (!state) {
+                    return 'maybe';
+                }
+                const value: any = node.kind === 'this' ? state.thisObject : state.target;
+                return Fuzzy.of(PatternMatcher.matchInstance(PointcutMatcher.bind(node.pattern, formals), value));
+            }
+            case '@this':
+            case '@target': {
+                if (!state) {
+                    return 'maybe';
+                }
+                const value: any = node.kind === '@this' ? state.thisObject : state.target;
+                return Fuzzy.of(PatternMatcher.matchAnnotation(
+                    PointcutMatcher.bind(node.pattern, formals), PatternMatcher.getAnnotations(value)
+                ));
+            }
+            case 'args':
+                if (!state) {
+                    return 'maybe';
+                }
+                return PatternMatcher.matchList(node.parameters, state.args, (pattern: TypePattern, value: any) =>
+                    Fuzzy.of(PatternMatcher.matchInstance(PointcutMatcher.bind(pattern, formals), value))
+                );
+            case '@args':
+                if (!state) {
+                    return 'maybe';
+                }
+                return PatternMatcher.matchList(node.parameters, state.args, (pattern: TypePattern, value: any) =>
+                    Fuzzy.of(PatternMatcher.matchAnnotation(
+                        PointcutMatcher.bind(pattern, formals), PatternMatcher.getAnnotations(value)
+                    ))
+                );
+            case '@annotation':
+            case '@within':
+            case '@withincode': {
+                const annotations: Array<Annotation> | undefined = PointcutMatcher.getAnnotations(node.kind, shadow, state);
+                if (!annotations) {
+                    return 'maybe';
+                }
+                return Fuzzy.of(PatternMatcher.matchAnnotation(PointcutMatcher.bind(node.pattern, formals), annotations));
+            }
+            case 'if':
+                if (!state) {
+                    return 'maybe';
+                }
+                return Fuzzy.of(IfExpression.compile(node, formals).evaluate(
+                    this.bindFormals(root, state, formals, shadow), state
+                ));
+            case 'cflow':
+            case 'cflowbelow': {
+                if (!state) {
+                    return 'maybe';
+                }
+                let frame: ControlFlowFrame | undefined = ControlFlow.current;
+                if (node.kind === 'cflowbelow') {
+                    frame = frame && frame.parent;
+                }
+                for (; frame; frame = frame.parent) {
+                    if (this.match(node.pointcut, frame.shadow, frame.joinPoint, formals) === 'yes') {
+                        return 'yes';
+                    }
+                }
+                return 'no';
+            }
+            case 'reference': {
+                const definition: PointcutDefinition | undefined = this.mResolver(node.name);
+                if (!definition) {
+                    throw new ReferenceError(`PointcutNotFoundException ${node.name}`);
+                }
+                const result: FuzzyBoolean = this.matchPointcut(
+                    definition.pointcut, definition.pointcut, shadow, state, definition.formals
+                );
+                const narrowed: Array<Formal> | undefined = PointcutMatcher.narrow(definition.formals, node.parameters, formals);
+                return narrowed ? Fuzzy.and(result, () => this.matchPointcut(
+                    definition.pointcut, definition.pointcut, shadow, state, narrowed
+                )) : result;
+            }
+            default:
+                throw new TypeError(`UnsupportedOperationException pointcut designator ${(node as PointcutNode).kind}`);
+        }
+    }
+
+    /**
+     * Type the formals of a named pointcut by the arguments of a
+     * reference, e.g. `Savings s` for `depositing(s)`, so the types of the
+     * bound variables filter the join points as well.
+     *
+     * @param formals - The formals of the named pointcut.
+     * @param parameters - The arguments of the reference.
+     * @param scope - The formals in scope of the reference.
+     * @returns The typed formals, undefined when unchanged
+     */
+    private static narrow(
+        formals: Array<Formal>,
+        parameters: Array<ParameterPattern>,
+        scope: Array<Formal>
+    ): Array<Formal> | undefined {
+        let isNarrowed: boolean = false;
+        const narrowed: Array<Formal> = formals.map((formal: Formal, index: number) => {
+            const parameter: ParameterPattern | undefined = parameters[index];
+            if (!parameter || parameter.kind !== 'type-name' || parameter.pattern === '*') {
+                return formal;
+            }
+            const type: NameTypePattern = PointcutMatcher.bind(parameter, scope) as NameTypePattern;
+            if (type.pattern === formal.type.pattern && type.dimensions === formal.type.dimensions) {
+                return formal;
+            }
+            isNarrowed = true;
+            return {...formal, type};
+        });
+        return isNarrowed ? narrowed : undefined;
+    }
+
+    /**
+     * Match a `call`, `execution` or `withincode` pattern.
+     *
+     * @param pattern - The method or constructor pattern.
+     * @param shadow - The {@link Shadow}.
+     * @param methodKind - The join point kind of a method.
+     * @param constructorKind - The join point kind of a constructor.
+     * @returns True when matching
+     */
+    private static matchInvocation(
+        pattern: MethodPattern | ConstructorPattern,
+        shadow: Shadow,
+        methodKind: JoinPointKind,
+        constructorKind: JoinPointKind
+    ): boolean {
+        if (pattern.kind === 'method-pattern') {
+            return shadow.kind === methodKind && shadow.name !== 'new' && PatternMatcher.matchMethod(pattern, shadow);
+        }
+        return shadow.kind === constructorKind && shadow.name === 'new' && PatternMatcher.matchConstructor(pattern, shadow);
+    }
+}
+
+export default PointcutMatcher;
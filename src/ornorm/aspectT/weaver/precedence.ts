@@ -0,0 +1,145 @@
+import {PointcutParser, TypePattern} from '@ornorm/aspectT';
+import {AspectAdvice, AspectDefinition} from './aspect';
+import {PatternMatcher} from './pattern-matcher';
+
+/**
+ * Order the aspects and the advices applying at a join point:
+ *
+ * - between aspects, from the `declare precedence` of all the aspects,
+ * the aspects not ordered by a declaration keep their listed order;
+ * - within an aspect, when either advice is an after advice, the one
+ * appearing later has precedence, otherwise the one appearing earlier.
+ */
+export class AspectPrecedence {
+    /**
+     * Order aspects by decreasing precedence. In a `declare precedence`
+     * list, `*` only matches the aspects no other type pattern of the list
+     * matches. Subtype patterns, e.g. `Logging+`, resolve through the
+     * registered types and descriptors.
+     *
+     * @param aspects - The list of {@link AspectDefinition}, the default
+     * order.
+     * @returns The list of {@link AspectDefinition}, highest precedence
+     * first
+     * @throws PointcutSyntaxError when a type pattern list is not valid.
+     * @throws TypeError when an aspect matches several type patterns of a
+     * list.
+     * @throws Error when the declarations are circular.
+     */
+    public static sort<A extends AspectDefinition>(aspects: Array<A>): Array<A> {
+        const declarations: Array<Array<TypePattern>> = [];
+        aspects.forEach((aspect: A) => {
+            (aspect.precedence || []).forEach((source: string) => {
+                declarations.push(PointcutParser.parseTypePatternList(source));
+            });
+        });
+        const successors: Map<A, Set<A>> = new Map<A, Set<A>>(
+            aspects.map((aspect: A) => [aspect, new Set<A>()])
+        );
+        declarations.forEach((patterns: Array<TypePattern>) => {
+            const ranks: Array<number> = aspects.map((aspect: A) => AspectPrecedence.getRank(patterns, aspect));
+            aspects.forEach((higher: A, i: number) => aspects.forEach((lower: A, j: number) => {
+                if (ranks[i] >= 0 && ranks[j] >= 0 && ranks[i] < ranks[j]) {
+                    successors.get(higher)!.add(lower);
+                }
+            }));
+        });
+        const sorted: Array<A> = [];
+        const remaining: Array<A> = [...aspects];
+        while (remaining.length > 0) {
+            const next: A | undefined = remaining.find((aspect: A) => remaining.every((other: A) =>
+                !successors.get(other)!.has(aspect)
+            ));
+            if (!next) {
+                throw new Error(
+                    'IllegalStateException circular declare precedence between ' +
+                    remaining.map((aspect: A) => aspect.name).join(', ')
+                );
+            }
+            sorted.push(next);
+            remaining.splice(remaining.indexOf(next), 1);
+        }
+        return sorted;
+    }
+
+    /**
+     * Order advices of a same aspect applying at a join point by
+     * decreasing precedence.
+     *
+     * @param advices - The advices, in lexical order.
+     * @param getAdvice - Return the {@link AspectAdvice} of an advice.
+     * @returns The advices, highest precedence first
+     * @throws Error when the advices have no consistent order, e.g. a
+     * before, an after and an around advice in this lexical order.
+     */
+    public static sortAdvices<T, A extends AspectDefinition>(
+        advices: Array<T>,
+        getAdvice: (advice: T) => AspectAdvice<A>
+    ): Array<T> {
+        const sorted: Array<T> = [];
+        const remaining: Array<number> = advices.map((_: T, index: number) => index);
+        while (remaining.length > 0) {
+            const next: number | undefined = remaining.find((index: number) => remaining.every((other: number) =>
+                other === index || AspectPrecedence.precedes(getAdvice(advices[index]), index, getAdvice(advices[other]), other)
+            ));
+            if (next === undefined) {
+                const [first]: Array<number> = remaining;
+                throw new Error(
+                    `IllegalStateException circular advice precedence in ${getAdvice(advices[first]).aspect.name} ` +
+                    `between ${remaining.map((index: number) => getAdvice(advices[index]).name).join(', ')}`
+                );
+            }
+            sorted.push(advices[next]);
+            remaining.splice(remaining.indexOf(next), 1);
+        }
+        return sorted;
+    }
+
+    /**
+     * Return the position of an aspect in a `declare precedence` list.
+     *
+     * @param patterns - The list of {@link TypePattern}.
+     * @param aspect - The {@link AspectDefinition}.
+     * @returns The index of the matching type pattern, -1 when none
+     * matches
+     * @throws TypeError when several type patterns match.
+     */
+    private static getRank(patterns: Array<TypePattern>, aspect: AspectDefinition): number {
+        const ranks: Array<number> = [];
+        let wildcard: number = -1;
+        patterns.forEach((pattern: TypePattern, index: number) => {
+            if (pattern.kind === 'type-name' && pattern.pattern === '*' && pattern.dimensions === 0) {
+                wildcard = index;
+            } else if (PatternMatcher.matchType(pattern, aspect.name)) {
+                ranks.push(index);
+            }
+        });
+        if (ranks.length > 1) {
+            throw new TypeError(`IllegalArgumentException ${aspect.name} matches several types of a declare precedence`);
+        }
+        return ranks.length > 0 ? ranks[0] : wildcard;
+    }
+
+    /**
+     * Return true when an advice has precedence over another advice of the
+     * same aspect.
+     *
+     * @param advice - The {@link AspectAdvice}.
+     * @param index - Its lexical position.
+     * @param other - The other {@link AspectAdvice}.
+     * @param otherIndex - Its lexical position.
+     * @returns True when the advice has precedence
+     */
+    private static precedes<A extends AspectDefinition>(
+        advice: AspectAdvice<A>,
+        index: number,
+        other: AspectAdvice<A>,
+        otherIndex: number
+    ): boolean {
+        const isAfter: boolean = advice.declaration.adviceKind.startsWith('after') ||
+            other.declaration.adviceKind.startsWith('after');
+        return isAfter ? index > otherIndex : index < otherIndex;
+    }
+}
+
+export default AspectPrecedence;
@@ -0,0 +1,161 @@
+import {Annotation} from '@ornorm/aspectT';
+
+/**
+ * The kinds of join point.
+ */
+export type JoinPointKind =
+    'method-call' |
+    'method-execution' |
+    'constructor-call' |
+    'constructor-execution' |
+    'field-get' |
+    'field-set' |
+    'handler' |
+    'static-initialization' |
+    'initialization' |
+    'preinitialization' |
+    'advice-execution';
+
+/**
+ * Three-valued logic used to match pointcuts: a `maybe` is produced by
+ * the dynamic parts of a pointcut (`args`, `this`, `target`, …) when no
+ * runtime state is available yet.
+ */
+export type FuzzyBoolean = 'yes' | 'no' | 'maybe';
+
+/**
+ * The static description of a place in the code where a join point
+ * occurs.
+ */
+export interface Shadow {
+    /**
+     * The join point kind.
+     * @see JoinPointKind
+     */
+    kind: JoinPointKind;
+    /**
+     * The name of the type declaring the member.
+     */
+    declaringType: string;
+    /**
+     * The member modifiers.
+     */
+    modifiers: Array<string>;
+    /**
+     * The member name, `new` for constructors.
+     */
+    name: string;
+    /**
+     * The return type of a method or the type of a field.
+     */
+    returnType: string;
+    /**
+     * The declared parameter types.
+     */
+    parameterTypes: Array<string>;
+    /**
+     * The declared exception types.
+     */
+    exceptionTypes: Array<string>;
+    /**
+     * The name of the type where the code of the join point is defined.
+     */
+    withinType: string;
+    /**
+     * The method or constructor where the code of the join point is
+     * defined, if any.
+     */
+    withinCode?: Shadow;
+    /**
+     * The annotations of the member, or of the type of a static
+     * initialization, when known statically.
+     */
+    annotations?: Array<Annotation>;
+    /**
+     * The annotations of the type where the code of the join point is
+     * defined, when known statically.
+     */
+    withinAnnotations?: Array<Annotation>;
+}
+
+/**
+ * The runtime state of a join point used to evaluate the dynamic parts
+ * of a pointcut.
+ */
+export interface JoinPointState {
+    /**
+     * The currently executing object.
+     */
+    thisObject: any;
+    /**
+     * The target object.
+     */
+    target: any;
+    /**
+     * The arguments.
+     */
+    args: Array<any>;
+}
+
+/**
+ * Fuzzy logic helpers.
+ */
+export class Fuzzy {
+    /**
+     * Fuzzy conjunction.
+     *
+     * @param left - The left operand.
+     * @param right - A function computing the right operand, only called
+     * when needed.
+     * @returns The conjunction
+     */
+    public static and(left: FuzzyBoolean, right: () => FuzzyBoolean): FuzzyBoolean {
+        if (left === 'no') {
+            return 'no';
+        }
+        const value: FuzzyBoolean = right();
+        if (value === 'no') {
+            return 'no';
+        }
+        return left === 'yes' && value === 'yes' ? 'yes' : 'maybe';
+    }
+
+    /**
+     * Convert a boolean.
+     *
+     * @param value - The boolean.
+     * @returns `yes` or `no`
+     */
+    public static of(value: boolean): FuzzyBoolean {
+        return value ? 'yes' : 'no';
+    }
+
+    /**
+     * Fuzzy negation.
+     *
+     * @param value - The operand.
+     * @returns The negation
+     */
+    public static not(value: FuzzyBoolean): FuzzyBoolean {
+        return value === 'maybe' ? 'maybe' : value === 'yes' ? 'no' : 'yes';
+    }
+
+    /**
+     * Fuzzy disjunction.
+     *
+     * @param left - The left operand.
+     * @param right - A function computing the right operand, only called
+     * when needed.
+     * @returns The disjunction
+     */
+    public static or(left: FuzzyBoolean, right: () => FuzzyBoolean): FuzzyBoolean {
+        if (left === 'yes') {
+            return 'yes';
+        }
+        const value: FuzzyBoolean = right();
+        if (value === 'yes') {
+            return 'yes';
+        }
+        return left === 'no' && value === 'no' ? 'no' : 'maybe';
+    }
+}
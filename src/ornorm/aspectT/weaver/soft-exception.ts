@@ -0,0 +1,63 @@
+import {Class, Descriptor, TypePattern} from '@ornorm/aspectT';
+import {PatternMatcher} from './pattern-matcher';
+
+/**
+ * Thrown in place of an error softened by a `declare soft`, the original
+ * error is the cause.
+ */
+export class SoftException extends Error {
+    private readonly mCause: any;
+
+    /**
+     * Create a soft exception.
+     *
+     * @param cause - The softened error.
+     */
+    constructor(cause: any) {
+        super(cause instanceof Error ? cause.message : String(cause));
+        this.name = 'SoftException';
+        this.mCause = cause;
+    }
+
+    /**
+     * The softened error.
+     */
+    public get cause(): any {
+        return this.mCause;
+    }
+
+    /**
+     * Return true when an error is softened by the type of a
+     * `declare soft`. A type name resolves through the registered types,
+     * then the global scope, and matches the errors whose class is
+     * assignable to it. The other patterns match the names of the error
+     * class and its superclasses. A {@link SoftException} is never
+     * softened again.
+     *
+     * @param type - The declared {@link TypePattern}.
+     * @param error - The thrown error.
+     * @returns True when the error must be wrapped
+     */
+    public static isSoftened(type: TypePattern, error: any): boolean {
+        if (error instanceof SoftException || error === null || error === undefined) {
+            return false;
+        }
+        switch (type.kind) {
+            case 'type-not':
+                return !SoftException.isSoftened(type.pattern, error);
+            case 'type-and':
+                return SoftException.isSoftened(type.left, error) && SoftException.isSoftened(type.right, error);
+            case 'type-or':
+                return SoftException.isSoftened(type.left, error) || SoftException.isSoftened(type.right, error);
+            default: {
+                const declared: any = Descriptor.getType(type.pattern) || Reflect.get(globalThis, type.pattern);
+                if (typeof declared === 'function' && type.dimensions === 0 && typeof error === 'object') {
+                    return Class.isAssignableFrom(Class.getClass(error), declared);
+                }
+                return PatternMatcher.matchInstance(type, error);
+            }
+        }
+    }
+}
+
+export default SoftException;
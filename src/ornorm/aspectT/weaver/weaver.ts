@@ -0,0 +1,297 @@
+import {basename} from 'path';
+import {
+    Class,
+    ClassDescriptor,
+    Constructor,
+    ConstructorDescriptor,
+    Descriptor,
+    Field,
+    Method,
+    MethodDescriptor,
+    ModuleDescriptor,
+    ParameterDescriptor
+} from '@ornorm/aspectT';
+import {AdviceChain} from './advice-chain';
+import {AdviceDescriptor, AdviceMatcher, AspectCompiler, AspectDescriptor, ShadowMunger} from './aspect';
+import {AspectInstances} from './aspect-instances';
+import {ConstructorChain} from './constructor-chain';
+import {DeclareAnnotations} from './declare-annotations';
+import {DeclareParents, ResolvedParents} from './declare-parents';
+import {FieldChain} from './field-chain';
+import {InterTypeMember, InterTypes} from './inter-types';
+import {SourceLocation, UNKNOWN_LOCATION} from './join-point';
+import {Shadow} from './shadow';
+
+/**
+ * A member replaced by the weaver.
+ */
+interface WovenMember {
+    owner: any;
+    name: string;
+    /**
+     * The original own property, undefined when the member was inherited.
+     */
+    descriptor: PropertyDescriptor | undefined;
+    /**
+     * The {@link FieldChain} of a woven field, released once restored.
+     */
+    chain?: FieldChain;
+}
+
+const WOVEN: Map<string, Array<WovenMember>> = new Map<string, Array<WovenMember>>();
+
+/**
+ * The classes replaced by a constructor proxy, by name.
+ */
+const PROXIED: Map<string, Function> = new Map<string, Function>();
+
+/**
+ * Weave aspects into classes registered with `Class.addClass` at runtime.
+ *
+ * Each matching method is replaced by a wrapper which runs its
+ * {@link AdviceChain}, so are the methods tracked for `cflow` pointcuts
+ * and per clauses. Each matching field is replaced by an accessor which
+ * runs its {@link FieldChain}. A class whose constructors are matched is
+ * replaced in the registry by a proxy which runs their
+ * {@link ConstructorChain}, only the objects created through the
+ * registered class, e.g. `new (Class.forName('Account'))()`, are advised.
+ */
+export class Weaver {
+    /**
+     * Return true when the specified class is woven.
+     *
+     * @param className - The class name.
+     * @returns True when woven
+     */
+    public static isWoven(className: string): boolean {
+        return WOVEN.has(className);
+    }
+
+    /**
+     * Weave aspects into a registered class. The aspects are listed by
+     * decreasing precedence unless ordered by a `declare precedence`, see
+     * {@link AspectPrecedence}. Their `declare parents` and inter-type
+     * member declarations are applied first, see {@link DeclareParents} and
+     * {@link InterTypes}, then their declared annotations, see
+     * {@link DeclareAnnotations}, and are kept by `unweave`. The aspects
+     * and all their declarations are resolved and checked first, the class
+     * is left unchanged when weaving fails.
+     *
+     * @param className - The name of a class registered with `Class.addClass`.
+     * @param aspects - The list of {@link AspectDescriptor}.
+     * @returns The names of the woven methods, static ones prefixed by the
+     * class name
+     * @throws ReferenceError when the class, an advice method or a declared
+     * superclass is missing.
+     * @throws PointcutSyntaxError when an advice or a pointcut is not valid.
+     * @throws TypeError when a declared inheritance is not legal, an
+     * inter-type member is already declared or an annotation is not valid.
+     * @throws Error when the class is already woven or the precedence is
+     * circular.
+     */
+    public static weave(className: string, ...aspects: Array<AspectDescriptor>): Array<string> {
+        const declaringClass: Function = Class.forName(className);
+        if (WOVEN.has(className)) {
+            throw new Error(`IllegalStateException ${className} is already woven`);
+        }
+        aspects.forEach((aspect: AspectDescriptor) => {
+            AspectCompiler.inherit(aspect).advices.forEach(({name}: AdviceDescriptor) => {
+                if (typeof Reflect.get(aspect.type.prototype, name) !== 'function') {
+                    throw new ReferenceError(`NoSuchMethodException ${aspect.name}.${name}`);
+                }
+            });
+        });
+        const matchers: Array<AdviceMatcher> = AspectCompiler.getMatchers(aspects);
+        const parents: Array<ResolvedParents> = DeclareParents.resolveDeclarations(className, declaringClass, aspects);
+        const interTypes: Array<InterTypeMember> = InterTypes.resolveMembers(className, declaringClass, aspects);
+        DeclareAnnotations.check(aspects);
+        DeclareParents.apply(className, declaringClass, parents);
+        InterTypes.apply(className, Class.forName(className), interTypes);
+        const methods: Array<Method> = Weaver.getMethods(className, declaringClass);
+        DeclareAnnotations.apply(className, declaringClass, aspects, methods);
+        AspectInstances.register(matchers);
+        const described: [ModuleDescriptor, ClassDescriptor] | undefined = Descriptor.getModuleOfClass(className);
+        const sourceLocation: SourceLocation = described ?
+            {...UNKNOWN_LOCATION, fileName: basename(described[0].path)} : UNKNOWN_LOCATION;
+        const members: Array<WovenMember> = [];
+        const woven: Array<string> = [];
+        methods.forEach((method: Method) => {
+            const owner: any = method.isStatic ? declaringClass : declaringClass.prototype;
+            const shadows: Array<Shadow> = AdviceChain.createShadows(className, method);
+            const mungers: Array<ShadowMunger> = AspectCompiler.match(matchers, shadows);
+            if (mungers.length > 0 || AspectCompiler.isTracked(matchers, shadows)) {
+                const chain: AdviceChain = new AdviceChain(className, method, () => matchers, sourceLocation);
+                const original: Function = Reflect.get(owner, method.name);
+                members.push({owner, name: method.name, descriptor: Object.getOwnPropertyDescriptor(owner, method.name)});
+                Object.defineProperty(owner, method.name, {
+                    configurable: true,
+                    enumerable: false,
+                    writable: true,
+                    value: function (this: any, ...args: Array<any>): any {
+                        return chain.invoke(original, this, args);
+                    }
+                });
+                woven.push(method.isStatic ? `${className}.${method.name}` : method.name);
+            }
+        });
+        FieldChain.getFields(className, declaringClass).forEach((field: Field) => {
+            const owner: any = field.isStatic ? declaringClass : declaringClass.prototype;
+            const shadows: Array<Shadow> = FieldChain.createShadows(className, field);
+            if (AspectCompiler.match(matchers, shadows).length > 0 || AspectCompiler.isTracked(matchers, shadows)) {
+                const chain: FieldChain = new FieldChain(className, field, () => matchers, sourceLocation);
+                const original: PropertyDescriptor | undefined = Object.getOwnPropertyDescriptor(owner, field.name);
+                const descriptor: PropertyDescriptor | undefined = original && {...original};
+                members.push({owner, name: field.name, descriptor, chain});
+                Object.defineProperty(owner, field.name, chain.intercept(descriptor));
+            }
+        });
+        const constructors: Array<ConstructorDescriptor> = ConstructorChain.getConstructors(className, declaringClass);
+        if (constructors.some((descriptor: ConstructorDescriptor) => {
+            const shadows: Array<Shadow> = ConstructorChain.createShadows(className, descriptor);
+            return AspectCompiler.match(matchers, shadows).length > 0 || AspectCompiler.isTracked(matchers, shadows);
+        })) {
+            const chains: Array<ConstructorChain> = constructors.map((descriptor: ConstructorDescriptor) =>
+                new ConstructorChain(
+                    className, new Constructor(declaringClass, descriptor), descriptor, () => matchers, sourceLocation
+                )
+            );
+            const registered: Function = Class.forName(className);
+            PROXIED.set(className, registered);
+            Descriptor.addType(className, ConstructorChain.intercept(registered, chains));
+        }
+        WOVEN.set(className, members);
+        return woven;
+    }
+
+    /**
+     * Restore the original methods, fields and constructors of a woven
+     * class, a static field keeps its last value. The instance fields of
+     * the objects created while woven become data properties holding their
+     * values on next access, see {@link FieldChain}.
+     *
+     * @param className - The class name.
+     */
+    public static unweave(className: string): void {
+        const members: Array<WovenMember> | undefined = WOVEN.get(className);
+        if (members) {
+            members.forEach((member: WovenMember) => {
+                if (member.descriptor) {
+                    Object.defineProperty(member.owner, member.name, member.descriptor);
+                } else {
+                    Reflect.deleteProperty(member.owner, member.name);
+                }
+                if (member.chain) {
+                    member.chain.release();
+                }
+            });
+            WOVEN.delete(className);
+        }
+        const type: Function | undefined = PROXIED.get(className);
+        if (type) {
+            Descriptor.addType(className, type);
+            PROXIED.delete(className);
+        }
+    }
+
+    /**
+     * Return the methods of a class, described by the registered
+     * descriptors when available, inherited methods included.
+     *
+     * @param className - The class name.
+     * @param declaringClass - The class.
+     * @returns The list of {@link Method}
+     */
+    private static getMethods(className: string, declaringClass: Function): Array<Method> {
+        const described: Array<Method> = Descriptor.getModuleOfClass(className) ?
+            Class.loadClass(className).methods : [];
+        const methods: Array<Method> = [];
+        [declaringClass.prototype, declaringClass].forEach((owner: any) => {
+            const isStatic: boolean = owner === declaringClass;
+            const names: Array<string> = isStatic ?
+                Weaver.getStaticMethodNames(declaringClass) : Class.getMethodNames(owner);
+            names
+                .filter((name: string) => name !== 'constructor' && !Weaver.isBuiltin(owner, name))
+                .forEach((name: string) => {
+                    const method: Method | undefined = described.find((m: Method) =>
+                        m.name === name && m.isStatic === isStatic
+                    );
+                    methods.push(method || new Method(
+                        declaringClass, Weaver.describe(name, Reflect.get(owner, name), isStatic)
+                    ));
+                });
+        });
+        return methods;
+    }
+
+    /**
+     * Get the static method names of a class and its superclasses,
+     * `Function.prototype` is not walked as its `caller` and `arguments`
+     * properties throw in strict mode.
+     *
+     * @param declaringClass - The class.
+     * @returns The static method names
+     */
+    private static getStaticMethodNames(declaringClass: Function): Array<string> {
+        const methods: Array<string> = [];
+        let type: any = declaringClass;
+        for (; type && type !== Function.prototype; type = Object.getPrototypeOf(type)) {
+            Object.entries(Object.getOwnPropertyDescriptors(type))
+                .forEach(([name, descriptor]: [string, PropertyDescriptor]) => {
+                    if (typeof descriptor.value === 'function' && !methods.includes(name)) {
+                        methods.push(name);
+                    }
+                });
+        }
+        return methods;
+    }
+
+    /**
+     * Synthesize the {@link MethodDescriptor} of an undescribed method.
+     *
+     * @param name - The method name.
+     * @param fn - The method.
+     * @param isStatic - True for static.
+     * @returns The descriptor, types are `any`
+     */
+    private static describe(name: string, fn: Function, isStatic: boolean): MethodDescriptor {
+        const kind: string = fn.constructor.name;
+        return {
+            isAbstract: false,
+            isStatic,
+            isSignature: false,
+            isAsync: kind === 'AsyncFunction' || kind === 'AsyncGeneratorFunction',
+            isOverload: false,
+            isImplementation: true,
+            isGenerator: kind === 'GeneratorFunction' || kind === 'AsyncGeneratorFunction',
+            modifiers: [],
+            name,
+            parameters: Array.from({length: fn.length}, (_: unknown, index: number): ParameterDescriptor => ({
+                index,
+                isOptional: false,
+                isRestParameter: false,
+                modifiers: [],
+                name: `arg${index}`,
+                type: 'any'
+            })),
+            returnType: 'any'
+        };
+    }
+
+    /**
+     * Return true when a method is inherited from `Object` or `Function`.
+     *
+     * @param owner - The prototype or the class.
+     * @param name - The method name.
+     * @returns True for builtin methods
+     */
+    private static isBuiltin(owner: any, name: string): boolean {
+        for (; owner !== null && owner !== undefined; owner = Object.getPrototypeOf(owner)) {
+            if (Object.prototype.hasOwnProperty.call(owner, name)) {
+                return owner === Object.prototype || owner === Function.prototype;
+            }
+        }
+        return false;
+    }
+}
+
+export default Weaver;
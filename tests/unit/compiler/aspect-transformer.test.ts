@@ -0,0 +1,270 @@
+import ts from 'typescript';
+import {ClassDeclaration, Project} from 'ts-morph';
+import {AspectTransformer, WeavingPass} from '@ornorm/aspectT';
+
+describe('AspectTransformer', () => {
+    const account: string = `
+export class Account {
+    balance: number = 0;
+
+    deposit(amount: number): number {
+        this.balance += amount;
+        return this.balance;
+    }
+
+    static open({owner}: {owner: string}): Account {
+        return new Account();
+    }
+
+    toString(): string {
+        return \`\${this.balance}\`;
+    }
+}
+`;
+    let transformer: AspectTransformer;
+
+    beforeEach(() => {
+        const project: Project = new Project({useInMemoryFileSystem: true});
+        project.createSourceFile('/src/auditing.ts', `
+@Aspect()
+export default class Auditing {
+    @Advice('before() : execution(* Account.deposit(..)) || execution(static * open(..))')
+    logBefore(): void {}
+}
+`);
+        project.createSourceFile('/src/account.ts', account);
+        transformer = new AspectTransformer(new WeavingPass(project), 'aspectT-runtime');
+    });
+
+    const transpile: (module: ts.ModuleKind) => string = (module: ts.ModuleKind): string => ts.transpileModule(account, {
+        compilerOptions: {module, target: ts.ScriptTarget.ES2020},
+        fileName: '/src/account.ts',
+        transformers: transformer.transformers
+    }).outputText;
+
+    it('should move the body of woven methods into an advice chain', () => {
+        const text: string = transpile(ts.ModuleKind.ES2020);
+        expect(text).toContain('import * as aspectT$runtime from "aspectT-runtime";');
+        expect(text).toContain('import * as aspectT$aspect0 from "./auditing";');
+        expect(text).toContain('return aspectT$Account$deposit.invoke(amount => {');
+        expect(text).toContain('}, this, [amount]);');
+        expect(text).toContain('static open(aspectT$arg0) {');
+        expect(text).toContain('return aspectT$Account$static$open.invoke(({ owner }) => {');
+        expect(text).toContain('const aspectT$Account$deposit = aspectT$runtime.AdviceChain.lazy(Account, "Account", { isSignature: false,');
+        expect(text).toContain('type: aspectT$aspect0.default,');
+        expect(text).toContain('return `${this.balance}`;');
+        expect(text).not.toContain('aspectT$Account$toString');
+    });
+
+    it('should keep the imports valid in CommonJS', () => {
+        const text: string = transpile(ts.ModuleKind.CommonJS);
+        expect(text).toContain('const aspectT$runtime = require("aspectT-runtime");');
+        expect(text).toContain('aspectT$runtime.AdviceChain.lazy(Account');
+    });
+
+    it('should rewrite the declared parents', () => {
+        const project: Project = transformer.pass.project;
+        project.createSourceFile('/src/base.ts', 'export class Base {\n}\n');
+        project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing').addDecorators([
+            {name: 'DeclareParents', arguments: ['\'Account extends Base\'']},
+            {name: 'DeclareParents', arguments: ['\'Account implements Serializable\'']}
+        ]);
+        transformer = new AspectTransformer(new WeavingPass(project), 'aspectT-runtime');
+        const text: string = transpile(ts.ModuleKind.ES2020);
+        expect(text).toContain('export class Account extends aspectT$type1.Base {');
+        expect(text).toContain('import * as aspectT$type1 from "./base";');
+        expect(text).toContain('aspectT$runtime.DeclareParents.implement(Account, ["Serializable"], []);');
+    });
+
+    it('should add the inter-type members to their target', () => {
+        const project: Project = transformer.pass.project;
+        const auditing: ClassDeclaration = project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing');
+        auditing.addMethod({
+            name: 'Account$reset',
+            parameters: [{name: 'this', type: 'Account'}, {name: 'to', type: 'number'}],
+            decorators: [{name: 'InterType', arguments: ['\'Account.reset(..)\'']}],
+            statements: ['this.balance = to;']
+        });
+        auditing.addMethod({
+            name: 'Account$new',
+            parameters: [{name: 'this', type: 'Account'}, {name: 'balance', type: 'number'}],
+            decorators: [{name: 'InterType', arguments: ['\'Account.new(..)\'']}],
+            statements: ['this.balance = balance;']
+        });
+        transformer = new AspectTransformer(new WeavingPass(project), 'aspectT-runtime');
+        const text: string = transpile(ts.ModuleKind.ES2020);
+        expect(text).toContain('reset(aspectT$arg0) {\n        return aspectT$aspect0.default.prototype.Account$reset.call(this, aspectT$arg0);');
+        expect(text).toContain('if (arguments.length === 1) {\n            aspectT$aspect0.default.prototype.Account$new.call(this, arguments[0]);');
+    });
+
+    it('should attach the declared annotations', () => {
+        const project: Project = transformer.pass.project;
+        project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing').addDecorators([
+            {name: 'DeclareTypeAnnotation', arguments: ['\'Account\'', '\'@Entity\'']},
+            {name: 'DeclareMethodAnnotation', arguments: ['\'static * Account.open(..)\'', '\'@Factory("account")\'']}
+        ]);
+        transformer = new AspectTransformer(new WeavingPass(project), 'aspectT-runtime');
+        const text: string = transpile(ts.ModuleKind.ES2020);
+        expect(text).toContain('aspectT$runtime.Annotations.annotate(Account, { name: "Entity", values: [] });');
+        expect(text).toContain(
+            'aspectT$runtime.Annotations.annotate(Account, { name: "Factory", values: ["account"] }, "open");'
+        );
+    });
+
+    it('should replace the matching properties by intercepted accessors', () => {
+        const project: Project = transformer.pass.project;
+        project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing').addMethod({
+            name: 'logBalance', decorators: [{name: 'Advice', arguments: ['\'before() : set(* Account.balance)\'']}]
+        });
+        transformer = new AspectTransformer(new WeavingPass(project), 'aspectT-runtime');
+        const text: string = transpile(ts.ModuleKind.ES2020);
+        expect(text).toContain('Object.defineProperty(Account.prototype, "balance", aspectT$runtime.FieldChain.lazy(Account, "Account",');
+        expect(text).toContain(
+            '.intercept(Object.getOwnPropertyDescriptor(Account.prototype, "balance")));\nfunction aspectT$aspects() {'
+        );
+    });
+
+    it('should access the private members through the accessor shims of privileged aspects', () => {
+        const vault: string = `
+export class Vault {
+    #secret: string = 's';
+    private count: number = 0;
+
+    lock(): void {}
+}
+`;
+        const inspecting: string = `
+import {Vault} from './vault';
+
+@Aspect()
+@Privileged()
+export class Inspecting {
+    @Before('execution(* Vault.lock(..)) && target(vault)', 'Vault vault')
+    inspect(vault: Vault): void {
+        vault.#secret = vault.#secret + vault.count;
+    }
+}
+`;
+        const project: Project = transformer.pass.project;
+        project.createSourceFile('/src/vault.ts', vault);
+        project.createSourceFile('/src/inspecting.ts', inspecting);
+        transformer = new AspectTransformer(new WeavingPass(project), 'aspectT-runtime');
+        const compile: (text: string, fileName: string) => string = (text: string, fileName: string): string =>
+            ts.transpileModule(text, {
+                compilerOptions: {
+                    module: ts.ModuleKind.ES2020, target: ts.ScriptTarget.ES2022, experimentalDecorators: true
+                },
+                fileName,
+                transformers: transformer.transformers
+            }).outputText;
+        expect(compile(vault, '/src/vault.ts')).toContain(
+            '    static aspectT$privileged$$secret(target) {\n' +
+            '        return {\n' +
+            '            get value() {\n' +
+            '                return target.#secret;\n' +
+            '            },\n' +
+            '            set value(value) {\n' +
+            '                target.#secret = value;\n' +
+            '            }\n' +
+            '        };\n' +
+            '    }\n'
+        );
+        const text: string = compile(inspecting, '/src/inspecting.ts');
+        expect(text).toContain('import * as aspectT$type1 from "./vault";');
+        expect(text).toContain(
+            'aspectT$type1.Vault.aspectT$privileged$$secret(vault).value = ' +
+            'aspectT$type1.Vault.aspectT$privileged$$secret(vault).value + ' +
+            'aspectT$type1.Vault.aspectT$privileged$count(vault).value;'
+        );
+    });
+
+    it('should run the before advice of the matching catch clauses', () => {
+        const loader: string = `
+export class Loader {
+    load(path: string): string {
+        try {
+            return path;
+        } catch (e) {
+            if (e instanceof RangeError) return 'range';
+            throw e;
+        }
+    }
+
+    static parse(): void {
+        try {
+            Loader.prototype.load('');
+        } catch {}
+    }
+}
+`;
+        const project: Project = transformer.pass.project;
+        project.createSourceFile('/src/loader.ts', loader);
+        project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing').addMethods([
+            {name: 'logRange', decorators: [{name: 'Advice', arguments: ['\'before() : handler(RangeError)\'']}]},
+            {name: 'logParse', decorators: [{name: 'Advice', arguments: ['\'before() : handler(unknown)\'']}]}
+        ]);
+        transformer = new AspectTransformer(new WeavingPass(project), 'aspectT-runtime');
+        const text: string = ts.transpileModule(loader, {
+            compilerOptions: {module: ts.ModuleKind.ES2020, target: ts.ScriptTarget.ES2020},
+            fileName: '/src/loader.ts',
+            transformers: transformer.transformers
+        }).outputText;
+        expect(text).toContain('if (e instanceof RangeError) {\n                aspectT$Loader$handler0.handle(this, e);\n' +
+            '                return \'range\';\n            }');
+        expect(text).toContain('catch (aspectT$error) {\n            aspectT$Loader$handler1.handle(undefined, aspectT$error);\n        }');
+        expect(text).toContain('const aspectT$Loader$handler0 = aspectT$runtime.HandlerChain.lazy(Loader, { kind: "handler",');
+    });
+
+    it('should run the initialization advice around the super() call', () => {
+        const savings: string = `
+import {Account} from './account';
+
+export class Savings extends Account {
+    static rate: number = 2;
+
+    constructor(public owner: string) {
+        super();
+        this.balance = 10;
+    }
+}
+
+export class Checking {}
+`;
+        const project: Project = transformer.pass.project;
+        project.createSourceFile('/src/savings.ts', savings);
+        project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing').addMethods([
+            {name: 'logPre', decorators: [{name: 'Advice', arguments: ['\'before() : preinitialization(Savings.new(..))\'']}]},
+            {name: 'logInit', decorators: [{name: 'Advice', arguments: ['\'after() : initialization(*.new(..))\'']}]},
+            {name: 'logStatic', decorators: [{name: 'Advice', arguments: ['\'before() : staticinitialization(Savings)\'']}]}
+        ]);
+        transformer = new AspectTransformer(new WeavingPass(project), 'aspectT-runtime');
+        const text: string = ts.transpileModule(savings, {
+            compilerOptions: {module: ts.ModuleKind.ES2020, target: ts.ScriptTarget.ES2022},
+            fileName: '/src/savings.ts',
+            transformers: transformer.transformers
+        }).outputText;
+        expect(text).toContain('let aspectT$Savings$staticinitialization;\nexport class Savings extends Account {\n');
+        expect(text).toContain(
+            '    static {\n        aspectT$Savings$staticinitialization = aspectT$runtime.ConstructorChain.lazy(Savings, "Savings", '
+        );
+        expect(text).toContain(
+            '        aspectT$Savings$new.preinitialize([owner]);\n' +
+            '        super();\n' +
+            '        this.owner = owner;\n' +
+            '        const aspectT$initialization = aspectT$Savings$new.initialize(this, [owner]);\n' +
+            '        try {\n' +
+            '            this.balance = 10;\n' +
+            '        }\n' +
+            '        catch (aspectT$error) {\n' +
+            '            throw aspectT$initialization.threw(aspectT$error);\n' +
+            '        }\n' +
+            '        finally {\n' +
+            '            aspectT$initialization.returned();\n' +
+            '        }\n'
+        );
+        expect(text).toContain('    static {\n        aspectT$Savings$staticinitialization.returned();\n    }\n}');
+        expect(text).toContain('export class Checking {\n    constructor() {\n' +
+            '        aspectT$Checking$new.initialize(this, []).returned();\n    }\n}');
+        expect(text).toContain('const aspectT$Savings$new = aspectT$runtime.ConstructorChain.lazy(Savings, "Savings", ');
+    });
+});
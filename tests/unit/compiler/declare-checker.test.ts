@@ -0,0 +1,88 @@
+import {Project, Scope} from 'ts-morph';
+import {DeclareChecker, DeclareDiagnostic} from '@ornorm/aspectT';
+
+describe('DeclareChecker', () => {
+    let project: Project;
+
+    beforeEach(() => {
+        project = new Project({useInMemoryFileSystem: true});
+        project.createSourceFile('/src/rules.ts', `
+@Aspect()
+@DeclareError('call(Singleton.new(..)) && !within(Singleton)', 'use Singleton.instance')
+@DeclareWarning('set(* Point.*) && !withincode(* Point.move(..))', 'bad set')
+@DeclareWarning('call(* Point.move(..)) && within(Main)', 'moving')
+export class Rules {}
+`);
+        project.createSourceFile('/src/point.ts', `
+export class Singleton {
+    static instance: Singleton = new Singleton();
+}
+
+export class Point {
+    x: number = 0;
+
+    move(dx: number): void {
+        this.x += dx;
+    }
+}
+`);
+        project.createSourceFile('/src/main.ts', `
+import {Point, Singleton} from './point';
+
+export class Main {
+    run(point: Point): number {
+        const singleton: Singleton = new Singleton();
+        point.move(1);
+        point.x++;
+        return point.x;
+    }
+}
+`);
+    });
+
+    it('should report the matching join points', () => {
+        const diagnostics: Array<DeclareDiagnostic> = new DeclareChecker(project).check();
+        expect(diagnostics.map(DeclareChecker.format)).toEqual([
+            '/src/main.ts:6:38 - error: use Singleton.instance',
+            '/src/main.ts:7:9 - warning: moving',
+            '/src/main.ts:8:9 - warning: bad set'
+        ]);
+        expect(diagnostics[0].aspect).toBe('Rules');
+    });
+
+    it('should reject the pointcuts not statically determinable', () => {
+        project.getSourceFileOrThrow('/src/rules.ts').getClassOrThrow('Rules').addDecorator({
+            name: 'DeclareError', arguments: ['\'call(* *(..)) && args(int)\'', '\'dynamic\'']
+        });
+        expect(() => new DeclareChecker(project)).toThrow(
+            'UnsupportedOperationException args() in declare error : call(* *(..)) && args(int)'
+        );
+    });
+
+    it('should report the private members accessed by the aspects not privileged', () => {
+        project.createSourceFile('/src/peeking.ts', `
+import {Point} from './point';
+
+@Aspect()
+export class Peeking {
+    @Before('execution(* Point.move(..)) && target(point)', 'Point point')
+    peek(point: Point): void {
+        console.log(point.y, point.x);
+    }
+}
+`);
+        project.getSourceFileOrThrow('/src/point.ts').getClassOrThrow('Point').insertProperty(1, {
+            name: 'y', type: 'number', initializer: '0', scope: Scope.Private
+        });
+        const diagnostics: Array<DeclareDiagnostic> = new DeclareChecker(project).check();
+        expect(diagnostics.map(DeclareChecker.format)).toContain(
+            '/src/peeking.ts:8:21 - error: Point.y is private, the aspect Peeking must be @Privileged'
+        );
+        expect(diagnostics.filter((diagnostic: DeclareDiagnostic) => diagnostic.aspect === 'Peeking')).toHaveLength(1);
+        project.getSourceFileOrThrow('/src/peeking.ts').getClassOrThrow('Peeking')
+            .addDecorator({name: 'Privileged', arguments: []});
+        expect(new DeclareChecker(project).check().map(DeclareChecker.format)).not.toContain(
+            '/src/peeking.ts:8:21 - error: Point.y is private, the aspect Peeking must be @Privileged'
+        );
+    });
+});
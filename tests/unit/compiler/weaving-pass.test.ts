@@ -0,0 +1,586 @@
+import {
+    ClassDeclaration,
+    Decorator,
+    Diagnostic,
+    DiagnosticCategory,
+    Project,
+    Scope,
+    SourceFile,
+    StructureKind,
+    ts
+} from 'ts-morph';
+import {
+    Class,
+    PrivilegedShim,
+    SourceAspect,
+    Weaver,
+    WeavingPass,
+    WovenField,
+    WovenHandler,
+    WovenInitialization,
+    WovenMethod,
+    addInterTypeMember,
+    declareConstructorAnnotation,
+    declareFieldAnnotation,
+    declareMethodAnnotation,
+    declareParentsExtends,
+    declareParentsImplements,
+    declarePrecedence,
+    declareSoft,
+    declareTypeAnnotation
+} from '@ornorm/aspectT';
+
+describe('WeavingPass', () => {
+    let project: Project;
+    let account: SourceFile;
+
+    beforeEach(() => {
+        project = new Project({useInMemoryFileSystem: true});
+        project.createSourceFile('/src/auditing.ts', `
+@Aspect()
+export class Auditing {
+    @Pointcut('execution(* Account.*(number)) && args(amount)')
+    operation(amount: number): void {}
+
+    @Advice('before() : operation()')
+    logBefore(): void {}
+
+    @Advice('after() returning (int balance) : call(* Account.deposit(..))')
+    logReturn(balance: number): void {}
+}
+`);
+        account = project.createSourceFile('/src/account.ts', `
+export class Account {
+    balance: number = 0;
+
+    deposit(amount: number): number {
+        this.balance += amount;
+        return this.balance;
+    }
+
+    async transfer({to, amount}: {to: Account, amount: number}): Promise<void> {
+        await to.deposit(amount);
+    }
+
+    toString(): string {
+        return \`\${this.balance}
+  line\`;
+    }
+}
+`);
+    });
+
+    it('should read the aspects', () => {
+        const [auditing] = new WeavingPass(project).aspects;
+        expect(auditing.name).toBe('Auditing');
+        expect(auditing.pointcuts).toEqual([{
+            name: 'operation',
+            formals: 'number amount',
+            pointcut: 'execution(* Account.*(number)) && args(amount)'
+        }]);
+        expect(auditing.advices.map(({name}: {name: string}) => name)).toEqual(['logBefore', 'logReturn']);
+        expect(auditing.precedence).toEqual([]);
+    });
+
+    it('should read the advice shorthands and the per clause of @Aspect', () => {
+        project.createSourceFile('/src/logging.ts', `
+@Aspect('perthis(execution(* Account.*(..)))')
+export class Logging {
+    @Before('execution(* Account.deposit(..))')
+    logBefore(): void {}
+
+    @Around('call(* Account.deposit(..)) && args(amount)', 'int amount')
+    triple(amount: number): any {}
+}
+`);
+        const logging: SourceAspect = new WeavingPass(project).aspects.find(({name}: SourceAspect) => name === 'Logging')!;
+        expect(logging.perClause).toBe('perthis(execution(* Account.*(..)))');
+        expect(logging.advices).toEqual([
+            {name: 'logBefore', advice: 'before() : execution(* Account.deposit(..))'},
+            {name: 'triple', advice: 'Object around(int amount) : call(* Account.deposit(..)) && args(amount)'}
+        ]);
+    });
+
+    it('should read the declare statements', () => {
+        const declaration: ClassDeclaration = project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing');
+        declarePrecedence(declaration, ['Auditing', '*']);
+        declareSoft(declaration, 'IOException', 'execution(* Account.*(..))');
+        const [auditing] = new WeavingPass(project).aspects;
+        expect(auditing.precedence).toEqual(['Auditing, *']);
+        expect(auditing.softs).toEqual([{type: 'IOException', pointcut: 'execution(* Account.*(..))'}]);
+    });
+
+    it('should find the matching methods', () => {
+        const methods: Array<WovenMethod> = new WeavingPass(project).getWovenMethods(account);
+        expect(methods.map((method: WovenMethod) => method.chainName)).toEqual(['aspectT$Account$deposit']);
+    });
+
+    it('should move the body of woven methods into an advice chain', () => {
+        project.getSourceFileOrThrow('/src/auditing.ts')
+            .getClassOrThrow('Auditing')
+            .addMethod({name: 'logTransfer', decorators: [{name: 'Advice', arguments: ['\'before() : execution(* transfer(..)) || execution(String toString())\'']}]});
+        new WeavingPass(project, 'aspectT-runtime').weaveSourceFile(account);
+        const text: string = account.getFullText();
+        expect(text).toContain('return aspectT$Account$deposit.invoke((amount: number): number => {');
+        expect(text).toContain('        return this.balance;\n        }, this, [amount]);');
+        expect(text).toContain('return aspectT$Account$transfer.invoke(async ({to, amount}: {to: Account, amount: number}): Promise<void> => {');
+        expect(text).toContain('}, this, [aspectT$arg0]);');
+        expect(text).toContain('import { AdviceChain, AspectDescriptor } from "aspectT-runtime";');
+        expect(text).toContain('import { Auditing as aspectT$Auditing } from "./auditing";');
+        expect(text).toContain('const aspectT$Account$deposit: AdviceChain = AdviceChain.lazy(Account, \'Account\',');
+        expect(text).toContain('function aspectT$aspects(): Array<AspectDescriptor> {');
+        expect(text).toContain('return `${this.balance}\n  line`;');
+    });
+
+    it('should rewrite the declared parents', () => {
+        project.createSourceFile('/src/shapes.ts', `
+export class Shape {}
+
+export class Polygon extends Shape {}
+
+export class Comparable {
+    compareTo(other: any): number {
+        return 0;
+    }
+}
+
+export interface Serializable {}
+`);
+        const declaration: ClassDeclaration = project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing');
+        declareParentsExtends(declaration, 'Account', 'Polygon');
+        declareParentsImplements(declaration, 'Account', ['Comparable', 'Serializable']);
+        const pass: WeavingPass = new WeavingPass(project, 'aspectT-runtime');
+        expect(pass.aspects[0].parents).toEqual(['Account extends Polygon', 'Account implements Comparable, Serializable']);
+        pass.weaveSourceFile(account);
+        const text: string = account.getFullText();
+        expect(text).toContain('export class Account extends aspectT$Polygon implements aspectT$Comparable, aspectT$Serializable {');
+        expect(text).toContain('export interface Account extends aspectT$Comparable {\n}');
+        expect(text).toContain('import { DeclareParents } from "aspectT-runtime";');
+        expect(text).toContain('DeclareParents.implement(Account, ["Comparable","Serializable"], [aspectT$Comparable]);');
+        expect(() => declareParentsExtends(declaration, 'Polygon', 'Account'))
+            .toThrow('IllegalArgumentException Polygon cannot extend Account');
+        const entry: SourceFile = project.createSourceFile('/src/entry.ts', `
+export class Named {
+    constructor(public name: string) {}
+}
+
+export class Entry {}
+`);
+        declareParentsExtends(declaration, 'Entry', 'Named');
+        expect(() => new WeavingPass(project, 'aspectT-runtime').getDeclaredParents(entry))
+            .toThrow('IllegalArgumentException Entry cannot extend Named, its constructor takes arguments');
+    });
+
+    it('should run the constructor of a declared superclass as the runtime weaver does', () => {
+        const fixture: string = `
+class Entity {
+    id: number = 7;
+    tags: Array<string> = ['entity'];
+}
+
+class Ledger {
+    balance: number;
+    tags: Array<string> = ['ledger'];
+
+    constructor(balance: number) {
+        this.balance = balance;
+    }
+}
+`;
+        const load: (text: string) => Record<string, Function> = (text: string): Record<string, Function> =>
+            new Function(`${ts.transpileModule(text, {compilerOptions: {target: ts.ScriptTarget.ES2020}}).outputText}
+                return {Entity, Ledger};`)();
+        const ledger: SourceFile = project.createSourceFile('/src/ledger.ts', fixture);
+        const declaration: ClassDeclaration = project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing');
+        declareParentsExtends(declaration, 'Ledger', 'Entity');
+        new WeavingPass(project, 'aspectT-runtime').weaveSourceFile(ledger);
+        const woven: Record<string, Function> = load(ledger.getFullText());
+        const compiled: any = Reflect.construct(woven.Ledger, [10]);
+        const types: Record<string, Function> = load(fixture);
+        Class.addClass('Entity', types.Entity);
+        Class.addClass('Ledger', types.Ledger);
+        Weaver.weave('Ledger', {name: 'Parents', type: class Parents {}, advices: [], parents: ['Ledger extends Entity']});
+        try {
+            const constructed: any = new (Class.forName('Ledger'))(10);
+            expect(compiled).toBeInstanceOf(woven.Entity);
+            expect(constructed).toBeInstanceOf(types.Entity);
+            expect({...constructed}).toEqual({...compiled});
+            expect({...constructed}).toEqual({id: 7, tags: ['ledger'], balance: 10});
+        } finally {
+            Weaver.unweave('Ledger');
+        }
+    });
+
+    it('should add the inter-type members to their target', () => {
+        const declaration: ClassDeclaration = project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing');
+        addInterTypeMember(declaration, [
+            {kind: StructureKind.Method, onType: 'Account', name: 'reset', returnType: 'void', statements: ['this.balance = 0;']},
+            {kind: StructureKind.Constructor, onType: 'Account', parameters: [{name: 'balance', type: 'number'}], statements: ['this.balance = balance;']},
+            {kind: StructureKind.Property, onType: 'Account', name: 'owner', type: 'string', initializer: '\'me\'', scope: Scope.Private}
+        ]);
+        expect(declaration.getMethodOrThrow('Account$reset').getText()).toBe(
+            '@InterType("Account.reset(..)")\n    Account$reset(this: Account): void {\n        this.balance = 0;\n    }'
+        );
+        const pass: WeavingPass = new WeavingPass(project, 'aspectT-runtime');
+        expect(pass.aspects[0].interTypes).toEqual([
+            {name: 'Account$reset', declaration: 'Account.reset(..)'},
+            {name: 'Account$new', declaration: 'Account.new(..)'},
+            {name: 'Account$owner', declaration: 'private Account.owner'}
+        ]);
+        pass.weaveSourceFile(account);
+        const text: string = account.getFullText();
+        expect(text).toContain('reset(): void {\n        return aspectT$Auditing.prototype.Account$reset.call(this);\n    }');
+        expect(text).toContain('aspectT$Auditing$owner: string = aspectT$Auditing.prototype.Account$owner.call(this);');
+        expect(text).toContain('constructor();\n    constructor(balance: number);\n    constructor() {');
+        expect(text).toContain('if (arguments.length === 1) {\n            aspectT$Auditing.prototype.Account$new.call(this, arguments[0]);');
+        expect(text.match(/import \{ Auditing as aspectT\$Auditing \}/g)).toHaveLength(1);
+        expect(() => addInterTypeMember(declaration, [
+            {kind: StructureKind.Property, onType: 'Account', name: 'x', isStatic: true, scope: Scope.Private, initializer: '0'},
+            {kind: StructureKind.Method, onType: 'Account.Foo', name: 'm'}
+        ])).toThrow('IllegalArgumentException inter-type declaration Account.Foo.m(..)');
+    });
+
+    it('should attach the declared annotations', () => {
+        const declaration: ClassDeclaration = project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing');
+        declareTypeAnnotation(declaration, 'Acc*', '@Entity("accounts")');
+        declareMethodAnnotation(declaration, '* Account.de*(..)', '@Transactional');
+        declareConstructorAnnotation(declaration, 'Account.new()', '@Inject');
+        declareFieldAnnotation(declaration, 'number Account.*', '@Column(1)');
+        expect(declaration.getDecorators().map((decorator: Decorator) => decorator.getText())).toContain(
+            '@DeclareMethodAnnotation("* Account.de*(..)", "@Transactional")'
+        );
+        const pass: WeavingPass = new WeavingPass(project, 'aspectT-runtime');
+        expect(pass.aspects[0].annotations).toEqual([
+            {kind: 'type', pattern: 'Acc*', annotation: '@Entity("accounts")'},
+            {kind: 'method', pattern: '* Account.de*(..)', annotation: '@Transactional'},
+            {kind: 'constructor', pattern: 'Account.new()', annotation: '@Inject'},
+            {kind: 'field', pattern: 'number Account.*', annotation: '@Column(1)'}
+        ]);
+        pass.weaveSourceFile(account);
+        const text: string = account.getFullText();
+        expect(text).toContain('import { Annotations } from "aspectT-runtime";');
+        expect(text).toContain('Annotations.annotate(Account, {"name":"Entity","values":["accounts"]});');
+        expect(text).toContain('Annotations.annotate(Account, {"name":"Inject","values":[]}, "constructor");');
+        expect(text).toContain('Annotations.annotate(Account.prototype, {"name":"Transactional","values":[]}, "deposit");');
+        expect(text).toContain('Annotations.annotate(Account.prototype, {"name":"Column","values":[1]}, "balance");');
+        expect(text).not.toContain('"transfer");');
+        expect(() => declareFieldAnnotation(declaration, '* Account.*', 'Column')).toThrow(
+            'IllegalArgumentException annotation Column'
+        );
+    });
+
+    it('should match the annotations captured from the decorators', () => {
+        project.createSourceFile('/src/ledger.ts', `
+@Audited('ledger')
+export class Ledger {
+    @Transactional('required')
+    post(amount: number): void {}
+
+    close(): void {}
+}
+`);
+        project.getSourceFileOrThrow('/src/auditing.ts')
+            .getClassOrThrow('Auditing')
+            .addMethod({name: 'begin', decorators: [{name: 'Advice', arguments: [
+                '\'before(Transactional tx) : execution(* *(..)) && @within(Audited) && @annotation(tx)\''
+            ]}]});
+        const ledger: SourceFile = project.getSourceFileOrThrow('/src/ledger.ts');
+        const pass: WeavingPass = new WeavingPass(project, 'aspectT-runtime');
+        expect(pass.getWovenMethods(ledger).map((method: WovenMethod) => method.chainName)).toEqual(['aspectT$Ledger$post']);
+        expect(pass.getWovenMethods(ledger)[0].descriptor.annotations).toEqual([
+            {name: 'Transactional', values: ['required']}
+        ]);
+        pass.weaveSourceFile(ledger);
+        const text: string = ledger.getFullText();
+        expect(text).toContain('Annotations.annotate(Ledger, {"name":"Audited","values":["ledger"]});');
+        expect(text).toContain('Annotations.annotate(Ledger.prototype, {"name":"Transactional","values":["required"]}, "post");');
+    });
+
+    it('should resolve the supertypes and the module paths of the type patterns', () => {
+        project.createSourceFile('/src/model/shapes.ts', `
+export interface Measurable {
+    area(): number;
+}
+
+export class Shape implements Measurable {
+    area(): number {
+        return 0;
+    }
+}
+
+export class Polygon extends Shape {
+    area(): number {
+        return 1;
+    }
+}
+
+export class Circle {
+    area(): number {
+        return 2;
+    }
+}
+`);
+        project.getSourceFileOrThrow('/src/auditing.ts')
+            .getClassOrThrow('Auditing')
+            .addMethods([
+                {name: 'measure', decorators: [{name: 'Before', arguments: ['\'execution(* Measurable+.area(..))\'']}]},
+                {name: 'locate', decorators: [{name: 'Before', arguments: ['\'execution(* model..Ci*.area(..))\'']}]}
+            ]);
+        const shapes: SourceFile = project.getSourceFileOrThrow('/src/model/shapes.ts');
+        const pass: WeavingPass = new WeavingPass(project, 'aspectT-runtime');
+        expect(pass.getWovenMethods(shapes).map((method: WovenMethod) => method.chainName)).toEqual([
+            'aspectT$Shape$area', 'aspectT$Polygon$area', 'aspectT$Circle$area'
+        ]);
+    });
+
+    it('should bind the advice of the abstract aspects in their concrete sub aspects', () => {
+        const tracing: SourceFile = project.createSourceFile('/src/tracing.ts', `
+@Aspect()
+export abstract class Tracing {
+    @Pointcut('')
+    abstract scope(): void;
+
+    @Before('scope()')
+    trace(): void {}
+}
+
+@Aspect()
+export class StringTracing extends Tracing {
+    @Pointcut('execution(String Account.toString())')
+    scope(): void {}
+}
+`);
+        const pass: WeavingPass = new WeavingPass(project, 'aspectT-runtime');
+        const [abstractTracing, stringTracing] = pass.aspects.slice(1);
+        expect(abstractTracing.isAbstract).toBe(true);
+        expect(abstractTracing.pointcuts).toEqual([{name: 'scope', formals: '', pointcut: '', isAbstract: true}]);
+        expect(stringTracing.isAbstract).toBeUndefined();
+        expect(stringTracing.superAspect!.name).toBe('Tracing');
+        expect(pass.getWovenMethods(account).map((method: WovenMethod) => method.chainName)).toEqual([
+            'aspectT$Account$deposit', 'aspectT$Account$toString'
+        ]);
+        pass.weaveSourceFile(account);
+        const text: string = account.getFullText();
+        expect(text).toContain(
+            '{name: \'StringTracing\', type: aspectT$StringTracing, pointcuts: ' +
+            '[{"name":"scope","formals":"","pointcut":"execution(String Account.toString())"}], ' +
+            'advices: [{"name":"trace","advice":"before() : scope()"}]}'
+        );
+        expect(text).toContain('advices: [{"name":"trace","advice":"before() : scope()"}], isAbstract: true}');
+        tracing.getClassOrThrow('StringTracing').getMethodOrThrow('scope').remove();
+        expect(() => new WeavingPass(project)).toThrow(
+            'AbstractMethodError StringTracing does not define the abstract pointcut scope()'
+        );
+    });
+
+    it('should replace the matching properties by intercepted accessors', () => {
+        project.getSourceFileOrThrow('/src/auditing.ts')
+            .getClassOrThrow('Auditing')
+            .addMethod({name: 'logBalance', decorators: [{name: 'Advice', arguments: ['\'before(int v) : set(* Account.balance) && args(v)\'']}]});
+        const pass: WeavingPass = new WeavingPass(project, 'aspectT-runtime');
+        expect(pass.getWovenFields(account).map((field: WovenField) => field.descriptor.name)).toEqual(['balance']);
+        pass.weaveSourceFile(account);
+        const text: string = account.getFullText();
+        expect(text).toContain('import { AdviceChain, AspectDescriptor, FieldChain } from "aspectT-runtime";');
+        expect(text).toContain('Object.defineProperty(Account.prototype, "balance", FieldChain.lazy(Account, \'Account\',');
+        expect(text).toContain(', false, aspectT$aspects, {"fileName":"account.ts","line":3,"column":5})' +
+            '.intercept(Object.getOwnPropertyDescriptor(Account.prototype, "balance")));');
+    });
+
+    it('should access the private members through the accessor shims of privileged aspects', () => {
+        project.compilerOptions.set({target: ts.ScriptTarget.ES2022});
+        const vault: SourceFile = project.createSourceFile('/src/vault.ts', `
+export class Vault {
+    #secret: string = 's';
+    private count: number = 0;
+    static #instances: number = 0;
+
+    constructor(private readonly owner: string) {}
+
+    #open(key: string): boolean {
+        return key === this.#secret;
+    }
+
+    lock(): void {}
+}
+`);
+        const inspecting: SourceFile = project.createSourceFile('/src/inspecting.ts', `
+import {Vault} from './vault';
+
+@Aspect()
+@Privileged()
+export class Inspecting {
+    @Before('execution(* Vault.lock(..)) && target(vault)', 'Vault vault')
+    inspect(vault: Vault): void {
+        vault.#secret = vault.#secret + vault.owner;
+        vault.count++;
+        Vault.#instances += Number(vault.#open('s'));
+    }
+}
+`);
+        const pass: WeavingPass = new WeavingPass(project, 'aspectT-runtime');
+        expect(pass.getPrivilegedShims(vault).map((shim: PrivilegedShim) => shim.shimName)).toEqual([
+            'aspectT$privileged$$secret',
+            'aspectT$privileged$owner',
+            'aspectT$privileged$count',
+            'aspectT$privileged$$instances',
+            'aspectT$privileged$$open'
+        ]);
+        pass.weaveSourceFile(inspecting);
+        pass.weaveSourceFile(vault);
+        expect(inspecting.getFullText()).toContain('import { Vault as aspectT$Vault } from "./vault";');
+        expect(inspecting.getFullText()).toContain(
+            '        aspectT$Vault.aspectT$privileged$$secret(vault).value = ' +
+            'aspectT$Vault.aspectT$privileged$$secret(vault).value + ' +
+            'aspectT$Vault.aspectT$privileged$owner(vault).value;\n' +
+            '        aspectT$Vault.aspectT$privileged$count(vault).value++;\n' +
+            '        aspectT$Vault.aspectT$privileged$$instances(Vault).value += ' +
+            'Number(aspectT$Vault.aspectT$privileged$$open(vault).value(\'s\'));\n'
+        );
+        const text: string = vault.getFullText();
+        expect(text).toContain(
+            '    static aspectT$privileged$$secret(target: Vault): {value: string} {\n' +
+            '        return {\n' +
+            '            get value(): string {\n' +
+            '                return target.#secret;\n' +
+            '            },\n' +
+            '            set value(value: string) {\n' +
+            '                target.#secret = value;\n' +
+            '            }\n' +
+            '        };\n' +
+            '    }\n'
+        );
+        expect(text).toContain('static aspectT$privileged$owner(target: Vault): {readonly value: string} {');
+        expect(text).toContain('static aspectT$privileged$$instances(target: typeof Vault): {value: number} {');
+        expect(text).toContain('return target.#open.bind(target);');
+        expect([...vault.getPreEmitDiagnostics(), ...inspecting.getPreEmitDiagnostics()]
+            .filter((diagnostic: Diagnostic) => diagnostic.getCategory() === DiagnosticCategory.Error &&
+                ![2304, 2307, 2792].includes(diagnostic.getCode()))
+            .map((diagnostic: Diagnostic) => diagnostic.getMessageText())).toEqual([]);
+    });
+
+    it('should run the before advice of the matching catch clauses', () => {
+        project.createSourceFile('/src/loader.ts', `
+export class IOException extends Error {}
+
+export class Loader {
+    load(path: string): string {
+        try {
+            return path;
+        } catch (e) {
+            if (e instanceof IOException) {
+                return '';
+            } else if (e instanceof RangeError) return 'range';
+            else {
+                throw e;
+            }
+        }
+    }
+
+    static parse(): void {
+        try {
+            Loader.prototype.load('');
+        } catch {
+            return;
+        }
+        try { Loader.prototype.load(''); } catch {}
+    }
+}
+`);
+        const auditing: ClassDeclaration = project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing');
+        auditing.addMethods([
+            {name: 'logIO', decorators: [{name: 'Advice', arguments: ['\'before(IOException e) : handler(IOException+) && args(e)\'']}]},
+            {name: 'logParse', decorators: [{name: 'Advice', arguments: ['\'before() : handler(*) && withincode(static * Loader.parse(..))\'']}]}
+        ]);
+        const loader: SourceFile = project.getSourceFileOrThrow('/src/loader.ts');
+        const pass: WeavingPass = new WeavingPass(project, 'aspectT-runtime');
+        expect(pass.getWovenHandlers(loader).map(({chainName, shadow}: WovenHandler) => [chainName, shadow.declaringType]))
+            .toEqual([
+                ['aspectT$Loader$handler0', 'IOException'],
+                ['aspectT$Loader$handler1', 'unknown'],
+                ['aspectT$Loader$handler2', 'unknown']
+            ]);
+        pass.weaveSourceFile(loader);
+        const text: string = loader.getFullText();
+        expect(text).toContain('import { AspectDescriptor, HandlerChain } from "aspectT-runtime";');
+        expect(text).toContain('if (e instanceof IOException) {\n                aspectT$Loader$handler0.handle(this, e);\n');
+        expect(text).toContain('} else if (e instanceof RangeError) return \'range\';');
+        expect(text).toContain('} catch (aspectT$error) {\n            aspectT$Loader$handler1.handle(undefined, aspectT$error);\n');
+        expect(text).toContain(
+            'try { Loader.prototype.load(\'\'); } catch (aspectT$error) {\n' +
+            '            aspectT$Loader$handler2.handle(undefined, aspectT$error);\n        }'
+        );
+        expect(text).toContain(
+            'const aspectT$Loader$handler0: HandlerChain = HandlerChain.lazy(Loader, {"kind":"handler","declaringType":"IOException",'
+        );
+        auditing.addMethod({name: 'logRange', decorators: [{name: 'Advice', arguments: ['\'after() : handler(RangeError)\'']}]});
+        expect(() => new WeavingPass(project).getWovenHandlers(loader)).toThrow(
+            'UnsupportedOperationException after advice on handler(RangeError)'
+        );
+    });
+
+    it('should run the initialization advice around the super() call', () => {
+        project.createSourceFile('/src/savings.ts', `
+import {Account} from './account';
+
+export class Savings extends Account {
+    static rate: number = 2;
+    readonly owner: string;
+
+    constructor(owner: string, {limit}: {limit: number}) {
+        // the account
+        super();
+        this.owner = owner;
+    }
+}
+
+export class Checking extends Account {}
+`);
+        const auditing: ClassDeclaration = project.getSourceFileOrThrow('/src/auditing.ts').getClassOrThrow('Auditing');
+        auditing.addMethods([
+            {name: 'logPre', decorators: [{name: 'Advice', arguments: ['\'before() : preinitialization(*.new(..))\'']}]},
+            {name: 'logInit', decorators: [{name: 'Advice', arguments: ['\'after() : initialization(*.new(..))\'']}]},
+            {name: 'logStatic', decorators: [{name: 'Advice', arguments: ['\'before() : staticinitialization(Savings)\'']}]}
+        ]);
+        const savings: SourceFile = project.getSourceFileOrThrow('/src/savings.ts');
+        const pass: WeavingPass = new WeavingPass(project, 'aspectT-runtime');
+        expect(pass.getWovenInitializations(savings).map(({chainName, kinds}: WovenInitialization) => [chainName, kinds]))
+            .toEqual([
+                ['aspectT$Savings$new', ['preinitialization', 'initialization', 'static-initialization']],
+                ['aspectT$Checking$new', ['preinitialization', 'initialization']]
+            ]);
+        pass.weaveSourceFile(savings);
+        const text: string = savings.getFullText();
+        expect(text).toContain('import { AspectDescriptor, ConstructorChain, Initialization } from "aspectT-runtime";');
+        expect(text).toContain(
+            'let aspectT$Savings$staticinitialization: Initialization;\n\nexport class Savings extends Account {\n' +
+            '    static {\n        aspectT$Savings$staticinitialization = ConstructorChain.lazy(Savings, \'Savings\', '
+        );
+        expect(text).toContain(
+            '        // the account\n' +
+            '        aspectT$Savings$new.preinitialize([owner, arguments[1]]);\n' +
+            '        super();\n' +
+            '        const aspectT$initialization: Initialization = aspectT$Savings$new.initialize(this, [owner, arguments[1]]);\n' +
+            '        try {\n' +
+            '            this.owner = owner;\n' +
+            '        } catch (aspectT$error) {\n' +
+            '            throw aspectT$initialization.threw(aspectT$error);\n' +
+            '        } finally {\n' +
+            '            aspectT$initialization.returned();\n' +
+            '        }\n' +
+            '    }\n\n' +
+            '    static {\n        aspectT$Savings$staticinitialization.returned();\n    }\n}'
+        );
+        expect(text).toContain(
+            'constructor(...aspectT$args: ConstructorParameters<typeof Account>) {\n' +
+            '        aspectT$Checking$new.preinitialize([...aspectT$args]);\n' +
+            '        super(...aspectT$args);\n' +
+            '        aspectT$Checking$new.initialize(this, [...aspectT$args]).returned();\n'
+        );
+        expect(text).toContain('const aspectT$Savings$new: ConstructorChain = ConstructorChain.lazy(Savings, \'Savings\', ');
+        auditing.addMethod({name: 'time', decorators: [{name: 'Advice', arguments: ['\'Object around() : initialization(Savings.new(..))\'']}]});
+        expect(() => new WeavingPass(project).getWovenInitializations(savings)).toThrow(
+            'UnsupportedOperationException around advice on initialization(Savings)'
+        );
+    });
+});
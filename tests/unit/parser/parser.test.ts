@@ -0,0 +1,177 @@
+import {
+    AdviceDeclaration,
+    ArgsPointcut,
+    BinaryPointcut,
+    ConstructorPattern,
+    FieldPattern,
+    Formal,
+    InvocationPointcut,
+    MethodPattern,
+    NameTypePattern,
+    ParameterPattern,
+    PointcutNode,
+    PointcutParser,
+    PointcutSyntaxError,
+    ReferencePointcut,
+    TypePattern
+} from '@ornorm/aspectT';
+
+describe('PointcutParser', () => {
+    describe('parse', () => {
+        it('should parse a call combined with args', () => {
+            const node: PointcutNode = PointcutParser.parse('call(int Foo.m(int)) && args(i)');
+            expect(node.kind).toBe('and');
+            const {left, right}: BinaryPointcut = node as BinaryPointcut;
+            const call: InvocationPointcut = left as InvocationPointcut;
+            expect(call.kind).toBe('call');
+            const pattern: MethodPattern = call.pattern as MethodPattern;
+            expect(pattern.kind).toBe('method-pattern');
+            expect((pattern.returnType as NameTypePattern).pattern).toBe('int');
+            expect((pattern.declaringType as NameTypePattern).pattern).toBe('Foo');
+            expect(pattern.name).toBe('m');
+            expect(pattern.parameters.map((p: ParameterPattern) => (p as NameTypePattern).pattern)).toEqual(['int']);
+            expect((right as ArgsPointcut).parameters.map((p: ParameterPattern) => (p as NameTypePattern).pattern)).toEqual(['i']);
+            expect(call.range).toEqual({start: 0, end: 20, line: 1, column: 1});
+        });
+
+        it('should give && precedence over ||', () => {
+            const node: BinaryPointcut = PointcutParser.parse('within(A) || within(B) && !within(C)') as BinaryPointcut;
+            expect(node.kind).toBe('or');
+            expect(node.right.kind).toBe('and');
+            expect((node.right as BinaryPointcut).right.kind).toBe('not');
+        });
+
+        it('should parse constructor patterns with modifiers and throws', () => {
+            const node: InvocationPointcut = PointcutParser.parse(
+                'execution(!public Foo.new(..) throws IOException)'
+            ) as InvocationPointcut;
+            const pattern: ConstructorPattern = node.pattern as ConstructorPattern;
+            expect(pattern.kind).toBe('constructor-pattern');
+            expect(pattern.modifiers).toEqual([expect.objectContaining({name: 'public', negated: true})]);
+            expect((pattern.declaringType as NameTypePattern).pattern).toBe('Foo');
+            expect(pattern.parameters[0].kind).toBe('ellipsis');
+            expect((pattern.throws[0].pattern as NameTypePattern).pattern).toBe('IOException');
+        });
+
+        it('should parse wildcards, subtypes and qualified names', () => {
+            const node: InvocationPointcut = PointcutParser.parse(
+                'call(* com..*Service+.find*(String, ..))'
+            ) as InvocationPointcut;
+            const pattern: MethodPattern = node.pattern as MethodPattern;
+            const declaringType: NameTypePattern = pattern.declaringType as NameTypePattern;
+            expect(declaringType.pattern).toBe('com..*Service');
+            expect(declaringType.includeSubtypes).toBe(true);
+            expect(pattern.name).toBe('find*');
+        });
+
+        it('should parse field, type and control flow primitives', () => {
+            const kinds: Array<string> = [
+                'get(int Point.x)',
+                'set(!private * Point.*)',
+                'handler(IOException+)',
+                'staticinitialization(Foo)',
+                'initialization(Foo.new(int))',
+                'preinitialization(Foo.new(int))',
+                'withincode(com.bigboxco.*.new(..))',
+                'cflowbelow(call(void Figure.move()))',
+                'adviceexecution()',
+                'this(Point)',
+                'target(java.io.InputPort)',
+                '@annotation(Transactional)',
+                '@args(SomeAnnotation, .., SomeOtherAnnotation)'
+            ].map((source: string) => PointcutParser.parse(source).kind);
+            expect(kinds).toEqual([
+                'get', 'set', 'handler', 'staticinitialization', 'initialization',
+                'preinitialization', 'withincode', 'cflowbelow', 'adviceexecution',
+                'this', 'target', '@annotation', '@args'
+            ]);
+        });
+
+        it('should keep the raw text of if() expressions', () => {
+            const node: PointcutNode = PointcutParser.parse('if(Tracing.isEnabled(\')\')) && call(* *(..))');
+            expect((node as BinaryPointcut).left).toEqual(expect.objectContaining({
+                kind: 'if',
+                expression: 'Tracing.isEnabled(\')\')'
+            }));
+        });
+
+        it('should parse named pointcut references', () => {
+            const node: ReferencePointcut = PointcutParser.parse('Tracing.scope(i, ..)') as ReferencePointcut;
+            expect(node.kind).toBe('reference');
+            expect(node.name).toBe('Tracing.scope');
+            expect(node.parameters.length).toBe(2);
+        });
+
+        it('should report the position of syntax errors', () => {
+            let error: PointcutSyntaxError | undefined;
+            try {
+                PointcutParser.parse('call(int Foo.m(int) && args(i)');
+            } catch (e) {
+                error = e as PointcutSyntaxError;
+            }
+            expect(error).toBeInstanceOf(PointcutSyntaxError);
+            expect(error!.reason).toBe('Expected \')\' to close \'call(\' but found \'&&\'');
+            expect(error!.line).toBe(1);
+            expect(error!.column).toBe(21);
+        });
+
+        it('should reject typos in designators and missing return types', () => {
+            expect(() => PointcutParser.parse('@anotation(Foo)')).toThrow(PointcutSyntaxError);
+            expect(() => PointcutParser.parse('call(Foo.m())')).toThrow(/Expected return type pattern/);
+            expect(() => PointcutParser.parse('execution(* Foo.*(..)')).toThrow(/end of input/);
+            expect(() => PointcutParser.parse('')).toThrow(/Expected pointcut/);
+        });
+    });
+
+    describe('patterns', () => {
+        it('should parse composed type patterns', () => {
+            const pattern: TypePattern = PointcutParser.parseTypePattern('!(Foo || Bar+) && Baz[]');
+            expect(pattern.kind).toBe('type-and');
+            const method: MethodPattern = PointcutParser.parseMethodPattern('* (Repository+ && !model..*Cache).find*(..)');
+            expect(method.declaringType!.kind).toBe('type-and');
+            expect(method.name).toBe('find*');
+        });
+
+        it('should parse field and constructor patterns', () => {
+            const field: FieldPattern = PointcutParser.parseFieldPattern('* C.*');
+            expect(field.name).toBe('*');
+            const ctor: ConstructorPattern = PointcutParser.parseConstructorPattern('C.new(..)');
+            expect((ctor.declaringType as NameTypePattern).pattern).toBe('C');
+            expect(() => PointcutParser.parseConstructorPattern('* C.foo(..)')).toThrow(PointcutSyntaxError);
+        });
+
+        it('should parse advice declarations', () => {
+            const advice: AdviceDeclaration = PointcutParser.parseAdvice(
+                'after(int i) throwing (NotFoundException e) : call(int Foo.m(int)) && args(i)'
+            );
+            expect(advice.adviceKind).toBe('after-throwing');
+            expect(advice.formals.map((f: Formal) => f.name)).toEqual(['i']);
+            expect(advice.extraFormal!.type.pattern).toBe('NotFoundException');
+            expect(PointcutParser.parseAdvice('int around() throws IOException : pc()').returnType!.pattern).toBe('int');
+            expect(() => PointcutParser.parseAdvice('int before() : pc()')).toThrow(/Expected 'around'/);
+            expect(() => PointcutParser.parseAdvice('before(int*) : pc()')).toThrow(PointcutSyntaxError);
+        });
+
+        it('should parse generic formals', () => {
+            const source: string = 'Map<string, Array<number>> m, Set<Foo>[] s, int i';
+            const formals: Array<Formal> = PointcutParser.parseFormals(source);
+            expect(formals.map((f: Formal) => f.name)).toEqual(['m', 's', 'i']);
+            expect(formals.map((f: Formal) => source.substring(f.type.range.start, f.type.range.end))).toEqual(
+                ['Map<string, Array<number>>', 'Set<Foo>[]', 'int']
+            );
+            expect(formals[0].type.pattern).toBe('Map');
+            expect(formals[0].type.typeArguments!.map((t: NameTypePattern) => t.pattern)).toEqual(['string', 'Array']);
+            expect(formals[1].type.dimensions).toBe(1);
+            expect(formals[2].type.typeArguments).toBeUndefined();
+            expect(PointcutParser.parseAdvice('before(Map<string, number> m) : args(m)').formals[0].name).toBe('m');
+            expect(() => PointcutParser.parseFormals('Map<string, number m')).toThrow(/Expected '>'/);
+            expect(() => PointcutParser.parseFormals('Map<*> m')).toThrow(PointcutSyntaxError);
+        });
+
+        it('should parse per clauses', () => {
+            expect(PointcutParser.parsePerClause('percflow(call(void Foo.m()))').kind).toBe('percflow');
+            expect(PointcutParser.parsePerClause('issingleton()').kind).toBe('issingleton');
+            expect(() => PointcutParser.parsePerClause('perinstance(Foo)')).toThrow(/Unknown per clause/);
+        });
+    });
+});
@@ -0,0 +1,49 @@
+import {mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {Project, SourceFile} from 'ts-morph';
+import {ClassDescriptor, ModuleDescriptor} from '@ornorm/aspectT';
+import {DescriptorType, INCLUDE_ALL, INCLUDE_METADATA} from '../../../src/ornorm/aspectT/term/describe-type';
+
+describe('DescriptorType', () => {
+    const ledger: string = `
+@Audited('ledger')
+export class Ledger {
+    @Transactional('required')
+    post(amount: number): void {}
+}
+`;
+    let directory: string;
+
+    beforeAll(() => {
+        directory = mkdtempSync(join(tmpdir(), 'describe-type-'));
+        writeFileSync(join(directory, 'tsconfig.json'), JSON.stringify({
+            compilerOptions: {experimentalDecorators: true},
+            include: ['*.ts']
+        }));
+        writeFileSync(join(directory, 'ledger.ts'), ledger);
+    });
+
+    afterAll(() => {
+        rmSync(directory, {recursive: true, force: true});
+    });
+
+    const getLedger: (modules: Array<ModuleDescriptor>) => ClassDescriptor = (
+        modules: Array<ModuleDescriptor>
+    ): ClassDescriptor => modules.flatMap((module: ModuleDescriptor) => module.classes)
+        .find((descriptor: ClassDescriptor) => descriptor.name === 'Ledger')!;
+
+    it('should describe each input with its own flags', async () => {
+        const tsConfigPath: string = join(directory, 'tsconfig.json');
+        const annotated: ClassDescriptor = getLedger(await DescriptorType.describeTypeInput({inputPath: [], tsConfigPath}));
+        const plain: ClassDescriptor = getLedger(await DescriptorType.describeTypeInput({
+            inputPath: [], tsConfigPath, flags: INCLUDE_ALL & ~INCLUDE_METADATA
+        }));
+        expect(annotated.annotations).toEqual([{name: 'Audited', values: ['ledger']}]);
+        expect(annotated.methods[0].annotations).toEqual([{name: 'Transactional', values: ['required']}]);
+        expect(plain.annotations).toBeUndefined();
+        expect(plain.methods[0].annotations).toBeUndefined();
+        const sourceFile: SourceFile = new Project({useInMemoryFileSystem: true}).createSourceFile('/src/ledger.ts', ledger);
+        expect(DescriptorType.getModule(sourceFile).classes[0].annotations).toEqual([{name: 'Audited', values: ['ledger']}]);
+    });
+});
@@ -0,0 +1,184 @@
+import {
+    AdviceChain,
+    AspectDescriptor,
+    Class,
+    JoinPoint,
+    Log,
+    ProceedingJoinPoint,
+    Weaver,
+    proceed
+} from '@ornorm/aspectT';
+import {Account, auditing, calls, deposit} from './fixtures';
+
+describe('AdviceChain', () => {
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it('should create the chains of compile-time woven methods on first use', () => {
+        const aspects: jest.Mock = jest.fn(() => [auditing]);
+        const chain: AdviceChain = AdviceChain.lazy(Account, 'Account', deposit, aspects);
+        expect(aspects).not.toHaveBeenCalled();
+        const account: Account = new Account();
+        expect(chain.invoke(Account.prototype.deposit, account, [1])).toBe(2);
+        expect(chain.mungers.length).toBe(5);
+        expect(aspects).toHaveBeenCalledTimes(1);
+    });
+
+    it('should advise async methods once settled', async () => {
+        class Catalog {
+            public async find(id: number): Promise<number> {
+                await Promise.resolve();
+                calls.push(`found ${id}`);
+                if (id < 0) {
+                    throw new RangeError('negative id');
+                }
+                return id * 10;
+            }
+        }
+        class Timing {
+            public async time(jp: ProceedingJoinPoint): Promise<number> {
+                calls.push('start');
+                const value: number = await jp.proceed();
+                calls.push(`end ${value}`);
+                return value + 1;
+            }
+
+            public settled(): void {
+                calls.push('settled');
+            }
+
+            public returned(value: number): void {
+                calls.push(`returned ${value}`);
+            }
+
+            public failed(e: Error): void {
+                calls.push(`failed ${e.message}`);
+            }
+        }
+        Class.addClass('Catalog', Catalog);
+        Weaver.weave('Catalog', {
+            name: 'Timing',
+            type: Timing,
+            advices: [
+                {name: 'settled', advice: 'after() : execution(* Catalog.find(..))'},
+                {name: 'returned', advice: 'after() returning (int value) : execution(* Catalog.find(..))'},
+                {name: 'failed', advice: 'after() throwing (RangeError e) : execution(* Catalog.find(..))'},
+                {name: 'time', advice: 'Object around() : execution(* Catalog.find(..))'}
+            ]
+        });
+        try {
+            const catalog: Catalog = new Catalog();
+            await expect(catalog.find(1)).resolves.toBe(11);
+            await expect(catalog.find(-1)).rejects.toThrow('negative id');
+            expect(calls).toEqual([
+                'start', 'found 1', 'settled', 'returned 10', 'end 10',
+                'start', 'found -1', 'settled', 'failed negative id'
+            ]);
+        } finally {
+            Weaver.unweave('Catalog');
+        }
+    });
+
+    it('should proceed from async around advice after an await', async () => {
+        class Service {
+            public async find(id: number): Promise<number> {
+                return id * 10;
+            }
+        }
+        const delay: (ms: number) => Promise<void> = (ms: number): Promise<void> =>
+            new Promise<void>((resolve: () => void) => setTimeout(resolve, ms));
+        class Delaying {
+            public async delay(id: number): Promise<number> {
+                calls.push(`delay ${id}`);
+                await delay(id === 1 ? 20 : 5);
+                return proceed();
+            }
+        }
+        const chain: AdviceChain = AdviceChain.lazy(Service, 'Service', {
+            ...deposit, isAsync: true, name: 'find', returnType: 'Promise<number>'
+        }, () => [{
+            name: 'Delaying',
+            type: Delaying,
+            advices: [{name: 'delay', advice: 'Object around(int id) : execution(* Service.find(..)) && args(id)'}]
+        }]);
+        const service: Service = new Service();
+        await expect(Promise.all([
+            chain.invoke(Service.prototype.find, service, [1]),
+            chain.invoke(Service.prototype.find, service, [2])
+        ])).resolves.toEqual([10, 20]);
+        expect(calls).toEqual(['delay 1', 'delay 2']);
+        expect(() => proceed()).toThrow('IllegalStateException proceed() called outside of around advice');
+    });
+
+    it('should skip the advice reentering their shadow and match adviceexecution()', () => {
+        class Ledger {
+            public record(): void {
+                calls.push('record');
+            }
+
+            public audit(): void {
+                calls.push('audit');
+            }
+        }
+        class Recursing {
+            public log(jp: JoinPoint): void {
+                calls.push(`log ${jp.signature.name}`);
+                jp.target.audit();
+            }
+
+            public check(): void {
+                calls.push('check audit');
+            }
+        }
+        class Counting {
+            public count(jp: JoinPoint): void {
+                calls.push(`count ${jp.signature.name}`);
+            }
+
+            public fromAdvice(): void {
+                calls.push('audit from advice');
+            }
+        }
+        const recursing: AspectDescriptor = {
+            name: 'Recursing',
+            type: Recursing,
+            advices: [
+                {name: 'log', advice: 'before() : execution(* Ledger.*(..))'},
+                {name: 'check', advice: 'before() : execution(* Ledger.audit(..))'}
+            ]
+        };
+        const counting: AspectDescriptor = {
+            name: 'Counting',
+            type: Counting,
+            advices: [
+                {name: 'count', advice: 'before() : execution(* Ledger.*(..)) && !cflow(adviceexecution())'},
+                {name: 'fromAdvice', advice: 'before() : execution(* Ledger.audit(..)) && cflow(adviceexecution())'}
+            ]
+        };
+        const warn: jest.SpyInstance = jest.spyOn(Log, 'w').mockImplementation((): void => undefined);
+        Class.addClass('Ledger', Ledger);
+        Weaver.weave('Ledger', recursing, counting);
+        try {
+            new Ledger().record();
+            new Ledger().record();
+            const recorded: Array<string> = [
+                'log record', 'log audit', 'check audit', 'audit from advice', 'audit',
+                'check audit', 'audit from advice', 'audit', 'count record', 'record'
+            ];
+            expect(calls).toEqual([...recorded, ...recorded]);
+            expect(warn).toHaveBeenCalledTimes(1);
+            expect(warn.mock.calls[0]).toEqual([
+                'AdviceChain', 'Advice {0}.{1} reentered by {2}, the advice is skipped',
+                'Recursing', 'log', 'execution(any Ledger.audit())'
+            ]);
+            Weaver.unweave('Ledger');
+            Weaver.weave('Ledger', recursing, counting);
+            new Ledger().record();
+            expect(warn).toHaveBeenCalledTimes(2);
+        } finally {
+            Weaver.unweave('Ledger');
+            warn.mockRestore();
+        }
+    });
+});
@@ -0,0 +1,75 @@
+import {AspectDescriptor, Class, Weaver, aspectOf, hasAspect} from '@ornorm/aspectT';
+import {calls} from './fixtures';
+
+describe('AspectInstances', () => {
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it('should instantiate aspects by per clause', () => {
+        class Cart {
+            public add(): void {
+                calls.push('add');
+            }
+        }
+        class Order {
+            public place(cart: Cart): void {
+                cart.add();
+                cart.add();
+            }
+        }
+        class Counter {
+            public count: number = 0;
+
+            public increment(): void {
+                this.count++;
+            }
+        }
+        class Session {
+            public adds: number = 0;
+
+            public track(): void {
+                calls.push(`session ${++this.adds} ${hasAspect(Session)}`);
+            }
+        }
+        class Tagging {
+            public tag(): void {
+                calls.push(`tag ${aspectOf(Tagging, Cart) === this}`);
+            }
+        }
+        const add: string = 'execution(* Cart.add(..))';
+        const aspects: Array<AspectDescriptor> = [
+            {name: 'Counter', type: Counter, perClause: 'perthis(this(Cart))', advices: [
+                {name: 'increment', advice: `before() : ${add}`}
+            ]},
+            {name: 'Session', type: Session, perClause: 'percflow(execution(* Order.place(..)))', advices: [
+                {name: 'track', advice: `before() : ${add}`}
+            ]},
+            {name: 'Tagging', type: Tagging, perClause: 'pertypewithin(Cart)', advices: [
+                {name: 'tag', advice: `before() : ${add}`}
+            ]}
+        ];
+        Class.addClass('Cart', Cart);
+        Class.addClass('Order', Order);
+        Weaver.weave('Cart', ...aspects);
+        Weaver.weave('Order', ...aspects);
+        try {
+            const [first, second]: Array<Cart> = [new Cart(), new Cart()];
+            new Order().place(first);
+            new Order().place(first);
+            second.add();
+            expect(aspectOf(Counter, first).count).toBe(4);
+            expect(aspectOf(Counter, second).count).toBe(1);
+            expect(hasAspect(Counter, new Cart())).toBe(false);
+            expect(hasAspect(Session)).toBe(false);
+            expect(() => aspectOf(Tagging, Order)).toThrow('NoAspectBoundException Tagging');
+            expect(calls.filter((call: string) => call.startsWith('session'))).toEqual([
+                'session 1 true', 'session 2 true', 'session 1 true', 'session 2 true'
+            ]);
+            expect(calls.filter((call: string) => call.startsWith('tag'))).toEqual(Array(5).fill('tag true'));
+        } finally {
+            Weaver.unweave('Cart');
+            Weaver.unweave('Order');
+        }
+    });
+});
@@ -0,0 +1,84 @@
+import {
+    After,
+    Around,
+    Aspect,
+    AspectRegistry,
+    Before,
+    Class,
+    JoinPoint,
+    Pointcut,
+    PointcutSyntaxError,
+    ProceedingJoinPoint,
+    Weaver
+} from '@ornorm/aspectT';
+import {Account, calls} from './fixtures';
+
+describe('AspectRegistry', () => {
+    beforeAll(() => {
+        Class.addClass('Account', Account);
+    });
+
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    afterEach(() => {
+        Weaver.unweave('Account');
+    });
+
+    it('should register the aspects declared with decorators', () => {
+        @Aspect()
+        class Logging {
+            @Pointcut('execution(* Account.deposit(..))')
+            public depositing(): void {}
+
+            @Before('depositing()')
+            public logBefore(jp: JoinPoint): void {
+                calls.push(`before ${jp.signature.name}`);
+            }
+
+            @Around('call(* Account.deposit(..)) && args(amount)', 'int amount')
+            public triple(amount: number, jp: ProceedingJoinPoint): any {
+                calls.push('around');
+                return jp.proceed([amount * 3]);
+            }
+
+            @After('depositing()')
+            public logAfter(): void {
+                calls.push('after');
+            }
+        }
+        try {
+            expect(AspectRegistry.getAspect('Logging')).toEqual({
+                name: 'Logging',
+                type: Logging,
+                pointcuts: [{name: 'depositing', formals: '', pointcut: 'execution(* Account.deposit(..))'}],
+                advices: [
+                    {name: 'logBefore', advice: 'before() : depositing()'},
+                    {name: 'triple', advice: 'Object around(int amount) : call(* Account.deposit(..)) && args(amount)'},
+                    {name: 'logAfter', advice: 'after() : depositing()'}
+                ]
+            });
+            Weaver.weave('Account', ...AspectRegistry.getAspects());
+            expect(new Account().deposit(2)).toBe(6);
+            expect(calls).toEqual(['around', 'before deposit', 'deposit(6)', 'after']);
+        } finally {
+            AspectRegistry.unregister('Logging');
+        }
+        expect(AspectRegistry.getAspects()).toEqual([]);
+        @Aspect('perthis(execution(* Account.*(..)))')
+        class PerAccount {}
+        expect(AspectRegistry.getAspect('PerAccount')).toEqual({
+            name: 'PerAccount', type: PerAccount, pointcuts: [], advices: [], perClause: 'perthis(execution(* Account.*(..)))'
+        });
+        AspectRegistry.clear();
+        expect(() => Before('execution(* Account.deposit(..)')).toThrow(PointcutSyntaxError);
+        expect(() => {
+            class Invalid {
+                @After('execution(* Account.deposit(..))')
+                public static logAfter(): void {}
+            }
+            return Invalid;
+        }).toThrow('IllegalArgumentException static Invalid.logAfter cannot be an advice or a pointcut');
+    });
+});
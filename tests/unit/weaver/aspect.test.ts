@@ -0,0 +1,56 @@
+import {Aspect, AspectRegistry, Before, Class, JoinPoint, Pointcut, Weaver} from '@ornorm/aspectT';
+import {Account, calls} from './fixtures';
+
+describe('AspectCompiler', () => {
+    beforeAll(() => {
+        Class.addClass('Account', Account);
+    });
+
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    afterEach(() => {
+        Weaver.unweave('Account');
+    });
+
+    it('should run the advice of the abstract aspects in their concrete sub aspects', () => {
+        @Aspect()
+        abstract class Monitoring {
+            @Pointcut()
+            public scope(): void {}
+
+            @Before('scope() && args(amount)', 'int amount')
+            public monitor(amount: number, jp: JoinPoint): void {
+                calls.push(`${this.constructor.name} ${jp.signature.name}(${amount})`);
+            }
+        }
+        @Aspect()
+        class DepositMonitoring extends Monitoring {
+            @Pointcut('execution(* Account.deposit(..))')
+            public scope(): void {}
+        }
+        try {
+            expect(AspectRegistry.getAspect('Monitoring')!.isAbstract).toBe(true);
+            expect(AspectRegistry.getAspect('DepositMonitoring')).toEqual({
+                name: 'DepositMonitoring',
+                type: DepositMonitoring,
+                pointcuts: [{name: 'scope', formals: '', pointcut: 'execution(* Account.deposit(..))'}],
+                advices: [],
+                superAspect: AspectRegistry.getAspect('Monitoring')
+            });
+            Weaver.weave('Account', ...AspectRegistry.getAspects());
+            const account: Account = new Account();
+            account.deposit(2);
+            account.withdraw(1);
+            expect(calls).toEqual(['DepositMonitoring deposit(2)', 'deposit(2)', 'withdraw(1)']);
+            expect(() => {
+                @Aspect()
+                class Unscoped extends Monitoring {}
+                return Unscoped;
+            }).toThrow('AbstractMethodError Unscoped does not define the abstract pointcut scope()');
+        } finally {
+            AspectRegistry.clear();
+        }
+    });
+});
@@ -0,0 +1,126 @@
+import {
+    AspectDescriptor,
+    Class,
+    ConstructorChain,
+    Initialization,
+    JoinPoint,
+    ProceedingJoinPoint,
+    Weaver
+} from '@ornorm/aspectT';
+import {Account, calls, parameter} from './fixtures';
+
+describe('ConstructorChain', () => {
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it('should advise the creation of the objects of a woven class', () => {
+        class Point {
+            constructor(public x: number, public y: number) {
+                calls.push(`new Point(${x}, ${y})`);
+            }
+        }
+        class Creation {
+            public logCall(jp: JoinPoint): void {
+                calls.push(`${jp} ${jp.args}`);
+            }
+
+            public swap(jp: ProceedingJoinPoint): any {
+                const [x, y]: Array<number> = jp.args;
+                return jp.proceed([y, x]);
+            }
+
+            public logCreated(point: Point, jp: JoinPoint): void {
+                calls.push(`${jp.staticPart.kind} ${point.x} ${point.y}`);
+            }
+        }
+        Class.addClass('Point', Point);
+        Weaver.weave('Point', {
+            name: 'Creation',
+            type: Creation,
+            advices: [
+                {name: 'logCall', advice: 'before() : call(Point.new(..))'},
+                {name: 'swap', advice: 'Object around() : execution(Point.new(int, int))'},
+                {name: 'logCreated', advice: 'after() returning (Point p) : execution(Point.new(..))'}
+            ]
+        });
+        try {
+            const type: typeof Point = Class.forName('Point');
+            const point: Point = new type(1, 2);
+            expect(point).toBeInstanceOf(Point);
+            expect(point).toBeInstanceOf(type);
+            expect([point.x, point.y]).toEqual([2, 1]);
+            class Point3D extends type {
+                constructor(x: number, y: number, public z: number) {
+                    super(x, y);
+                }
+            }
+            expect(new Point3D(3, 4, 5)).toMatchObject({x: 4, y: 3, z: 5});
+            expect(calls).toEqual([
+                'call(Point(any, any)) 1,2',
+                'new Point(2, 1)',
+                'constructor-execution 2 1',
+                'new Point(4, 3)',
+                'constructor-execution 4 3'
+            ]);
+        } finally {
+            Weaver.unweave('Point');
+        }
+        expect(Class.forName('Point')).toBe(Point);
+    });
+
+    it('should run the advice of compile-time woven initializations', () => {
+        class Initializing {
+            public logPre(jp: JoinPoint): void {
+                calls.push(`${jp} ${jp.args} ${jp.thisObject}`);
+            }
+
+            public logInit(jp: JoinPoint): void {
+                calls.push(`${jp.staticPart.kind} ${jp.thisObject.balance}`);
+            }
+
+            public logFailed(e: Error): void {
+                calls.push(`failed ${e.message}`);
+            }
+
+            public logStatic(jp: JoinPoint): void {
+                calls.push(`${jp} ${jp.signature.name}`);
+            }
+        }
+        const aspects: jest.Mock = jest.fn((): Array<AspectDescriptor> => [{
+            name: 'Initializing',
+            type: Initializing,
+            advices: [
+                {name: 'logPre', advice: 'before() : preinitialization(Account.new(..))'},
+                {name: 'logInit', advice: 'before() : initialization(Account.new(..))'},
+                {name: 'logInit', advice: 'after() returning : initialization(Account.new(..))'},
+                {name: 'logFailed', advice: 'after() throwing (RangeError e) : initialization(Account.new(..))'},
+                {name: 'logStatic', advice: 'after() returning : staticinitialization(Account)'}
+            ]
+        }]);
+        const chain: ConstructorChain = ConstructorChain.lazy(Account, 'Account', {
+            modifiers: [],
+            parameters: [parameter('balance', 'number')],
+            returnType: 'Account'
+        }, aspects);
+        expect(aspects).not.toHaveBeenCalled();
+        const account: Account = new Account();
+        chain.preinitialize([10]);
+        const initialization: Initialization = chain.initialize(account, [10]);
+        account.balance = 10;
+        initialization.returned();
+        initialization.returned();
+        const error: RangeError = new RangeError('negative balance');
+        expect(chain.initialize(account, [-1]).threw(error)).toBe(error);
+        chain.staticInitialize().returned();
+        expect(calls).toEqual([
+            'preinitialization(Account(number)) 10 undefined',
+            'initialization 0',
+            'initialization 10',
+            'initialization 10',
+            'failed negative balance',
+            'staticinitialization(Account) <clinit>'
+        ]);
+        expect(aspects).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,53 @@
+import {AspectDescriptor, Class, Weaver} from '@ornorm/aspectT';
+import {calls} from './fixtures';
+
+describe('ControlFlow', () => {
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it('should match cflow() across await boundaries', async () => {
+        class Repo {
+            public save(): void {
+                calls.push('save');
+            }
+        }
+        class Service {
+            public async handle(repo: Repo): Promise<void> {
+                await Promise.resolve();
+                repo.save();
+            }
+
+            public other(repo: Repo): void {
+                repo.save();
+            }
+        }
+        class Transactions {
+            public inTransaction(): void {
+                calls.push('in transaction');
+            }
+        }
+        const transactions: AspectDescriptor = {
+            name: 'Transactions',
+            type: Transactions,
+            advices: [{
+                name: 'inTransaction',
+                advice: 'before() : execution(* Repo.*(..)) && cflow(execution(* Service.handle(..)))'
+            }]
+        };
+        Class.addClass('Repo', Repo);
+        Class.addClass('Service', Service);
+        expect(Weaver.weave('Repo', transactions)).toEqual(['save']);
+        expect(Weaver.weave('Service', transactions)).toEqual(['handle']);
+        try {
+            const repo: Repo = new Repo();
+            await new Service().handle(repo);
+            new Service().other(repo);
+            repo.save();
+            expect(calls).toEqual(['in transaction', 'save', 'save', 'save']);
+        } finally {
+            Weaver.unweave('Repo');
+            Weaver.unweave('Service');
+        }
+    });
+});
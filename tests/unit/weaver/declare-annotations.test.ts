@@ -0,0 +1,56 @@
+import {ANNOTATIONS_METADATA_KEY, Class, Descriptor, Method, Weaver} from '@ornorm/aspectT';
+import {deposit, describeClass, member, parameter, setModule} from './fixtures';
+
+describe('DeclareAnnotations', () => {
+    it('should declare annotations', () => {
+        class Order {
+            public static count: number = 0;
+            public total: number;
+
+            constructor(total: number) {
+                this.total = total;
+            }
+
+            public fooBar(): number {
+                return this.total;
+            }
+
+            public bar(): void {
+                this.total = 0;
+            }
+        }
+        setModule('order', '/src/order.ts', [describeClass('Order', {
+            constructors: [{modifiers: [], parameters: [parameter('total', 'number')], returnType: 'Order'}],
+            members: [member('total', 'number', ['public'])]
+        }, [member('count', 'number', ['public', 'static'])])]);
+        Class.addClass('Order', Order);
+        try {
+            Weaver.weave('Order', {
+                name: 'Annotating',
+                type: class Annotating {},
+                advices: [],
+                annotations: [
+                    {kind: 'type', pattern: 'Order', annotation: '@Entity("orders")'},
+                    {kind: 'method', pattern: '* Order.foo*(..)', annotation: '@Transactional'},
+                    {kind: 'constructor', pattern: 'Order.new(number)', annotation: '@Inject'},
+                    {kind: 'field', pattern: 'number Order.total', annotation: '@Column("total", 10)'},
+                    {kind: 'field', pattern: 'static * Order.*', annotation: '@Counter'}
+                ]
+            });
+            const order: Class = Class.loadClass('Order');
+            expect(Reflect.getMetadata(ANNOTATIONS_METADATA_KEY, Order)).toEqual([{name: 'Entity', values: ['orders']}]);
+            expect(order.getAnnotation('Entity')).toEqual({name: 'Entity', values: ['orders']});
+            expect(Reflect.getMetadata(ANNOTATIONS_METADATA_KEY, new Order(1), 'fooBar')).toEqual([
+                {name: 'Transactional', values: []}
+            ]);
+            expect(new Method(Order, {...deposit, name: 'fooBar'}).isAnnotationPresent('Transactional')).toBe(true);
+            expect(new Method(Order, {...deposit, name: 'bar'}).getAnnotations()).toEqual([]);
+            expect(order.factory.constructors[0].isAnnotationPresent('Inject')).toBe(true);
+            expect(order.factory.members[0].getAnnotation('Column')).toEqual({name: 'Column', values: ['total', 10]});
+            expect(order.members[0].getAnnotations()).toEqual([{name: 'Counter', values: []}]);
+        } finally {
+            Weaver.unweave('Order');
+            Descriptor.clearDescriptors();
+        }
+    });
+});
@@ -0,0 +1,70 @@
+import {AspectDescriptor, Class, Weaver} from '@ornorm/aspectT';
+
+describe('DeclareParents', () => {
+    it('should apply declare parents', () => {
+        class Shape {
+            public area(): number {
+                return 0;
+            }
+        }
+        class Polygon extends Shape {
+            public sides(): number {
+                return 3;
+            }
+        }
+        class Comparable {
+            public compareTo(other: any): number {
+                return this.toString().localeCompare(other.toString());
+            }
+
+            public toString(): string {
+                return 'comparable';
+            }
+        }
+        class Point {
+            public toString(): string {
+                return 'point';
+            }
+        }
+        class Parents {}
+        Class.addClass('Point', Point);
+        Class.addClass('Polygon', Polygon);
+        Class.addClass('Comparable', Comparable);
+        const parents: AspectDescriptor = {
+            name: 'Parents',
+            type: Parents,
+            advices: [],
+            parents: ['Point extends Polygon', 'Point implements Comparable, Serializable']
+        };
+        Weaver.weave('Point', parents);
+        try {
+            const point: any = new Point();
+            expect(point).toBeInstanceOf(Shape);
+            expect(point.sides()).toBe(3);
+            expect(point.compareTo('point')).toBe(0);
+            expect(Class.isAssignableFrom(Point, Polygon)).toBe(true);
+            expect(Class.isAssignableFrom(Point, Comparable)).toBe(true);
+            expect(Class.getInterfaceNames(Point)).toEqual(['Comparable', 'Serializable']);
+            expect(Object.getOwnPropertyNames(Point.prototype)).toEqual(['constructor', 'toString', 'compareTo']);
+            expect(Class.isAssignableFrom(Comparable, Point)).toBe(false);
+            const impostor: Function = class Comparable {};
+            expect(Class.isAssignableFrom(Point, impostor)).toBe(false);
+            expect(Class.isAssignableFrom(Point, class Serializable {})).toBe(true);
+        } finally {
+            Weaver.unweave('Point');
+        }
+        expect(() => Weaver.weave('Polygon', {...parents, parents: ['Polygon extends Point']}))
+            .toThrow('IllegalArgumentException Polygon cannot extend Point');
+        expect(() => Weaver.weave('Point', {...parents, parents: ['Point extends Missing']}))
+            .toThrow('ClassNotFoundException Missing');
+        class Entry {}
+        class Named {
+            constructor(public name: string) {}
+        }
+        Class.addClass('Entry', Entry);
+        Class.addClass('Named', Named);
+        expect(() => Weaver.weave('Entry', {...parents, parents: ['Entry extends Named']}))
+            .toThrow('IllegalArgumentException Entry cannot extend Named, its constructor takes arguments');
+        expect(Object.getPrototypeOf(Entry.prototype)).toBe(Object.prototype);
+    });
+});
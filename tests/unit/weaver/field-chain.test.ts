@@ -0,0 +1,81 @@
+import {Class, Descriptor, JoinPoint, ProceedingJoinPoint, Weaver} from '@ornorm/aspectT';
+import {calls, describeClass, member, setModule} from './fixtures';
+
+describe('FieldChain', () => {
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it('should intercept the get and set join points of fields', () => {
+        class Vector {
+            public static count: number = 0;
+            public x: number;
+            public y: number;
+
+            constructor(x: number, y: number) {
+                this.x = x;
+                this.y = y;
+                Vector.count++;
+            }
+        }
+        class Clamping {
+            public logSet(value: number, jp: JoinPoint): void {
+                calls.push(`${jp} = ${value}`);
+            }
+
+            public clamp(value: number, jp: ProceedingJoinPoint): any {
+                return jp.proceed([Math.max(0, value)]);
+            }
+
+            public scale(jp: ProceedingJoinPoint): any {
+                return jp.proceed() * 10;
+            }
+
+            public logCount(): void {
+                calls.push(`count ${Vector.count}`);
+            }
+        }
+        setModule('vector', '/src/vector.ts', [describeClass('Vector', {
+            members: [member('x', 'number', ['public']), member('y', 'number', ['public'])]
+        }, [member('count', 'number', ['public', 'static'])])]);
+        Class.addClass('Vector', Vector);
+        let vector: Vector;
+        try {
+            Weaver.weave('Vector', {
+                name: 'Clamping',
+                type: Clamping,
+                advices: [
+                    {name: 'logSet', advice: 'before(int v) : set(!static int Vector.*) && args(v)'},
+                    {name: 'clamp', advice: 'Object around(int v) : set(int Vector.x) && args(v)'},
+                    {name: 'scale', advice: 'Object around() : get(int Vector.y)'},
+                    {name: 'logCount', advice: 'after() : set(static * Vector.count)'}
+                ]
+            });
+            vector = new Vector(-2, 3);
+            expect([vector.x, vector.y]).toEqual([0, 30]);
+            vector.x = 5;
+            expect(vector.x).toBe(5);
+            expect(calls).toEqual([
+                'set(number Vector.x) = -2',
+                'set(number Vector.y) = 3',
+                'count 1',
+                'set(number Vector.x) = 5'
+            ]);
+            expect(Object.keys(vector)).toEqual(['x', 'y']);
+            expect(JSON.parse(JSON.stringify(vector))).toEqual({x: 5, y: 30});
+            expect({...vector}).toEqual({x: 5, y: 30});
+        } finally {
+            Weaver.unweave('Vector');
+            Descriptor.clearDescriptors();
+        }
+        expect(JSON.parse(JSON.stringify(vector))).toEqual({x: 5, y: 3});
+        expect(Object.getOwnPropertyDescriptor(vector, 'x')).toEqual({
+            configurable: true, enumerable: true, writable: true, value: 5
+        });
+        vector.y = 4;
+        expect(Object.assign({}, vector)).toEqual({x: 5, y: 4});
+        expect(calls).toHaveLength(4);
+        expect(Vector.count).toBe(1);
+        expect(new Vector(-2, 3).x).toBe(-2);
+    });
+});
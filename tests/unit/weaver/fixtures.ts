@@ -0,0 +1,163 @@
+import {
+    AspectDescriptor,
+    ClassDescriptor,
+    Descriptor,
+    InterfaceDescriptor,
+    JoinPoint,
+    MemberDescriptor,
+    MethodDescriptor,
+    ParameterDescriptor,
+    PrototypeDescriptor,
+    ProceedingJoinPoint
+} from '@ornorm/aspectT';
+
+/**
+ * The calls recorded by the fixture classes and the advice of the tests.
+ */
+export const calls: Array<string> = [];
+
+export class Account {
+    public balance: number = 0;
+
+    public deposit(amount: number): number {
+        calls.push(`deposit(${amount})`);
+        this.balance += amount;
+        return this.balance;
+    }
+
+    public withdraw(amount: number): number {
+        calls.push(`withdraw(${amount})`);
+        if (amount > this.balance) {
+            throw new RangeError('insufficient funds');
+        }
+        this.balance -= amount;
+        return this.balance;
+    }
+
+    public static open(): Account {
+        return new Account();
+    }
+}
+
+export class Auditing {
+    public logBefore(jp: JoinPoint): void {
+        calls.push(`before ${jp.kind} ${jp.signature.name}`);
+    }
+
+    public logReturn(balance: number): void {
+        calls.push(`returning ${balance}`);
+    }
+
+    public logError(e: Error): void {
+        calls.push(`throwing ${e.message}`);
+    }
+
+    public logAfter(): void {
+        calls.push('after');
+    }
+
+    public double(jp: ProceedingJoinPoint): any {
+        calls.push('around');
+        return jp.proceed([jp.args[0] * 2]);
+    }
+}
+
+/**
+ * An aspect advising every method of {@link Account}.
+ */
+export const auditing: AspectDescriptor = {
+    name: 'Auditing',
+    type: Auditing,
+    pointcuts: [
+        {name: 'operation', pointcut: 'execution(* Account.*(number)) && args(int)'}
+    ],
+    advices: [
+        {name: 'logBefore', advice: 'before() : call(* Account.deposit(..))'},
+        {name: 'logReturn', advice: 'after() returning (int balance) : operation()'},
+        {name: 'logError', advice: 'after() throwing (RangeError e) : operation()'},
+        {name: 'logAfter', advice: 'after() : Auditing.operation()'},
+        {name: 'double', advice: 'Object around() : execution(* Account.deposit(..))'}
+    ]
+};
+
+/**
+ * Describe a parameter.
+ *
+ * @param name - The parameter name.
+ * @param type - The parameter type.
+ * @param index - The parameter index.
+ * @returns The {@link ParameterDescriptor}
+ */
+export function parameter(name: string, type: string, index: number = 0): ParameterDescriptor {
+    return {index, isOptional: false, isRestParameter: false, modifiers: [], name, type};
+}
+
+/**
+ * The descriptor of `Account.deposit`.
+ */
+export const deposit: MethodDescriptor = {
+    isAbstract: false,
+    isStatic: false,
+    isSignature: false,
+    isAsync: false,
+    isOverload: false,
+    isImplementation: true,
+    isGenerator: false,
+    modifiers: ['public'],
+    name: 'deposit',
+    parameters: [parameter('amount', 'number')],
+    returnType: 'number'
+};
+
+/**
+ * Describe a property.
+ *
+ * @param name - The property name.
+ * @param type - The property type.
+ * @param modifiers - The modifiers, `static` for a static property.
+ * @returns The {@link MemberDescriptor}
+ */
+export function member(name: string, type: string, modifiers: Array<string>): MemberDescriptor {
+    return {modifiers, isGetter: false, isSetter: false, isProperty: true, name, type};
+}
+
+/**
+ * Describe an exported class.
+ *
+ * @param name - The class name.
+ * @param factory - The instance side, empty lists by default.
+ * @param members - The static members.
+ * @returns The {@link ClassDescriptor}
+ */
+export function describeClass(
+    name: string,
+    factory: Partial<PrototypeDescriptor> = {},
+    members: Array<MemberDescriptor> = []
+): ClassDescriptor {
+    return {
+        base: 'Class',
+        modifiers: ['export'],
+        name,
+        methods: [],
+        members,
+        factory: {extendsClass: [], implementsInterfaces: [], constructors: [], methods: [], members: [], ...factory}
+    };
+}
+
+/**
+ * Register the descriptors of a single module, cleared with
+ * `Descriptor.clearDescriptors`.
+ *
+ * @param name - The module name.
+ * @param path - The module path.
+ * @param classes - The described classes.
+ * @param interfaces - The described interfaces.
+ */
+export function setModule(
+    name: string,
+    path: string,
+    classes: Array<ClassDescriptor>,
+    interfaces: Array<InterfaceDescriptor> = []
+): void {
+    Descriptor.setDescriptors([{base: 'Module', name, path, classes, interfaces}]);
+}
@@ -0,0 +1,37 @@
+import {AdviceChain, AspectDescriptor, HandlerChain, JoinPoint, MethodDescriptor} from '@ornorm/aspectT';
+import {Account, calls, deposit} from './fixtures';
+
+describe('HandlerChain', () => {
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it('should run the before advice of compile-time woven catch clauses', () => {
+        class Recovering {
+            public logRange(e: RangeError, jp: JoinPoint): void {
+                calls.push(`${jp} ${jp.signature.name} ${e.message} ${jp.thisObject === account}`);
+            }
+        }
+        const aspects: jest.Mock = jest.fn((): Array<AspectDescriptor> => [{
+            name: 'Recovering',
+            type: Recovering,
+            advices: [{
+                name: 'logRange',
+                advice: 'before(RangeError e) : handler(RangeError+) && args(e) && withincode(* Account.deposit(..))'
+            }]
+        }]);
+        const account: Account = new Account();
+        const handler: (type: string, withinCode: MethodDescriptor) => HandlerChain =
+            (type: string, withinCode: MethodDescriptor): HandlerChain => HandlerChain.lazy(Account, HandlerChain.createShadow(
+                'Account', type, 'e', AdviceChain.createShadow('method-execution', 'Account', withinCode)
+            ), aspects);
+        const chain: HandlerChain = handler('RangeError', deposit);
+        expect(aspects).not.toHaveBeenCalled();
+        chain.handle(account, new RangeError('overflow'));
+        handler('RangeError', {...deposit, name: 'withdraw'}).handle(account, new RangeError('underflow'));
+        handler('TypeError', deposit).handle(account, new TypeError('type'));
+        expect(calls).toEqual(['handler(RangeError) e overflow true']);
+        expect(chain.mungers.length).toBe(1);
+        expect(aspects).toHaveBeenCalledTimes(1);
+    });
+});
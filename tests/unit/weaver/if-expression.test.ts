@@ -0,0 +1,85 @@
+import {
+    Aspect,
+    AspectDescriptor,
+    AspectRegistry,
+    Before,
+    Class,
+    JoinPoint,
+    PointcutSyntaxError,
+    Weaver
+} from '@ornorm/aspectT';
+import {Account, calls} from './fixtures';
+
+describe('IfExpression', () => {
+    beforeAll(() => {
+        Class.addClass('Account', Account);
+    });
+
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    afterEach(() => {
+        Weaver.unweave('Account');
+    });
+
+    it('should evaluate if() pointcuts in a restricted scope', () => {
+        class Limits {
+            public static maximum: number = 100;
+        }
+        Class.addClass('Limits', Limits);
+        @Aspect()
+        class Guarding {
+            public static enabled: boolean = true;
+
+            @Before('execution(* Account.deposit(..)) && args(amount) && if(Guarding.enabled && amount <= Limits.maximum)', 'int amount')
+            public logSmall(amount: number): void {
+                calls.push(`small ${amount}`);
+            }
+
+            @Before('execution(* Account.deposit(..)) && if(thisJoinPoint.args[0] > Limits.maximum)')
+            public logLarge(jp: JoinPoint): void {
+                calls.push(`large ${jp.args[0]}`);
+            }
+        }
+        try {
+            Weaver.weave('Account', ...AspectRegistry.getAspects());
+            const account: Account = new Account();
+            account.deposit(50);
+            account.deposit(500);
+            Guarding.enabled = false;
+            account.deposit(5);
+            expect(calls).toEqual(['small 50', 'deposit(50)', 'large 500', 'deposit(500)', 'deposit(5)']);
+        } finally {
+            AspectRegistry.clear();
+        }
+        const define: (condition: string) => AspectDescriptor = (condition: string): AspectDescriptor => {
+            class Conditional {
+                public log(): void {}
+            }
+            const aspect: AspectDescriptor = {
+                name: 'Conditional',
+                type: Conditional,
+                advices: [{name: 'log', advice: `before() : execution(* Account.*(..)) && if(${condition})`}]
+            };
+            Weaver.unweave('Account');
+            Weaver.weave('Account', aspect);
+            return aspect;
+        };
+        expect(() => define('Limits.maximum > 0 && thisJoinPointStaticPart !== undefined')).not.toThrow();
+        expect(() => define('process.exit()')).toThrow('Unknown name \'process\' in \'if()\'');
+        expect(() => define('thisJoinPoint.constructor')).toThrow('Illegal member \'constructor\' in \'if()\'');
+        expect(() => define('Limits.unknown')).toThrow('Expected static member of \'Limits\' in \'if()\'');
+        expect(() => define('Limits.maximum = 0')).toThrow(PointcutSyntaxError);
+        expect(() => define('thisJoinPoint.args[\'constructor\']')).toThrow(PointcutSyntaxError);
+        expect(() => {
+            @Aspect()
+            class Unsafe {
+                @Before('execution(* Account.*(..)) && if(this.enabled)')
+                public log(): void {}
+            }
+            return Unsafe;
+        }).toThrow(PointcutSyntaxError);
+        expect(AspectRegistry.getAspects()).toEqual([]);
+    });
+});
@@ -0,0 +1,78 @@
+import {AspectDescriptor, Class, Weaver} from '@ornorm/aspectT';
+
+describe('InterTypes', () => {
+    it('should inject inter-type member declarations', () => {
+        class Point {
+            public x: number = 0;
+
+            public toString(): string {
+                return `${this.x}`;
+            }
+        }
+        class Moving {
+            public Point$move(this: any, dx: number): number {
+                this.x += dx;
+                return this.x;
+            }
+
+            public Point$reset(this: any): void {
+                this.x = 0;
+            }
+
+            public Point$origin(this: any): any {
+                return new this();
+            }
+
+            public Point$new(this: any, x: number, label: string): void {
+                this.x = x;
+                this.label = label;
+            }
+
+            public Point$label(this: any): string {
+                return `point ${this}`;
+            }
+
+            public Point$secret(this: any): string {
+                return 'secret';
+            }
+        }
+        Class.addClass('Point', Point);
+        const moving: AspectDescriptor = {
+            name: 'Moving',
+            type: Moving,
+            advices: [{name: 'Point$move', advice: 'before() : execution(* Point.reset(..))'}],
+            interTypes: [
+                {name: 'Point$move', declaration: 'Point.move(..)'},
+                {name: 'Point$reset', declaration: 'Point.reset(..)'},
+                {name: 'Point$origin', declaration: 'static Point.origin(..)'},
+                {name: 'Point$new', declaration: 'Point.new(..)'},
+                {name: 'Point$label', declaration: 'Point.label'},
+                {name: 'Point$secret', declaration: 'private Point.secret'}
+            ]
+        };
+        expect(Weaver.weave('Point', moving)).toEqual(['reset']);
+        try {
+            const point: any = new Point();
+            expect(point.move(2)).toBe(2);
+            expect(point.label).toBe('point 2');
+            point.label = 'moved';
+            expect(point.label).toBe('moved');
+            expect(point.secret).toBeUndefined();
+            expect(point.aspectT$Moving$secret).toBe('secret');
+            expect((Point as any).origin()).toBeInstanceOf(Point);
+            const created: any = new (Class.forName('Point'))(3, 'three');
+            expect(created.x).toBe(3);
+            expect(created.label).toBe('three');
+            expect(new (Class.forName('Point'))().x).toBe(0);
+        } finally {
+            Weaver.unweave('Point');
+            Class.addClass('Point', Point);
+        }
+        expect(() => Weaver.weave('Point', {
+            ...moving, interTypes: [{name: 'Point$label', declaration: 'Point.toString(..)'}]
+        })).toThrow('IllegalArgumentException Point.toString is already declared');
+        expect(() => Weaver.weave('Point', {
+            ...moving, interTypes: [{name: 'Point$missing', declaration: 'Point.missing'}]
+        })).toThrow('NoSuchMethodException Moving.Point$missing');
+    });
+});
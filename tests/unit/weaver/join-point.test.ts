@@ -0,0 +1,46 @@
+import {
+    Class,
+    Weaver,
+    proceed,
+    thisEnclosingJoinPointStaticPart,
+    thisJoinPoint,
+    thisJoinPointStaticPart
+} from '@ornorm/aspectT';
+import {Account, calls} from './fixtures';
+
+class Tracing {
+    public trace(): any {
+        calls.push(`${thisJoinPointStaticPart} in ${thisEnclosingJoinPointStaticPart}`);
+        return proceed([thisJoinPoint!.args[0] + 1]);
+    }
+}
+
+describe('JoinPoint', () => {
+    beforeAll(() => {
+        Class.addClass('Account', Account);
+    });
+
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    afterEach(() => {
+        Weaver.unweave('Account');
+    });
+
+    it('should expose the join point to advice', () => {
+        Weaver.weave('Account', {
+            name: 'Tracing',
+            type: Tracing,
+            advices: [{name: 'trace', advice: 'Object around() : call(* deposit(..)) || execution(* deposit(..))'}]
+        });
+        expect(new Account().deposit(1)).toBe(3);
+        expect(calls).toEqual([
+            'call(any Account.deposit(any)) in undefined',
+            'execution(any Account.deposit(any)) in execution(any Account.deposit(any))',
+            'deposit(3)'
+        ]);
+        expect(thisJoinPoint).toBeUndefined();
+        expect(() => proceed()).toThrow('IllegalStateException');
+    });
+});
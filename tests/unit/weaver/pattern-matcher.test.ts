@@ -0,0 +1,57 @@
+import {Class, Descriptor, MethodDescriptor, PatternMatcher, PointcutParser, Weaver} from '@ornorm/aspectT';
+import {calls, deposit, describeClass, setModule} from './fixtures';
+
+describe('PatternMatcher', () => {
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it('should match the type patterns against the supertypes and the module paths', () => {
+        class Shape {
+            public area(): number {
+                return 0;
+            }
+        }
+        class Polygon extends Shape {
+            public area(): number {
+                calls.push('area');
+                return 1;
+            }
+        }
+        class Measuring {
+            public measure(): void {
+                calls.push('measure');
+            }
+
+            public locate(): void {
+                calls.push('locate');
+            }
+        }
+        const area: MethodDescriptor = {...deposit, name: 'area', parameters: []};
+        setModule('shapes', '/src/model', [
+            describeClass('Shape', {implementsInterfaces: ['Measurable'], methods: [area]}),
+            describeClass('Polygon', {extendsClass: ['Shape'], methods: [area]})
+        ], [{base: 'Interface', modifiers: ['export'], name: 'Measurable', methods: [area], members: []}]);
+        Class.addClass('Polygon', Polygon);
+        try {
+            Weaver.weave('Polygon', {
+                name: 'Measuring',
+                type: Measuring,
+                advices: [
+                    {name: 'measure', advice: 'before() : execution(* Measurable+.area(..)) && this(Measurable)'},
+                    {name: 'locate', advice: 'before() : execution(* model..Poly*.area(..)) && !within(Shape)'}
+                ]
+            });
+            expect(new Polygon().area()).toBe(1);
+            expect(calls).toEqual(['measure', 'locate', 'area']);
+            expect(PatternMatcher.getQualifiedName('Polygon')).toBe('src.model.shapes.Polygon');
+            expect(PatternMatcher.getSupertypes('Polygon')).toEqual(['Shape', 'Measurable', 'Object']);
+            expect(PatternMatcher.matchType(PointcutParser.parseTypePattern('(Shape+ && !Shape) || Measurable'), 'Polygon'))
+                .toBe(true);
+            expect(PatternMatcher.matchType(PointcutParser.parseTypePattern('src.*.Polygon'), 'Polygon')).toBe(false);
+        } finally {
+            Weaver.unweave('Polygon');
+            Descriptor.clearDescriptors();
+        }
+    });
+});
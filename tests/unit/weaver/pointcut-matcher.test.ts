@@ -0,0 +1,97 @@
+import {
+    ANNOTATIONS_METADATA_KEY,
+    AdviceChain,
+    Annotation,
+    Annotations,
+    AspectDescriptor,
+    Class,
+    JoinPoint,
+    Weaver
+} from '@ornorm/aspectT';
+import {Account, calls, deposit} from './fixtures';
+
+describe('PointcutMatcher', () => {
+    beforeAll(() => {
+        Class.addClass('Account', Account);
+    });
+
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    afterEach(() => {
+        Weaver.unweave('Account');
+    });
+
+    it('should bind the context of the join point to the advice parameters', () => {
+        class Savings extends Account {}
+        class Binding {
+            public bindAll(amount: number, account: Account, audit: Annotation, jp: JoinPoint): void {
+                calls.push(`${jp.kind} ${amount} ${account.constructor.name} ${audit.name}(${audit.values})`);
+            }
+
+            public bindString(note: string): void {
+                calls.push(`note ${note}`);
+            }
+        }
+        Class.addClass('Savings', Savings);
+        Annotations.annotate(Account, {name: 'Audited', values: ['ledger']});
+        Weaver.weave('Account', {
+            name: 'Binding',
+            type: Binding,
+            pointcuts: [{name: 'depositing', formals: 'Account a, int i', pointcut: 'execution(* deposit(..)) && this(a) && args(i)'}],
+            advices: [
+                {name: 'bindAll', advice: 'before(int amount, Savings account, Audited audit) : depositing(account, amount) && @target(audit)'},
+                {name: 'bindString', advice: 'before(String note) : execution(* deposit(..)) && args(note)'}
+            ]
+        });
+        try {
+            new Savings().deposit(3);
+            new Account().deposit(4);
+            expect(calls).toEqual([
+                'method-execution 3 Savings Audited(ledger)', 'deposit(3)', 'deposit(4)'
+            ]);
+        } finally {
+            Reflect.deleteMetadata(ANNOTATIONS_METADATA_KEY, Account);
+        }
+    });
+
+    it('should match and bind the annotations of the members and the types', () => {
+        class Transactions {
+            public begin(tx: Annotation, jp: JoinPoint): void {
+                calls.push(`${tx.name}(${tx.values}) ${jp.signature.name}`);
+            }
+
+            public audit(): void {
+                calls.push('audited');
+            }
+        }
+        const transactions: AspectDescriptor = {
+            name: 'Transactions',
+            type: Transactions,
+            advices: [
+                {name: 'begin', advice: 'before(Transactional tx) : execution(* *(..)) && @annotation(tx)'},
+                {name: 'audit', advice: 'before() : execution(* *(..)) && @within(Audited) && !@annotation(Transactional)'}
+            ]
+        };
+        Annotations.annotate(Account, {name: 'Audited', values: []});
+        Annotations.annotate(Account.prototype, {name: 'Transactional', values: ['required']}, 'withdraw');
+        Weaver.weave('Account', transactions);
+        try {
+            const account: Account = new Account();
+            account.deposit(2);
+            account.withdraw(1);
+            expect(calls).toEqual(['audited', 'deposit(2)', 'Transactional(required) withdraw', 'withdraw(1)']);
+            Weaver.unweave('Account');
+            calls.length = 0;
+            const chain: AdviceChain = AdviceChain.lazy(Account, 'Account', {
+                ...deposit, annotations: [{name: 'Transactional', values: ['mandatory']}]
+            }, () => [transactions]);
+            chain.invoke(Account.prototype.deposit, account, [1]);
+            expect(calls).toEqual(['Transactional(mandatory) deposit', 'deposit(1)']);
+        } finally {
+            Reflect.deleteMetadata(ANNOTATIONS_METADATA_KEY, Account);
+            Reflect.deleteMetadata(ANNOTATIONS_METADATA_KEY, Account.prototype, 'withdraw');
+        }
+    });
+});
@@ -0,0 +1,62 @@
+import {AdviceDescriptor, AspectDescriptor, Class, Weaver} from '@ornorm/aspectT';
+import {Account, auditing, calls} from './fixtures';
+
+describe('AspectPrecedence', () => {
+    beforeAll(() => {
+        Class.addClass('Account', Account);
+    });
+
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    afterEach(() => {
+        Weaver.unweave('Account');
+    });
+
+    it('should order aspects by declare precedence', () => {
+        class Security {
+            public check(): void {
+                calls.push('security');
+            }
+        }
+        class Logging {
+            public log(): void {
+                calls.push('logging');
+            }
+        }
+        class FileLogging extends Logging {}
+        class Caching {
+            public cache(): void {
+                calls.push('caching');
+            }
+        }
+        const advices: (name: string) => Array<AdviceDescriptor> = (name: string): Array<AdviceDescriptor> => [
+            {name, advice: 'before() : execution(* Account.deposit(..))'}
+        ];
+        const security: AspectDescriptor = {
+            name: 'Security', type: Security, advices: advices('check'), precedence: ['Security, Logging+, *']
+        };
+        const logging: AspectDescriptor = {name: 'FileLogging', type: FileLogging, advices: advices('log')};
+        const caching: AspectDescriptor = {name: 'Caching', type: Caching, advices: advices('cache')};
+        Class.addClass('Logging', Logging);
+        Class.addClass('FileLogging', FileLogging);
+        Weaver.weave('Account', caching, logging, security);
+        new Account().deposit(1);
+        expect(calls).toEqual(['security', 'logging', 'caching', 'deposit(1)']);
+        Weaver.unweave('Account');
+        expect(() => Weaver.weave('Account', security, {...caching, precedence: ['Caching, Security']}))
+            .toThrow('IllegalStateException circular declare precedence between Security, Caching');
+    });
+
+    it('should reject circular advice precedence within an aspect', () => {
+        expect(() => Weaver.weave('Account', {
+            ...auditing,
+            advices: [
+                {name: 'logBefore', advice: 'before() : execution(* Account.deposit(..))'},
+                {name: 'logAfter', advice: 'after() : execution(* Account.deposit(..))'},
+                {name: 'double', advice: 'Object around() : execution(* Account.deposit(..))'}
+            ]
+        })).toThrow('IllegalStateException circular advice precedence in Auditing between logBefore, logAfter, double');
+    });
+});
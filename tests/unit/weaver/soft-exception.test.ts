@@ -0,0 +1,41 @@
+import {Class, SoftException, Weaver} from '@ornorm/aspectT';
+
+describe('SoftException', () => {
+    it('should wrap softened errors in SoftException', async () => {
+        class IOException extends Error {}
+        class FileNotFoundException extends IOException {}
+        class Files {
+            public read(name: string): string {
+                throw name === 'missing' ? new FileNotFoundException(name) : new RangeError(name);
+            }
+
+            public async load(name: string): Promise<string> {
+                return this.read(name);
+            }
+        }
+        class Softening {}
+        Class.addClass('Files', Files);
+        Class.addClass('IOException', IOException);
+        Weaver.weave('Files', {
+            name: 'Softening',
+            type: Softening,
+            advices: [],
+            softs: [{type: 'IOException', pointcut: 'execution(* Files.*(..))'}]
+        });
+        try {
+            let error: any;
+            try {
+                new Files().read('missing');
+            } catch (e) {
+                error = e;
+            }
+            expect(error).toBeInstanceOf(SoftException);
+            expect(error.cause).toBeInstanceOf(FileNotFoundException);
+            expect(error.message).toBe('missing');
+            expect(() => new Files().read('other')).toThrow(RangeError);
+            await expect(new Files().load('missing')).rejects.toBeInstanceOf(SoftException);
+        } finally {
+            Weaver.unweave('Files');
+        }
+    });
+});
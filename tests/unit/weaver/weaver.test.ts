@@ -0,0 +1,102 @@
+import {AspectDescriptor, Class, Weaver} from '@ornorm/aspectT';
+import {Account, auditing, calls} from './fixtures';
+
+describe('Weaver', () => {
+    beforeAll(() => {
+        Class.addClass('Account', Account);
+    });
+
+    beforeEach(() => {
+        calls.length = 0;
+        Weaver.weave('Account', auditing);
+    });
+
+    afterEach(() => {
+        Weaver.unweave('Account');
+    });
+
+    it('should weave the matching methods only', () => {
+        Weaver.unweave('Account');
+        expect(Weaver.weave('Account', auditing)).toEqual(['deposit', 'withdraw']);
+        expect(Weaver.isWoven('Account')).toBe(true);
+    });
+
+    it('should nest advice by precedence', () => {
+        expect(new Account().deposit(5)).toBe(10);
+        expect(calls).toEqual([
+            'before method-call deposit',
+            'around',
+            'deposit(10)',
+            'returning 10',
+            'after'
+        ]);
+    });
+
+    it('should run after throwing advice and rethrow', () => {
+        expect(() => new Account().withdraw(3)).toThrow('insufficient funds');
+        expect(calls).toEqual(['withdraw(3)', 'throwing insufficient funds', 'after']);
+    });
+
+    it('should evaluate args() at runtime', () => {
+        const account: Account = new Account();
+        Reflect.apply(account.withdraw, account, ['0']);
+        expect(calls).toEqual(['withdraw(0)']);
+    });
+
+    it('should restore the original methods', () => {
+        Weaver.unweave('Account');
+        new Account().deposit(1);
+        expect(calls).toEqual(['deposit(1)']);
+        expect(Object.getOwnPropertyNames(Account.prototype)).toEqual(['constructor', 'deposit', 'withdraw']);
+    });
+
+    it('should reject unknown classes and advice methods', () => {
+        expect(() => Weaver.weave('Unknown', auditing)).toThrow('ClassNotFoundException');
+        Weaver.unweave('Account');
+        expect(() => Weaver.weave('Account', {
+            ...auditing,
+            advices: [{name: 'missing', advice: 'before() : call(* *(..))'}]
+        })).toThrow('NoSuchMethodException Auditing.missing');
+    });
+
+    it('should leave the class unchanged when weaving fails', () => {
+        class Shape {}
+        class Square extends Shape {}
+        class Circle {
+            public radius: number = 1;
+        }
+        class Rounding {
+            public Circle$round(this: any): number {
+                return Math.round(this.radius);
+            }
+        }
+        class Security {}
+        Class.addClass('Square', Square);
+        Class.addClass('Circle', Circle);
+        const rounding: AspectDescriptor = {
+            name: 'Rounding',
+            type: Rounding,
+            advices: [],
+            parents: ['Circle extends Square'],
+            interTypes: [{name: 'Circle$round', declaration: 'Circle.round(..)'}],
+            precedence: ['Rounding, Security']
+        };
+        const security: AspectDescriptor = {
+            name: 'Security', type: Security, advices: [], precedence: ['Security, Rounding']
+        };
+        const names: Array<string> = Object.getOwnPropertyNames(Circle.prototype);
+        expect(() => Weaver.weave('Circle', rounding, security))
+            .toThrow('IllegalStateException circular declare precedence between Rounding, Security');
+        expect(Object.getPrototypeOf(Circle.prototype)).toBe(Object.prototype);
+        expect(Object.getPrototypeOf(Circle)).toBe(Function.prototype);
+        expect(Object.getOwnPropertyNames(Circle.prototype)).toEqual(names);
+        expect(Weaver.isWoven('Circle')).toBe(false);
+        Weaver.weave('Circle', rounding);
+        try {
+            expect(new Circle()).toBeInstanceOf(Square);
+            expect((new Circle() as any).round()).toBe(1);
+        } finally {
+            Weaver.unweave('Circle');
+        }
+    });
+});